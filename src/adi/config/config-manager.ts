@@ -1,5 +1,9 @@
-import { CertusAdiValtConfig, Environment, LogLevel } from '../../types';
+import { CertusAdiValtConfig, Environment, LogLevel, LogSamplingRule } from '../../types';
 import { CertusAdiValtError } from '../../certus';
+import { RouteMatcher } from '../utils/route-matcher';
+
+/** Status code (`'404'`) or status class (`'4xx'`) keying an error log level */
+const STATUS_KEY_PATTERN = /^[1-5](?:\d\d|xx)$/;
 
 /**
  * Singleton configuration manager for the CertusAdiValt system.
@@ -30,6 +34,7 @@ export class ConfigManager {
   private static instance: ConfigManager;
   private config: CertusAdiValtConfig;
   private isInitialized = false;
+  private skipPathMatcher?: RouteMatcher;
 
   /**
    * Private constructor to enforce singleton pattern.
@@ -81,6 +86,8 @@ export class ConfigManager {
         logErrors: true,
         exposeDetails: environment === 'development',
         formatError: undefined,
+        logLevels: { '4xx': LogLevel.WARN, '5xx': LogLevel.ERROR },
+        silentCodes: [],
       },
       logger: {
         level: this.getLogLevel(environment),
@@ -90,11 +97,15 @@ export class ConfigManager {
         prettyPrint: environment === 'development',
         timestampFormat: 'ISO',
         version: process.env.APP_VERSION || '1.0.0',
+        transports: undefined,
+        async: false,
       },
       responses: {
         includeTimestamp: true,
         includeRequestId: true,
         successMessage: undefined,
+        errorFormat: 'standard',
+        problemTypeBaseUri: undefined,
         pagination: {
           defaultPage: 1,
           defaultLimit: 20,
@@ -106,6 +117,7 @@ export class ConfigManager {
         enableLogging: true,
         enableSecurity: true,
         skipPaths: ['/health', '/metrics', '/favicon.ico'],
+        logSampling: undefined,
       },
     };
   }
@@ -175,7 +187,9 @@ export class ConfigManager {
    * @throws {CertusAdiValtError} CFG_INVALID_LOG_LEVEL - When log level is outside valid range
    * @throws {CertusAdiValtError} CFG_INVALID_SERVICE_NAME - When service name is missing or invalid
    * @throws {CertusAdiValtError} CFG_INVALID_PAGINATION - When pagination settings are invalid
-   * @throws {CertusAdiValtError} CFG_INVALID_SKIP_PATHS - When middleware skip paths is not an array
+   * @throws {CertusAdiValtError} CFG_INVALID_SKIP_PATHS - When middleware skip paths is not an
+   *         array of valid route patterns
+   * @throws {CertusAdiValtError} CFG_INVALID_LOG_SAMPLING - When a log sampling rule is invalid
    *
    * @example
    * ```typescript
@@ -254,15 +268,49 @@ export class ConfigManager {
    *         missing, empty, or not a string
    * @throws {CertusAdiValtError} CFG_INVALID_PAGINATION - When pagination settings
    *         are invalid (defaultPage < 1, or defaultLimit outside 1-maxLimit range)
+   * @throws {CertusAdiValtError} CFG_INVALID_TRANSPORTS - When logger transports is
+   *         set but not an array
    * @throws {CertusAdiValtError} CFG_INVALID_SKIP_PATHS - When middleware skipPaths
-   *         is not an array
+   *         is not an array, or holds an invalid route pattern
+   * @throws {CertusAdiValtError} CFG_INVALID_LOG_SAMPLING - When middleware logSampling
+   *         is not an array of rules with a valid route and a rate between 0 and 1
+   * @throws {CertusAdiValtError} CFG_INVALID_ERROR_LOGGING - When errors logLevels has a
+   *         key that is not a status code or class (`'404'`, `'4xx'`) or an invalid level,
+   *         or silentCodes is not an array of strings
    *
    * @remarks
    * This method is called automatically during initialization and configuration updates
    * to ensure configuration integrity throughout the application lifecycle.
    */
   private validateConfig(): void {
-    const { logger, responses, middleware } = this.config;
+    const { errors, logger, responses, middleware } = this.config;
+
+    // Validate error logging configuration
+    if (
+      !Object.entries(errors.logLevels ?? {}).every(
+        ([status, level]) =>
+          STATUS_KEY_PATTERN.test(status) && level >= LogLevel.ERROR && level <= LogLevel.TRACE
+      )
+    ) {
+      throw new CertusAdiValtError(
+        'Error log levels must map status codes or classes to log levels',
+        'CFG_INVALID_ERROR_LOGGING',
+        400,
+        { logLevels: errors.logLevels }
+      );
+    }
+
+    if (
+      errors.silentCodes !== undefined &&
+      (!Array.isArray(errors.silentCodes) ||
+        !errors.silentCodes.every((code) => typeof code === 'string'))
+    ) {
+      throw new CertusAdiValtError(
+        'Silent error codes must be an array of strings',
+        'CFG_INVALID_ERROR_LOGGING',
+        400
+      );
+    }
 
     // Validate logger configuration
     if (logger.level < LogLevel.ERROR || logger.level > LogLevel.TRACE) {
@@ -275,6 +323,14 @@ export class ConfigManager {
       throw new CertusAdiValtError('Service name is required', 'CFG_INVALID_SERVICE_NAME', 400);
     }
 
+    if (logger.transports !== undefined && !Array.isArray(logger.transports)) {
+      throw new CertusAdiValtError(
+        'Log transports must be an array',
+        'CFG_INVALID_TRANSPORTS',
+        400
+      );
+    }
+
     // Validate pagination configuration
     if (responses.pagination.defaultPage < 1) {
       throw new CertusAdiValtError(
@@ -299,6 +355,50 @@ export class ConfigManager {
     if (!Array.isArray(middleware.skipPaths)) {
       throw new CertusAdiValtError('Skip paths must be an array', 'CFG_INVALID_SKIP_PATHS', 400);
     }
+
+    try {
+      this.skipPathMatcher = new RouteMatcher(middleware.skipPaths);
+    } catch (error) {
+      throw new CertusAdiValtError(
+        'Skip paths must be valid route patterns',
+        'CFG_INVALID_SKIP_PATHS',
+        400,
+        (error as CertusAdiValtError).context
+      );
+    }
+
+    // Validate log sampling rules
+    if (middleware.logSampling !== undefined) {
+      if (
+        !Array.isArray(middleware.logSampling) ||
+        !middleware.logSampling.every((rule) => this.isValidSamplingRule(rule))
+      ) {
+        throw new CertusAdiValtError(
+          'Log sampling rules must have a valid route and a rate between 0 and 1',
+          'CFG_INVALID_LOG_SAMPLING',
+          400
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks that a log sampling rule has a valid route and a rate between 0 and 1.
+   *
+   * @param {LogSamplingRule} rule - Rule to check
+   * @returns {boolean} True if the rule is valid
+   */
+  private isValidSamplingRule(rule: LogSamplingRule): boolean {
+    if (!rule || !(rule.rate >= 0 && rule.rate <= 1)) {
+      return false;
+    }
+
+    try {
+      new RouteMatcher([rule.route]);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   // Getters for specific configuration sections
@@ -339,6 +439,8 @@ export class ConfigManager {
    *          - logErrors: boolean - Whether to log errors internally
    *          - exposeDetails: boolean - Whether to expose details to clients
    *          - formatError: function - Optional custom error formatter
+   *          - logLevels: Record<string, LogLevel> - Log level by status code or class
+   *          - silentCodes: string[] - Error codes that are never logged
    */
   getErrorsConfig() {
     return { ...this.config.errors };
@@ -355,6 +457,8 @@ export class ConfigManager {
    *          - prettyPrint: boolean - Whether to use pretty printing
    *          - timestampFormat: string - Timestamp format
    *          - version: string - Application version
+   *          - transports: LogTransport[] - Optional log destinations (console by default)
+   *          - async: boolean | AsyncLoggingOptions - Buffered asynchronous logging (off by default)
    */
   getLoggerConfig() {
     return { ...this.config.logger };
@@ -367,6 +471,8 @@ export class ConfigManager {
    *          - includeTimestamp: boolean - Whether to include timestamps
    *          - includeRequestId: boolean - Whether to include request IDs
    *          - successMessage: string - Optional default success message
+   *          - errorFormat: ErrorResponseFormat - Error wire format (standard, problem, negotiate)
+   *          - problemTypeBaseUri: string - Optional base URI for Problem Details `type`
    *          - pagination: Object - Pagination settings (defaultPage, defaultLimit, maxLimit)
    */
   getResponsesConfig() {
@@ -379,13 +485,35 @@ export class ConfigManager {
    * @returns {Object} Middleware configuration containing settings for:
    *          - enableErrorHandler: boolean - Whether to enable error handler
    *          - enableLogging: boolean - Whether to enable logging
-   *          - enableSecurity: boolean - Whether to enable security
-   *          - skipPaths: string[] - Paths to skip middleware processing
+   *          - enableSecurity: boolean - Whether SecurityMiddleware sends security headers
+   *          - skipPaths: RoutePattern[] - Requests skipped by the request middleware
+   *          - logSampling: LogSamplingRule[] - Optional sampling rates of request logging per route
    */
   getMiddlewareConfig() {
     return { ...this.config.middleware };
   }
 
+  /**
+   * Gets the matcher of the middleware `skipPaths` setting, compiled once per
+   * configuration change.
+   *
+   * @returns {RouteMatcher} Matcher of the requests the middleware skip
+   *
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => {
+   *   if (configManager.getSkipPathMatcher().matches(req)) {
+   *     return next();
+   *   }
+   *   // ...
+   * });
+   * ```
+   */
+  getSkipPathMatcher(): RouteMatcher {
+    this.skipPathMatcher ??= new RouteMatcher(this.config.middleware.skipPaths);
+    return this.skipPathMatcher;
+  }
+
   // Environment-specific helpers
 
   /**
@@ -674,5 +802,6 @@ export class ConfigManager {
   reset(): void {
     this.config = this.getDefaultConfig();
     this.isInitialized = false;
+    this.skipPathMatcher = undefined;
   }
 }
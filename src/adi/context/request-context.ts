@@ -0,0 +1,120 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestContext } from '../../types';
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Request-scoped context store backed by AsyncLocalStorage.
+ *
+ * Makes request fields (requestId, userId, sessionId, tenant and arbitrary
+ * fields) available to any code running inside the request, including across
+ * `await` boundaries, without passing them explicitly. ValtLogger merges the
+ * current context into every log entry, new CertusAdiValtError instances capture
+ * it into their `context`, and CertusResponseBuilder uses its `requestId` when
+ * none is given.
+ *
+ * All methods are static and can be used without instantiating the class.
+ *
+ * @example
+ * ```typescript
+ * // CorrelationMiddleware opens a context for every request
+ * app.use(new CorrelationMiddleware().generateRequestId());
+ *
+ * // Authentication middleware enriches it
+ * app.use((req, res, next) => {
+ *   RequestContextStore.set({ userId: req.user.id, tenant: req.user.tenant });
+ *   next();
+ * });
+ *
+ * // Deep service code reads it
+ * const tenant = RequestContextStore.getValue('tenant');
+ * ```
+ */
+export class RequestContextStore {
+  /**
+   * Runs a function inside a new context.
+   *
+   * The new context inherits the fields of the current context (if any), with
+   * the given fields taking precedence. Changes made inside never leak into the
+   * outer context.
+   *
+   * @template T - The return type of the function
+   * @param {RequestContext} context - Fields of the new context
+   * @param {() => T} fn - The function to run
+   * @returns {T} The result of the function
+   *
+   * @example
+   * ```typescript
+   * RequestContextStore.run({ requestId: 'job_42', tenant: 'acme' }, async () => {
+   *   await processJob(); // logs and errors carry requestId and tenant
+   * });
+   * ```
+   */
+  static run<T>(context: RequestContext, fn: () => T): T {
+    return storage.run({ ...storage.getStore(), ...context }, fn);
+  }
+
+  /**
+   * Gets a copy of the current context.
+   *
+   * @returns {RequestContext | undefined} The current context, or undefined outside any context
+   *
+   * @example
+   * ```typescript
+   * const context = RequestContextStore.get();
+   * // { requestId: 'abc-123', userId: 'user_456' }
+   * ```
+   */
+  static get(): RequestContext | undefined {
+    const context = storage.getStore();
+    return context && { ...context };
+  }
+
+  /**
+   * Gets a single field of the current context.
+   *
+   * @template K - The field name
+   * @param {K} key - The field to read
+   * @returns {RequestContext[K] | undefined} The field value, or undefined when not set
+   *
+   * @example
+   * ```typescript
+   * const requestId = RequestContextStore.getValue('requestId');
+   * ```
+   */
+  static getValue<K extends keyof RequestContext>(key: K): RequestContext[K] | undefined {
+    return storage.getStore()?.[key];
+  }
+
+  /**
+   * Merges fields into the current context.
+   *
+   * Outside any context this is a no-op; use `run()` to open one.
+   *
+   * @param {RequestContext} fields - Fields to add or overwrite
+   * @returns {boolean} True if a context was active and has been updated
+   *
+   * @example
+   * ```typescript
+   * RequestContextStore.set({ userId: user.id, sessionId: session.id });
+   * ```
+   */
+  static set(fields: RequestContext): boolean {
+    const context = storage.getStore();
+    if (!context) {
+      return false;
+    }
+
+    Object.assign(context, fields);
+    return true;
+  }
+
+  /**
+   * Checks whether code is running inside a context.
+   *
+   * @returns {boolean} True if a context is active
+   */
+  static isActive(): boolean {
+    return storage.getStore() !== undefined;
+  }
+}
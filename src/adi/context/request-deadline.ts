@@ -0,0 +1,220 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CertusOperationTimeoutError } from '../../certus';
+import { DeadlineInfo, TimeoutOptions } from '../../types';
+
+/**
+ * A deadline scope opened by `RequestDeadline.run()`.
+ */
+interface DeadlineScope {
+  deadline: number;
+  startedAt: number;
+  budgetMs: number;
+  operation?: string;
+  controller: AbortController;
+}
+
+const storage = new AsyncLocalStorage<DeadlineScope>();
+
+/** Longest delay setTimeout supports; longer budgets never expire */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Request-scoped deadlines backed by AsyncLocalStorage.
+ *
+ * A deadline scope bounds the time of everything running inside it, across
+ * `await` boundaries. Scopes nest: a nested scope never outlives its parent, so
+ * a 5 second budget inside a request with 2 seconds left gets 2 seconds. When a
+ * deadline expires, the scope's signal aborts with a `CertusOperationTimeoutError`
+ * (504, `GEN_TIMEOUT`) holding the budget and elapsed time, which is passed on to
+ * any operation given the signal (`fetch()`, database drivers, `withTimeout()`).
+ *
+ * Deadlines are kept apart from RequestContextStore, so they do not end up in
+ * logs and error contexts. All methods are static and can be used without
+ * instantiating the class.
+ *
+ * @example
+ * ```typescript
+ * // DeadlineMiddleware opens a scope for every request
+ * app.use(new DeadlineMiddleware({ defaultTimeoutMs: 10000 }).handle());
+ *
+ * // Deep service code forwards the signal and propagates the remaining budget
+ * const response = await fetch(inventoryUrl, {
+ *   signal: RequestDeadline.signal(),
+ *   headers: { 'x-request-timeout': String(RequestDeadline.remaining()) },
+ * });
+ * ```
+ */
+export class RequestDeadline {
+  /**
+   * Runs a function inside a new deadline scope.
+   *
+   * The deadline is the earlier of `budgetMs` from now and the deadline of the
+   * current scope. The scope's signal also aborts when the parent scope or the
+   * given signal aborts, with their reason. The scope ends when the function
+   * returns or, for a promise, when it settles.
+   *
+   * @template T - The return type of the function
+   * @param {number} budgetMs - Time budget in milliseconds
+   * @param {() => T} fn - The function to run
+   * @param {TimeoutOptions} [options={}] - Operation name and caller signal
+   * @returns {T} The result of the function
+   *
+   * @example
+   * ```typescript
+   * await RequestDeadline.run(30000, () => processJob(job), { operation: 'nightly-export' });
+   * ```
+   */
+  static run<T>(budgetMs: number, fn: () => T, options: TimeoutOptions = {}): T {
+    const parent = storage.getStore();
+    const startedAt = Date.now();
+    const deadline = Math.min(startedAt + Math.max(budgetMs, 0), parent?.deadline ?? Infinity);
+    const scope: DeadlineScope = {
+      deadline,
+      startedAt,
+      budgetMs: deadline - startedAt,
+      operation: options.operation,
+      controller: new AbortController(),
+    };
+
+    const sources = [parent?.controller.signal, options.signal].filter(
+      (signal): signal is AbortSignal => signal !== undefined
+    );
+    const onSourceAbort = (event: Event): void => {
+      scope.controller.abort((event.target as AbortSignal).reason);
+    };
+    const timer =
+      scope.budgetMs <= MAX_TIMER_DELAY
+        ? setTimeout(() => expire(scope), scope.budgetMs)
+        : undefined;
+    timer?.unref?.();
+
+    const end = (): void => {
+      clearTimeout(timer);
+      sources.forEach((signal) => signal.removeEventListener('abort', onSourceAbort));
+    };
+    scope.controller.signal.addEventListener('abort', end, { once: true });
+
+    const aborted = sources.find((signal) => signal.aborted);
+    if (aborted) {
+      scope.controller.abort(aborted.reason);
+    } else if (scope.budgetMs <= 0) {
+      expire(scope);
+    } else {
+      sources.forEach((signal) => signal.addEventListener('abort', onSourceAbort, { once: true }));
+    }
+
+    let result: T;
+    try {
+      result = storage.run(scope, fn);
+    } catch (error) {
+      end();
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      result.then(end, end);
+    } else {
+      end();
+    }
+    return result;
+  }
+
+  /**
+   * Gets the deadline of the current scope.
+   *
+   * @returns {DeadlineInfo | undefined} The deadline, or undefined outside any deadline scope
+   *
+   * @example
+   * ```typescript
+   * const { remainingMs } = RequestDeadline.get() ?? { remainingMs: Infinity };
+   * ```
+   */
+  static get(): DeadlineInfo | undefined {
+    const scope = storage.getStore();
+    return (
+      scope && {
+        deadline: new Date(scope.deadline),
+        budgetMs: scope.budgetMs,
+        remainingMs: Math.max(scope.deadline - Date.now(), 0),
+      }
+    );
+  }
+
+  /**
+   * Gets the time left before the current deadline.
+   *
+   * @returns {number | undefined} Milliseconds left (0 once expired), or undefined
+   *          outside any deadline scope
+   *
+   * @example
+   * ```typescript
+   * // Never wait for a lock longer than the request may still run
+   * await lock.acquire(key, { waitMs: Math.min(5000, RequestDeadline.remaining() ?? 5000) });
+   * ```
+   */
+  static remaining(): number | undefined {
+    return RequestDeadline.get()?.remainingMs;
+  }
+
+  /**
+   * Gets the signal of the current scope, aborted when its deadline expires.
+   *
+   * @returns {AbortSignal | undefined} The signal, or undefined outside any deadline scope
+   *
+   * @example
+   * ```typescript
+   * const rows = await pool.query({ text: sql, values, signal: RequestDeadline.signal() });
+   * ```
+   */
+  static signal(): AbortSignal | undefined {
+    return storage.getStore()?.controller.signal;
+  }
+
+  /**
+   * Throws when the current deadline has expired, e.g. between the steps of a long job.
+   *
+   * @throws {CertusOperationTimeoutError} When the deadline has expired
+   * @throws {unknown} The abort reason, when the scope was aborted by its parent or caller
+   *
+   * @example
+   * ```typescript
+   * for (const batch of batches) {
+   *   RequestDeadline.throwIfExpired();
+   *   await importBatch(batch);
+   * }
+   * ```
+   */
+  static throwIfExpired(): void {
+    const scope = storage.getStore();
+    if (!scope) {
+      return;
+    }
+
+    // Timers may fire late under load, so check the clock as well
+    if (!scope.controller.signal.aborted && Date.now() >= scope.deadline) {
+      expire(scope);
+    }
+    scope.controller.signal.throwIfAborted();
+  }
+}
+
+/**
+ * Aborts a scope with a timeout error holding its budget and elapsed time.
+ *
+ * @private
+ * @param {DeadlineScope} scope - The expired scope
+ */
+function expire(scope: DeadlineScope): void {
+  const { operation, budgetMs, startedAt } = scope;
+  const message = operation
+    ? `Operation '${operation}' timed out after ${budgetMs} ms`
+    : `Deadline of ${budgetMs} ms exceeded`;
+
+  scope.controller.abort(
+    new CertusOperationTimeoutError(message, {
+      ...(operation && { operation }),
+      budgetMs,
+      elapsedMs: Date.now() - startedAt,
+    })
+  );
+}
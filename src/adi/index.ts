@@ -1,2 +1,3 @@
 export * from './config';
+export * from './context';
 export * from './utils';
@@ -1,4 +1,5 @@
-import { CertusAdiValtError } from '../../certus';
+import { randomBytes } from 'crypto';
+import { CertusAdiValtError, isCircuitOpenError } from '../../certus';
 
 /**
  * A collection of common utility functions used throughout the CertusAdiValt system.
@@ -176,13 +177,19 @@ export class CommonUtils {
    * @param {(error: Error) => boolean} [options.shouldRetry=() => true] - Function to determine if error should be retried
    * @returns {Promise<T>} Promise resolving with the result of the successful function call
    *
-   * @throws {CertusAdiValtError} UTL_RETRY_EXHAUSTED - When all retry attempts are exhausted
+   * @throws {CertusAdiValtError} UTL_RETRY_EXHAUSTED - When all retry attempts are exhausted,
+   *         with the last failure as its cause
    * @throws {Error} The original error if shouldRetry returns false
+   * @throws {CertusCircuitOpenError} As is, when a circuit breaker rejects the call
    *
    * @remarks
    * - Delay pattern: delayMs, delayMs * backoffMultiplier, delayMs * backoffMultiplier^2, etc.
    * - The shouldRetry function receives the caught error and should return true to retry
    * - If shouldRetry returns false, the original error is thrown immediately
+   * - Calls rejected by an open circuit breaker are not retried: the dependency was not
+   *   called, and the circuit keeps rejecting calls until it half-opens
+   * - For jitter, a maximum delay, a deadline, cancellation or retrying only transient
+   *   errors, use `RetryPolicy` instead
    *
    * @example
    * ```typescript
@@ -199,6 +206,9 @@ export class CommonUtils {
    *     shouldRetry: (error) => error.statusCode >= 500
    *   }
    * );
+   *
+   * // Retry through a circuit breaker: each attempt is recorded by the breaker
+   * const rates = await CommonUtils.retry(ratesBreaker.wrap(() => ratesApi.get('EUR')));
    * ```
    */
   static async retry<T>(
@@ -226,12 +236,17 @@ export class CommonUtils {
       } catch (error) {
         lastError = error as Error;
 
+        if (isCircuitOpenError(lastError)) {
+          throw lastError;
+        }
+
         if (!shouldRetry(lastError) || attempt === maxAttempts) {
           throw new CertusAdiValtError(
             `Operation failed after ${attempt} attempts`,
             'UTL_RETRY_EXHAUSTED',
             500,
-            { originalError: lastError, attempts: attempt }
+            { attempts: attempt },
+            lastError instanceof Error ? lastError : undefined
           );
         }
 
@@ -511,6 +526,63 @@ export class CommonUtils {
     return `${prefix}${timestamp}${random}`;
   }
 
+  /**
+   * Generate a time-ordered UUID version 7 (RFC 9562).
+   * IDs generated in different milliseconds sort by creation time.
+   *
+   * @returns {string} UUIDv7 string in canonical 8-4-4-4-12 format
+   *
+   * @remarks
+   * Layout: 48-bit Unix timestamp in milliseconds, version nibble `7`,
+   * 12 random bits, variant bits `10`, 62 random bits.
+   *
+   * @example
+   * ```typescript
+   * CommonUtils.generateUuidV7(); // "018f3e5c-9a4b-7c2d-8e1f-3a5b7c9d1e2f"
+   * ```
+   */
+  static generateUuidV7(): string {
+    const bytes = randomBytes(16);
+    bytes.writeUIntBE(Date.now(), 0, 6);
+    bytes[6] = (bytes[6] & 0x0f) | 0x70;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+    const hex = bytes.toString('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+
+  /**
+   * Generate a ULID (Universally Unique Lexicographically Sortable Identifier).
+   * IDs generated in different milliseconds sort by creation time.
+   *
+   * @returns {string} 26-character Crockford base32 ULID
+   *
+   * @remarks
+   * Format: 10 characters of millisecond timestamp + 16 characters of randomness (80 bits)
+   *
+   * @example
+   * ```typescript
+   * CommonUtils.generateUlid(); // "01HXAF3N5Q8T2V6W9Y0Z1B3C4D"
+   * ```
+   */
+  static generateUlid(): string {
+    const alphabet = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+    let time = Date.now();
+    let timePart = '';
+
+    for (let i = 0; i < 10; i++) {
+      timePart = alphabet.charAt(time % 32) + timePart;
+      time = Math.floor(time / 32);
+    }
+
+    let randomPart = '';
+    for (const byte of randomBytes(16)) {
+      randomPart += alphabet.charAt(byte & 31);
+    }
+
+    return `${timePart}${randomPart}`;
+  }
+
   /**
    * Mask sensitive data in strings, showing only specified number of characters at ends.
    *
@@ -1 +1,2 @@
 export * from './common-utils';
+export * from './route-matcher';
@@ -0,0 +1,188 @@
+import { CertusConfigurationError } from '../../certus';
+import { MatchableRequest, RouteMatchMode, RoutePattern } from '../../types';
+
+/** Leading comma-separated methods of a string pattern, e.g. `GET,HEAD /status` */
+const METHOD_PREFIX = /^([A-Za-z]+(?:,[A-Za-z]+)*)\s+(\S.*)$/;
+
+/**
+ * Compiled pattern of a RouteMatcher.
+ */
+interface CompiledRoute {
+  methods?: string[];
+  test: (path: string) => boolean;
+}
+
+/**
+ * Matches requests against a list of route patterns.
+ *
+ * Patterns are compiled once, when the matcher is created. A request matches when
+ * any pattern matches both its method and its path; paths are compared without a
+ * trailing slash. String patterns are exact unless they contain a `*` wildcard
+ * (`*` within a segment, `**` across segments) and may start with the methods they
+ * apply to; regular expressions are tested against the path; rule objects choose
+ * the mode (`exact`, `prefix` or `glob`) explicitly.
+ *
+ * @class RouteMatcher
+ *
+ * @example
+ * ```typescript
+ * const matcher = new RouteMatcher([
+ *   '/health',                                 // exact
+ *   'GET /metrics',                            // method-aware
+ *   '/static/**',                              // glob
+ *   /^\/internal\//,                           // regular expression
+ *   { path: '/admin', match: 'prefix', methods: ['POST', 'DELETE'] },
+ * ]);
+ *
+ * matcher.matches(req);                        // Express request
+ * matcher.test('/static/css/app.css');         // true
+ * matcher.test('/metrics', 'POST');            // false
+ * ```
+ */
+export class RouteMatcher {
+  private routes: CompiledRoute[];
+
+  /**
+   * Creates a matcher for the given patterns.
+   *
+   * @param {RoutePattern[]} [patterns=[]] - Patterns to match; an empty list matches nothing
+   *
+   * @throws {CertusConfigurationError} When a pattern is neither a string, a regular
+   *         expression nor a rule with a path
+   */
+  constructor(patterns: RoutePattern[] = []) {
+    this.routes = patterns.map((pattern) => RouteMatcher.compile(pattern));
+  }
+
+  /**
+   * Checks whether a request matches any pattern. The path is the full path,
+   * including the mount path of the router or middleware (`req.baseUrl`).
+   *
+   * @param {MatchableRequest} req - Request to check
+   * @returns {boolean} True if a pattern matches
+   *
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => (matcher.matches(req) ? res.sendStatus(404) : next()));
+   * ```
+   */
+  matches(req: MatchableRequest): boolean {
+    return this.test(`${req.baseUrl ?? ''}${req.path ?? ''}`, req.method);
+  }
+
+  /**
+   * Checks whether a path and method match any pattern.
+   *
+   * @param {string} path - Request path, without query string
+   * @param {string} [method] - HTTP method; without it, method-specific patterns never match
+   * @returns {boolean} True if a pattern matches
+   */
+  test(path: string, method?: string): boolean {
+    if (this.routes.length === 0) {
+      return false;
+    }
+
+    const normalizedPath = normalizePath(path);
+    const normalizedMethod = method?.toUpperCase();
+
+    return this.routes.some(
+      (route) =>
+        (!route.methods ||
+          (normalizedMethod !== undefined && route.methods.includes(normalizedMethod))) &&
+        route.test(normalizedPath)
+    );
+  }
+
+  /**
+   * Compiles a pattern into a method list and a path test.
+   *
+   * @private
+   * @param {RoutePattern} pattern - Pattern to compile
+   * @returns {CompiledRoute} Compiled pattern
+   * @throws {CertusConfigurationError} When the pattern is invalid
+   */
+  private static compile(pattern: RoutePattern): CompiledRoute {
+    if (pattern instanceof RegExp) {
+      return { test: (path) => pattern.test(path) };
+    }
+
+    if (typeof pattern === 'string') {
+      const [, methods, path] = METHOD_PREFIX.exec(pattern) ?? [undefined, undefined, pattern];
+      return RouteMatcher.compile({ path, methods: methods?.split(',') });
+    }
+
+    const { path, match, methods } = (pattern ?? {}) as Partial<typeof pattern>;
+    if (path instanceof RegExp) {
+      return { methods: normalizeMethods(methods), test: (value) => path.test(value) };
+    }
+    if (typeof path !== 'string' || path.length === 0) {
+      throw new CertusConfigurationError('Invalid route pattern', { pattern });
+    }
+
+    return {
+      methods: normalizeMethods(methods),
+      test: createPathTest(normalizePath(path), match ?? (path.includes('*') ? 'glob' : 'exact')),
+    };
+  }
+}
+
+/**
+ * Removes the trailing slash of a path, except for the root path.
+ *
+ * @private
+ * @param {string} path - Path to normalize
+ * @returns {string} Normalized path
+ */
+function normalizePath(path: string): string {
+  return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
+
+/**
+ * Upper-cases a method list; an empty or missing list applies to all methods.
+ *
+ * @private
+ * @param {string[]} [methods] - Methods of a pattern
+ * @returns {string[] | undefined} Upper-case methods, or undefined for all
+ */
+function normalizeMethods(methods?: string[]): string[] | undefined {
+  return methods && methods.length > 0 ? methods.map((method) => method.toUpperCase()) : undefined;
+}
+
+/**
+ * Creates the path test of a string pattern.
+ *
+ * @private
+ * @param {string} pattern - Normalized path pattern
+ * @param {RouteMatchMode} mode - How the path is compared
+ * @returns {(path: string) => boolean} Path test
+ */
+function createPathTest(pattern: string, mode: RouteMatchMode): (path: string) => boolean {
+  switch (mode) {
+    case 'prefix':
+      return pattern === '/'
+        ? () => true
+        : (path) => path === pattern || path.startsWith(`${pattern}/`);
+    case 'glob': {
+      // `/**` also matches the path above it: `/static/**` matches `/static`
+      const source = pattern
+        .split('/**')
+        .map((part) => part.split('*').map(escapeRegExp).join('[^/]*'))
+        .join('(?:/.*)?');
+      const regex = new RegExp(`^${source}$`);
+      return (path) => regex.test(path);
+    }
+    default:
+      return (path) => path === pattern;
+  }
+}
+
+/**
+ * Escapes the regular expression syntax characters of a string.
+ *
+ * @private
+ * @param {string} value - Literal text
+ * @returns {string} Text matching itself in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
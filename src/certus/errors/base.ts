@@ -1,5 +1,19 @@
-import { ErrorCodes, HttpStatus } from '../../constants';
+import {
+  ErrorCatalog,
+  ErrorCodes,
+  ErrorCodeType,
+  ErrorMessages,
+  HttpStatus,
+} from '../../constants';
 import { ErrorContext } from '../../types';
+import { RequestContextStore } from '../../adi/context/request-context';
+import { serializeError } from '../utils/error-chain';
+
+/** Fields passed through the constructor when cloning */
+const CLONE_CONSTRUCTOR_FIELDS = ['code', 'statusCode', 'timestamp', 'context', 'originalError'];
+
+/** Fields set by the base constructor rather than by subclasses */
+const JSON_BASE_FIELDS = ['name', ...CLONE_CONSTRUCTOR_FIELDS];
 
 /**
  * Custom error class for the CertusAdiValt system with enhanced error handling capabilities.
@@ -30,9 +44,45 @@ import { ErrorContext } from '../../types';
  *   .withCode('VALIDATION_ERROR')
  *   .withStatusCode(400)
  *   .withContext({ field: 'email', value: 'invalid' });
+ *
+ * // Status and message from the error catalog
+ * throw CertusAdiValtError.fromCode(ErrorCodes.PAY_CARD_DECLINED, { orderId: 'ord_1' });
+ *
+ * // Internal message and context for the logs, safe ones for the client
+ * throw new CertusAdiValtError(`Query failed on ${host}: ${sql}`, 'DB_QUERY_ERROR', 500, { host, sql })
+ *   .withPublicMessage('The report could not be generated')
+ *   .withPublicContext({ reportId });
  * ```
+ *
+ * @remarks
+ * The message and context are internal: they go to the logs. Clients get the public
+ * message and context (see getPublicMessage() and getPublicContext()) unless details
+ * are exposed, e.g. with the `errors.exposeDetails` setting in development.
+ *
+ * Errors are operational by default: expected failures such as a missing record or an
+ * unreachable dependency, which the application handles and keeps running after. Errors
+ * pointing at a bug or a broken deployment are not (see isOperational).
  */
 export class CertusAdiValtError extends Error {
+  /**
+   * Whether errors of this class are operational unless set otherwise with
+   * withOperational(). Classes describing programmer errors override it with `false`.
+   * @type {boolean}
+   */
+  static readonly operational: boolean = true;
+
+  /**
+   * Creates the errors returned by fromCode(), installed by ErrorRegistry.
+   * @type {Function | undefined}
+   */
+  private static codeErrorFactory?: (
+    message: string,
+    code: string,
+    statusCode: number,
+    context: Record<string, unknown>,
+    originalError?: Error
+  ) => CertusAdiValtError;
+
   /**
    * Machine-readable error code for programmatic error handling.
    * @type {string}
@@ -63,13 +113,41 @@ export class CertusAdiValtError extends Error {
    */
   public readonly originalError?: Error;
 
+  /**
+   * Native ES2022 cause, set to the original error so that tools reading
+   * `error.cause` (Node.js inspection, loggers, APMs) see the chain.
+   * @type {Error | undefined}
+   */
+  public readonly cause?: Error;
+
+  /**
+   * Message shown to clients instead of the internal message, set with withPublicMessage().
+   * @type {string | undefined}
+   */
+  public readonly publicMessage?: string;
+
+  /**
+   * Keys of the context shown to clients, set with withPublicContext().
+   * @type {string[] | undefined}
+   */
+  public readonly publicContextKeys?: string[];
+
+  /**
+   * Whether the error is an expected operational failure rather than a programmer
+   * error. The process-level ProcessErrorHandler keeps running after operational
+   * errors and shuts down gracefully after others.
+   * @type {boolean}
+   */
+  public readonly isOperational: boolean;
+
   /**
    * Creates a new CertusAdiValtError instance.
    *
    * @param {string} message - Human-readable error description
    * @param {string} [code=ErrorCodes.SRV_INTERNAL_ERROR] - Machine-readable error code
    * @param {number} [statusCode=HttpStatus.INTERNAL_SERVER_ERROR] - HTTP status code
-   * @param {Record<string, unknown>} [context={}] - Additional error context
+   * @param {Record<string, unknown>} [context={}] - Additional error context, merged over the
+   *        current request context (see RequestContextStore)
    * @param {Error} [originalError] - Original error that caused this error
    *
    * @example
@@ -99,14 +177,89 @@ export class CertusAdiValtError extends Error {
     this.code = code;
     this.statusCode = statusCode;
     this.timestamp = new Date();
-    this.context = context;
+    this.context = { ...RequestContextStore.get(), ...context };
     this.originalError = originalError;
+    this.isOperational = new.target.operational;
+
+    if (originalError) {
+      // Same property descriptor as the native `new Error(message, { cause })`
+      Object.defineProperty(this, 'cause', {
+        value: originalError,
+        writable: true,
+        configurable: true,
+        enumerable: false,
+      });
+    }
 
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, CertusAdiValtError);
     }
 
-    Object.setPrototypeOf(this, CertusAdiValtError.prototype);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  /**
+   * Creates an error from its code, filling in the status code and message
+   * declared in the ErrorCatalog.
+   *
+   * The error is an instance of the class registered for the code in the
+   * ErrorRegistry (for example CertusTokenExpiredError for
+   * `AUTH_TOKEN_EXPIRED`), or CertusClientError/CertusServerError for codes
+   * without a class of their own.
+   *
+   * @param {ErrorCodeType} code - Error code from ErrorCodes
+   * @param {Record<string, unknown>} [context={}] - Additional error context
+   * @param {Object} [options] - Overrides of the catalog defaults
+   * @param {string} [options.message] - Message instead of the catalog message
+   * @param {number} [options.statusCode] - Status code instead of the catalog status
+   * @param {Error} [options.originalError] - Original error that caused this error
+   * @returns {CertusAdiValtError} The new error
+   *
+   * @example
+   * ```typescript
+   * const error = CertusAdiValtError.fromCode(ErrorCodes.PAY_CARD_DECLINED, { orderId: 'ord_1' });
+   * // CertusClientError: statusCode 402, message 'Card declined'
+   *
+   * throw CertusAdiValtError.fromCode(ErrorCodes.AUTH_TOKEN_EXPIRED);
+   * // CertusTokenExpiredError: statusCode 401, message 'Authentication token has expired'
+   * ```
+   */
+  static fromCode(
+    code: ErrorCodeType,
+    context: Record<string, unknown> = {},
+    options: { message?: string; statusCode?: number; originalError?: Error } = {}
+  ): CertusAdiValtError {
+    const entry = ErrorCatalog[code] ?? ErrorCatalog[ErrorCodes.SRV_INTERNAL_ERROR];
+    const message = options.message ?? ErrorMessages[entry.messageKey];
+    const statusCode = options.statusCode ?? entry.status;
+
+    const factory = CertusAdiValtError.codeErrorFactory;
+    return factory
+      ? factory(message, code, statusCode, context, options.originalError)
+      : new CertusAdiValtError(message, code, statusCode, context, options.originalError);
+  }
+
+  /**
+   * Sets how fromCode() creates errors.
+   *
+   * ErrorRegistry installs its class lookup when it is loaded; it cannot be
+   * imported here because it depends on the subclasses of this class. The
+   * errors barrel loads it after exporting those subclasses, so importing
+   * the errors from `certus` or `certus/errors` is enough.
+   *
+   * @param {Function} factory - Creates an error from its message, code, status code,
+   *        context and original error
+   */
+  static useCodeErrorFactory(
+    factory: (
+      message: string,
+      code: string,
+      statusCode: number,
+      context: Record<string, unknown>,
+      originalError?: Error
+    ) => CertusAdiValtError
+  ): void {
+    CertusAdiValtError.codeErrorFactory = factory;
   }
 
   /**
@@ -120,7 +273,9 @@ export class CertusAdiValtError extends Error {
    * - Timestamp of error creation
    * - Additional context metadata
    * - Stack trace (if available)
-   * - Original error details (name, message, stack) if present
+   * - Fields added by subclasses, such as `violations`
+   * - The original error and its own causes (nested under `cause`), serialized
+   *   with serializeError() so that cycles and deep chains are cut off
    *
    * @example
    * ```typescript
@@ -135,26 +290,19 @@ export class CertusAdiValtError extends Error {
    * //   timestamp: Date,
    * //   context: {},
    * //   stack: '...',
+   * //   isOperational: true,
    * //   originalError: undefined
    * // }
    * ```
    */
   public toJSON(): ErrorContext {
+    const { cause, ...fields } = serializeError(this);
     return {
-      name: this.name,
-      message: this.message,
+      ...fields,
       code: this.code,
       statusCode: this.statusCode,
       timestamp: this.timestamp,
-      context: this.context,
-      stack: this.stack,
-      originalError: this.originalError
-        ? {
-            name: this.originalError.name,
-            message: this.originalError.message,
-            stack: this.originalError.stack,
-          }
-        : undefined,
+      originalError: cause,
     };
   }
 
@@ -166,7 +314,7 @@ export class CertusAdiValtError extends Error {
    * @remarks
    * Compared to toJSON(), this method:
    * - Uses ISO string for timestamp instead of Date object
-   * - Provides simplified original error (name and message only)
+   * - Provides a simplified cause chain (name, message and code of each cause)
    * - Structures output for better log aggregation and parsing
    * - Excludes full stack traces from original errors
    *
@@ -189,14 +337,63 @@ export class CertusAdiValtError extends Error {
       context: this.context,
       timestamp: this.timestamp.toISOString(),
       originalError: this.originalError
-        ? {
-            name: this.originalError.name,
-            message: this.originalError.message,
-          }
+        ? serializeError(this.originalError, { includeStack: false, includeContext: false })
         : undefined,
     };
   }
 
+  /**
+   * Gets the message that is safe to show to clients.
+   *
+   * @returns {string} The public message if set; otherwise the message of client errors,
+   *          and a generic message for server errors (5xx), whose messages are internal
+   *
+   * @example
+   * ```typescript
+   * new CertusAdiValtError('User 42 not found', 'DB_NOT_FOUND', 404).getPublicMessage();
+   * // 'User 42 not found'
+   *
+   * new CertusAdiValtError('Connection to db-3:5432 refused', 'DB_CONNECTION_ERROR', 503)
+   *   .getPublicMessage();
+   * // 'Internal server error'
+   * ```
+   */
+  public getPublicMessage(): string {
+    if (this.publicMessage !== undefined) {
+      return this.publicMessage;
+    }
+
+    return this.statusCode >= HttpStatus.INTERNAL_SERVER_ERROR
+      ? ErrorMessages[ErrorCodes.SRV_INTERNAL_ERROR]
+      : this.message;
+  }
+
+  /**
+   * Gets the context entries marked as public.
+   *
+   * @returns {Record<string, unknown>} Context entries whose keys were marked public;
+   *          empty unless withPublicContext() was used
+   *
+   * @example
+   * ```typescript
+   * const error = new CertusAdiValtError('Order failed', 'ORDER_FAILED', 409, {
+   *   userId: 'usr_1',
+   * }).withPublicContext({ orderId: 'ord_1' });
+   *
+   * error.context;            // { userId: 'usr_1', orderId: 'ord_1' }
+   * error.getPublicContext(); // { orderId: 'ord_1' }
+   * ```
+   */
+  public getPublicContext(): Record<string, unknown> {
+    const context: Record<string, unknown> = {};
+    for (const key of this.publicContextKeys ?? []) {
+      if (key in this.context) {
+        context[key] = this.context[key];
+      }
+    }
+    return context;
+  }
+
   // Builder pattern methods that return new instances
 
   /**
@@ -265,6 +462,71 @@ export class CertusAdiValtError extends Error {
     return this.clone({ message });
   }
 
+  /**
+   * Creates a new error instance with a message that is safe to show to clients.
+   * The error message itself stays internal.
+   *
+   * @param {string} publicMessage - Message shown to clients
+   * @returns {this} New error instance with the public message
+   *
+   * @example
+   * ```typescript
+   * throw new CertusAdiValtError(`Deadlock on table ${table}`, 'DB_TRANSACTION_ERROR', 500)
+   *   .withPublicMessage('Please retry the request');
+   * ```
+   */
+  public withPublicMessage(publicMessage: string): this {
+    return Object.assign(this.clone({}), { publicMessage });
+  }
+
+  /**
+   * Creates a new error instance with context that is safe to show to clients.
+   *
+   * Given an object, its entries are merged into the context and marked public; given
+   * keys, the existing context entries with these keys are marked public.
+   *
+   * @param {Record<string, unknown> | string[]} context - Public context entries, or keys
+   *        of context entries to mark public
+   * @returns {this} New error instance with the public context
+   *
+   * @example
+   * ```typescript
+   * new CertusAdiValtError('Quota exceeded', 'QUOTA_EXCEEDED', 429, { accountId, quota })
+   *   .withPublicContext(['quota'])
+   *   .withPublicContext({ resetAt: '2026-01-01T00:00:00.000Z' });
+   * // Clients see { quota, resetAt }, the logs also see accountId
+   * ```
+   */
+  public withPublicContext(context: Record<string, unknown> | string[]): this {
+    const keys = Array.isArray(context) ? context : Object.keys(context);
+    const error = Array.isArray(context) ? this.clone({}) : this.withContext(context);
+
+    return Object.assign(error, {
+      publicContextKeys: [...new Set([...(this.publicContextKeys ?? []), ...keys])],
+    });
+  }
+
+  /**
+   * Creates a new error instance classified as operational or as a programmer error,
+   * overriding the default of its class.
+   *
+   * @param {boolean} isOperational - False when the error points at a bug rather than an
+   *        expected failure
+   * @returns {this} New error instance with the classification
+   *
+   * @example
+   * ```typescript
+   * if (!order.lines.length) {
+   *   // Validated before; reaching this means the invariant is broken
+   *   throw new CertusInternalServerError('Order without lines', { orderId: order.id })
+   *     .withOperational(false);
+   * }
+   * ```
+   */
+  public withOperational(isOperational: boolean): this {
+    return Object.assign(this.clone({}), { isOperational });
+  }
+
   /**
    * Protected method to clone the error instance with overridden properties.
    * Used internally by builder pattern methods to create modified error instances.
@@ -275,8 +537,9 @@ export class CertusAdiValtError extends Error {
    *
    * @remarks
    * - Preserves the original stack trace for better debugging
+   * - Preserves the name and other fields set by subclasses
    * - Creates a new instance rather than modifying the existing one
-   * - Maintains the same constructor chain for subclass compatibility
+   * - Creates an instance of the same subclass without calling its constructor
    *
    * @example
    * ```typescript
@@ -297,24 +560,40 @@ export class CertusAdiValtError extends Error {
       originalError?: Error;
     }>
   ): this {
-    const Constructor = this.constructor as new (
-      message: string,
-      code: string,
-      statusCode: number,
-      context: Record<string, unknown>,
-      originalError?: Error
-    ) => this;
+    // Run the base constructor only: subclass constructors have their own signatures
+    const newError = Reflect.construct(
+      CertusAdiValtError,
+      [
+        overrides.message ?? this.message,
+        overrides.code ?? this.code,
+        overrides.statusCode ?? this.statusCode,
+        overrides.context ?? { ...this.context },
+        overrides.originalError ?? this.originalError,
+      ],
+      this.constructor
+    ) as this;
 
-    const newError = new Constructor(
-      overrides.message ?? this.message,
-      overrides.code ?? this.code,
-      overrides.statusCode ?? this.statusCode,
-      overrides.context ?? { ...this.context },
-      overrides.originalError ?? this.originalError
-    );
+    // Preserve subclass fields (name, violations, ...) set outside the base constructor
+    Object.assign(newError, { name: this.name }, this.getSubclassFields());
 
     // Preserve stack trace
     newError.stack = this.stack;
     return newError;
   }
+
+  /**
+   * Collects the fields subclasses set in addition to the base error fields.
+   *
+   * @private
+   * @returns {Record<string, unknown>} Own enumerable fields other than the base fields
+   */
+  private getSubclassFields(): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    for (const key of Object.keys(this)) {
+      if (!JSON_BASE_FIELDS.includes(key)) {
+        fields[key] = (this as Record<string, unknown>)[key];
+      }
+    }
+    return fields;
+  }
 }
@@ -1,4 +1,5 @@
 import { ErrorCodes, HttpStatus } from '../../constants';
+import { Violation } from '../../types';
 import { CertusAdiValtError } from './base';
 
 /**
@@ -30,6 +31,7 @@ export class CertusClientError extends CertusAdiValtError {
    * @param {string} [code=ErrorCodes.GEN_VALIDATION_ERROR] - Machine-readable error code
    * @param {number} [statusCode=HttpStatus.BAD_REQUEST] - HTTP status code (4xx range)
    * @param {Record<string, unknown>} [context={}] - Additional context about the client error
+   * @param {Error} [originalError] - Original error that caused this error
    *
    * @example
    * ```typescript
@@ -49,9 +51,10 @@ export class CertusClientError extends CertusAdiValtError {
     message: string,
     code: string = ErrorCodes.GEN_VALIDATION_ERROR,
     statusCode: number = HttpStatus.BAD_REQUEST,
-    context: Record<string, unknown> = {}
+    context: Record<string, unknown> = {},
+    originalError?: Error
   ) {
-    super(message, code, statusCode, context);
+    super(message, code, statusCode, context, originalError);
     this.name = 'CertusClientError';
   }
 }
@@ -81,11 +84,20 @@ export class CertusClientError extends CertusAdiValtError {
  * ```
  */
 export class CertusValidationError extends CertusClientError {
+  /**
+   * Field-level validation failures.
+   * @type {Violation[]}
+   */
+  public readonly violations: Violation[];
+
   /**
    * Creates a new CertusValidationError instance.
    *
    * @param {string} [message='Validation failed'] - Human-readable error description
    * @param {Record<string, unknown>} [context={}] - Additional context about validation failures
+   * @param {Violation[]} [violations=[]] - Field-level validation failures
+   * @param {Error} [originalError] - Error that caused the validation failure, such as a
+   *        database constraint violation
    *
    * @example
    * ```typescript
@@ -103,11 +115,28 @@ export class CertusValidationError extends CertusClientError {
    *     receivedData: { email: 'invalid', password: 'short' }
    *   }
    * );
+   *
+   * // Structured field-level violations
+   * throw new CertusValidationError('Validation failed', {}, [
+   *   { path: '/email', code: ErrorCodes.VAL_INVALID_EMAIL, message: 'Invalid email address' }
+   * ]);
    * ```
    */
-  constructor(message: string = 'Validation failed', context: Record<string, unknown> = {}) {
-    super(message, ErrorCodes.VAL_INVALID_INPUT, HttpStatus.UNPROCESSABLE_ENTITY, context);
+  constructor(
+    message: string = 'Validation failed',
+    context: Record<string, unknown> = {},
+    violations: Violation[] = [],
+    originalError?: Error
+  ) {
+    super(
+      message,
+      ErrorCodes.VAL_INVALID_INPUT,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      context,
+      originalError
+    );
     this.name = 'CertusValidationError';
+    this.violations = violations;
   }
 }
 
@@ -270,3 +299,198 @@ export class CertusForbiddenError extends CertusClientError {
     this.name = 'CertusForbiddenError';
   }
 }
+
+/**
+ * Error thrown when a request conflicts with the current state of a resource.
+ *
+ * Used for concurrent modifications, duplicate submissions and state transitions
+ * that are not allowed from the current state. Returns HTTP 409 Conflict status code.
+ *
+ * @example
+ * ```typescript
+ * // Optimistic concurrency control
+ * if (order.version !== request.body.version) {
+ *   throw new CertusConflictError('Order was modified by another request', {
+ *     orderId: order.id,
+ *     expectedVersion: request.body.version,
+ *     actualVersion: order.version,
+ *   });
+ * }
+ * ```
+ */
+export class CertusConflictError extends CertusClientError {
+  /**
+   * Creates a new CertusConflictError instance.
+   *
+   * @param {string} [message='Resource conflict'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context about the conflict
+   *
+   * @example
+   * ```typescript
+   * throw new CertusConflictError('Invoice is already paid', { invoiceId: 'inv_42', state: 'paid' });
+   * ```
+   */
+  constructor(message: string = 'Resource conflict', context: Record<string, unknown> = {}) {
+    super(message, ErrorCodes.GEN_CONFLICT, HttpStatus.CONFLICT, context);
+    this.name = 'CertusConflictError';
+  }
+}
+
+/**
+ * Error thrown when a client sent too many requests.
+ *
+ * Returns HTTP 429 Too Many Requests with the `SRV_RATE_LIMIT` code. When
+ * `retryAfter` is set, `ErrorMiddleware` sends it as the `Retry-After` header and
+ * `RetryPolicy` waits at least that long before the next attempt.
+ *
+ * @example
+ * ```typescript
+ * if (await exportQuota.isExhausted(user.id)) {
+ *   throw new CertusTooManyRequestsError('Export quota exhausted', { userId: user.id }, 3600);
+ * }
+ * ```
+ */
+export class CertusTooManyRequestsError extends CertusClientError {
+  /**
+   * Seconds the client should wait before retrying.
+   * @type {number | undefined}
+   */
+  public readonly retryAfter?: number;
+
+  /**
+   * Creates a new CertusTooManyRequestsError instance.
+   *
+   * @param {string} [message='Too many requests'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the exceeded limit
+   * @param {number} [retryAfter] - Seconds the client should wait before retrying
+   *
+   * @example
+   * ```typescript
+   * throw new CertusTooManyRequestsError('Login attempts exceeded', { limit: 5 }, 60);
+   * ```
+   */
+  constructor(
+    message: string = 'Too many requests',
+    context: Record<string, unknown> = {},
+    retryAfter?: number
+  ) {
+    super(message, ErrorCodes.SRV_RATE_LIMIT, HttpStatus.TOO_MANY_REQUESTS, context);
+    this.name = 'CertusTooManyRequestsError';
+    if (retryAfter !== undefined) {
+      this.retryAfter = retryAfter;
+    }
+  }
+}
+
+/**
+ * Error thrown when a request body exceeds the allowed size.
+ *
+ * Returns HTTP 413 Content Too Large. Use CertusFileTooLargeError for uploaded files
+ * that exceed a file size limit.
+ *
+ * @example
+ * ```typescript
+ * if (Number(req.get('Content-Length')) > MAX_BODY_BYTES) {
+ *   throw new CertusPayloadTooLargeError('Request body exceeds 1 MB').withPublicContext({
+ *     maxBytes: MAX_BODY_BYTES,
+ *   });
+ * }
+ * ```
+ */
+export class CertusPayloadTooLargeError extends CertusClientError {
+  /**
+   * Creates a new CertusPayloadTooLargeError instance.
+   *
+   * @param {string} [message='Request body too large'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the size limit
+   *
+   * @example
+   * ```typescript
+   * throw new CertusPayloadTooLargeError('Batch exceeds 500 items', { maxItems: 500, items: 812 });
+   * ```
+   */
+  constructor(message: string = 'Request body too large', context: Record<string, unknown> = {}) {
+    super(message, ErrorCodes.GEN_PAYLOAD_TOO_LARGE, HttpStatus.PAYLOAD_TOO_LARGE, context);
+    this.name = 'CertusPayloadTooLargeError';
+  }
+}
+
+/**
+ * Error thrown when a resource does not support the HTTP method of a request.
+ *
+ * Returns HTTP 405 Method Not Allowed. `ErrorMiddleware` sends the allowed methods
+ * as the `Allow` header, which HTTP requires for this status.
+ *
+ * @example
+ * ```typescript
+ * router.all('/reports/:id', (req) => {
+ *   throw new CertusMethodNotAllowedError(`${req.method} is not supported`, {}, ['GET', 'HEAD']);
+ * });
+ * ```
+ */
+export class CertusMethodNotAllowedError extends CertusClientError {
+  /**
+   * HTTP methods the resource supports, in upper case.
+   * @type {string[]}
+   */
+  public readonly allowedMethods: string[];
+
+  /**
+   * Creates a new CertusMethodNotAllowedError instance.
+   *
+   * @param {string} [message='Method not allowed'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the method used
+   * @param {string[]} [allowedMethods=[]] - HTTP methods the resource supports
+   *
+   * @example
+   * ```typescript
+   * throw new CertusMethodNotAllowedError('Orders cannot be deleted', { method: 'DELETE' }, [
+   *   'GET',
+   *   'PATCH',
+   * ]);
+   * ```
+   */
+  constructor(
+    message: string = 'Method not allowed',
+    context: Record<string, unknown> = {},
+    allowedMethods: string[] = []
+  ) {
+    super(message, ErrorCodes.GEN_METHOD_NOT_ALLOWED, HttpStatus.METHOD_NOT_ALLOWED, context);
+    this.name = 'CertusMethodNotAllowedError';
+    this.allowedMethods = allowedMethods.map((method) => method.toUpperCase());
+  }
+}
+
+/**
+ * Error thrown when a resource was removed on purpose and will not come back.
+ *
+ * Unlike CertusNotFoundError, tells clients to drop their references to the resource.
+ * Returns HTTP 410 Gone status code.
+ *
+ * @example
+ * ```typescript
+ * if (apiVersion === 'v1') {
+ *   throw new CertusGoneError('API v1 was retired on 2025-01-31, use /v2', { apiVersion });
+ * }
+ * ```
+ */
+export class CertusGoneError extends CertusClientError {
+  /**
+   * Creates a new CertusGoneError instance.
+   *
+   * @param {string} [message='Resource no longer available'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context about the removed resource
+   *
+   * @example
+   * ```typescript
+   * throw new CertusGoneError('Share link has been revoked', { linkId: 'lnk_7' });
+   * ```
+   */
+  constructor(
+    message: string = 'Resource no longer available',
+    context: Record<string, unknown> = {}
+  ) {
+    super(message, ErrorCodes.GEN_GONE, HttpStatus.GONE, context);
+    this.name = 'CertusGoneError';
+  }
+}
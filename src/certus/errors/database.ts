@@ -35,6 +35,7 @@ export class CertusDatabaseError extends CertusServerError {
    * @param {string} [code=ErrorCodes.DB_QUERY_ERROR] - Machine-readable error code for database failures
    * @param {number} [statusCode=HttpStatus.INTERNAL_SERVER_ERROR] - HTTP status code (5xx range)
    * @param {Record<string, unknown>} [context={}] - Additional context about the database error
+   * @param {Error} [originalError] - Error raised by the database driver
    *
    * @example
    * ```typescript
@@ -59,9 +60,10 @@ export class CertusDatabaseError extends CertusServerError {
     message: string = 'Database error occurred',
     code: string = ErrorCodes.DB_QUERY_ERROR,
     statusCode: number = HttpStatus.INTERNAL_SERVER_ERROR,
-    context: Record<string, unknown> = {}
+    context: Record<string, unknown> = {},
+    originalError?: Error
   ) {
-    super(message, code, statusCode, context);
+    super(message, code, statusCode, context, originalError);
     this.name = 'CertusDatabaseError';
   }
 }
@@ -100,6 +102,7 @@ export class CertusUniqueConstraintError extends CertusDatabaseError {
    *
    * @param {string} [message='Unique constraint violation'] - Human-readable error description
    * @param {Record<string, unknown>} [context={}] - Additional context about the constraint violation
+   * @param {Error} [originalError] - Error raised by the database driver
    *
    * @example
    * ```typescript
@@ -122,9 +125,10 @@ export class CertusUniqueConstraintError extends CertusDatabaseError {
    */
   constructor(
     message: string = 'Unique constraint violation',
-    context: Record<string, unknown> = {}
+    context: Record<string, unknown> = {},
+    originalError?: Error
   ) {
-    super(message, ErrorCodes.DB_UNIQUE_CONSTRAINT, HttpStatus.CONFLICT, context);
+    super(message, ErrorCodes.DB_UNIQUE_CONSTRAINT, HttpStatus.CONFLICT, context, originalError);
     this.name = 'CertusUniqueConstraintError';
   }
 }
@@ -164,6 +168,7 @@ export class CertusConnectionError extends CertusDatabaseError {
    *
    * @param {string} [message='Database connection error'] - Human-readable error description
    * @param {Record<string, unknown>} [context={}] - Additional context about the connection failure
+   * @param {Error} [originalError] - Error raised by the database driver
    *
    * @example
    * ```typescript
@@ -187,9 +192,16 @@ export class CertusConnectionError extends CertusDatabaseError {
    */
   constructor(
     message: string = 'Database connection error',
-    context: Record<string, unknown> = {}
+    context: Record<string, unknown> = {},
+    originalError?: Error
   ) {
-    super(message, ErrorCodes.DB_CONNECTION_ERROR, HttpStatus.SERVICE_UNAVAILABLE, context);
+    super(
+      message,
+      ErrorCodes.DB_CONNECTION_ERROR,
+      HttpStatus.SERVICE_UNAVAILABLE,
+      context,
+      originalError
+    );
     this.name = 'CertusConnectionError';
   }
 }
@@ -231,6 +243,7 @@ export class CertusTimeoutError extends CertusDatabaseError {
    *
    * @param {string} [message='Database operation timed out'] - Human-readable error description
    * @param {Record<string, unknown>} [context={}] - Additional context about the timeout
+   * @param {Error} [originalError] - Error raised by the database driver
    *
    * @example
    * ```typescript
@@ -254,9 +267,10 @@ export class CertusTimeoutError extends CertusDatabaseError {
    */
   constructor(
     message: string = 'Database operation timed out',
-    context: Record<string, unknown> = {}
+    context: Record<string, unknown> = {},
+    originalError?: Error
   ) {
-    super(message, ErrorCodes.DB_TIMEOUT_ERROR, HttpStatus.GATEWAY_TIMEOUT, context);
+    super(message, ErrorCodes.DB_TIMEOUT_ERROR, HttpStatus.GATEWAY_TIMEOUT, context, originalError);
     this.name = 'CertusTimeoutError';
   }
 }
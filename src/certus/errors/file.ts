@@ -0,0 +1,195 @@
+import { ErrorCodes, HttpStatus } from '../../constants';
+import { CertusAdiValtError } from './base';
+
+/**
+ * Base file error class for all file and storage failures (`FILE_*` codes).
+ *
+ * Covers uploads, downloads, deletions and storage quotas. File errors are either the
+ * client's fault (a file that is too large or of the wrong type) or the server's (a
+ * storage backend that fails), so the status code depends on the case; the subclasses
+ * set it for the common ones.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await bucket.upload(key, stream);
+ * } catch (error) {
+ *   throw new CertusFileError(
+ *     'Failed to store the avatar',
+ *     ErrorCodes.FILE_UPLOAD_ERROR,
+ *     HttpStatus.INTERNAL_SERVER_ERROR,
+ *     { bucket: 'avatars', key },
+ *     error
+ *   );
+ * }
+ *
+ * throw new CertusFileError('Download failed', ErrorCodes.FILE_DOWNLOAD_ERROR)
+ *   .withContext({ fileId: 'file_123' });
+ * ```
+ */
+export class CertusFileError extends CertusAdiValtError {
+  /**
+   * Creates a new CertusFileError instance.
+   *
+   * @param {string} [message='File upload failed'] - Human-readable error description
+   * @param {string} [code=ErrorCodes.FILE_UPLOAD_ERROR] - Machine-readable `FILE_*` error code
+   * @param {number} [statusCode=HttpStatus.INTERNAL_SERVER_ERROR] - HTTP status code
+   * @param {Record<string, unknown>} [context={}] - Additional context about the file operation
+   * @param {Error} [originalError] - Error raised by the storage backend
+   *
+   * @example
+   * ```typescript
+   * throw new CertusFileError(
+   *   'Backup file is corrupted',
+   *   ErrorCodes.FILE_CORRUPTED,
+   *   HttpStatus.UNPROCESSABLE_ENTITY,
+   *   { fileName: 'backup.zip', checksum: 'sha256:...' }
+   * );
+   * ```
+   */
+  constructor(
+    message: string = 'File upload failed',
+    code: string = ErrorCodes.FILE_UPLOAD_ERROR,
+    statusCode: number = HttpStatus.INTERNAL_SERVER_ERROR,
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, code, statusCode, context, originalError);
+    this.name = 'CertusFileError';
+  }
+}
+
+/**
+ * Error thrown when a requested file does not exist. Returns HTTP 404 Not Found.
+ *
+ * @example
+ * ```typescript
+ * const file = await files.findById(fileId);
+ * if (!file) {
+ *   throw new CertusFileNotFoundError(`File ${fileId} not found`, { fileId });
+ * }
+ * ```
+ */
+export class CertusFileNotFoundError extends CertusFileError {
+  /**
+   * Creates a new CertusFileNotFoundError instance.
+   *
+   * @param {string} [message='File not found'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the file ID or path
+   * @param {Error} [originalError] - Error raised by the storage backend
+   */
+  constructor(
+    message: string = 'File not found',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, ErrorCodes.FILE_NOT_FOUND, HttpStatus.NOT_FOUND, context, originalError);
+    this.name = 'CertusFileNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when a file exceeds the allowed size. Returns HTTP 413 Content Too Large.
+ *
+ * @example
+ * ```typescript
+ * if (upload.size > MAX_AVATAR_BYTES) {
+ *   throw new CertusFileTooLargeError('Avatars are limited to 2 MB').withPublicContext({
+ *     maxBytes: MAX_AVATAR_BYTES,
+ *     actualBytes: upload.size,
+ *   });
+ * }
+ * ```
+ */
+export class CertusFileTooLargeError extends CertusFileError {
+  /**
+   * Creates a new CertusFileTooLargeError instance.
+   *
+   * @param {string} [message='File size exceeds limit'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the size limit
+   * @param {Error} [originalError] - Error raised by the upload parser
+   */
+  constructor(
+    message: string = 'File size exceeds limit',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, ErrorCodes.FILE_TOO_LARGE, HttpStatus.PAYLOAD_TOO_LARGE, context, originalError);
+    this.name = 'CertusFileTooLargeError';
+  }
+}
+
+/**
+ * Error thrown when the type of a file is not accepted. Returns HTTP 415 Unsupported
+ * Media Type.
+ *
+ * @example
+ * ```typescript
+ * if (!['image/png', 'image/jpeg'].includes(upload.mimetype)) {
+ *   throw new CertusInvalidFileTypeError('Only PNG and JPEG images are accepted', {
+ *     mimeType: upload.mimetype,
+ *   });
+ * }
+ * ```
+ */
+export class CertusInvalidFileTypeError extends CertusFileError {
+  /**
+   * Creates a new CertusInvalidFileTypeError instance.
+   *
+   * @param {string} [message='File type not allowed'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the MIME type
+   * @param {Error} [originalError] - Error raised by the type detection
+   */
+  constructor(
+    message: string = 'File type not allowed',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(
+      message,
+      ErrorCodes.FILE_INVALID_TYPE,
+      HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+      context,
+      originalError
+    );
+    this.name = 'CertusInvalidFileTypeError';
+  }
+}
+
+/**
+ * Error thrown when storing a file would exceed a storage quota. Returns HTTP 507
+ * Insufficient Storage.
+ *
+ * @example
+ * ```typescript
+ * if (account.usedBytes + upload.size > account.quotaBytes) {
+ *   throw new CertusStorageLimitError('Storage quota exceeded', {
+ *     accountId: account.id,
+ *     quotaBytes: account.quotaBytes,
+ *   });
+ * }
+ * ```
+ */
+export class CertusStorageLimitError extends CertusFileError {
+  /**
+   * Creates a new CertusStorageLimitError instance.
+   *
+   * @param {string} [message='Storage limit exceeded'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the quota
+   * @param {Error} [originalError] - Error raised by the storage backend
+   */
+  constructor(
+    message: string = 'Storage limit exceeded',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(
+      message,
+      ErrorCodes.FILE_STORAGE_LIMIT,
+      HttpStatus.INSUFFICIENT_STORAGE,
+      context,
+      originalError
+    );
+    this.name = 'CertusStorageLimitError';
+  }
+}
@@ -4,3 +4,12 @@ export * from './client';
 export * from './database';
 export * from './server';
 export * from './validation';
+export * from './file';
+export * from './payment';
+export * from './notification';
+export * from './network';
+
+// Installs the class lookup of fromCode(). Loaded after the classes above,
+// which it registers, so that fromCode() returns the registered subclass
+// whichever of these modules is imported first.
+import '../utils/error-registry';
@@ -0,0 +1,150 @@
+import { ErrorCodes, HttpStatus } from '../../constants';
+import { CertusAdiValtError } from './base';
+
+/**
+ * Base network error class for failures reaching another host (`NET_*` codes).
+ *
+ * Raised when an outgoing connection fails below the application protocol: DNS
+ * resolution, TLS handshakes, proxies, firewalls and timeouts. Returns HTTP 502 Bad
+ * Gateway by default; `toNetworkError()` picks the subclass from a Node.js system error.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await fetch(`${inventoryUrl}/items`);
+ * } catch (error) {
+ *   throw new CertusNetworkError(
+ *     'Inventory service unreachable',
+ *     ErrorCodes.NET_NETWORK_ERROR,
+ *     HttpStatus.BAD_GATEWAY,
+ *     { host: 'inventory.internal' },
+ *     error
+ *   );
+ * }
+ * ```
+ */
+export class CertusNetworkError extends CertusAdiValtError {
+  /**
+   * Creates a new CertusNetworkError instance.
+   *
+   * @param {string} [message='Network connection failed'] - Human-readable error description
+   * @param {string} [code=ErrorCodes.NET_NETWORK_ERROR] - Machine-readable `NET_*` error code
+   * @param {number} [statusCode=HttpStatus.BAD_GATEWAY] - HTTP status code
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the host
+   * @param {Error} [originalError] - System error of the failed connection
+   *
+   * @example
+   * ```typescript
+   * throw new CertusNetworkError(
+   *   'Outbound connection blocked',
+   *   ErrorCodes.NET_FIREWALL_BLOCKED,
+   *   HttpStatus.FORBIDDEN,
+   *   { host: 'api.partner.com', port: 443 }
+   * );
+   * ```
+   */
+  constructor(
+    message: string = 'Network connection failed',
+    code: string = ErrorCodes.NET_NETWORK_ERROR,
+    statusCode: number = HttpStatus.BAD_GATEWAY,
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, code, statusCode, context, originalError);
+    this.name = 'CertusNetworkError';
+  }
+}
+
+/**
+ * Error thrown when a host name cannot be resolved. Returns HTTP 502 Bad Gateway.
+ *
+ * @example
+ * ```typescript
+ * // Node.js reports ENOTFOUND
+ * throw new CertusDnsError('Cannot resolve api.partner.com', { host: 'api.partner.com' }, error);
+ * ```
+ */
+export class CertusDnsError extends CertusNetworkError {
+  /**
+   * Creates a new CertusDnsError instance.
+   *
+   * @param {string} [message='DNS resolution failed'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the host
+   * @param {Error} [originalError] - System error of the failed lookup
+   */
+  constructor(
+    message: string = 'DNS resolution failed',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, ErrorCodes.NET_DNS_ERROR, HttpStatus.BAD_GATEWAY, context, originalError);
+    this.name = 'CertusDnsError';
+  }
+}
+
+/**
+ * Error thrown when a TLS connection cannot be established, e.g. because of an
+ * expired or untrusted certificate. Returns HTTP 502 Bad Gateway.
+ *
+ * @example
+ * ```typescript
+ * // Node.js reports CERT_HAS_EXPIRED
+ * throw new CertusSslError('Certificate of api.partner.com has expired', {
+ *   host: 'api.partner.com',
+ * });
+ * ```
+ */
+export class CertusSslError extends CertusNetworkError {
+  /**
+   * Creates a new CertusSslError instance.
+   *
+   * @param {string} [message='SSL certificate error'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the host
+   * @param {Error} [originalError] - System error of the failed handshake
+   */
+  constructor(
+    message: string = 'SSL certificate error',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, ErrorCodes.NET_SSL_ERROR, HttpStatus.BAD_GATEWAY, context, originalError);
+    this.name = 'CertusSslError';
+  }
+}
+
+/**
+ * Error thrown when connecting to another host takes too long. Returns HTTP 504
+ * Gateway Timeout.
+ *
+ * @example
+ * ```typescript
+ * // Node.js reports ETIMEDOUT
+ * throw new CertusNetworkTimeoutError('Connection to the ledger timed out', {
+ *   host: 'ledger.internal',
+ *   timeoutMs: 5000,
+ * });
+ * ```
+ */
+export class CertusNetworkTimeoutError extends CertusNetworkError {
+  /**
+   * Creates a new CertusNetworkTimeoutError instance.
+   *
+   * @param {string} [message='Connection timeout'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the timeout
+   * @param {Error} [originalError] - System error of the failed connection
+   */
+  constructor(
+    message: string = 'Connection timeout',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(
+      message,
+      ErrorCodes.NET_CONNECTION_TIMEOUT,
+      HttpStatus.GATEWAY_TIMEOUT,
+      context,
+      originalError
+    );
+    this.name = 'CertusNetworkTimeoutError';
+  }
+}
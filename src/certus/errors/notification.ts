@@ -0,0 +1,153 @@
+import { ErrorCodes, HttpStatus } from '../../constants';
+import { CertusAdiValtError } from './base';
+
+/**
+ * Base notification error class for failures sending emails, SMS and push
+ * notifications (`NOTIF_*` codes).
+ *
+ * Delivery failures come from the notification provider and are reported with HTTP
+ * 502 Bad Gateway; a provider rate limit is reported with HTTP 429.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await push.send(deviceToken, payload);
+ * } catch (error) {
+ *   throw new CertusNotificationError(
+ *     'Push notification failed',
+ *     ErrorCodes.NOTIF_PUSH_FAILED,
+ *     HttpStatus.BAD_GATEWAY,
+ *     { userId, provider: 'fcm' },
+ *     error
+ *   );
+ * }
+ * ```
+ */
+export class CertusNotificationError extends CertusAdiValtError {
+  /**
+   * Creates a new CertusNotificationError instance.
+   *
+   * @param {string} [message='Notification service error'] - Human-readable error description
+   * @param {string} [code=ErrorCodes.NOTIF_PROVIDER_ERROR] - Machine-readable `NOTIF_*` error code
+   * @param {number} [statusCode=HttpStatus.BAD_GATEWAY] - HTTP status code
+   * @param {Record<string, unknown>} [context={}] - Additional context about the notification
+   * @param {Error} [originalError] - Error raised by the notification provider
+   *
+   * @example
+   * ```typescript
+   * throw new CertusNotificationError(
+   *   'Welcome template missing',
+   *   ErrorCodes.NOTIF_TEMPLATE_NOT_FOUND,
+   *   HttpStatus.INTERNAL_SERVER_ERROR,
+   *   { template: 'welcome', locale: 'de' }
+   * );
+   * ```
+   */
+  constructor(
+    message: string = 'Notification service error',
+    code: string = ErrorCodes.NOTIF_PROVIDER_ERROR,
+    statusCode: number = HttpStatus.BAD_GATEWAY,
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, code, statusCode, context, originalError);
+    this.name = 'CertusNotificationError';
+  }
+}
+
+/**
+ * Error thrown when an email cannot be sent. Returns HTTP 502 Bad Gateway.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await mailer.send({ to: user.email, template: 'password-reset' });
+ * } catch (error) {
+ *   throw new CertusEmailDeliveryError('Password reset email failed', { userId: user.id }, error);
+ * }
+ * ```
+ */
+export class CertusEmailDeliveryError extends CertusNotificationError {
+  /**
+   * Creates a new CertusEmailDeliveryError instance.
+   *
+   * @param {string} [message='Email sending failed'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the template
+   * @param {Error} [originalError] - Error raised by the mail provider
+   */
+  constructor(
+    message: string = 'Email sending failed',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, ErrorCodes.NOTIF_EMAIL_FAILED, HttpStatus.BAD_GATEWAY, context, originalError);
+    this.name = 'CertusEmailDeliveryError';
+  }
+}
+
+/**
+ * Error thrown when an SMS cannot be sent. Returns HTTP 502 Bad Gateway.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await sms.send(user.phone, `Your code is ${code}`);
+ * } catch (error) {
+ *   throw new CertusSmsDeliveryError('Verification SMS failed', { userId: user.id }, error);
+ * }
+ * ```
+ */
+export class CertusSmsDeliveryError extends CertusNotificationError {
+  /**
+   * Creates a new CertusSmsDeliveryError instance.
+   *
+   * @param {string} [message='SMS sending failed'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context about the message
+   * @param {Error} [originalError] - Error raised by the SMS provider
+   */
+  constructor(
+    message: string = 'SMS sending failed',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, ErrorCodes.NOTIF_SMS_FAILED, HttpStatus.BAD_GATEWAY, context, originalError);
+    this.name = 'CertusSmsDeliveryError';
+  }
+}
+
+/**
+ * Error thrown when too many notifications were sent, by the application's own limits
+ * or the provider's. Returns HTTP 429 Too Many Requests.
+ *
+ * @example
+ * ```typescript
+ * if (await otpLimiter.isExhausted(user.phone)) {
+ *   throw new CertusNotificationRateLimitError('Too many verification codes requested', {
+ *     retryAfterMs: 60_000,
+ *   });
+ * }
+ * ```
+ */
+export class CertusNotificationRateLimitError extends CertusNotificationError {
+  /**
+   * Creates a new CertusNotificationRateLimitError instance.
+   *
+   * @param {string} [message='Notification rate limit exceeded'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as when to retry
+   * @param {Error} [originalError] - Error raised by the notification provider
+   */
+  constructor(
+    message: string = 'Notification rate limit exceeded',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(
+      message,
+      ErrorCodes.NOTIF_RATE_LIMIT,
+      HttpStatus.TOO_MANY_REQUESTS,
+      context,
+      originalError
+    );
+    this.name = 'CertusNotificationRateLimitError';
+  }
+}
@@ -0,0 +1,161 @@
+import { ErrorCodes, HttpStatus } from '../../constants';
+import { CertusAdiValtError } from './base';
+
+/**
+ * Base payment error class for all payment and billing failures (`PAY_*` codes).
+ *
+ * Most payment failures are reported with HTTP 402 Payment Required: the payment
+ * method of the client cannot be charged. Failures of the payment processor itself
+ * are server errors (see CertusPaymentProcessorError).
+ *
+ * @example
+ * ```typescript
+ * const charge = await gateway.charge(order.total, paymentMethodId);
+ * if (charge.status === 'failed') {
+ *   throw new CertusPaymentError(
+ *     'Payment could not be completed',
+ *     ErrorCodes.PAY_PAYMENT_FAILED,
+ *     HttpStatus.PAYMENT_REQUIRED,
+ *     { orderId: order.id, chargeId: charge.id }
+ *   );
+ * }
+ *
+ * throw new CertusPaymentError('Subscription has expired', ErrorCodes.PAY_SUBSCRIPTION_EXPIRED);
+ * ```
+ */
+export class CertusPaymentError extends CertusAdiValtError {
+  /**
+   * Creates a new CertusPaymentError instance.
+   *
+   * @param {string} [message='Payment processing failed'] - Human-readable error description
+   * @param {string} [code=ErrorCodes.PAY_PAYMENT_FAILED] - Machine-readable `PAY_*` error code
+   * @param {number} [statusCode=HttpStatus.PAYMENT_REQUIRED] - HTTP status code
+   * @param {Record<string, unknown>} [context={}] - Additional context about the payment
+   * @param {Error} [originalError] - Error raised by the payment SDK
+   *
+   * @example
+   * ```typescript
+   * throw new CertusPaymentError(
+   *   'Refund failed',
+   *   ErrorCodes.PAY_REFUND_FAILED,
+   *   HttpStatus.INTERNAL_SERVER_ERROR,
+   *   { refundId: 're_123', amount: 4200 }
+   * );
+   * ```
+   */
+  constructor(
+    message: string = 'Payment processing failed',
+    code: string = ErrorCodes.PAY_PAYMENT_FAILED,
+    statusCode: number = HttpStatus.PAYMENT_REQUIRED,
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, code, statusCode, context, originalError);
+    this.name = 'CertusPaymentError';
+  }
+}
+
+/**
+ * Error thrown when the card issuer declines a charge. Returns HTTP 402 Payment Required.
+ *
+ * @example
+ * ```typescript
+ * if (charge.outcome === 'issuer_declined') {
+ *   throw new CertusCardDeclinedError('Your card was declined', {
+ *     declineCode: charge.declineCode,
+ *     orderId: order.id,
+ *   }).withPublicContext(['declineCode']);
+ * }
+ * ```
+ */
+export class CertusCardDeclinedError extends CertusPaymentError {
+  /**
+   * Creates a new CertusCardDeclinedError instance.
+   *
+   * @param {string} [message='Card declined'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the decline code
+   * @param {Error} [originalError] - Error raised by the payment SDK
+   */
+  constructor(
+    message: string = 'Card declined',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(
+      message,
+      ErrorCodes.PAY_CARD_DECLINED,
+      HttpStatus.PAYMENT_REQUIRED,
+      context,
+      originalError
+    );
+    this.name = 'CertusCardDeclinedError';
+  }
+}
+
+/**
+ * Error thrown when the payment method lacks the funds for a charge. Returns HTTP 402
+ * Payment Required.
+ *
+ * @example
+ * ```typescript
+ * if (wallet.balance < order.total) {
+ *   throw new CertusInsufficientFundsError('Insufficient wallet balance', {
+ *     walletId: wallet.id,
+ *   });
+ * }
+ * ```
+ */
+export class CertusInsufficientFundsError extends CertusPaymentError {
+  /**
+   * Creates a new CertusInsufficientFundsError instance.
+   *
+   * @param {string} [message='Insufficient funds'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context about the payment
+   * @param {Error} [originalError] - Error raised by the payment SDK
+   */
+  constructor(
+    message: string = 'Insufficient funds',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(
+      message,
+      ErrorCodes.PAY_INSUFFICIENT_FUNDS,
+      HttpStatus.PAYMENT_REQUIRED,
+      context,
+      originalError
+    );
+    this.name = 'CertusInsufficientFundsError';
+  }
+}
+
+/**
+ * Error thrown when the payment processor fails or is unreachable. Returns HTTP 502
+ * Bad Gateway, as the failure lies upstream rather than with the client.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await gateway.charge(order.total, paymentMethodId);
+ * } catch (error) {
+ *   throw new CertusPaymentProcessorError('Payment gateway unavailable', { gateway: 'stripe' }, error);
+ * }
+ * ```
+ */
+export class CertusPaymentProcessorError extends CertusPaymentError {
+  /**
+   * Creates a new CertusPaymentProcessorError instance.
+   *
+   * @param {string} [message='Payment processor error'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context, such as the gateway
+   * @param {Error} [originalError] - Error raised by the payment SDK
+   */
+  constructor(
+    message: string = 'Payment processor error',
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ) {
+    super(message, ErrorCodes.PAY_PROCESSOR_ERROR, HttpStatus.BAD_GATEWAY, context, originalError);
+    this.name = 'CertusPaymentProcessorError';
+  }
+}
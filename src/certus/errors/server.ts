@@ -38,6 +38,7 @@ export class CertusServerError extends CertusAdiValtError {
    * @param {string} [code=ErrorCodes.SRV_INTERNAL_ERROR] - Machine-readable error code for server failures
    * @param {number} [statusCode=HttpStatus.INTERNAL_SERVER_ERROR] - HTTP status code (5xx range)
    * @param {Record<string, unknown>} [context={}] - Additional context about the server error
+   * @param {Error} [originalError] - Original error that caused this error
    *
    * @example
    * ```typescript
@@ -63,9 +64,10 @@ export class CertusServerError extends CertusAdiValtError {
     message: string,
     code: string = ErrorCodes.SRV_INTERNAL_ERROR,
     statusCode: number = HttpStatus.INTERNAL_SERVER_ERROR,
-    context: Record<string, unknown> = {}
+    context: Record<string, unknown> = {},
+    originalError?: Error
   ) {
-    super(message, code, statusCode, context);
+    super(message, code, statusCode, context, originalError);
     this.name = 'CertusServerError';
   }
 }
@@ -206,6 +208,9 @@ export class CertusExternalServiceError extends CertusServerError {
  * or missing required settings. Returns HTTP 500 Internal Server Error since configuration
  * issues prevent the application from functioning properly.
  *
+ * Configuration errors are not operational (see `isOperational`): ProcessErrorHandler
+ * shuts the process down when one is left unhandled.
+ *
  * @example
  * ```typescript
  * // Validate required configuration
@@ -229,6 +234,13 @@ export class CertusExternalServiceError extends CertusServerError {
  * ```
  */
 export class CertusConfigurationError extends CertusServerError {
+  /**
+   * Configuration errors are programmer errors: the application cannot work until the
+   * configuration is fixed.
+   * @type {boolean}
+   */
+  static readonly operational: boolean = false;
+
   /**
    * Creates a new CertusConfigurationError instance.
    *
@@ -260,3 +272,152 @@ export class CertusConfigurationError extends CertusServerError {
     this.name = 'CertusConfigurationError';
   }
 }
+
+/**
+ * Error thrown when the service cannot handle requests for the time being, such as
+ * during maintenance or while a dependency it cannot work without is down.
+ *
+ * Returns HTTP 503 Service Unavailable with the `SRV_SERVICE_UNAVAILABLE` code. When
+ * `retryAfter` is set, `ErrorMiddleware` sends it as the `Retry-After` header and
+ * `RetryPolicy` waits at least that long before the next attempt.
+ *
+ * @example
+ * ```typescript
+ * if (maintenance.isActive()) {
+ *   throw new CertusServiceUnavailableError(
+ *     'Scheduled maintenance in progress',
+ *     { window: maintenance.window },
+ *     maintenance.secondsRemaining()
+ *   );
+ * }
+ * ```
+ */
+export class CertusServiceUnavailableError extends CertusServerError {
+  /**
+   * Seconds the client should wait before retrying.
+   * @type {number | undefined}
+   */
+  public readonly retryAfter?: number;
+
+  /**
+   * Creates a new CertusServiceUnavailableError instance.
+   *
+   * @param {string} [message='Service unavailable'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional context about the outage
+   * @param {number} [retryAfter] - Seconds the client should wait before retrying
+   *
+   * @example
+   * ```typescript
+   * throw new CertusServiceUnavailableError('Search index is rebuilding', { index: 'products' }, 120);
+   * ```
+   */
+  constructor(
+    message: string = 'Service unavailable',
+    context: Record<string, unknown> = {},
+    retryAfter?: number
+  ) {
+    super(message, ErrorCodes.SRV_SERVICE_UNAVAILABLE, HttpStatus.SERVICE_UNAVAILABLE, context);
+    this.name = 'CertusServiceUnavailableError';
+    if (retryAfter !== undefined) {
+      this.retryAfter = retryAfter;
+    }
+  }
+}
+
+/**
+ * Error thrown when a circuit breaker rejects a call to a failing dependency.
+ *
+ * Raised without calling the dependency while its circuit is open (or while the
+ * half-open trial calls are in flight). A CertusServiceUnavailableError: returns HTTP
+ * 503 Service Unavailable with the `SRV_SERVICE_UNAVAILABLE` code; the context names
+ * the circuit and how long until it lets a trial call through, which also sets
+ * `retryAfter`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   return await paymentsBreaker.execute(() => paymentGateway.charge(amount, token));
+ * } catch (error) {
+ *   if (isCircuitOpenError(error)) {
+ *     // The gateway was not called: fail fast or use a fallback provider
+ *     return backupGateway.charge(amount, token);
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class CertusCircuitOpenError extends CertusServiceUnavailableError {
+  /**
+   * Creates a new CertusCircuitOpenError instance.
+   *
+   * @param {string} [message='Service temporarily unavailable'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Circuit details, such as `circuit`, `state`
+   *        and `retryAfterMs`
+   *
+   * @example
+   * ```typescript
+   * throw new CertusCircuitOpenError('Payment gateway temporarily unavailable', {
+   *   circuit: 'payments',
+   *   state: 'open',
+   *   retryAfterMs: 12000,
+   * });
+   * ```
+   */
+  constructor(
+    message: string = 'Service temporarily unavailable',
+    context: Record<string, unknown> = {}
+  ) {
+    const { retryAfterMs } = context;
+    super(
+      message,
+      context,
+      typeof retryAfterMs === 'number' ? Math.ceil(retryAfterMs / 1000) : undefined
+    );
+    this.name = 'CertusCircuitOpenError';
+  }
+}
+
+/**
+ * Error thrown when an operation or request exceeds its time budget.
+ *
+ * Unlike CertusTimeoutError, which is scoped to database operations, this error
+ * covers any operation bounded by `withTimeout()` or a request deadline set by
+ * `DeadlineMiddleware`. Returns HTTP 504 Gateway Timeout with the `GEN_TIMEOUT`
+ * code; the context holds the time budget and the elapsed time in milliseconds.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   return await withTimeout((signal) => searchApi.query(terms, { signal }), 2000, {
+ *     operation: 'search',
+ *   });
+ * } catch (error) {
+ *   if (error instanceof CertusOperationTimeoutError) {
+ *     logger.warn('Search timed out', error.context); // { operation, budgetMs, elapsedMs }
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class CertusOperationTimeoutError extends CertusServerError {
+  /**
+   * Creates a new CertusOperationTimeoutError instance.
+   *
+   * @param {string} [message='Operation timed out'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Timeout details, such as `operation`,
+   *        `budgetMs` and `elapsedMs`
+   *
+   * @example
+   * ```typescript
+   * throw new CertusOperationTimeoutError("Operation 'geocode' timed out after 1500 ms", {
+   *   operation: 'geocode',
+   *   budgetMs: 1500,
+   *   elapsedMs: 1502,
+   * });
+   * ```
+   */
+  constructor(message: string = 'Operation timed out', context: Record<string, unknown> = {}) {
+    super(message, ErrorCodes.GEN_TIMEOUT, HttpStatus.GATEWAY_TIMEOUT, context);
+    this.name = 'CertusOperationTimeoutError';
+  }
+}
@@ -1,4 +1,5 @@
 import { ErrorCodes, HttpStatus } from '../../constants';
+import { Violation } from '../../types';
 import { CertusClientError } from './client';
 
 /**
@@ -33,11 +34,18 @@ import { CertusClientError } from './client';
  * ```
  */
 export class CertusInputValidationError extends CertusClientError {
+  /**
+   * Field-level validation failures.
+   * @type {Violation[]}
+   */
+  public readonly violations: Violation[];
+
   /**
    * Creates a new CertusInputValidationError instance.
    *
    * @param {string} [message='Input validation failed'] - Human-readable error description
    * @param {Record<string, unknown>} [context={}] - Additional context about validation failures
+   * @param {Violation[]} [violations=[]] - Field-level validation failures
    *
    * @example
    * ```typescript
@@ -57,11 +65,21 @@ export class CertusInputValidationError extends CertusClientError {
    *     suggestion: 'Review the API documentation for field requirements'
    *   }
    * );
+   *
+   * // Structured field-level violations
+   * throw new ViolationCollector()
+   *   .add('/password', ErrorCodes.VAL_STRING_TOO_SHORT, { params: { min: 8 } })
+   *   .toError('Input validation failed', CertusInputValidationError);
    * ```
    */
-  constructor(message: string = 'Input validation failed', context: Record<string, unknown> = {}) {
+  constructor(
+    message: string = 'Input validation failed',
+    context: Record<string, unknown> = {},
+    violations: Violation[] = []
+  ) {
     super(message, ErrorCodes.VAL_INVALID_INPUT, HttpStatus.BAD_REQUEST, context);
     this.name = 'CertusInputValidationError';
+    this.violations = violations;
   }
 }
 
@@ -110,11 +128,18 @@ export class CertusInputValidationError extends CertusClientError {
  * ```
  */
 export class CertusSchemaValidationError extends CertusClientError {
+  /**
+   * Field-level validation failures.
+   * @type {Violation[]}
+   */
+  public readonly violations: Violation[];
+
   /**
    * Creates a new CertusSchemaValidationError instance.
    *
    * @param {string} [message='Schema validation failed'] - Human-readable error description
    * @param {Record<string, unknown>} [context={}] - Additional context about schema validation failures
+   * @param {Violation[]} [violations=[]] - Field-level validation failures
    *
    * @example
    * ```typescript
@@ -144,11 +169,21 @@ export class CertusSchemaValidationError extends CertusClientError {
    *     documentation: 'https://api.example.com/schemas/order-creation'
    *   }
    * );
+   *
+   * // Structured field-level violations
+   * throw new CertusSchemaValidationError('Invalid order', {}, [
+   *   { path: '/items/0/quantity', code: ErrorCodes.VAL_NUMBER_TOO_SMALL, message: 'Number is too small', params: { min: 1 } }
+   * ]);
    * ```
    */
-  constructor(message: string = 'Schema validation failed', context: Record<string, unknown> = {}) {
+  constructor(
+    message: string = 'Schema validation failed',
+    context: Record<string, unknown> = {},
+    violations: Violation[] = []
+  ) {
     super(message, ErrorCodes.VAL_SCHEMA_ERROR, HttpStatus.UNPROCESSABLE_ENTITY, context);
     this.name = 'CertusSchemaValidationError';
+    this.violations = violations;
   }
 }
 
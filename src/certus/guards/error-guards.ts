@@ -1,4 +1,25 @@
-import { CertusAdiValtError } from '../errors';
+import { Violation } from '../../types';
+import {
+  CertusAdiValtError,
+  CertusCircuitOpenError,
+  CertusConnectionError,
+  CertusSslError,
+  CertusTimeoutError,
+} from '../errors';
+
+/** Node.js system error codes of transient network failures */
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
 
 /**
  * Type guard to check if an unknown value is a CertusAdiValtError instance.
@@ -219,6 +240,113 @@ export function isDatabaseError(error: unknown): boolean {
   return isCertusError(error) && error.code.startsWith('DB_');
 }
 
+/**
+ * Checks if an error is a file or storage error.
+ *
+ * File errors cover uploads, downloads and storage quotas, whether the file is
+ * rejected (too large, wrong type) or the storage backend fails.
+ *
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if the error is a CertusAdiValtError with FILE_ prefix error code
+ *
+ * @example
+ * ```typescript
+ * // In an upload handler
+ * try {
+ *   await uploads.store(req.file);
+ * } catch (error) {
+ *   if (isFileError(error)) {
+ *     // Remove the partially written temp file
+ *     await fs.rm(req.file.path, { force: true });
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export function isFileError(error: unknown): boolean {
+  return isCertusError(error) && error.code.startsWith('FILE_');
+}
+
+/**
+ * Checks if an error is a payment error.
+ *
+ * Payment errors include declined cards, insufficient funds, failed refunds and
+ * payment processor failures.
+ *
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if the error is a CertusAdiValtError with PAY_ prefix error code
+ *
+ * @example
+ * ```typescript
+ * // In checkout
+ * try {
+ *   await billing.charge(order);
+ * } catch (error) {
+ *   if (isPaymentError(error)) {
+ *     // Keep the order open so the customer can pick another payment method
+ *     await orders.markPaymentFailed(order.id, error.code);
+ *     metrics.increment('checkout.payment_failed', { code: error.code });
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export function isPaymentError(error: unknown): boolean {
+  return isCertusError(error) && error.code.startsWith('PAY_');
+}
+
+/**
+ * Checks if an error is a notification error.
+ *
+ * Notification errors occur when emails, SMS or push notifications cannot be
+ * sent, or when a notification provider rate-limits the application.
+ *
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if the error is a CertusAdiValtError with NOTIF_ prefix error code
+ *
+ * @example
+ * ```typescript
+ * // Sign-up should not fail because the welcome email could not be sent
+ * try {
+ *   await notifications.sendWelcome(user);
+ * } catch (error) {
+ *   if (!isNotificationError(error)) {
+ *     throw error;
+ *   }
+ *   logger.warn('Welcome email not sent', error.toLog());
+ * }
+ * ```
+ */
+export function isNotificationError(error: unknown): boolean {
+  return isCertusError(error) && error.code.startsWith('NOTIF_');
+}
+
+/**
+ * Checks if an error is a network error.
+ *
+ * Network errors occur below the application protocol when reaching another
+ * host: DNS resolution, TLS handshakes, proxies, firewalls and connection timeouts.
+ *
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if the error is a CertusAdiValtError with NET_ prefix error code
+ *
+ * @example
+ * ```typescript
+ * // In dependency health monitoring
+ * try {
+ *   await partnerApi.ping();
+ * } catch (error) {
+ *   const certusError = toNetworkError(error);
+ *   if (isNetworkError(certusError)) {
+ *     dependencyHealth.setStatus('partner_api', 'unreachable');
+ *   }
+ * }
+ * ```
+ */
+export function isNetworkError(error: unknown): boolean {
+  return isCertusError(error) && error.code.startsWith('NET_');
+}
+
 /**
  * Checks if an error is specifically an external service error.
  *
@@ -255,3 +383,146 @@ export function isDatabaseError(error: unknown): boolean {
 export function isExternalServiceError(error: unknown): boolean {
   return isCertusError(error) && error.code === 'SRV_EXTERNAL_SERVICE';
 }
+
+/**
+ * Checks if an error was raised by an open circuit breaker.
+ *
+ * Such errors mean the dependency was not called at all, so retrying them
+ * immediately is pointless until the circuit lets a trial call through.
+ *
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if the error is a CertusCircuitOpenError
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await inventoryBreaker.execute(() => inventoryApi.reserve(items));
+ * } catch (error) {
+ *   if (isCircuitOpenError(error)) {
+ *     res.setHeader('Retry-After', Math.ceil(Number(error.context.retryAfterMs) / 1000));
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export function isCircuitOpenError(error: unknown): error is CertusCircuitOpenError {
+  return error instanceof CertusCircuitOpenError;
+}
+
+/**
+ * Checks if retrying the operation that failed with an error may succeed.
+ *
+ * This is the default `shouldRetry` of `RetryPolicy`:
+ * - `CertusConnectionError` and `CertusTimeoutError` are always retryable
+ * - Calls rejected by an open circuit breaker are not (see `isCircuitOpenError`), nor are
+ *   `CertusSslError`s: a rejected certificate is rejected again
+ * - Client (4xx) errors are never retryable: the same request fails the same way
+ * - Other server (5xx) errors are retryable unless their context sets `retryable: false`,
+ *   as `translateDatabaseError()` does for non-transient database failures
+ * - Errors that are not Certus errors are retryable only when they, or their cause,
+ *   carry a transient Node.js network code such as `ECONNRESET` or `ETIMEDOUT`
+ *
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if the operation may succeed when retried
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await publishEvent(event);
+ * } catch (error) {
+ *   if (isRetryableError(error)) {
+ *     await outbox.schedule(event);
+ *   } else {
+ *     throw error;
+ *   }
+ * }
+ * ```
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CertusConnectionError || error instanceof CertusTimeoutError) {
+    return true;
+  }
+  if (isCircuitOpenError(error) || error instanceof CertusSslError || isClientError(error)) {
+    return false;
+  }
+  if (isCertusError(error)) {
+    return error.statusCode >= 500 && error.context.retryable !== false;
+  }
+  return hasTransientNetworkCode(error) || hasTransientNetworkCode(getCause(error));
+}
+
+/**
+ * Checks if an error is an expected operational failure rather than a programmer error.
+ *
+ * Operational errors, such as a missing record, a declined card or an unreachable
+ * dependency, are part of normal operation: the application reports them and keeps
+ * running. Everything else is treated as a bug the process may not recover from:
+ * - Certus errors whose `isOperational` flag is false, such as CertusConfigurationError
+ *   or errors marked with `withOperational(false)`
+ * - Errors that are not Certus errors, such as a TypeError thrown by a handler
+ *
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if the error is a CertusAdiValtError flagged as operational
+ *
+ * @example
+ * ```typescript
+ * process.on('uncaughtException', (error) => {
+ *   logger.error('Uncaught exception', {}, error);
+ *   if (!isOperationalError(error)) {
+ *     process.exit(1);
+ *   }
+ * });
+ * ```
+ */
+export function isOperationalError(error: unknown): boolean {
+  return isCertusError(error) && error.isOperational;
+}
+
+/**
+ * Checks if an error carries field-level validation violations.
+ *
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if the error is a CertusAdiValtError with a non-empty `violations` array
+ *
+ * @example
+ * ```typescript
+ * if (hasViolations(error)) {
+ *   error.violations.forEach((violation) => {
+ *     form.setFieldError(violation.path, violation.message);
+ *   });
+ * }
+ * ```
+ */
+export function hasViolations(
+  error: unknown
+): error is CertusAdiValtError & { violations: Violation[] } {
+  if (!isCertusError(error)) {
+    return false;
+  }
+
+  const { violations } = error as CertusAdiValtError & { violations?: unknown };
+  return Array.isArray(violations) && violations.length > 0;
+}
+
+/**
+ * Checks if a value is an error with a transient Node.js network code.
+ *
+ * @private
+ * @param {unknown} error - The value to check
+ * @returns {boolean} True if its `code` is a transient network code
+ */
+function hasTransientNetworkCode(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null | undefined)?.code;
+  return typeof code === 'string' && TRANSIENT_NETWORK_CODES.includes(code);
+}
+
+/**
+ * Gets the cause of an error, e.g. the socket error behind a failed `fetch()`.
+ *
+ * @private
+ * @param {unknown} error - The error
+ * @returns {unknown} Its `cause`, or undefined
+ */
+function getCause(error: unknown): unknown {
+  return error instanceof Error ? (error as Error & { cause?: unknown }).cause : undefined;
+}
@@ -0,0 +1,468 @@
+import {
+  ErrorCatalog,
+  ErrorCodes,
+  ErrorCodeType,
+  ErrorMessages,
+  HttpStatus,
+} from '../../constants';
+import { DatabaseDriver, DatabaseErrorTranslationOptions } from '../../types';
+import {
+  CertusConnectionError,
+  CertusDatabaseError,
+  CertusTimeoutError,
+  CertusUniqueConstraintError,
+  CertusValidationError,
+} from '../errors';
+import { isDatabaseError } from '../guards';
+
+/**
+ * Outcome of matching a driver error: the Certus error to create and the
+ * constraint/table/column details found in the driver error.
+ */
+interface DatabaseErrorMatch {
+  code: string;
+  statusCode: number;
+  retryable: boolean;
+  details: Record<string, unknown>;
+}
+
+/** Node.js socket error codes raised when the database cannot be reached */
+const CONNECTION_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'EPIPE',
+  'PROTOCOL_CONNECTION_LOST',
+];
+
+/** Node.js socket error codes raised when the database does not answer in time */
+const TIMEOUT_ERROR_CODES = ['ETIMEDOUT', 'PROTOCOL_SEQUENCE_TIMEOUT'];
+
+/** MongoDB server error codes for unreachable or unavailable servers */
+const MONGO_CONNECTION_CODES = [6, 7, 89, 91, 189, 10107, 11600, 11602, 13435, 13436];
+
+/**
+ * Translates a raw database driver error into the matching Certus error.
+ *
+ * Recognizes PostgreSQL SQLSTATE codes (`pg`, `postgres`), MySQL errno values
+ * (`mysql`, `mysql2`), SQLite result codes (`sqlite3`, `better-sqlite3`) and
+ * MongoDB server codes and error names, plus Node.js socket errors. The driver
+ * is detected from the error's shape, so none of the drivers is a dependency.
+ *
+ * | Failure | Result | Status |
+ * |---------|--------|--------|
+ * | Unique violation / duplicate key | `CertusUniqueConstraintError` (`DB_UNIQUE_CONSTRAINT`) | 409 |
+ * | Foreign key violation | `CertusDatabaseError` (`DB_FOREIGN_KEY_CONSTRAINT`) | 409 |
+ * | Not null / check / document validation | `CertusValidationError` (`VAL_INVALID_INPUT`) | 422 |
+ * | Deadlock | `CertusDatabaseError` (`DB_DEADLOCK_ERROR`) | 503 |
+ * | Serialization failure / write conflict | `CertusDatabaseError` (`DB_TRANSACTION_ERROR`) | 503 |
+ * | Too many connections | `CertusDatabaseError` (`DB_CONNECTION_LIMIT`) | 503 |
+ * | Connection failure | `CertusConnectionError` (`DB_CONNECTION_ERROR`) | 503 |
+ * | Statement / lock timeout | `CertusTimeoutError` (`DB_TIMEOUT_ERROR`) | 504 |
+ * | Anything else | `CertusDatabaseError` (`DB_QUERY_ERROR`) | 500 |
+ *
+ * The context holds the `driver`, the raw `driverCode`, whether the operation
+ * is `retryable`, and the `constraint`, `table`, `columns`, `schema` and
+ * `referencedTable` where the driver reports them. Rejected values from the
+ * driver messages are never copied; the driver error itself becomes the
+ * `originalError` (and `cause`) of the translated error. Certus database errors are
+ * returned unchanged.
+ *
+ * Violations of NOT NULL, CHECK and document validation rules are caused by the
+ * data the client sent, so they become client validation errors rather than
+ * database (server) errors.
+ *
+ * @param {unknown} error - The error thrown by the database driver
+ * @param {DatabaseErrorTranslationOptions} [options={}] - Message and context options
+ * @returns {CertusDatabaseError | CertusValidationError} The translated error
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await pool.query('INSERT INTO users (email) VALUES ($1)', [email]);
+ * } catch (error) {
+ *   throw translateDatabaseError(error, { context: { operation: 'createUser' } });
+ * }
+ * // CertusUniqueConstraintError (409):
+ * // context: {
+ * //   driver: 'postgres',
+ * //   driverCode: '23505',
+ * //   retryable: false,
+ * //   constraint: 'users_email_key',
+ * //   table: 'users',
+ * //   columns: ['email'],
+ * //   operation: 'createUser'
+ * // }
+ * ```
+ */
+export function translateDatabaseError(
+  error: unknown,
+  options: DatabaseErrorTranslationOptions = {}
+): CertusDatabaseError | CertusValidationError {
+  if (isDatabaseError(error)) {
+    return error as CertusDatabaseError;
+  }
+
+  const driver = detectDatabaseDriver(error);
+  const raw = (error ?? {}) as Record<string, any>;
+  const matched = matchDriverError(driver, raw);
+  const message = options.message ?? ErrorMessages[matched.code as keyof typeof ErrorMessages];
+  const context = {
+    driver,
+    driverCode: driver === 'mysql' ? raw.errno : raw.code,
+    retryable: matched.retryable,
+    ...matched.details,
+    ...options.context,
+  };
+  const originalError = error instanceof Error ? error : undefined;
+
+  switch (matched.code) {
+    case ErrorCodes.VAL_INVALID_INPUT:
+      return new CertusValidationError(message, context, [], originalError);
+    case ErrorCodes.DB_UNIQUE_CONSTRAINT:
+      return new CertusUniqueConstraintError(message, context, originalError);
+    case ErrorCodes.DB_CONNECTION_ERROR:
+      return new CertusConnectionError(message, context, originalError);
+    case ErrorCodes.DB_TIMEOUT_ERROR:
+      return new CertusTimeoutError(message, context, originalError);
+    default:
+      return new CertusDatabaseError(
+        message,
+        matched.code,
+        matched.statusCode,
+        context,
+        originalError
+      );
+  }
+}
+
+/**
+ * Detects which database driver raised an error from its shape.
+ *
+ * @param {unknown} error - The error thrown by the database driver
+ * @returns {DatabaseDriver} The detected driver, or 'unknown'
+ *
+ * @example
+ * ```typescript
+ * detectDatabaseDriver({ code: '23505', severity: 'ERROR' }); // 'postgres'
+ * detectDatabaseDriver({ errno: 1062, code: 'ER_DUP_ENTRY', sqlState: '23000' }); // 'mysql'
+ * detectDatabaseDriver({ code: 'SQLITE_CONSTRAINT_UNIQUE' }); // 'sqlite'
+ * detectDatabaseDriver({ name: 'MongoServerError', code: 11000 }); // 'mongodb'
+ * ```
+ */
+export function detectDatabaseDriver(error: unknown): DatabaseDriver {
+  if (error === null || typeof error !== 'object') {
+    return 'unknown';
+  }
+
+  const raw = error as Record<string, any>;
+
+  if (typeof raw.name === 'string' && raw.name.startsWith('Mongo')) {
+    return 'mongodb';
+  }
+  if (typeof raw.code === 'string' && raw.code.startsWith('SQLITE_')) {
+    return 'sqlite';
+  }
+  if (
+    typeof raw.errno === 'number' &&
+    (typeof raw.sqlState === 'string' ||
+      typeof raw.sqlMessage === 'string' ||
+      (typeof raw.code === 'string' && raw.code.startsWith('ER_')))
+  ) {
+    return 'mysql';
+  }
+  if (
+    typeof raw.code === 'string' &&
+    /^[0-9A-Z]{5}$/.test(raw.code) &&
+    ('severity' in raw || 'routine' in raw || 'constraint' in raw)
+  ) {
+    return 'postgres';
+  }
+  return 'unknown';
+}
+
+/**
+ * Matches a driver error to a Certus error code and status.
+ *
+ * @param {DatabaseDriver} driver - The detected driver
+ * @param {Record<string, any>} raw - The driver error
+ * @returns {DatabaseErrorMatch} The match
+ */
+function matchDriverError(driver: DatabaseDriver, raw: Record<string, any>): DatabaseErrorMatch {
+  switch (driver) {
+    case 'postgres':
+      return matchPostgresError(raw);
+    case 'mysql':
+      return matchMysqlError(raw);
+    case 'sqlite':
+      return matchSqliteError(raw);
+    case 'mongodb':
+      return matchMongoError(raw);
+    default:
+      return matchSocketError(raw) ?? match(ErrorCodes.DB_QUERY_ERROR);
+  }
+}
+
+/**
+ * Matches PostgreSQL SQLSTATE codes.
+ *
+ * @param {Record<string, any>} raw - The `pg`/`postgres` error
+ * @returns {DatabaseErrorMatch} The match
+ */
+function matchPostgresError(raw: Record<string, any>): DatabaseErrorMatch {
+  const code: string = raw.code;
+  const keyColumns = /Key \(([^)]+)\)=/.exec(raw.detail ?? '')?.[1];
+  const details = compact({
+    constraint: raw.constraint,
+    table: raw.table,
+    schema: raw.schema,
+    columns: raw.column
+      ? [raw.column]
+      : keyColumns?.split(',').map((column: string) => column.trim().replace(/^"|"$/g, '')),
+  });
+
+  switch (code) {
+    case '23505':
+      return match(ErrorCodes.DB_UNIQUE_CONSTRAINT, details);
+    case '23503':
+      return match(ErrorCodes.DB_FOREIGN_KEY_CONSTRAINT, details);
+    case '23502':
+    case '23514':
+      return match(ErrorCodes.VAL_INVALID_INPUT, details, HttpStatus.UNPROCESSABLE_ENTITY);
+    case '40P01':
+      return match(ErrorCodes.DB_DEADLOCK_ERROR, details);
+    case '40001':
+      return match(ErrorCodes.DB_TRANSACTION_ERROR, details, HttpStatus.SERVICE_UNAVAILABLE, true);
+    case '53300':
+      return match(ErrorCodes.DB_CONNECTION_LIMIT, details);
+    case '57014':
+    case '55P03':
+      return match(ErrorCodes.DB_TIMEOUT_ERROR, details);
+    case '57P01':
+    case '57P02':
+    case '57P03':
+      return match(ErrorCodes.DB_CONNECTION_ERROR, details);
+    default:
+      if (code.startsWith('08')) {
+        return match(ErrorCodes.DB_CONNECTION_ERROR, details);
+      }
+      if (code.startsWith('25') || code.startsWith('40')) {
+        return match(ErrorCodes.DB_TRANSACTION_ERROR, details);
+      }
+      return match(ErrorCodes.DB_QUERY_ERROR, details);
+  }
+}
+
+/**
+ * Matches MySQL and MariaDB errno values.
+ *
+ * @param {Record<string, any>} raw - The `mysql`/`mysql2` error
+ * @returns {DatabaseErrorMatch} The match
+ */
+function matchMysqlError(raw: Record<string, any>): DatabaseErrorMatch {
+  const message: string = raw.sqlMessage ?? raw.message ?? '';
+
+  switch (raw.errno) {
+    case 1062:
+    case 1586:
+      return match(
+        ErrorCodes.DB_UNIQUE_CONSTRAINT,
+        compact({ constraint: /for key '([^']+)'/.exec(message)?.[1] })
+      );
+    case 1451:
+    case 1452: {
+      const foreignKey =
+        /`([^`]+)`\.`([^`]+)`, CONSTRAINT `([^`]+)` FOREIGN KEY \(([^)]+)\) REFERENCES `([^`]+)`/.exec(
+          message
+        );
+      return match(
+        ErrorCodes.DB_FOREIGN_KEY_CONSTRAINT,
+        foreignKey
+          ? {
+              schema: foreignKey[1],
+              table: foreignKey[2],
+              constraint: foreignKey[3],
+              columns: foreignKey[4].split(',').map((column) => column.trim().replace(/`/g, '')),
+              referencedTable: foreignKey[5],
+            }
+          : {}
+      );
+    }
+    case 1048:
+      return match(
+        ErrorCodes.VAL_INVALID_INPUT,
+        compact({ columns: wrap(/Column '([^']+)'/.exec(message)?.[1]) }),
+        HttpStatus.UNPROCESSABLE_ENTITY
+      );
+    case 3819:
+      return match(
+        ErrorCodes.VAL_INVALID_INPUT,
+        compact({ constraint: /Check constraint '([^']+)'/.exec(message)?.[1] }),
+        HttpStatus.UNPROCESSABLE_ENTITY
+      );
+    case 1213:
+      return match(ErrorCodes.DB_DEADLOCK_ERROR);
+    case 1205:
+    case 3024:
+      return match(ErrorCodes.DB_TIMEOUT_ERROR);
+    case 1040:
+    case 1203:
+      return match(ErrorCodes.DB_CONNECTION_LIMIT);
+    case 1045:
+    case 2002:
+    case 2003:
+    case 2006:
+    case 2013:
+      return match(ErrorCodes.DB_CONNECTION_ERROR);
+    default:
+      return matchSocketError(raw) ?? match(ErrorCodes.DB_QUERY_ERROR);
+  }
+}
+
+/**
+ * Matches SQLite (extended) result codes.
+ *
+ * @param {Record<string, any>} raw - The `sqlite3`/`better-sqlite3` error
+ * @returns {DatabaseErrorMatch} The match
+ */
+function matchSqliteError(raw: Record<string, any>): DatabaseErrorMatch {
+  const code: string = raw.code;
+  const message: string = raw.message ?? '';
+  const failed = /(UNIQUE|NOT NULL|CHECK|FOREIGN KEY) constraint failed(?:: (.+))?/.exec(message);
+  const kind = code.startsWith('SQLITE_CONSTRAINT_') ? code.slice(18) : failed?.[1];
+  const targets = (failed?.[2] ?? '').split(',').map((target) => target.trim());
+  const columnDetails = compact({
+    table: targets[0]?.includes('.') ? targets[0].split('.')[0] : undefined,
+    columns: targets[0]?.includes('.') ? targets.map((target) => target.split('.')[1]) : undefined,
+  });
+
+  switch (kind) {
+    case 'UNIQUE':
+    case 'PRIMARYKEY':
+      return match(ErrorCodes.DB_UNIQUE_CONSTRAINT, columnDetails);
+    case 'FOREIGNKEY':
+    case 'FOREIGN KEY':
+      return match(ErrorCodes.DB_FOREIGN_KEY_CONSTRAINT);
+    case 'NOTNULL':
+    case 'NOT NULL':
+      return match(ErrorCodes.VAL_INVALID_INPUT, columnDetails, HttpStatus.UNPROCESSABLE_ENTITY);
+    case 'CHECK':
+      return match(
+        ErrorCodes.VAL_INVALID_INPUT,
+        compact({ constraint: failed?.[2] }),
+        HttpStatus.UNPROCESSABLE_ENTITY
+      );
+  }
+
+  if (code.startsWith('SQLITE_BUSY') || code.startsWith('SQLITE_LOCKED')) {
+    return match(ErrorCodes.DB_TIMEOUT_ERROR);
+  }
+  if (code.startsWith('SQLITE_CANTOPEN') || code === 'SQLITE_NOTADB') {
+    return match(ErrorCodes.DB_CONNECTION_ERROR);
+  }
+  return match(ErrorCodes.DB_QUERY_ERROR);
+}
+
+/**
+ * Matches MongoDB server codes and driver error names.
+ *
+ * @param {Record<string, any>} raw - The MongoDB driver error
+ * @returns {DatabaseErrorMatch} The match
+ */
+function matchMongoError(raw: Record<string, any>): DatabaseErrorMatch {
+  const message: string = raw.errmsg ?? raw.message ?? '';
+
+  if (raw.name === 'MongoNetworkTimeoutError') {
+    return match(ErrorCodes.DB_TIMEOUT_ERROR);
+  }
+  if (raw.name === 'MongoNetworkError' || raw.name === 'MongoServerSelectionError') {
+    return match(ErrorCodes.DB_CONNECTION_ERROR);
+  }
+
+  switch (raw.code) {
+    case 11000:
+    case 11001:
+      return match(
+        ErrorCodes.DB_UNIQUE_CONSTRAINT,
+        compact({
+          constraint: /index: (\S+)/.exec(message)?.[1],
+          table: /collection: [^.\s]+\.(\S+)/.exec(message)?.[1],
+          columns: raw.keyPattern ? Object.keys(raw.keyPattern) : undefined,
+        })
+      );
+    case 121:
+      return match(ErrorCodes.VAL_INVALID_INPUT, {}, HttpStatus.UNPROCESSABLE_ENTITY);
+    case 50:
+      return match(ErrorCodes.DB_TIMEOUT_ERROR);
+    case 112:
+    case 251:
+      return match(ErrorCodes.DB_TRANSACTION_ERROR, {}, HttpStatus.SERVICE_UNAVAILABLE, true);
+    default:
+      if (MONGO_CONNECTION_CODES.includes(raw.code)) {
+        return match(ErrorCodes.DB_CONNECTION_ERROR);
+      }
+      return matchSocketError(raw) ?? match(ErrorCodes.DB_QUERY_ERROR);
+  }
+}
+
+/**
+ * Matches Node.js socket errors raised while talking to the database.
+ *
+ * @param {Record<string, any>} raw - The error
+ * @returns {DatabaseErrorMatch | undefined} The match, or undefined for other errors
+ */
+function matchSocketError(raw: Record<string, any>): DatabaseErrorMatch | undefined {
+  if (CONNECTION_ERROR_CODES.includes(raw.code)) {
+    return match(ErrorCodes.DB_CONNECTION_ERROR);
+  }
+  if (TIMEOUT_ERROR_CODES.includes(raw.code)) {
+    return match(ErrorCodes.DB_TIMEOUT_ERROR);
+  }
+  return undefined;
+}
+
+/**
+ * Builds a match, taking the default status and retryability from the ErrorCatalog.
+ *
+ * @param {string} code - Certus database error code
+ * @param {Record<string, unknown>} [details={}] - Constraint/table/column details
+ * @param {number} [statusCode] - HTTP status overriding the code's default
+ * @param {boolean} [retryable] - Retryability overriding the code's default
+ * @returns {DatabaseErrorMatch} The match
+ */
+function match(
+  code: string,
+  details: Record<string, unknown> = {},
+  statusCode?: number,
+  retryable?: boolean
+): DatabaseErrorMatch {
+  const entry = ErrorCatalog[code as ErrorCodeType];
+
+  return {
+    code,
+    statusCode: statusCode ?? entry?.status ?? HttpStatus.INTERNAL_SERVER_ERROR,
+    retryable: retryable ?? entry?.retryable ?? false,
+    details,
+  };
+}
+
+/**
+ * Removes undefined entries from extracted details.
+ *
+ * @param {Record<string, unknown>} details - The extracted details
+ * @returns {Record<string, unknown>} The details without undefined entries
+ */
+function compact(details: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Wraps an optional value in an array.
+ *
+ * @param {string | undefined} value - The value
+ * @returns {string[] | undefined} One-item array, or undefined
+ */
+function wrap(value: string | undefined): string[] | undefined {
+  return value === undefined ? undefined : [value];
+}
@@ -0,0 +1,93 @@
+import {
+  ErrorCatalog,
+  ErrorCatalogEntry,
+  ErrorCodes,
+  ErrorMessages,
+  HttpStatus,
+} from '../../constants';
+import { ErrorCatalogIssue } from '../../types';
+
+/**
+ * Checks that error codes, the error catalog and the error messages agree.
+ *
+ * Reports codes without a catalog entry, entries whose message key has no
+ * message, entries whose status is not a 4xx/5xx `HttpStatus` value, and
+ * entries for codes that do not exist. Meant to run in a test, so that adding
+ * a code without its status or message fails the build. Pass extended tables
+ * to check application-specific codes the same way.
+ *
+ * @param {Object} [tables] - The tables to check (default: the built-in ones)
+ * @param {Record<string, string>} [tables.codes=ErrorCodes] - Error codes
+ * @param {Record<string, ErrorCatalogEntry>} [tables.catalog=ErrorCatalog] - Catalog entries by code
+ * @param {Record<string, string>} [tables.messages=ErrorMessages] - Messages by key
+ * @returns {ErrorCatalogIssue[]} The problems found, empty when the tables agree
+ *
+ * @example
+ * ```typescript
+ * it('should declare a status and message for every error code', () => {
+ *   expect(checkErrorCatalog()).toEqual([]);
+ * });
+ *
+ * // Application codes
+ * expect(
+ *   checkErrorCatalog({
+ *     codes: { ...ErrorCodes, ...AppErrorCodes },
+ *     catalog: { ...ErrorCatalog, ...AppErrorCatalog },
+ *     messages: { ...ErrorMessages, ...AppErrorMessages }
+ *   })
+ * ).toEqual([]);
+ * ```
+ */
+export function checkErrorCatalog(
+  tables: {
+    codes?: Record<string, string>;
+    catalog?: Record<string, ErrorCatalogEntry>;
+    messages?: Record<string, string>;
+  } = {}
+): ErrorCatalogIssue[] {
+  const codes = Object.values(tables.codes ?? ErrorCodes);
+  const catalog: Record<string, ErrorCatalogEntry> = tables.catalog ?? ErrorCatalog;
+  const messages: Record<string, string> = tables.messages ?? ErrorMessages;
+  const statuses = new Set<number>(Object.values(HttpStatus));
+  const issues: ErrorCatalogIssue[] = [];
+
+  for (const code of codes) {
+    const entry = catalog[code];
+    if (!entry) {
+      issues.push({
+        code,
+        problem: 'missing_entry',
+        message: `Error code ${code} has no catalog entry`,
+      });
+      continue;
+    }
+
+    if (!statuses.has(entry.status) || entry.status < 400) {
+      issues.push({
+        code,
+        problem: 'invalid_status',
+        message: `Error code ${code} has status ${entry.status}, which is not a 4xx/5xx HTTP status`,
+      });
+    }
+
+    if (!messages[entry.messageKey]) {
+      issues.push({
+        code,
+        problem: 'missing_message',
+        message: `Error code ${code} has no message for key ${entry.messageKey}`,
+      });
+    }
+  }
+
+  for (const code of Object.keys(catalog)) {
+    if (!codes.includes(code)) {
+      issues.push({
+        code,
+        problem: 'unknown_code',
+        message: `Catalog entry ${code} does not match any error code`,
+      });
+    }
+  }
+
+  return issues;
+}
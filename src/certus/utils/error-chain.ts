@@ -0,0 +1,283 @@
+import { ErrorSerializationOptions, SerializedError } from '../../types';
+
+/** Default number of causes followed below an error */
+const DEFAULT_MAX_DEPTH = 10;
+
+/** Fields of a Certus error serialized in a fixed order, before its subclass fields */
+const CERTUS_FIELDS = ['name', 'code', 'statusCode', 'timestamp', 'context'];
+
+/** Fields never copied as subclass fields: the chain is serialized separately */
+const CHAIN_FIELDS = ['originalError', 'cause', 'errors', 'stack', 'message'];
+
+/**
+ * Gets the error that caused an error.
+ *
+ * Reads the `originalError` of Certus errors and the native ES2022 `cause`
+ * of any other error.
+ *
+ * @param {unknown} error - The error to inspect
+ * @returns {unknown} The cause, or undefined when there is none
+ *
+ * @example
+ * ```typescript
+ * const error = new Error('Checkout failed', { cause: paymentError });
+ * getErrorCause(error); // paymentError
+ * ```
+ */
+export function getErrorCause(error: unknown): unknown {
+  if (error === null || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const { originalError, cause } = error as { originalError?: unknown; cause?: unknown };
+  return originalError ?? cause;
+}
+
+/**
+ * Walks an error and everything that caused it, depth first.
+ *
+ * Each error is followed by the member errors of an AggregateError, then by
+ * its cause. Errors already visited are skipped, so cyclic chains terminate.
+ *
+ * @param {unknown} error - The error to start from
+ * @param {Object} [options] - Walk options
+ * @param {number} [options.maxDepth=10] - Maximum number of causes followed below the error
+ * @returns {unknown[]} The error followed by its causes and member errors
+ *
+ * @example
+ * ```typescript
+ * const chain = getErrorChain(error);
+ * const codes = chain.map((link) => (link as { code?: unknown }).code);
+ *
+ * if (chain.some((link) => link instanceof CertusTimeoutError)) {
+ *   await scheduleRetry(job);
+ * }
+ * ```
+ */
+export function getErrorChain(error: unknown, options: { maxDepth?: number } = {}): unknown[] {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const chain: unknown[] = [];
+  const visited = new Set<unknown>();
+
+  const walk = (link: unknown, depth: number): void => {
+    if (link === undefined || link === null || visited.has(link) || depth > maxDepth) {
+      return;
+    }
+    visited.add(link);
+    chain.push(link);
+
+    for (const member of getAggregateMembers(link)) {
+      walk(member, depth + 1);
+    }
+    walk(getErrorCause(link), depth + 1);
+  };
+
+  walk(error, 0);
+  return chain;
+}
+
+/**
+ * Gets the error at the end of a cause chain.
+ *
+ * Follows causes only (not AggregateError members) and stops at the depth
+ * limit or when the chain loops back on itself.
+ *
+ * @param {unknown} error - The error to start from
+ * @param {Object} [options] - Walk options
+ * @param {number} [options.maxDepth=10] - Maximum number of causes followed below the error
+ * @returns {unknown} The deepest cause, or the error itself when it has no cause
+ *
+ * @example
+ * ```typescript
+ * const root = getRootCause(error);
+ * logger.error('Import failed', { rootCause: (root as Error).message }, error);
+ * ```
+ */
+export function getRootCause(error: unknown, options: { maxDepth?: number } = {}): unknown {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const visited = new Set<unknown>([error]);
+  let root = error;
+
+  for (let depth = 0; depth < maxDepth; depth++) {
+    const cause = getErrorCause(root);
+    if (cause === undefined || cause === null || visited.has(cause)) {
+      break;
+    }
+    visited.add(cause);
+    root = cause;
+  }
+
+  return root;
+}
+
+/**
+ * Serializes an error and its cause chain into a JSON-safe object.
+ *
+ * Every error contributes its name, message, code, status code and stack.
+ * Certus errors also contribute their timestamp, context and subclass fields
+ * (such as `violations`) unless `includeContext` is false. Other fields of
+ * third-party errors are left out, since driver errors often embed rejected
+ * values. Causes are nested under `cause`, AggregateError members under
+ * `errors`. Errors repeated within their own chain are marked `circular` and
+ * causes beyond `maxDepth` are marked `truncated`, without further nesting.
+ *
+ * @param {unknown} error - The error to serialize (non-Error values are converted)
+ * @param {ErrorSerializationOptions} [options={}] - Serialization options
+ * @returns {SerializedError} The serialized error
+ *
+ * @example
+ * ```typescript
+ * const error = new CertusAdiValtError(
+ *   'Payment provider unavailable',
+ *   'SRV_EXTERNAL_SERVICE',
+ *   502,
+ *   { provider: 'stripe' },
+ *   new Error('connect ETIMEDOUT', { cause: socketError })
+ * );
+ *
+ * serializeError(error, { includeStack: false });
+ * // {
+ * //   name: 'CertusAdiValtError',
+ * //   message: 'Payment provider unavailable',
+ * //   code: 'SRV_EXTERNAL_SERVICE',
+ * //   statusCode: 502,
+ * //   timestamp: Date,
+ * //   context: { provider: 'stripe' },
+ * //   cause: {
+ * //     name: 'Error',
+ * //     message: 'connect ETIMEDOUT',
+ * //     cause: { name: 'Error', message: 'socket hang up', code: 'ECONNRESET' }
+ * //   }
+ * // }
+ * ```
+ */
+export function serializeError(
+  error: unknown,
+  options: ErrorSerializationOptions = {}
+): SerializedError {
+  return serializeLink(
+    error,
+    {
+      maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+      includeStack: options.includeStack ?? true,
+      includeContext: options.includeContext ?? true,
+    },
+    0,
+    new Set()
+  );
+}
+
+/**
+ * Serializes one link of a chain and, recursively, the links below it.
+ *
+ * @private
+ * @param {unknown} link - The error to serialize
+ * @param {Required<ErrorSerializationOptions>} options - Resolved serialization options
+ * @param {number} depth - Number of causes above this link
+ * @param {Set<unknown>} ancestors - Errors above this link, for cycle detection
+ * @returns {SerializedError} The serialized link
+ */
+function serializeLink(
+  link: unknown,
+  options: Required<ErrorSerializationOptions>,
+  depth: number,
+  ancestors: Set<unknown>
+): SerializedError {
+  if (link === null || typeof link !== 'object') {
+    return { name: 'Error', message: String(link) };
+  }
+
+  const source = link as Record<string, unknown>;
+  const serialized: SerializedError = {
+    name: typeof source.name === 'string' ? source.name : 'Error',
+    message: typeof source.message === 'string' ? source.message : '',
+  };
+
+  if (ancestors.has(link)) {
+    return { ...serialized, circular: true };
+  }
+  if (depth > options.maxDepth) {
+    return { ...serialized, truncated: true };
+  }
+
+  if (typeof source.code === 'string' || typeof source.code === 'number') {
+    serialized.code = source.code;
+  }
+  if (typeof source.statusCode === 'number') {
+    serialized.statusCode = source.statusCode;
+  }
+  const withFields = options.includeContext && isCertusShaped(source);
+  if (withFields) {
+    serialized.timestamp = source.timestamp;
+    serialized.context = source.context;
+  }
+  if (options.includeStack && typeof source.stack === 'string') {
+    serialized.stack = source.stack;
+  }
+  if (withFields) {
+    for (const [key, value] of Object.entries(source)) {
+      if (!CERTUS_FIELDS.includes(key) && !CHAIN_FIELDS.includes(key)) {
+        serialized[key] = value;
+      }
+    }
+  }
+
+  ancestors.add(link);
+
+  const members = getAggregateMembers(link);
+  if (members.length > 0) {
+    serialized.errors = members.map((member) =>
+      serializeLink(member, options, depth + 1, ancestors)
+    );
+  }
+
+  const cause = getErrorCause(link);
+  if (cause !== undefined && cause !== null) {
+    serialized.cause = serializeLink(cause, options, depth + 1, ancestors);
+  }
+
+  ancestors.delete(link);
+  return serialized;
+}
+
+/**
+ * Checks whether an error has the shape of a Certus error. Errors are
+ * recognized by shape so that serialization does not depend on the error classes.
+ *
+ * @private
+ * @param {Record<string, unknown>} error - The error to check
+ * @returns {boolean} True when the error has a code, status code, timestamp and context
+ */
+function isCertusShaped(error: Record<string, unknown>): boolean {
+  return (
+    typeof error.code === 'string' &&
+    typeof error.statusCode === 'number' &&
+    error.timestamp instanceof Date &&
+    typeof error.context === 'object' &&
+    error.context !== null
+  );
+}
+
+/**
+ * Gets the member errors of an AggregateError.
+ *
+ * @private
+ * @param {unknown} error - The error to inspect
+ * @returns {unknown[]} The member errors, or an empty array
+ */
+function getAggregateMembers(error: unknown): unknown[] {
+  if (!(error instanceof Error)) {
+    return [];
+  }
+
+  // Other libraries use `errors` for message lists (Yup), so outside of an
+  // AggregateError only lists of error-like members count
+  const { errors } = error as { errors?: unknown };
+  if (!Array.isArray(errors)) {
+    return [];
+  }
+  return error.name === 'AggregateError' ||
+    errors.every((member) => member !== null && typeof member === 'object')
+    ? errors
+    : [];
+}
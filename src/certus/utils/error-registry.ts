@@ -0,0 +1,630 @@
+import { ErrorCodes, HttpStatus } from '../../constants';
+import { ErrorRehydrationOptions, ErrorResponse, ProblemDetails, Violation } from '../../types';
+import {
+  CertusAdiValtError,
+  CertusAuthenticationError,
+  CertusBusinessRuleError,
+  CertusCardDeclinedError,
+  CertusCircuitOpenError,
+  CertusClientError,
+  CertusConfigurationError,
+  CertusConflictError,
+  CertusConnectionError,
+  CertusDatabaseError,
+  CertusDnsError,
+  CertusEmailDeliveryError,
+  CertusExternalServiceError,
+  CertusFileError,
+  CertusFileNotFoundError,
+  CertusFileTooLargeError,
+  CertusForbiddenError,
+  CertusGoneError,
+  CertusInputValidationError,
+  CertusInsufficientFundsError,
+  CertusInsufficientPermissionsError,
+  CertusInternalServerError,
+  CertusInvalidCredentialsError,
+  CertusInvalidFileTypeError,
+  CertusMethodNotAllowedError,
+  CertusNetworkError,
+  CertusNetworkTimeoutError,
+  CertusNotFoundError,
+  CertusNotificationError,
+  CertusNotificationRateLimitError,
+  CertusOperationTimeoutError,
+  CertusPayloadTooLargeError,
+  CertusPaymentError,
+  CertusPaymentProcessorError,
+  CertusSchemaValidationError,
+  CertusServerError,
+  CertusServiceUnavailableError,
+  CertusSessionRevokedError,
+  CertusSmsDeliveryError,
+  CertusSslError,
+  CertusStorageLimitError,
+  CertusTimeoutError,
+  CertusTokenExpiredError,
+  CertusTooManyRequestsError,
+  CertusUnauthorizedError,
+  CertusUniqueConstraintError,
+  CertusValidationError,
+} from '../errors';
+
+/** Any class extending CertusAdiValtError, whatever its constructor signature */
+type CertusErrorClass = abstract new (...args: any[]) => CertusAdiValtError;
+
+/** Fields of a serialized error that are not copied onto the rebuilt error as-is */
+const SERIALIZED_BASE_FIELDS = [
+  'name',
+  'message',
+  'code',
+  'statusCode',
+  'timestamp',
+  'context',
+  'stack',
+  'originalError',
+  'cause',
+];
+
+/** Problem Details members that are not part of the error context */
+const PROBLEM_MEMBERS = [
+  'type',
+  'title',
+  'status',
+  'detail',
+  'instance',
+  'code',
+  'timestamp',
+  'errors',
+  'requestId',
+];
+
+/**
+ * Registry of Certus error classes for rebuilding errors that crossed a process
+ * or network boundary.
+ *
+ * `toJSON()` output (for example from a queue message) and `ErrorResponse` or
+ * Problem Details bodies (from a downstream service) are turned back into
+ * instances of the registered class, with code, status, context, timestamp,
+ * violations and original error restored. Classes are looked up by `name`
+ * first, then by `code` (and status code), then by status range.
+ *
+ * All built-in Certus error classes are registered. Register application error
+ * classes so they survive the round trip too.
+ *
+ * @class ErrorRegistry
+ *
+ * @example
+ * ```typescript
+ * // Worker side
+ * queue.publish('failures', JSON.stringify(new CertusTokenExpiredError()));
+ *
+ * // Consumer side
+ * const error = ErrorRegistry.fromJSON(message.body);
+ * error instanceof CertusTokenExpiredError; // true
+ * isAuthenticationError(error); // true
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Rebuild the error returned by a downstream service
+ * const response = await fetch(`${inventoryUrl}/items/${sku}`);
+ * if (!response.ok) {
+ *   throw ErrorRegistry.fromErrorResponse(await response.json());
+ * }
+ * ```
+ */
+export class ErrorRegistry {
+  private static readonly classesByName = new Map<string, CertusErrorClass>();
+  private static readonly namesByCode = new Map<
+    string,
+    Array<{ name: string; statusCode?: number }>
+  >();
+
+  /**
+   * Registers an error class for rehydration.
+   *
+   * @param {Function} ErrorClass - Class extending CertusAdiValtError
+   * @param {Object} [options] - Registration options
+   * @param {string} [options.name=ErrorClass.name] - Error name the class is looked up by
+   *        (the `name` its instances carry; pass it explicitly when code is minified)
+   * @param {string} [options.code] - Error code the class is looked up by when a
+   *        serialized error has no name, such as an `ErrorResponse`
+   * @param {number} [options.statusCode] - Status code that distinguishes classes sharing a code
+   *
+   * @example
+   * ```typescript
+   * class PaymentDeclinedError extends CertusClientError {
+   *   constructor(message = 'Payment declined', context = {}) {
+   *     super(message, 'PAY_DECLINED', 402, context);
+   *     this.name = 'PaymentDeclinedError';
+   *   }
+   * }
+   *
+   * ErrorRegistry.register(PaymentDeclinedError, { name: 'PaymentDeclinedError', code: 'PAY_DECLINED' });
+   * ```
+   */
+  static register(
+    ErrorClass: CertusErrorClass,
+    options: { name?: string; code?: string; statusCode?: number } = {}
+  ): void {
+    const name = options.name ?? ErrorClass.name;
+    this.classesByName.set(name, ErrorClass);
+
+    if (options.code) {
+      const candidates = (this.namesByCode.get(options.code) ?? []).filter(
+        (candidate) => candidate.name !== name
+      );
+      candidates.push({ name, statusCode: options.statusCode });
+      this.namesByCode.set(options.code, candidates);
+    }
+  }
+
+  /**
+   * Resolves the class to rebuild an error with.
+   *
+   * @param {Object} identity - What is known about the error
+   * @param {string} [identity.name] - Error name
+   * @param {string} [identity.code] - Error code
+   * @param {number} [identity.statusCode] - HTTP status code
+   * @returns {Function} The registered class, CertusClientError/CertusServerError for
+   *          unregistered 4xx/5xx errors, or CertusAdiValtError
+   *
+   * @example
+   * ```typescript
+   * ErrorRegistry.resolve({ name: 'CertusNotFoundError' }); // CertusNotFoundError
+   * ErrorRegistry.resolve({ code: 'AUTH_TOKEN_EXPIRED' }); // CertusTokenExpiredError
+   * ErrorRegistry.resolve({ code: 'ORDER_LOCKED', statusCode: 423 }); // CertusClientError
+   * ```
+   */
+  static resolve(identity: {
+    name?: string;
+    code?: string;
+    statusCode?: number;
+  }): CertusErrorClass {
+    const byName = identity.name ? this.classesByName.get(identity.name) : undefined;
+    if (byName) {
+      return byName;
+    }
+
+    const candidates = identity.code ? this.namesByCode.get(identity.code) : undefined;
+    if (candidates && candidates.length > 0) {
+      const candidate =
+        candidates.find(({ statusCode }) => statusCode === identity.statusCode) ?? candidates[0];
+      return this.classesByName.get(candidate.name)!;
+    }
+
+    if (identity.statusCode !== undefined && identity.statusCode >= 500) {
+      return CertusServerError;
+    }
+    if (identity.statusCode !== undefined && identity.statusCode >= 400) {
+      return CertusClientError;
+    }
+    return CertusAdiValtError;
+  }
+
+  /**
+   * Creates a new error of the class registered for a code.
+   *
+   * Falls back to CertusClientError or CertusServerError, depending on the
+   * status code, when no class is registered for the code. Used by
+   * `CertusAdiValtError.fromCode()`.
+   *
+   * @param {string} code - Error code
+   * @param {string} message - Human-readable error description
+   * @param {number} statusCode - HTTP status code
+   * @param {Record<string, unknown>} [context={}] - Additional error context
+   * @param {Error} [originalError] - Original error that caused this error
+   * @returns {CertusAdiValtError} Instance of the resolved class
+   *
+   * @example
+   * ```typescript
+   * const error = ErrorRegistry.create('AUTH_TOKEN_EXPIRED', 'Token expired', 401);
+   * error instanceof CertusTokenExpiredError; // true
+   * ```
+   */
+  static create(
+    code: string,
+    message: string,
+    statusCode: number,
+    context: Record<string, unknown> = {},
+    originalError?: Error
+  ): CertusAdiValtError {
+    return this.rebuild({ message, code, statusCode, context, originalError, fields: {} }, {});
+  }
+
+  /**
+   * Rebuilds an error from its `toJSON()` representation.
+   *
+   * Restores the class, message, code, status code, context, timestamp and
+   * subclass fields such as `violations`. The serialized cause chain is rebuilt
+   * recursively: links with a code and status code become Certus errors, other
+   * links plain Errors with their `cause` set.
+   *
+   * @param {Record<string, unknown> | string} json - `toJSON()` output, or its JSON text
+   * @param {ErrorRehydrationOptions} [options={}] - Rehydration options
+   * @returns {CertusAdiValtError} Instance of the resolved class
+   *
+   * @example
+   * ```typescript
+   * const original = new CertusNotFoundError('Order not found', { orderId: 'ord_1' });
+   * const copy = ErrorRegistry.fromJSON(JSON.stringify(original), { remoteStack: true });
+   *
+   * copy instanceof CertusNotFoundError; // true
+   * copy.context.orderId; // 'ord_1'
+   * copy.timestamp.getTime() === original.timestamp.getTime(); // true
+   * copy.stack === original.stack; // true
+   * ```
+   */
+  static fromJSON(
+    json: Record<string, unknown> | string,
+    options: ErrorRehydrationOptions = {}
+  ): CertusAdiValtError {
+    const data = (typeof json === 'string' ? JSON.parse(json) : json) as Record<string, any>;
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (!SERIALIZED_BASE_FIELDS.includes(key) && value !== undefined) {
+        fields[key] = value;
+      }
+    }
+
+    return this.rebuild(
+      {
+        name: data.name,
+        message: data.message ?? '',
+        code: data.code ?? ErrorCodes.SRV_INTERNAL_ERROR,
+        statusCode: data.statusCode ?? HttpStatus.INTERNAL_SERVER_ERROR,
+        timestamp: data.timestamp,
+        context: data.context ?? {},
+        stack: data.stack,
+        // Nested links of the chain are serialized under `cause`
+        originalError: this.rebuildOriginalError(data.originalError ?? data.cause, options),
+        fields,
+      },
+      options
+    );
+  }
+
+  /**
+   * Rebuilds an error from an error response body returned by another service.
+   *
+   * Accepts the standard `ErrorResponse` envelope and RFC 9457 Problem Details
+   * (whose extension members become the context). Response bodies carry no error
+   * name, so the class is resolved by code and status code. The `requestId` of
+   * the response is kept in the context.
+   *
+   * @param {ErrorResponse | ProblemDetails} response - The parsed response body
+   * @param {ErrorRehydrationOptions} [options={}] - Rehydration options
+   * @returns {CertusAdiValtError} Instance of the resolved class
+   *
+   * @example
+   * ```typescript
+   * const error = ErrorRegistry.fromErrorResponse({
+   *   success: false,
+   *   error: {
+   *     code: 'AUTH_TOKEN_EXPIRED',
+   *     message: 'Authentication token has expired',
+   *     statusCode: 401,
+   *     timestamp: '2024-01-15T10:30:00.000Z',
+   *     requestId: 'req_123'
+   *   }
+   * });
+   *
+   * error instanceof CertusTokenExpiredError; // true
+   * error.context.requestId; // 'req_123'
+   * ```
+   */
+  static fromErrorResponse(
+    response: ErrorResponse | ProblemDetails,
+    options: ErrorRehydrationOptions = {}
+  ): CertusAdiValtError {
+    if ('error' in response && response.error && typeof response.error === 'object') {
+      const { error } = response as ErrorResponse;
+      return this.rebuild(
+        {
+          message: error.message,
+          code: error.code,
+          statusCode: error.statusCode,
+          timestamp: error.timestamp,
+          context: {
+            ...(error.requestId && { requestId: error.requestId }),
+            ...error.context,
+          },
+          fields: error.errors ? { violations: error.errors } : {},
+        },
+        options
+      );
+    }
+
+    const problem = response as ProblemDetails;
+    const context: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(problem)) {
+      if (!PROBLEM_MEMBERS.includes(key)) {
+        context[key] = value;
+      }
+    }
+    if (typeof problem.requestId === 'string') {
+      context.requestId = problem.requestId;
+    }
+
+    return this.rebuild(
+      {
+        message: problem.detail ?? problem.title,
+        code: typeof problem.code === 'string' ? problem.code : 'UNKNOWN_ERROR',
+        statusCode: problem.status,
+        timestamp: problem.timestamp as string | undefined,
+        context,
+        fields: Array.isArray(problem.errors) ? { violations: problem.errors as Violation[] } : {},
+      },
+      options
+    );
+  }
+
+  /**
+   * Creates an instance of the resolved class from serialized fields.
+   *
+   * Only the base constructor runs, so classes with any constructor signature
+   * can be rebuilt; the name, timestamp, stack and subclass fields are restored
+   * afterwards.
+   *
+   * @private
+   * @param {Object} data - Serialized error fields
+   * @param {ErrorRehydrationOptions} options - Rehydration options
+   * @returns {CertusAdiValtError} The rebuilt error
+   */
+  private static rebuild(
+    data: {
+      name?: string;
+      message: string;
+      code: string;
+      statusCode: number;
+      timestamp?: string | Date;
+      context: Record<string, unknown>;
+      stack?: string;
+      originalError?: Error;
+      fields: Record<string, unknown>;
+    },
+    options: ErrorRehydrationOptions
+  ): CertusAdiValtError {
+    const ErrorClass = this.resolve(data);
+    const error = Reflect.construct(
+      CertusAdiValtError,
+      [data.message, data.code, data.statusCode, data.context, data.originalError],
+      ErrorClass
+    ) as CertusAdiValtError;
+
+    const timestamp = data.timestamp ? new Date(data.timestamp) : undefined;
+    Object.assign(error, {
+      name: data.name ?? this.getRegisteredName(ErrorClass),
+      ...(timestamp && !isNaN(timestamp.getTime()) && { timestamp }),
+      ...data.fields,
+    });
+
+    if (options.remoteStack && data.stack) {
+      error.stack = data.stack;
+    }
+
+    return error;
+  }
+
+  /**
+   * Rebuilds a serialized original error.
+   *
+   * @private
+   * @param {unknown} original - The serialized original error
+   * @param {ErrorRehydrationOptions} options - Rehydration options
+   * @returns {Error | undefined} The rebuilt original error
+   */
+  private static rebuildOriginalError(
+    original: unknown,
+    options: ErrorRehydrationOptions
+  ): Error | undefined {
+    if (original === null || typeof original !== 'object') {
+      return undefined;
+    }
+
+    const data = original as Record<string, any>;
+    if (typeof data.code === 'string' && typeof data.statusCode === 'number') {
+      return this.fromJSON(data, options);
+    }
+
+    const error: Error & { code?: unknown } = new Error(data.message ?? '');
+    error.name = data.name ?? 'Error';
+    if (data.code !== undefined) {
+      error.code = data.code;
+    }
+    if (options.remoteStack && data.stack) {
+      error.stack = data.stack;
+    }
+
+    const cause = this.rebuildOriginalError(data.cause, options);
+    if (cause) {
+      Object.defineProperty(error, 'cause', {
+        value: cause,
+        writable: true,
+        configurable: true,
+        enumerable: false,
+      });
+    }
+    return error;
+  }
+
+  /**
+   * Gets the name a class was registered under.
+   *
+   * @private
+   * @param {Function} ErrorClass - The error class
+   * @returns {string} The registered name, or the class name
+   */
+  private static getRegisteredName(ErrorClass: CertusErrorClass): string {
+    for (const [name, registered] of this.classesByName) {
+      if (registered === ErrorClass) {
+        return name;
+      }
+    }
+    return ErrorClass.name;
+  }
+}
+
+CertusAdiValtError.useCodeErrorFactory((message, code, statusCode, context, originalError) =>
+  ErrorRegistry.create(code, message, statusCode, context, originalError)
+);
+
+// Built-in classes, most specific first where codes are shared
+ErrorRegistry.register(CertusAdiValtError, { name: 'CertusAdiValtError' });
+ErrorRegistry.register(CertusClientError, { name: 'CertusClientError' });
+ErrorRegistry.register(CertusServerError, { name: 'CertusServerError' });
+ErrorRegistry.register(CertusValidationError, {
+  name: 'CertusValidationError',
+  code: ErrorCodes.VAL_INVALID_INPUT,
+  statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+});
+ErrorRegistry.register(CertusInputValidationError, {
+  name: 'CertusInputValidationError',
+  code: ErrorCodes.VAL_INVALID_INPUT,
+  statusCode: HttpStatus.BAD_REQUEST,
+});
+ErrorRegistry.register(CertusSchemaValidationError, {
+  name: 'CertusSchemaValidationError',
+  code: ErrorCodes.VAL_SCHEMA_ERROR,
+});
+ErrorRegistry.register(CertusBusinessRuleError, {
+  name: 'CertusBusinessRuleError',
+  code: ErrorCodes.VAL_BUSINESS_RULE,
+});
+ErrorRegistry.register(CertusNotFoundError, {
+  name: 'CertusNotFoundError',
+  code: ErrorCodes.GEN_NOT_FOUND,
+});
+ErrorRegistry.register(CertusUnauthorizedError, {
+  name: 'CertusUnauthorizedError',
+  code: ErrorCodes.AUTH_UNAUTHORIZED,
+});
+ErrorRegistry.register(CertusForbiddenError, { name: 'CertusForbiddenError' });
+ErrorRegistry.register(CertusConflictError, {
+  name: 'CertusConflictError',
+  code: ErrorCodes.GEN_CONFLICT,
+});
+ErrorRegistry.register(CertusTooManyRequestsError, {
+  name: 'CertusTooManyRequestsError',
+  code: ErrorCodes.SRV_RATE_LIMIT,
+});
+ErrorRegistry.register(CertusPayloadTooLargeError, {
+  name: 'CertusPayloadTooLargeError',
+  code: ErrorCodes.GEN_PAYLOAD_TOO_LARGE,
+});
+ErrorRegistry.register(CertusMethodNotAllowedError, {
+  name: 'CertusMethodNotAllowedError',
+  code: ErrorCodes.GEN_METHOD_NOT_ALLOWED,
+});
+ErrorRegistry.register(CertusGoneError, {
+  name: 'CertusGoneError',
+  code: ErrorCodes.GEN_GONE,
+});
+ErrorRegistry.register(CertusAuthenticationError, { name: 'CertusAuthenticationError' });
+ErrorRegistry.register(CertusInvalidCredentialsError, {
+  name: 'CertusInvalidCredentialsError',
+  code: ErrorCodes.AUTH_INVALID_CREDENTIALS,
+});
+ErrorRegistry.register(CertusTokenExpiredError, {
+  name: 'CertusTokenExpiredError',
+  code: ErrorCodes.AUTH_TOKEN_EXPIRED,
+});
+ErrorRegistry.register(CertusInsufficientPermissionsError, {
+  name: 'CertusInsufficientPermissionsError',
+  code: ErrorCodes.AUTH_INSUFFICIENT_PERMISSIONS,
+});
+ErrorRegistry.register(CertusSessionRevokedError, {
+  name: 'CertusSessionRevokedError',
+  code: ErrorCodes.AUTH_SESSION_REVOKED,
+});
+ErrorRegistry.register(CertusInternalServerError, {
+  name: 'CertusInternalServerError',
+  code: ErrorCodes.SRV_INTERNAL_ERROR,
+});
+ErrorRegistry.register(CertusExternalServiceError, {
+  name: 'CertusExternalServiceError',
+  code: ErrorCodes.SRV_EXTERNAL_SERVICE,
+});
+ErrorRegistry.register(CertusConfigurationError, {
+  name: 'CertusConfigurationError',
+  code: ErrorCodes.SRV_CONFIGURATION_ERROR,
+});
+ErrorRegistry.register(CertusServiceUnavailableError, {
+  name: 'CertusServiceUnavailableError',
+  code: ErrorCodes.SRV_SERVICE_UNAVAILABLE,
+});
+ErrorRegistry.register(CertusCircuitOpenError, { name: 'CertusCircuitOpenError' });
+ErrorRegistry.register(CertusOperationTimeoutError, {
+  name: 'CertusOperationTimeoutError',
+  code: ErrorCodes.GEN_TIMEOUT,
+});
+ErrorRegistry.register(CertusDatabaseError, { name: 'CertusDatabaseError' });
+ErrorRegistry.register(CertusUniqueConstraintError, {
+  name: 'CertusUniqueConstraintError',
+  code: ErrorCodes.DB_UNIQUE_CONSTRAINT,
+});
+ErrorRegistry.register(CertusConnectionError, {
+  name: 'CertusConnectionError',
+  code: ErrorCodes.DB_CONNECTION_ERROR,
+});
+ErrorRegistry.register(CertusTimeoutError, {
+  name: 'CertusTimeoutError',
+  code: ErrorCodes.DB_TIMEOUT_ERROR,
+});
+ErrorRegistry.register(CertusFileError, { name: 'CertusFileError' });
+ErrorRegistry.register(CertusFileNotFoundError, {
+  name: 'CertusFileNotFoundError',
+  code: ErrorCodes.FILE_NOT_FOUND,
+});
+ErrorRegistry.register(CertusFileTooLargeError, {
+  name: 'CertusFileTooLargeError',
+  code: ErrorCodes.FILE_TOO_LARGE,
+});
+ErrorRegistry.register(CertusInvalidFileTypeError, {
+  name: 'CertusInvalidFileTypeError',
+  code: ErrorCodes.FILE_INVALID_TYPE,
+});
+ErrorRegistry.register(CertusStorageLimitError, {
+  name: 'CertusStorageLimitError',
+  code: ErrorCodes.FILE_STORAGE_LIMIT,
+});
+ErrorRegistry.register(CertusPaymentError, { name: 'CertusPaymentError' });
+ErrorRegistry.register(CertusCardDeclinedError, {
+  name: 'CertusCardDeclinedError',
+  code: ErrorCodes.PAY_CARD_DECLINED,
+});
+ErrorRegistry.register(CertusInsufficientFundsError, {
+  name: 'CertusInsufficientFundsError',
+  code: ErrorCodes.PAY_INSUFFICIENT_FUNDS,
+});
+ErrorRegistry.register(CertusPaymentProcessorError, {
+  name: 'CertusPaymentProcessorError',
+  code: ErrorCodes.PAY_PROCESSOR_ERROR,
+});
+ErrorRegistry.register(CertusNotificationError, { name: 'CertusNotificationError' });
+ErrorRegistry.register(CertusEmailDeliveryError, {
+  name: 'CertusEmailDeliveryError',
+  code: ErrorCodes.NOTIF_EMAIL_FAILED,
+});
+ErrorRegistry.register(CertusSmsDeliveryError, {
+  name: 'CertusSmsDeliveryError',
+  code: ErrorCodes.NOTIF_SMS_FAILED,
+});
+ErrorRegistry.register(CertusNotificationRateLimitError, {
+  name: 'CertusNotificationRateLimitError',
+  code: ErrorCodes.NOTIF_RATE_LIMIT,
+});
+ErrorRegistry.register(CertusNetworkError, { name: 'CertusNetworkError' });
+ErrorRegistry.register(CertusDnsError, {
+  name: 'CertusDnsError',
+  code: ErrorCodes.NET_DNS_ERROR,
+});
+ErrorRegistry.register(CertusSslError, {
+  name: 'CertusSslError',
+  code: ErrorCodes.NET_SSL_ERROR,
+});
+ErrorRegistry.register(CertusNetworkTimeoutError, {
+  name: 'CertusNetworkTimeoutError',
+  code: ErrorCodes.NET_CONNECTION_TIMEOUT,
+});
@@ -4,11 +4,34 @@ import {
   CertusAdiValtError,
   CertusAuthenticationError,
   CertusClientError,
+  CertusDnsError,
+  CertusFileError,
+  CertusNetworkError,
+  CertusNetworkTimeoutError,
   CertusNotFoundError,
+  CertusNotificationError,
+  CertusPaymentError,
   CertusServerError,
+  CertusSslError,
   CertusValidationError,
 } from '../errors';
-import { isCertusError, isClientError, isServerError } from '../guards';
+import { isCertusError, isClientError, isNetworkError, isServerError } from '../guards';
+
+/** Node.js system error codes of failed DNS lookups */
+const DNS_ERROR_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'EAI_FAIL', 'EAI_NONAME'];
+
+/** Node.js system error codes of connections that timed out */
+const TIMEOUT_ERROR_CODES = ['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT'];
+
+/** Node.js error codes of rejected certificates that do not start with `CERT_` or `ERR_TLS_` */
+const SSL_ERROR_CODES = [
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'ERR_SSL_WRONG_VERSION_NUMBER',
+];
 
 /**
  * Creates a generic CertusAdiValtError with full customization options.
@@ -189,6 +212,144 @@ export function createAuthenticationError(
   );
 }
 
+/**
+ * Creates a file error for failed uploads and storage operations.
+ *
+ * Convenience factory for creating CertusFileError instances with
+ * consistent error code (FILE_UPLOAD_ERROR) and status code (500 Internal Server Error).
+ * Use the subclasses, such as CertusFileTooLargeError, for files the client must fix.
+ *
+ * @param {string} [message='File upload failed'] - Human-readable error description
+ * @param {Record<string, unknown>} [context] - Additional context about the file operation
+ * @returns {CertusFileError} New CertusFileError instance
+ *
+ * @example
+ * ```typescript
+ * // In an upload service
+ * const result = await storage.put(key, stream);
+ * if (!result.ok) {
+ *   throw createFileError('Failed to store the document', {
+ *     bucket: 'documents',
+ *     key,
+ *     provider: 's3'
+ *   });
+ * }
+ * ```
+ */
+export function createFileError(
+  message: string = 'File upload failed',
+  context?: Record<string, unknown>
+): CertusFileError {
+  return new CertusFileError(
+    message,
+    ErrorCodes.FILE_UPLOAD_ERROR,
+    HttpStatus.INTERNAL_SERVER_ERROR,
+    context
+  );
+}
+
+/**
+ * Creates a payment error for charges that could not be completed.
+ *
+ * Convenience factory for creating CertusPaymentError instances with
+ * consistent error code (PAY_PAYMENT_FAILED) and status code (402 Payment Required).
+ *
+ * @param {string} [message='Payment processing failed'] - Human-readable error description
+ * @param {Record<string, unknown>} [context] - Additional context about the payment
+ * @returns {CertusPaymentError} New CertusPaymentError instance
+ *
+ * @example
+ * ```typescript
+ * // In checkout
+ * if (charge.status !== 'succeeded') {
+ *   throw createPaymentError('Payment could not be completed', {
+ *     orderId: order.id,
+ *     chargeId: charge.id,
+ *     amount: order.total
+ *   });
+ * }
+ * ```
+ */
+export function createPaymentError(
+  message: string = 'Payment processing failed',
+  context?: Record<string, unknown>
+): CertusPaymentError {
+  return new CertusPaymentError(
+    message,
+    ErrorCodes.PAY_PAYMENT_FAILED,
+    HttpStatus.PAYMENT_REQUIRED,
+    context
+  );
+}
+
+/**
+ * Creates a notification error for failures of a notification provider.
+ *
+ * Convenience factory for creating CertusNotificationError instances with
+ * consistent error code (NOTIF_PROVIDER_ERROR) and status code (502 Bad Gateway).
+ *
+ * @param {string} [message='Notification service error'] - Human-readable error description
+ * @param {Record<string, unknown>} [context] - Additional context about the notification
+ * @returns {CertusNotificationError} New CertusNotificationError instance
+ *
+ * @example
+ * ```typescript
+ * // In a notification dispatcher
+ * const response = await provider.send(notification);
+ * if (response.status === 'rejected') {
+ *   throw createNotificationError('Notification rejected by provider', {
+ *     provider: 'sendgrid',
+ *     reason: response.reason
+ *   });
+ * }
+ * ```
+ */
+export function createNotificationError(
+  message: string = 'Notification service error',
+  context?: Record<string, unknown>
+): CertusNotificationError {
+  return new CertusNotificationError(
+    message,
+    ErrorCodes.NOTIF_PROVIDER_ERROR,
+    HttpStatus.BAD_GATEWAY,
+    context
+  );
+}
+
+/**
+ * Creates a network error for connections to other hosts that failed.
+ *
+ * Convenience factory for creating CertusNetworkError instances with
+ * consistent error code (NET_NETWORK_ERROR) and status code (502 Bad Gateway).
+ * Use `toNetworkError()` to convert a caught Node.js system error instead.
+ *
+ * @param {string} [message='Network connection failed'] - Human-readable error description
+ * @param {Record<string, unknown>} [context] - Additional context about the connection
+ * @returns {CertusNetworkError} New CertusNetworkError instance
+ *
+ * @example
+ * ```typescript
+ * // In an HTTP client wrapper
+ * if (!socket.writable) {
+ *   throw createNetworkError('Connection to the partner API was closed', {
+ *     host: 'api.partner.com',
+ *     port: 443
+ *   });
+ * }
+ * ```
+ */
+export function createNetworkError(
+  message: string = 'Network connection failed',
+  context?: Record<string, unknown>
+): CertusNetworkError {
+  return new CertusNetworkError(
+    message,
+    ErrorCodes.NET_NETWORK_ERROR,
+    HttpStatus.BAD_GATEWAY,
+    context
+  );
+}
+
 // Error transformation utilities
 
 /**
@@ -256,6 +417,7 @@ export function wrapError(
  *
  * This utility ensures that any error is converted to a CertusClientError instance.
  * If the input is already a client error, it returns the original error unchanged.
+ * Otherwise an Error input becomes the cause of the new error.
  * Useful for ensuring client-facing errors have appropriate status codes.
  *
  * @param {unknown} error - The error to convert
@@ -296,7 +458,8 @@ export function toClientError(error: unknown): CertusClientError {
     error instanceof Error ? error.message : 'Client error occurred',
     ErrorCodes.GEN_BAD_REQUEST,
     HttpStatus.BAD_REQUEST,
-    { originalError: error }
+    {},
+    error instanceof Error ? error : undefined
   );
 }
 
@@ -305,6 +468,7 @@ export function toClientError(error: unknown): CertusClientError {
  *
  * This utility ensures that any error is converted to a CertusServerError instance.
  * If the input is already a server error, it returns the original error unchanged.
+ * Otherwise an Error input becomes the cause of the new error.
  * Useful for ensuring server-side errors are properly categorized.
  *
  * @param {unknown} error - The error to convert
@@ -353,7 +517,72 @@ export function toServerError(error: unknown): CertusServerError {
     error instanceof Error ? error.message : 'Server error occurred',
     ErrorCodes.SRV_INTERNAL_ERROR,
     HttpStatus.INTERNAL_SERVER_ERROR,
-    { originalError: error }
+    {},
+    error instanceof Error ? error : undefined
+  );
+}
+
+/**
+ * Converts an unknown error to a network error.
+ *
+ * If the input is already a network error, it returns the original error unchanged.
+ * Otherwise the Node.js system error code of the input, or of its cause as with a
+ * failed `fetch()`, picks the class:
+ * - `ENOTFOUND` and `EAI_AGAIN` become a CertusDnsError
+ * - Certificate and TLS errors such as `CERT_HAS_EXPIRED` become a CertusSslError
+ * - `ETIMEDOUT` becomes a CertusNetworkTimeoutError
+ * - Anything else becomes a CertusNetworkError
+ *
+ * The system code is kept as `context.systemCode`. An Error input lends its message
+ * and becomes the cause of the new error.
+ *
+ * @param {unknown} error - The error to convert
+ * @returns {CertusNetworkError} CertusNetworkError instance
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await fetch('https://api.partner.com/v1/rates');
+ * } catch (error) {
+ *   // TypeError: fetch failed, caused by getaddrinfo ENOTFOUND api.partner.com
+ *   throw toNetworkError(error).withContext({ host: 'api.partner.com' });
+ *   // CertusDnsError, code NET_DNS_ERROR, context { systemCode: 'ENOTFOUND', host: ... }
+ * }
+ * ```
+ */
+export function toNetworkError(error: unknown): CertusNetworkError {
+  if (isCertusError(error) && isNetworkError(error)) {
+    return error as CertusNetworkError;
+  }
+
+  // The code of a Certus error is its own, not a system error code
+  const systemCode =
+    (isCertusError(error) ? undefined : getSystemCode(error)) ?? getSystemCode(getCause(error));
+  const context = systemCode ? { systemCode } : {};
+  const originalError = error instanceof Error ? error : undefined;
+  const message = originalError?.message;
+
+  if (systemCode && DNS_ERROR_CODES.includes(systemCode)) {
+    return new CertusDnsError(message, context, originalError);
+  }
+  if (
+    systemCode &&
+    (systemCode.startsWith('CERT_') ||
+      systemCode.startsWith('ERR_TLS_') ||
+      SSL_ERROR_CODES.includes(systemCode))
+  ) {
+    return new CertusSslError(message, context, originalError);
+  }
+  if (systemCode && TIMEOUT_ERROR_CODES.includes(systemCode)) {
+    return new CertusNetworkTimeoutError(message, context, originalError);
+  }
+
+  return new CertusNetworkError(
+    message ?? 'Network connection failed',
+    ErrorCodes.NET_NETWORK_ERROR,
+    HttpStatus.BAD_GATEWAY,
+    context,
+    originalError
   );
 }
 
@@ -473,3 +702,26 @@ export function assertClientError(
     );
   }
 }
+
+/**
+ * Gets the Node.js system error code of a value, such as `ENOTFOUND`.
+ *
+ * @private
+ * @param {unknown} error - The value to check
+ * @returns {string | undefined} Its `code`, when it is a string
+ */
+function getSystemCode(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | null | undefined)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * Gets the cause of an error, e.g. the socket error behind a failed `fetch()`.
+ *
+ * @private
+ * @param {unknown} error - The error
+ * @returns {unknown} Its `cause`, or undefined
+ */
+function getCause(error: unknown): unknown {
+  return error instanceof Error ? (error as Error & { cause?: unknown }).cause : undefined;
+}
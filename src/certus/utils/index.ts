@@ -1 +1,7 @@
 export * from './error-utils';
+export * from './violation-collector';
+export * from './schema-adapters';
+export * from './database-error-translator';
+export * from './error-registry';
+export * from './error-chain';
+export * from './error-catalog-checker';
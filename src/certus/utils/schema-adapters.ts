@@ -0,0 +1,564 @@
+import { ErrorCodes } from '../../constants';
+import {
+  ClassValidatorErrorLike,
+  JoiValidationErrorLike,
+  SchemaErrorAdapterOptions,
+  YupValidationErrorLike,
+  ZodErrorLike,
+  ZodIssueLike,
+} from '../../types';
+import { CertusSchemaValidationError } from '../errors';
+import { ViolationCollector } from './violation-collector';
+
+/** Joi context entries that describe the failing value rather than the constraint */
+const JOI_NON_CONSTRAINT_PARAMS = ['label', 'key', 'value'];
+
+/** Yup params that describe the failing value rather than the constraint */
+const YUP_NON_CONSTRAINT_PARAMS = ['path', 'value', 'originalValue', 'label', 'type', 'spec'];
+
+/** String formats shared by Zod string checks and Joi/Yup/class-validator rules */
+const FORMAT_CODES: Record<string, string> = {
+  email: ErrorCodes.VAL_INVALID_EMAIL,
+  url: ErrorCodes.VAL_INVALID_URL,
+  uri: ErrorCodes.VAL_INVALID_URL,
+  uuid: ErrorCodes.VAL_INVALID_UUID,
+  guid: ErrorCodes.VAL_INVALID_UUID,
+  datetime: ErrorCodes.VAL_INVALID_DATE,
+  date: ErrorCodes.VAL_INVALID_DATE,
+  isoDate: ErrorCodes.VAL_INVALID_DATE,
+};
+
+/** Violation codes for lower/upper bounds, keyed by the kind of the bounded value */
+const BOUND_CODES: Record<string, { min: string; max: string }> = {
+  string: { min: ErrorCodes.VAL_STRING_TOO_SHORT, max: ErrorCodes.VAL_STRING_TOO_LONG },
+  number: { min: ErrorCodes.VAL_NUMBER_TOO_SMALL, max: ErrorCodes.VAL_NUMBER_TOO_LARGE },
+  bigint: { min: ErrorCodes.VAL_NUMBER_TOO_SMALL, max: ErrorCodes.VAL_NUMBER_TOO_LARGE },
+  array: { min: ErrorCodes.VAL_ARRAY_TOO_SHORT, max: ErrorCodes.VAL_ARRAY_TOO_LONG },
+  set: { min: ErrorCodes.VAL_ARRAY_TOO_SHORT, max: ErrorCodes.VAL_ARRAY_TOO_LONG },
+  date: { min: ErrorCodes.VAL_INVALID_DATE, max: ErrorCodes.VAL_INVALID_DATE },
+};
+
+/** class-validator constraint names mapped to violation codes */
+const CLASS_VALIDATOR_CODES: Record<string, string> = {
+  isDefined: ErrorCodes.VAL_REQUIRED_FIELD,
+  isNotEmpty: ErrorCodes.VAL_REQUIRED_FIELD,
+  isEmail: ErrorCodes.VAL_INVALID_EMAIL,
+  isPhoneNumber: ErrorCodes.VAL_INVALID_PHONE,
+  isMobilePhone: ErrorCodes.VAL_INVALID_PHONE,
+  isDate: ErrorCodes.VAL_INVALID_DATE,
+  isDateString: ErrorCodes.VAL_INVALID_DATE,
+  isISO8601: ErrorCodes.VAL_INVALID_DATE,
+  minDate: ErrorCodes.VAL_INVALID_DATE,
+  maxDate: ErrorCodes.VAL_INVALID_DATE,
+  isUrl: ErrorCodes.VAL_INVALID_URL,
+  isUUID: ErrorCodes.VAL_INVALID_UUID,
+  minLength: ErrorCodes.VAL_STRING_TOO_SHORT,
+  maxLength: ErrorCodes.VAL_STRING_TOO_LONG,
+  min: ErrorCodes.VAL_NUMBER_TOO_SMALL,
+  isPositive: ErrorCodes.VAL_NUMBER_TOO_SMALL,
+  max: ErrorCodes.VAL_NUMBER_TOO_LARGE,
+  isNegative: ErrorCodes.VAL_NUMBER_TOO_LARGE,
+  arrayMinSize: ErrorCodes.VAL_ARRAY_TOO_SHORT,
+  arrayNotEmpty: ErrorCodes.VAL_ARRAY_TOO_SHORT,
+  arrayMaxSize: ErrorCodes.VAL_ARRAY_TOO_LONG,
+  arrayUnique: ErrorCodes.VAL_UNIQUE_CONSTRAINT,
+  isIn: ErrorCodes.VAL_INVALID_CHOICE,
+  isEnum: ErrorCodes.VAL_INVALID_CHOICE,
+  equals: ErrorCodes.VAL_INVALID_CHOICE,
+  matches: ErrorCodes.VAL_INVALID_FORMAT,
+  isString: ErrorCodes.VAL_INVALID_FORMAT,
+  isNumber: ErrorCodes.VAL_INVALID_FORMAT,
+  isInt: ErrorCodes.VAL_INVALID_FORMAT,
+  isBoolean: ErrorCodes.VAL_INVALID_FORMAT,
+  isArray: ErrorCodes.VAL_INVALID_FORMAT,
+  isObject: ErrorCodes.VAL_INVALID_FORMAT,
+};
+
+/**
+ * Checks if a value looks like a Zod `ZodError`.
+ *
+ * @param {unknown} error - The value to check
+ * @returns {boolean} True if the value has Zod's `issues` array shape
+ *
+ * @example
+ * ```typescript
+ * const result = schema.safeParse(body);
+ * if (!result.success && isZodError(result.error)) {
+ *   throw fromZodError(result.error);
+ * }
+ * ```
+ */
+export function isZodError(error: unknown): error is ZodErrorLike {
+  return (
+    isObject(error) &&
+    Array.isArray(error.issues) &&
+    error.issues.every(
+      (issue: unknown) =>
+        isObject(issue) && typeof issue.code === 'string' && Array.isArray(issue.path)
+    )
+  );
+}
+
+/**
+ * Checks if a value looks like a Joi `ValidationError`.
+ *
+ * @param {unknown} error - The value to check
+ * @returns {boolean} True if the value has Joi's `details` array shape
+ */
+export function isJoiValidationError(error: unknown): error is JoiValidationErrorLike {
+  return (
+    isObject(error) &&
+    Array.isArray(error.details) &&
+    error.details.every(
+      (detail: unknown) =>
+        isObject(detail) && typeof detail.type === 'string' && Array.isArray(detail.path)
+    )
+  );
+}
+
+/**
+ * Checks if a value looks like a Yup `ValidationError`.
+ *
+ * @param {unknown} error - The value to check
+ * @returns {boolean} True if the value has Yup's `errors` and `inner` arrays
+ */
+export function isYupValidationError(error: unknown): error is YupValidationErrorLike {
+  return (
+    isObject(error) &&
+    error.name === 'ValidationError' &&
+    Array.isArray(error.errors) &&
+    Array.isArray(error.inner)
+  );
+}
+
+/**
+ * Checks if a value looks like the `ValidationError[]` returned by class-validator's `validate()`.
+ *
+ * @param {unknown} errors - The value to check
+ * @returns {boolean} True if the value is a non-empty array of class-validator errors
+ */
+export function isClassValidatorErrors(errors: unknown): errors is ClassValidatorErrorLike[] {
+  return (
+    Array.isArray(errors) &&
+    errors.length > 0 &&
+    errors.every(
+      (error: unknown) =>
+        isObject(error) &&
+        typeof error.property === 'string' &&
+        (isObject(error.constraints) || Array.isArray(error.children))
+    )
+  );
+}
+
+/**
+ * Converts a Zod `ZodError` into a CertusSchemaValidationError.
+ *
+ * Each issue becomes a violation at the issue's path; unrecognized keys produce
+ * one violation per key. Zod's messages are kept, and issue codes are mapped to
+ * `VAL_*` codes (missing values to `VAL_REQUIRED_FIELD`, size checks to the
+ * string/number/array bound codes, string formats to the matching format codes).
+ *
+ * @param {ZodErrorLike} error - The Zod error
+ * @param {SchemaErrorAdapterOptions} [options={}] - Message, context and redaction options
+ * @returns {CertusSchemaValidationError} Validation error carrying the violations
+ *
+ * @example
+ * ```typescript
+ * const result = CreateUserSchema.safeParse(req.body);
+ * if (!result.success) {
+ *   throw fromZodError(result.error, { message: 'Invalid user' });
+ * }
+ * // violations: [{ path: '/email', code: 'VAL_INVALID_EMAIL', message: 'Invalid email' }]
+ * ```
+ */
+export function fromZodError(
+  error: ZodErrorLike,
+  options: SchemaErrorAdapterOptions = {}
+): CertusSchemaValidationError {
+  const collector = new ViolationCollector({ redactFields: options.redactFields });
+
+  for (const issue of error.issues) {
+    const path = issue.path.map((segment) =>
+      typeof segment === 'number' ? segment : String(segment)
+    );
+
+    if (issue.code === 'unrecognized_keys' && Array.isArray(issue.keys)) {
+      for (const key of issue.keys) {
+        collector.add([...path, key], ErrorCodes.VAL_INVALID_INPUT, { message: issue.message });
+      }
+      continue;
+    }
+
+    const { code, params } = mapZodIssue(issue);
+    collector.add(path, code, { message: issue.message, params, value: issue.input });
+  }
+
+  return toSchemaValidationError(collector, 'zod', options);
+}
+
+/**
+ * Converts a Joi `ValidationError` into a CertusSchemaValidationError.
+ *
+ * Validate with `abortEarly: false` to get a violation for every failing field.
+ *
+ * @param {JoiValidationErrorLike} error - The Joi error
+ * @param {SchemaErrorAdapterOptions} [options={}] - Message, context and redaction options
+ * @returns {CertusSchemaValidationError} Validation error carrying the violations
+ *
+ * @example
+ * ```typescript
+ * const { error } = orderSchema.validate(req.body, { abortEarly: false });
+ * if (error) {
+ *   throw fromJoiError(error);
+ * }
+ * // violations: [{ path: '/items/0/quantity', code: 'VAL_NUMBER_TOO_SMALL',
+ * //   message: '"quantity" must be greater than or equal to 1', params: { limit: 1 }, rejectedValue: 0 }]
+ * ```
+ */
+export function fromJoiError(
+  error: JoiValidationErrorLike,
+  options: SchemaErrorAdapterOptions = {}
+): CertusSchemaValidationError {
+  const collector = new ViolationCollector({ redactFields: options.redactFields });
+
+  for (const detail of error.details) {
+    const params: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(detail.context ?? {})) {
+      if (!JOI_NON_CONSTRAINT_PARAMS.includes(name)) {
+        params[name] = value;
+      }
+    }
+
+    collector.add(detail.path, mapJoiType(detail.type), {
+      message: detail.message,
+      params: Object.keys(params).length > 0 ? params : undefined,
+      value: detail.context?.value,
+    });
+  }
+
+  return toSchemaValidationError(collector, 'joi', options);
+}
+
+/**
+ * Converts a Yup `ValidationError` into a CertusSchemaValidationError.
+ *
+ * Validate with `abortEarly: false` to get a violation for every failing field;
+ * otherwise the single failure is converted. Yup paths such as `items[0].sku`
+ * become JSON pointers such as `/items/0/sku`.
+ *
+ * @param {YupValidationErrorLike} error - The Yup error
+ * @param {SchemaErrorAdapterOptions} [options={}] - Message, context and redaction options
+ * @returns {CertusSchemaValidationError} Validation error carrying the violations
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await userSchema.validate(req.body, { abortEarly: false });
+ * } catch (error) {
+ *   throw isYupValidationError(error) ? fromYupError(error) : error;
+ * }
+ * ```
+ */
+export function fromYupError(
+  error: YupValidationErrorLike,
+  options: SchemaErrorAdapterOptions = {}
+): CertusSchemaValidationError {
+  const collector = new ViolationCollector({ redactFields: options.redactFields });
+  const failures = error.inner.length > 0 ? error.inner : [error];
+
+  for (const failure of failures) {
+    const params: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(failure.params ?? {})) {
+      if (!YUP_NON_CONSTRAINT_PARAMS.includes(name)) {
+        params[name] = value;
+      }
+    }
+
+    collector.add(parseYupPath(failure.path ?? ''), mapYupType(failure.type, failure.value), {
+      message: failure.message,
+      params: Object.keys(params).length > 0 ? params : undefined,
+      value: failure.value,
+    });
+  }
+
+  return toSchemaValidationError(collector, 'yup', options);
+}
+
+/**
+ * Converts the `ValidationError[]` returned by class-validator into a CertusSchemaValidationError.
+ *
+ * Every failed constraint becomes a violation; nested (`@ValidateNested`) errors
+ * are flattened with their full path.
+ *
+ * @param {ClassValidatorErrorLike[]} errors - The class-validator errors
+ * @param {SchemaErrorAdapterOptions} [options={}] - Message, context and redaction options
+ * @returns {CertusSchemaValidationError} Validation error carrying the violations
+ *
+ * @example
+ * ```typescript
+ * const errors = await validate(plainToInstance(CreateUserDto, req.body));
+ * if (errors.length > 0) {
+ *   throw fromClassValidatorErrors(errors);
+ * }
+ * // violations: [{ path: '/email', code: 'VAL_INVALID_EMAIL', message: 'email must be an email' }]
+ * ```
+ */
+export function fromClassValidatorErrors(
+  errors: ClassValidatorErrorLike[],
+  options: SchemaErrorAdapterOptions = {}
+): CertusSchemaValidationError {
+  const collector = new ViolationCollector({ redactFields: options.redactFields });
+  collectClassValidatorErrors(collector, errors, []);
+  return toSchemaValidationError(collector, 'class-validator', options);
+}
+
+/**
+ * Converts an error from any supported schema library into a CertusSchemaValidationError.
+ *
+ * The library is detected by the error's shape (Zod, Joi, Yup, class-validator,
+ * in that order). Values that are not recognized are returned as `undefined`,
+ * so callers can rethrow or wrap them.
+ *
+ * @param {unknown} error - The caught error (or class-validator error array)
+ * @param {SchemaErrorAdapterOptions} [options={}] - Message, context and redaction options
+ * @returns {CertusSchemaValidationError | undefined} The converted error, or undefined
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await validateOrder(req.body);
+ * } catch (error) {
+ *   throw fromSchemaError(error) ?? wrapError(error);
+ * }
+ * ```
+ */
+export function fromSchemaError(
+  error: unknown,
+  options: SchemaErrorAdapterOptions = {}
+): CertusSchemaValidationError | undefined {
+  if (isZodError(error)) {
+    return fromZodError(error, options);
+  }
+  if (isJoiValidationError(error)) {
+    return fromJoiError(error, options);
+  }
+  if (isYupValidationError(error)) {
+    return fromYupError(error, options);
+  }
+  if (isClassValidatorErrors(error)) {
+    return fromClassValidatorErrors(error, options);
+  }
+  return undefined;
+}
+
+/**
+ * Creates the validation error for the collected violations.
+ *
+ * @param {ViolationCollector} collector - Collector holding the violations
+ * @param {string} validator - Name of the schema library
+ * @param {SchemaErrorAdapterOptions} options - Message and context options
+ * @returns {CertusSchemaValidationError} The validation error
+ */
+function toSchemaValidationError(
+  collector: ViolationCollector,
+  validator: string,
+  options: SchemaErrorAdapterOptions
+): CertusSchemaValidationError {
+  return collector.toError(
+    options.message ?? 'Schema validation failed',
+    CertusSchemaValidationError,
+    {
+      validator,
+      ...options.context,
+    }
+  );
+}
+
+/**
+ * Maps a Zod issue (v3 or v4 shape) to a violation code and constraint parameters.
+ *
+ * @param {ZodIssueLike} issue - The Zod issue
+ * @returns {{ code: string; params?: Record<string, unknown> }} Violation code and parameters
+ */
+function mapZodIssue(issue: ZodIssueLike): { code: string; params?: Record<string, unknown> } {
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.received === 'undefined' || ('input' in issue && issue.input === undefined)
+        ? { code: ErrorCodes.VAL_REQUIRED_FIELD }
+        : {
+            code: ErrorCodes.VAL_INVALID_FORMAT,
+            params: { expected: issue.expected, received: issue.received },
+          };
+    case 'too_small':
+    case 'too_big': {
+      const bound = issue.code === 'too_small' ? 'min' : 'max';
+      const kind = issue.type ?? issue.origin;
+      return {
+        code: BOUND_CODES[kind]?.[bound] ?? ErrorCodes.VAL_INVALID_INPUT,
+        params: {
+          [bound]: issue.code === 'too_small' ? issue.minimum : issue.maximum,
+          inclusive: issue.inclusive,
+        },
+      };
+    }
+    case 'invalid_string':
+    case 'invalid_format': {
+      const format = typeof issue.validation === 'string' ? issue.validation : issue.format;
+      return { code: FORMAT_CODES[format] ?? ErrorCodes.VAL_INVALID_FORMAT, params: { format } };
+    }
+    case 'invalid_date':
+      return { code: ErrorCodes.VAL_INVALID_DATE };
+    case 'invalid_enum_value':
+    case 'invalid_literal':
+    case 'invalid_union_discriminator':
+    case 'invalid_value':
+      return {
+        code: ErrorCodes.VAL_INVALID_CHOICE,
+        params:
+          (issue.options ?? issue.values) ? { options: issue.options ?? issue.values } : undefined,
+      };
+    default:
+      return { code: ErrorCodes.VAL_INVALID_INPUT };
+  }
+}
+
+/**
+ * Maps a Joi error type (e.g. `string.min`) to a violation code.
+ *
+ * @param {string} type - The Joi error type
+ * @returns {string} The violation code
+ */
+function mapJoiType(type: string): string {
+  const [kind, rule] = type.split('.');
+
+  if (type === 'any.required' || type === 'string.empty') {
+    return ErrorCodes.VAL_REQUIRED_FIELD;
+  }
+  if (type === 'any.only' || type === 'any.invalid') {
+    return ErrorCodes.VAL_INVALID_CHOICE;
+  }
+  if (type === 'array.unique') {
+    return ErrorCodes.VAL_UNIQUE_CONSTRAINT;
+  }
+  if (kind === 'date') {
+    return ErrorCodes.VAL_INVALID_DATE;
+  }
+  if (rule === 'min' || rule === 'greater' || rule === 'positive') {
+    return BOUND_CODES[kind]?.min ?? ErrorCodes.VAL_INVALID_INPUT;
+  }
+  if (rule === 'max' || rule === 'less' || rule === 'negative') {
+    return BOUND_CODES[kind]?.max ?? ErrorCodes.VAL_INVALID_INPUT;
+  }
+  if (kind === 'string' && rule in FORMAT_CODES) {
+    return FORMAT_CODES[rule];
+  }
+  if (rule === 'base' || rule === 'pattern' || rule === 'length') {
+    return ErrorCodes.VAL_INVALID_FORMAT;
+  }
+  return ErrorCodes.VAL_INVALID_INPUT;
+}
+
+/**
+ * Maps a Yup test name to a violation code. Bound tests (`min`, `max`, ...) are
+ * shared by Yup's string, number, array and date schemas, so the rejected value
+ * decides which bound code applies.
+ *
+ * @param {string | undefined} type - The Yup test name
+ * @param {unknown} value - The rejected value
+ * @returns {string} The violation code
+ */
+function mapYupType(type: string | undefined, value: unknown): string {
+  const kind =
+    value instanceof Date ? 'date' : Array.isArray(value) ? 'array' : (typeof value as string);
+
+  switch (type) {
+    case 'required':
+    case 'defined':
+      return ErrorCodes.VAL_REQUIRED_FIELD;
+    case 'min':
+    case 'moreThan':
+    case 'positive':
+      return BOUND_CODES[kind]?.min ?? ErrorCodes.VAL_INVALID_INPUT;
+    case 'max':
+    case 'lessThan':
+    case 'negative':
+      return BOUND_CODES[kind]?.max ?? ErrorCodes.VAL_INVALID_INPUT;
+    case 'email':
+    case 'url':
+    case 'uuid':
+    case 'datetime':
+      return FORMAT_CODES[type];
+    case 'oneOf':
+    case 'notOneOf':
+      return ErrorCodes.VAL_INVALID_CHOICE;
+    case 'typeError':
+    case 'matches':
+    case 'length':
+    case 'integer':
+      return ErrorCodes.VAL_INVALID_FORMAT;
+    default:
+      return ErrorCodes.VAL_INVALID_INPUT;
+  }
+}
+
+/**
+ * Splits a Yup path (`items[0].sku`, `meta["a.b"]`) into path segments.
+ *
+ * @param {string} path - The Yup path
+ * @returns {Array<string | number>} The path segments
+ */
+function parseYupPath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  const pattern = /\[(\d+)\]|\["((?:[^"\\]|\\.)*)"\]|([^.[\]]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(path)) !== null) {
+    if (match[1] !== undefined) {
+      segments.push(Number(match[1]));
+    } else if (match[2] !== undefined) {
+      segments.push(match[2].replace(/\\(.)/g, '$1'));
+    } else {
+      segments.push(match[3]);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Adds a violation for every failed class-validator constraint, recursing into children.
+ *
+ * @param {ViolationCollector} collector - Collector receiving the violations
+ * @param {ClassValidatorErrorLike[]} errors - The class-validator errors
+ * @param {Array<string | number>} parentPath - Path of the validated object
+ */
+function collectClassValidatorErrors(
+  collector: ViolationCollector,
+  errors: ClassValidatorErrorLike[],
+  parentPath: Array<string | number>
+): void {
+  for (const error of errors) {
+    const path = [...parentPath, error.property];
+
+    for (const [constraint, message] of Object.entries(error.constraints ?? {})) {
+      collector.add(path, CLASS_VALIDATOR_CODES[constraint] ?? ErrorCodes.VAL_INVALID_INPUT, {
+        message,
+        value: error.value,
+      });
+    }
+
+    if (error.children && error.children.length > 0) {
+      collectClassValidatorErrors(collector, error.children, path);
+    }
+  }
+}
+
+/**
+ * Checks if a value is a non-null object.
+ *
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if the value is a non-null object
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object';
+}
@@ -0,0 +1,324 @@
+import { ErrorCodes, ErrorMessages } from '../../constants';
+import { Violation, ViolationOptions } from '../../types';
+import { CertusValidationError } from '../errors';
+
+/** Default field names whose values are redacted from rejected values */
+const DEFAULT_REDACT_FIELDS = [
+  'password',
+  'token',
+  'secret',
+  'authorization',
+  'apikey',
+  'creditcard',
+  'cvv',
+  'ssn',
+];
+
+/** Nesting depth of rejected values below which objects are replaced by '[Truncated]' */
+const MAX_REDACT_DEPTH = 10;
+
+/**
+ * Converts a path to a JSON pointer (RFC 6901).
+ *
+ * Strings starting with `/` (and the empty string) are taken as JSON pointers
+ * already; any other string is treated as a single property name. Segment
+ * arrays are escaped and joined.
+ *
+ * @param {string | Array<string | number>} path - JSON pointer, property name or path segments
+ * @returns {string} The JSON pointer
+ *
+ * @example
+ * ```typescript
+ * toJsonPointer(['items', 0, 'sku']); // '/items/0/sku'
+ * toJsonPointer('email'); // '/email'
+ * toJsonPointer(['a/b', 'c~d']); // '/a~1b/c~0d'
+ * toJsonPointer('/address/city'); // '/address/city'
+ * ```
+ */
+export function toJsonPointer(path: string | Array<string | number>): string {
+  if (typeof path === 'string') {
+    return path === '' || path.startsWith('/') ? path : toJsonPointer([path]);
+  }
+
+  return path
+    .map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('');
+}
+
+/**
+ * Fluent collector for field-level validation failures.
+ *
+ * Gathers violations with JSON pointer paths, `VAL_*` codes, messages,
+ * constraint parameters and rejected values, then turns them into a single
+ * validation error. Rejected values are redacted when the path or any nested
+ * key looks sensitive (password, token, secret, ...).
+ *
+ * @class ViolationCollector
+ *
+ * @example
+ * ```typescript
+ * const violations = new ViolationCollector();
+ *
+ * violations
+ *   .check(!!input.email, 'email', ErrorCodes.VAL_REQUIRED_FIELD)
+ *   .check(input.password?.length >= 8, 'password', ErrorCodes.VAL_STRING_TOO_SHORT, {
+ *     params: { min: 8 },
+ *     value: input.password, // rendered as '[REDACTED]'
+ *   });
+ *
+ * input.items.forEach((item, index) => {
+ *   violations
+ *     .at(['items', index])
+ *     .check(item.quantity > 0, 'quantity', ErrorCodes.VAL_NUMBER_TOO_SMALL, {
+ *       params: { min: 1 },
+ *       value: item.quantity,
+ *     });
+ * });
+ *
+ * violations.throwIfAny('Order validation failed');
+ * ```
+ */
+export class ViolationCollector {
+  private violations: Violation[] = [];
+  private basePath = '';
+  private readonly redactFields: string[];
+
+  /**
+   * Creates a new ViolationCollector instance.
+   *
+   * @param {Object} [options] - Collector options
+   * @param {string[]} [options.redactFields] - Field names whose values are redacted
+   *        (case-insensitive substring match; defaults to common credential and payment fields)
+   */
+  constructor(options: { redactFields?: string[] } = {}) {
+    this.redactFields = (options.redactFields ?? DEFAULT_REDACT_FIELDS).map((field) =>
+      field.toLowerCase()
+    );
+  }
+
+  /**
+   * Adds a violation.
+   *
+   * @param {string | Array<string | number>} path - Location of the invalid value, relative to
+   *        the collector's path (see `toJsonPointer`)
+   * @param {string} code - Machine-readable `VAL_*` error code
+   * @param {ViolationOptions} [options] - Message, constraint parameters and rejected value
+   * @returns {this} The collector, for chaining
+   *
+   * @example
+   * ```typescript
+   * collector.add('/name', ErrorCodes.VAL_STRING_TOO_LONG, {
+   *   message: 'Name must be at most 50 characters',
+   *   params: { max: 50 },
+   *   value: name,
+   * });
+   * ```
+   */
+  add(path: string | Array<string | number>, code: string, options: ViolationOptions = {}): this {
+    const pointer = this.basePath + toJsonPointer(path);
+    const violation: Violation = {
+      path: pointer,
+      code,
+      message: options.message ?? this.resolveMessage(code),
+    };
+
+    if (options.params) {
+      violation.params = options.params;
+    }
+
+    if (options.value !== undefined) {
+      violation.rejectedValue = this.isSensitive(pointer)
+        ? '[REDACTED]'
+        : this.redact(options.value);
+    }
+
+    this.violations.push(violation);
+    return this;
+  }
+
+  /**
+   * Adds a violation unless the condition holds.
+   *
+   * @param {boolean} condition - The rule being checked; a violation is added when false
+   * @param {string | Array<string | number>} path - Location of the checked value
+   * @param {string} code - Machine-readable `VAL_*` error code
+   * @param {ViolationOptions} [options] - Message, constraint parameters and rejected value
+   * @returns {this} The collector, for chaining
+   */
+  check(
+    condition: boolean,
+    path: string | Array<string | number>,
+    code: string,
+    options?: ViolationOptions
+  ): this {
+    return condition ? this : this.add(path, code, options);
+  }
+
+  /**
+   * Adds existing violations, prefixing their paths with the collector's path.
+   *
+   * @param {Violation[]} violations - Violations to add
+   * @returns {this} The collector, for chaining
+   */
+  addAll(violations: Violation[]): this {
+    for (const violation of violations) {
+      this.violations.push({ ...violation, path: this.basePath + violation.path });
+    }
+    return this;
+  }
+
+  /**
+   * Gets a collector for a nested location that adds to the same violations.
+   *
+   * @param {string | Array<string | number>} path - Nested location, relative to this collector
+   * @returns {ViolationCollector} Collector whose paths are prefixed with the location
+   *
+   * @example
+   * ```typescript
+   * collector.at('address').add('zip', ErrorCodes.VAL_INVALID_FORMAT); // path '/address/zip'
+   * ```
+   */
+  at(path: string | Array<string | number>): ViolationCollector {
+    const scoped = new ViolationCollector({ redactFields: this.redactFields });
+    scoped.violations = this.violations;
+    scoped.basePath = this.basePath + toJsonPointer(path);
+    return scoped;
+  }
+
+  /**
+   * Checks whether any violation has been collected.
+   *
+   * @returns {boolean} True if at least one violation exists
+   */
+  hasViolations(): boolean {
+    return this.violations.length > 0;
+  }
+
+  /**
+   * Gets the collected violations, in the order they were added.
+   *
+   * @returns {Violation[]} Copy of the collected violations
+   */
+  getViolations(): Violation[] {
+    return [...this.violations];
+  }
+
+  /**
+   * Creates a validation error carrying the collected violations.
+   *
+   * @param {string} [message='Validation failed'] - Human-readable error description
+   * @param {Function} [ErrorClass=CertusValidationError] - Validation error class to instantiate
+   * @param {Record<string, unknown>} [context={}] - Additional error context
+   * @returns {CertusValidationError} The validation error, an instance of `ErrorClass`
+   *
+   * @example
+   * ```typescript
+   * throw collector.toError('Invalid order', CertusSchemaValidationError);
+   * ```
+   */
+  toError(
+    message: string = 'Validation failed',
+    ErrorClass: new (
+      message: string,
+      context?: Record<string, unknown>,
+      violations?: Violation[]
+    ) => CertusValidationError = CertusValidationError,
+    context: Record<string, unknown> = {}
+  ): CertusValidationError {
+    return new ErrorClass(message, context, this.getViolations());
+  }
+
+  /**
+   * Throws a validation error carrying the collected violations, if any.
+   *
+   * @param {string} [message='Validation failed'] - Human-readable error description
+   * @param {Record<string, unknown>} [context={}] - Additional error context
+   * @throws {CertusValidationError} When at least one violation has been collected
+   */
+  throwIfAny(message?: string, context?: Record<string, unknown>): void {
+    if (this.hasViolations()) {
+      throw this.toError(message, undefined, context);
+    }
+  }
+
+  /**
+   * Resolves the default message for a violation code.
+   *
+   * @private
+   * @param {string} code - Violation code
+   * @returns {string} Registered message for the code, or the generic invalid input message
+   */
+  private resolveMessage(code: string): string {
+    return (
+      (ErrorMessages as Record<string, string>)[code] ?? ErrorMessages[ErrorCodes.VAL_INVALID_INPUT]
+    );
+  }
+
+  /**
+   * Checks whether a JSON pointer addresses a sensitive field.
+   *
+   * @private
+   * @param {string} pointer - JSON pointer of the value
+   * @returns {boolean} True if any segment matches a redacted field name
+   */
+  private isSensitive(pointer: string): boolean {
+    return pointer
+      .split('/')
+      .slice(1)
+      .some((segment) => this.isSensitiveKey(segment));
+  }
+
+  /**
+   * Checks whether a property name matches a redacted field name.
+   *
+   * @private
+   * @param {string} key - Property name
+   * @returns {boolean} True if the name contains a redacted field name
+   */
+  private isSensitiveKey(key: string): boolean {
+    const normalized = key.toLowerCase();
+    return this.redactFields.some((field) => normalized.includes(field));
+  }
+
+  /**
+   * Recursively redacts sensitive properties of a rejected value.
+   *
+   * Objects that contain themselves, such as ORM entities with back-references,
+   * are cut off with '[Circular]', and objects nested deeper than
+   * MAX_REDACT_DEPTH with '[Truncated]'.
+   *
+   * @private
+   * @param {unknown} value - The rejected value
+   * @param {number} [depth=0] - Nesting depth of the value
+   * @param {WeakSet<object>} [ancestors] - Objects above the value, for cycle detection
+   * @returns {unknown} The value with sensitive properties replaced by '[REDACTED]'
+   */
+  private redact(value: unknown, depth = 0, ancestors = new WeakSet<object>()): unknown {
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+    if (ancestors.has(value)) {
+      return '[Circular]';
+    }
+    if (depth >= MAX_REDACT_DEPTH) {
+      return '[Truncated]';
+    }
+
+    ancestors.add(value);
+    let redacted: unknown;
+    if (Array.isArray(value)) {
+      redacted = value.map((item) => this.redact(item, depth + 1, ancestors));
+    } else {
+      const entries: Record<string, unknown> = {};
+      for (const [key, nested] of Object.entries(value)) {
+        entries[key] = this.isSensitiveKey(key)
+          ? '[REDACTED]'
+          : this.redact(nested, depth + 1, ancestors);
+      }
+      redacted = entries;
+    }
+    ancestors.delete(value);
+
+    return redacted;
+  }
+}
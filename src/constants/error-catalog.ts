@@ -0,0 +1,730 @@
+import { ErrorCodes, ErrorCodeType } from './error-codes';
+import { HttpStatus } from './http-status';
+import { ErrorMessages } from './messages';
+
+/**
+ * Error families, one per `ErrorCodes` prefix.
+ */
+export type ErrorCategory =
+  | 'authentication'
+  | 'validation'
+  | 'database'
+  | 'file'
+  | 'server'
+  | 'network'
+  | 'payment'
+  | 'notification'
+  | 'generic';
+
+/**
+ * Defaults declared for an error code in the ErrorCatalog.
+ */
+export interface ErrorCatalogEntry {
+  /** Default HTTP status code */
+  status: number;
+
+  /** Key of the default message in ErrorMessages */
+  messageKey: keyof typeof ErrorMessages;
+
+  /** Whether retrying the failed operation may succeed */
+  retryable: boolean;
+
+  /** Error family */
+  category: ErrorCategory;
+}
+
+/**
+ * Central catalog binding every error code to its default HTTP status,
+ * message, retryability and category.
+ *
+ * ErrorCodes, ErrorMessages and HttpStatus are independent constants; the
+ * catalog is what ties them together, so that errors created from a code get
+ * a consistent status and message. `CertusAdiValtError.fromCode()` creates
+ * errors from it, and `checkErrorCatalog()` reports codes that are missing
+ * from it or lack a message.
+ *
+ * Retryable codes describe transient conditions: unavailable or overloaded
+ * dependencies, timeouts and rate limits.
+ *
+ * @namespace ErrorCatalog
+ *
+ * @example
+ * ```typescript
+ * const { status, messageKey, retryable } = ErrorCatalog[ErrorCodes.PAY_CARD_DECLINED];
+ * // status: 402, messageKey: 'PAY_CARD_DECLINED', retryable: false
+ *
+ * res.status(status).json({ message: ErrorMessages[messageKey] });
+ *
+ * // Decide whether a failed job should be retried
+ * if (ErrorCatalog[error.code as ErrorCodeType]?.retryable) {
+ *   await queue.retry(job);
+ * }
+ * ```
+ */
+export const ErrorCatalog: Readonly<Record<ErrorCodeType, ErrorCatalogEntry>> = {
+  // Authentication & Authorization (AUTH_*)
+  [ErrorCodes.AUTH_INVALID_CREDENTIALS]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_INVALID_CREDENTIALS,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_TOKEN_EXPIRED]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_TOKEN_EXPIRED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_INVALID_TOKEN]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_INVALID_TOKEN,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_TOKEN_REQUIRED]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_TOKEN_REQUIRED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_INSUFFICIENT_PERMISSIONS]: {
+    status: HttpStatus.FORBIDDEN,
+    messageKey: ErrorCodes.AUTH_INSUFFICIENT_PERMISSIONS,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_SESSION_EXPIRED]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_SESSION_EXPIRED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_SESSION_REVOKED]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_SESSION_REVOKED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_SESSION_NOT_FOUND]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_SESSION_NOT_FOUND,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_UNAUTHORIZED]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_UNAUTHORIZED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_ACCOUNT_LOCKED]: {
+    status: HttpStatus.LOCKED,
+    messageKey: ErrorCodes.AUTH_ACCOUNT_LOCKED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_ACCOUNT_DISABLED]: {
+    status: HttpStatus.FORBIDDEN,
+    messageKey: ErrorCodes.AUTH_ACCOUNT_DISABLED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_ACCOUNT_PENDING]: {
+    status: HttpStatus.FORBIDDEN,
+    messageKey: ErrorCodes.AUTH_ACCOUNT_PENDING,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_PASSWORD_RESET_REQUIRED]: {
+    status: HttpStatus.FORBIDDEN,
+    messageKey: ErrorCodes.AUTH_PASSWORD_RESET_REQUIRED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_MFA_REQUIRED]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_MFA_REQUIRED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_MFA_INVALID]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_MFA_INVALID,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_OAUTH_ERROR]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_OAUTH_ERROR,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_PROVIDER_ERROR]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.AUTH_PROVIDER_ERROR,
+    retryable: true,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_REFRESH_TOKEN_EXPIRED]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_REFRESH_TOKEN_EXPIRED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_REFRESH_TOKEN_INVALID]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.AUTH_REFRESH_TOKEN_INVALID,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_EMAIL_NOT_VERIFIED]: {
+    status: HttpStatus.FORBIDDEN,
+    messageKey: ErrorCodes.AUTH_EMAIL_NOT_VERIFIED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_PHONE_NOT_VERIFIED]: {
+    status: HttpStatus.FORBIDDEN,
+    messageKey: ErrorCodes.AUTH_PHONE_NOT_VERIFIED,
+    retryable: false,
+    category: 'authentication',
+  },
+  [ErrorCodes.AUTH_RATE_LIMIT_EXCEEDED]: {
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    messageKey: ErrorCodes.AUTH_RATE_LIMIT_EXCEEDED,
+    retryable: true,
+    category: 'authentication',
+  },
+
+  // Validation (VAL_*)
+  [ErrorCodes.VAL_INVALID_INPUT]: {
+    status: HttpStatus.BAD_REQUEST,
+    messageKey: ErrorCodes.VAL_INVALID_INPUT,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_SCHEMA_ERROR]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_SCHEMA_ERROR,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_BUSINESS_RULE]: {
+    status: HttpStatus.CONFLICT,
+    messageKey: ErrorCodes.VAL_BUSINESS_RULE,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_REQUIRED_FIELD]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_REQUIRED_FIELD,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_INVALID_FORMAT]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_INVALID_FORMAT,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_INVALID_EMAIL]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_INVALID_EMAIL,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_INVALID_PHONE]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_INVALID_PHONE,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_INVALID_DATE]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_INVALID_DATE,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_INVALID_URL]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_INVALID_URL,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_INVALID_UUID]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_INVALID_UUID,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_STRING_TOO_SHORT]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_STRING_TOO_SHORT,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_STRING_TOO_LONG]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_STRING_TOO_LONG,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_NUMBER_TOO_SMALL]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_NUMBER_TOO_SMALL,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_NUMBER_TOO_LARGE]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_NUMBER_TOO_LARGE,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_ARRAY_TOO_SHORT]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_ARRAY_TOO_SHORT,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_ARRAY_TOO_LONG]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_ARRAY_TOO_LONG,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_INVALID_CHOICE]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.VAL_INVALID_CHOICE,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_UNIQUE_CONSTRAINT]: {
+    status: HttpStatus.CONFLICT,
+    messageKey: ErrorCodes.VAL_UNIQUE_CONSTRAINT,
+    retryable: false,
+    category: 'validation',
+  },
+  [ErrorCodes.VAL_FOREIGN_KEY_CONSTRAINT]: {
+    status: HttpStatus.CONFLICT,
+    messageKey: ErrorCodes.VAL_FOREIGN_KEY_CONSTRAINT,
+    retryable: false,
+    category: 'validation',
+  },
+
+  // Database (DB_*)
+  [ErrorCodes.DB_CONNECTION_ERROR]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    messageKey: ErrorCodes.DB_CONNECTION_ERROR,
+    retryable: true,
+    category: 'database',
+  },
+  [ErrorCodes.DB_UNIQUE_CONSTRAINT]: {
+    status: HttpStatus.CONFLICT,
+    messageKey: ErrorCodes.DB_UNIQUE_CONSTRAINT,
+    retryable: false,
+    category: 'database',
+  },
+  [ErrorCodes.DB_FOREIGN_KEY_CONSTRAINT]: {
+    status: HttpStatus.CONFLICT,
+    messageKey: ErrorCodes.DB_FOREIGN_KEY_CONSTRAINT,
+    retryable: false,
+    category: 'database',
+  },
+  [ErrorCodes.DB_TIMEOUT_ERROR]: {
+    status: HttpStatus.GATEWAY_TIMEOUT,
+    messageKey: ErrorCodes.DB_TIMEOUT_ERROR,
+    retryable: true,
+    category: 'database',
+  },
+  [ErrorCodes.DB_QUERY_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.DB_QUERY_ERROR,
+    retryable: false,
+    category: 'database',
+  },
+  [ErrorCodes.DB_TRANSACTION_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.DB_TRANSACTION_ERROR,
+    retryable: false,
+    category: 'database',
+  },
+  [ErrorCodes.DB_RECORD_NOT_FOUND]: {
+    status: HttpStatus.NOT_FOUND,
+    messageKey: ErrorCodes.DB_RECORD_NOT_FOUND,
+    retryable: false,
+    category: 'database',
+  },
+  [ErrorCodes.DB_DUPLICATE_ENTRY]: {
+    status: HttpStatus.CONFLICT,
+    messageKey: ErrorCodes.DB_DUPLICATE_ENTRY,
+    retryable: false,
+    category: 'database',
+  },
+  [ErrorCodes.DB_DEADLOCK_ERROR]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    messageKey: ErrorCodes.DB_DEADLOCK_ERROR,
+    retryable: true,
+    category: 'database',
+  },
+  [ErrorCodes.DB_CONNECTION_LIMIT]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    messageKey: ErrorCodes.DB_CONNECTION_LIMIT,
+    retryable: true,
+    category: 'database',
+  },
+  [ErrorCodes.DB_MIGRATION_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.DB_MIGRATION_ERROR,
+    retryable: false,
+    category: 'database',
+  },
+  [ErrorCodes.DB_BACKUP_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.DB_BACKUP_ERROR,
+    retryable: false,
+    category: 'database',
+  },
+
+  // File & Storage (FILE_*)
+  [ErrorCodes.FILE_UPLOAD_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.FILE_UPLOAD_ERROR,
+    retryable: false,
+    category: 'file',
+  },
+  [ErrorCodes.FILE_DOWNLOAD_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.FILE_DOWNLOAD_ERROR,
+    retryable: false,
+    category: 'file',
+  },
+  [ErrorCodes.FILE_DELETE_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.FILE_DELETE_ERROR,
+    retryable: false,
+    category: 'file',
+  },
+  [ErrorCodes.FILE_NOT_FOUND]: {
+    status: HttpStatus.NOT_FOUND,
+    messageKey: ErrorCodes.FILE_NOT_FOUND,
+    retryable: false,
+    category: 'file',
+  },
+  [ErrorCodes.FILE_TOO_LARGE]: {
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    messageKey: ErrorCodes.FILE_TOO_LARGE,
+    retryable: false,
+    category: 'file',
+  },
+  [ErrorCodes.FILE_INVALID_TYPE]: {
+    status: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+    messageKey: ErrorCodes.FILE_INVALID_TYPE,
+    retryable: false,
+    category: 'file',
+  },
+  [ErrorCodes.FILE_INVALID_NAME]: {
+    status: HttpStatus.BAD_REQUEST,
+    messageKey: ErrorCodes.FILE_INVALID_NAME,
+    retryable: false,
+    category: 'file',
+  },
+  [ErrorCodes.FILE_STORAGE_LIMIT]: {
+    status: HttpStatus.INSUFFICIENT_STORAGE,
+    messageKey: ErrorCodes.FILE_STORAGE_LIMIT,
+    retryable: false,
+    category: 'file',
+  },
+  [ErrorCodes.FILE_CORRUPTED]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    messageKey: ErrorCodes.FILE_CORRUPTED,
+    retryable: false,
+    category: 'file',
+  },
+  [ErrorCodes.FILE_PERMISSION_DENIED]: {
+    status: HttpStatus.FORBIDDEN,
+    messageKey: ErrorCodes.FILE_PERMISSION_DENIED,
+    retryable: false,
+    category: 'file',
+  },
+
+  // Server & Infrastructure (SRV_*)
+  [ErrorCodes.SRV_INTERNAL_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.SRV_INTERNAL_ERROR,
+    retryable: false,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_EXTERNAL_SERVICE]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.SRV_EXTERNAL_SERVICE,
+    retryable: true,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_CONFIGURATION_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.SRV_CONFIGURATION_ERROR,
+    retryable: false,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_ENCRYPTION_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.SRV_ENCRYPTION_ERROR,
+    retryable: false,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_DECRYPTION_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.SRV_DECRYPTION_ERROR,
+    retryable: false,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_RATE_LIMIT]: {
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    messageKey: ErrorCodes.SRV_RATE_LIMIT,
+    retryable: true,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_MAINTENANCE_MODE]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    messageKey: ErrorCodes.SRV_MAINTENANCE_MODE,
+    retryable: true,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_SERVICE_UNAVAILABLE]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    messageKey: ErrorCodes.SRV_SERVICE_UNAVAILABLE,
+    retryable: true,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_MEMORY_LIMIT]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    messageKey: ErrorCodes.SRV_MEMORY_LIMIT,
+    retryable: true,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_CPU_LIMIT]: {
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    messageKey: ErrorCodes.SRV_CPU_LIMIT,
+    retryable: true,
+    category: 'server',
+  },
+  [ErrorCodes.SRV_DISK_SPACE]: {
+    status: HttpStatus.INSUFFICIENT_STORAGE,
+    messageKey: ErrorCodes.SRV_DISK_SPACE,
+    retryable: false,
+    category: 'server',
+  },
+
+  // Network & Communication (NET_*)
+  [ErrorCodes.NET_NETWORK_ERROR]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.NET_NETWORK_ERROR,
+    retryable: true,
+    category: 'network',
+  },
+  [ErrorCodes.NET_CONNECTION_TIMEOUT]: {
+    status: HttpStatus.GATEWAY_TIMEOUT,
+    messageKey: ErrorCodes.NET_CONNECTION_TIMEOUT,
+    retryable: true,
+    category: 'network',
+  },
+  [ErrorCodes.NET_DNS_ERROR]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.NET_DNS_ERROR,
+    retryable: true,
+    category: 'network',
+  },
+  [ErrorCodes.NET_SSL_ERROR]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.NET_SSL_ERROR,
+    retryable: false,
+    category: 'network',
+  },
+  [ErrorCodes.NET_PROXY_ERROR]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.NET_PROXY_ERROR,
+    retryable: true,
+    category: 'network',
+  },
+  [ErrorCodes.NET_FIREWALL_BLOCKED]: {
+    status: HttpStatus.FORBIDDEN,
+    messageKey: ErrorCodes.NET_FIREWALL_BLOCKED,
+    retryable: false,
+    category: 'network',
+  },
+
+  // Payment & Billing (PAY_*)
+  [ErrorCodes.PAY_PAYMENT_FAILED]: {
+    status: HttpStatus.PAYMENT_REQUIRED,
+    messageKey: ErrorCodes.PAY_PAYMENT_FAILED,
+    retryable: false,
+    category: 'payment',
+  },
+  [ErrorCodes.PAY_INSUFFICIENT_FUNDS]: {
+    status: HttpStatus.PAYMENT_REQUIRED,
+    messageKey: ErrorCodes.PAY_INSUFFICIENT_FUNDS,
+    retryable: false,
+    category: 'payment',
+  },
+  [ErrorCodes.PAY_CARD_DECLINED]: {
+    status: HttpStatus.PAYMENT_REQUIRED,
+    messageKey: ErrorCodes.PAY_CARD_DECLINED,
+    retryable: false,
+    category: 'payment',
+  },
+  [ErrorCodes.PAY_INVALID_CARD]: {
+    status: HttpStatus.PAYMENT_REQUIRED,
+    messageKey: ErrorCodes.PAY_INVALID_CARD,
+    retryable: false,
+    category: 'payment',
+  },
+  [ErrorCodes.PAY_EXPIRED_CARD]: {
+    status: HttpStatus.PAYMENT_REQUIRED,
+    messageKey: ErrorCodes.PAY_EXPIRED_CARD,
+    retryable: false,
+    category: 'payment',
+  },
+  [ErrorCodes.PAY_PROCESSOR_ERROR]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.PAY_PROCESSOR_ERROR,
+    retryable: true,
+    category: 'payment',
+  },
+  [ErrorCodes.PAY_REFUND_FAILED]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.PAY_REFUND_FAILED,
+    retryable: false,
+    category: 'payment',
+  },
+  [ErrorCodes.PAY_SUBSCRIPTION_EXPIRED]: {
+    status: HttpStatus.PAYMENT_REQUIRED,
+    messageKey: ErrorCodes.PAY_SUBSCRIPTION_EXPIRED,
+    retryable: false,
+    category: 'payment',
+  },
+  [ErrorCodes.PAY_INVOICE_NOT_FOUND]: {
+    status: HttpStatus.NOT_FOUND,
+    messageKey: ErrorCodes.PAY_INVOICE_NOT_FOUND,
+    retryable: false,
+    category: 'payment',
+  },
+
+  // Notification & Email (NOTIF_*)
+  [ErrorCodes.NOTIF_EMAIL_FAILED]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.NOTIF_EMAIL_FAILED,
+    retryable: true,
+    category: 'notification',
+  },
+  [ErrorCodes.NOTIF_SMS_FAILED]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.NOTIF_SMS_FAILED,
+    retryable: true,
+    category: 'notification',
+  },
+  [ErrorCodes.NOTIF_PUSH_FAILED]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.NOTIF_PUSH_FAILED,
+    retryable: true,
+    category: 'notification',
+  },
+  [ErrorCodes.NOTIF_TEMPLATE_NOT_FOUND]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.NOTIF_TEMPLATE_NOT_FOUND,
+    retryable: false,
+    category: 'notification',
+  },
+  [ErrorCodes.NOTIF_RATE_LIMIT]: {
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    messageKey: ErrorCodes.NOTIF_RATE_LIMIT,
+    retryable: true,
+    category: 'notification',
+  },
+  [ErrorCodes.NOTIF_PROVIDER_ERROR]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.NOTIF_PROVIDER_ERROR,
+    retryable: true,
+    category: 'notification',
+  },
+
+  // Generic (GEN_*)
+  [ErrorCodes.GEN_VALIDATION_ERROR]: {
+    status: HttpStatus.BAD_REQUEST,
+    messageKey: ErrorCodes.GEN_VALIDATION_ERROR,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_NOT_FOUND]: {
+    status: HttpStatus.NOT_FOUND,
+    messageKey: ErrorCodes.GEN_NOT_FOUND,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_TIMEOUT]: {
+    status: HttpStatus.GATEWAY_TIMEOUT,
+    messageKey: ErrorCodes.GEN_TIMEOUT,
+    retryable: true,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_NETWORK_ERROR]: {
+    status: HttpStatus.BAD_GATEWAY,
+    messageKey: ErrorCodes.GEN_NETWORK_ERROR,
+    retryable: true,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_SERVICE_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.GEN_SERVICE_ERROR,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_UNKNOWN_ERROR]: {
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    messageKey: ErrorCodes.GEN_UNKNOWN_ERROR,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_FORBIDDEN]: {
+    status: HttpStatus.FORBIDDEN,
+    messageKey: ErrorCodes.GEN_FORBIDDEN,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_UNAUTHORIZED]: {
+    status: HttpStatus.UNAUTHORIZED,
+    messageKey: ErrorCodes.GEN_UNAUTHORIZED,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_BAD_REQUEST]: {
+    status: HttpStatus.BAD_REQUEST,
+    messageKey: ErrorCodes.GEN_BAD_REQUEST,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_CONFLICT]: {
+    status: HttpStatus.CONFLICT,
+    messageKey: ErrorCodes.GEN_CONFLICT,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_METHOD_NOT_ALLOWED]: {
+    status: HttpStatus.METHOD_NOT_ALLOWED,
+    messageKey: ErrorCodes.GEN_METHOD_NOT_ALLOWED,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_GONE]: {
+    status: HttpStatus.GONE,
+    messageKey: ErrorCodes.GEN_GONE,
+    retryable: false,
+    category: 'generic',
+  },
+  [ErrorCodes.GEN_PAYLOAD_TOO_LARGE]: {
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    messageKey: ErrorCodes.GEN_PAYLOAD_TOO_LARGE,
+    retryable: false,
+    category: 'generic',
+  },
+};
@@ -569,6 +569,21 @@ export const ErrorCodes = {
    * Generic conflict error
    */
   GEN_CONFLICT: 'GEN_CONFLICT',
+
+  /**
+   * HTTP method not supported by the resource
+   */
+  GEN_METHOD_NOT_ALLOWED: 'GEN_METHOD_NOT_ALLOWED',
+
+  /**
+   * Resource permanently removed
+   */
+  GEN_GONE: 'GEN_GONE',
+
+  /**
+   * Request body exceeds the allowed size
+   */
+  GEN_PAYLOAD_TOO_LARGE: 'GEN_PAYLOAD_TOO_LARGE',
 } as const;
 
 /**
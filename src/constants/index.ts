@@ -1,3 +1,4 @@
 export * from './http-status';
 export * from './error-codes';
 export * from './messages';
+export * from './error-catalog';
@@ -574,6 +574,21 @@ export const ErrorMessages = {
    * User-friendly message for resource conflicts
    */
   [ErrorCodes.GEN_CONFLICT]: 'Resource conflict',
+
+  /**
+   * User-friendly message for unsupported HTTP methods
+   */
+  [ErrorCodes.GEN_METHOD_NOT_ALLOWED]: 'Method not allowed',
+
+  /**
+   * User-friendly message for permanently removed resources
+   */
+  [ErrorCodes.GEN_GONE]: 'Resource no longer available',
+
+  /**
+   * User-friendly message for oversized request bodies
+   */
+  [ErrorCodes.GEN_PAYLOAD_TOO_LARGE]: 'Request body too large',
 } as const;
 
 /**
@@ -680,6 +695,11 @@ export const SuccessMessages = {
    */
   DATA_CREATED: 'Data created successfully',
 
+  /**
+   * Success message for resources created through the API (201 Created)
+   */
+  RESOURCE_CREATED: 'Resource created successfully',
+
   /**
    * Success message for data updates
    */
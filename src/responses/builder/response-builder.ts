@@ -1,12 +1,30 @@
-import { CertusAdiValtError } from '../../certus';
+import { CertusAdiValtError, hasViolations } from '../../certus';
+import { RequestContextStore } from '../../adi';
+import { ErrorCodes, ErrorMessages, HttpStatus } from '../../constants';
 import {
   EmptyResponse,
   ErrorResponse,
   PaginatedResponse,
   PaginationParams,
+  ProblemDetails,
   SuccessResponse,
 } from '../../types';
 
+/**
+ * Media type for RFC 9457 Problem Details responses.
+ */
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Default base URI used to build Problem Details `type` members from error codes.
+ */
+export const DEFAULT_PROBLEM_TYPE_BASE_URI = 'urn:certus-adivalt:problem:';
+
+/**
+ * Members defined by RFC 9457 that extension members must never overwrite.
+ */
+const PROBLEM_RESERVED_MEMBERS = ['type', 'title', 'status', 'detail', 'instance'];
+
 /**
  * Response builder utility for creating standardized API responses in the CertusAdiValt system.
  *
@@ -58,7 +76,7 @@ export class CertusResponseBuilder {
    * @template T - Type of the data payload
    * @param {T} data - The main response data payload
    * @param {string} [message] - Optional success message
-   * @param {string} [requestId] - Optional request ID for tracing
+   * @param {string} [requestId] - Optional request ID for tracing (defaults to the current request context)
    * @param {Record<string, unknown>} [meta] - Optional additional metadata
    * @returns {SuccessResponse<T>} Standardized success response
    *
@@ -90,7 +108,7 @@ export class CertusResponseBuilder {
       data,
       message,
       timestamp: this.generateTimestamp(),
-      requestId,
+      requestId: this.resolveRequestId(requestId),
       meta,
     };
   }
@@ -99,10 +117,16 @@ export class CertusResponseBuilder {
    * Creates a standardized error response from any error object.
    *
    * Automatically handles both CertusAdiValtError instances and generic Error objects,
-   * providing appropriate error code, message, and status code mapping.
+   * providing appropriate error code, message, and status code mapping. Field-level
+   * violations of validation errors are rendered as the `errors` array.
+   *
+   * Only the public message and context of the error are sent (see
+   * `CertusAdiValtError.getPublicMessage()`), so the messages of server errors and
+   * unmarked context entries stay in the logs, unless `includeDetails` is set.
    *
    * @param {CertusAdiValtError | Error} error - The error to convert to response format
-   * @param {string} [requestId] - Optional request ID for tracing
+   * @param {string} [requestId] - Optional request ID for tracing (defaults to the current request context)
+   * @param {boolean} [includeDetails=false] - Send the internal message and the full context
    * @returns {ErrorResponse} Standardized error response
    *
    * @example
@@ -124,32 +148,182 @@ export class CertusResponseBuilder {
    * } catch (error) {
    *   return CertusResponseBuilder.error(error, 'req_123456');
    * }
+   *
+   * // Everything, for local debugging
+   * return CertusResponseBuilder.error(error, requestId, true);
    * ```
    */
-  static error(error: CertusAdiValtError | Error, requestId?: string): ErrorResponse {
+  static error(
+    error: CertusAdiValtError | Error,
+    requestId?: string,
+    includeDetails: boolean = false
+  ): ErrorResponse {
     const isCertusError = error instanceof CertusAdiValtError;
+    const { message, context } = this.getExposedFields(error, includeDetails);
 
     return {
       success: false,
       error: {
         code: isCertusError ? error.code : 'UNKNOWN_ERROR',
-        message: error.message,
+        message,
         details: isCertusError ? undefined : 'An unexpected error occurred',
         statusCode: isCertusError ? error.statusCode : 500,
         timestamp: this.generateTimestamp(),
-        context: isCertusError ? error.context : undefined,
-        requestId,
+        context,
+        ...(hasViolations(error) && { errors: error.violations }),
+        requestId: this.resolveRequestId(requestId),
       },
     };
   }
 
+  /**
+   * Creates an RFC 9457 Problem Details object from any error object.
+   *
+   * The `type` URI is derived from the error code (`AUTH_TOKEN_EXPIRED` becomes
+   * `<typeBaseUri>auth-token-expired`), the `title` comes from `ErrorMessages` (falling back
+   * to the HTTP reason phrase), and the error context is flattened into extension members.
+   * Field-level violations of validation errors are added as the `errors` extension.
+   *
+   * @param {CertusAdiValtError | Error} error - The error to convert to Problem Details
+   * @param {Object} [options] - Serialization options
+   * @param {string} [options.instance] - URI reference for this occurrence, usually the request path
+   * @param {string} [options.requestId] - Optional request ID for tracing (defaults to the current request context)
+   * @param {string} [options.typeBaseUri] - Base URI prepended to the error code slug
+   * @param {string} [options.title] - Title overriding the one derived from the error code,
+   *        e.g. a translated title
+   * @param {boolean} [options.includeDetails=false] - Send the internal message as `detail` and
+   *        the full context as extension members, instead of the public ones
+   * @returns {ProblemDetails} Problem Details object ready to be sent as `application/problem+json`
+   *
+   * @example
+   * ```typescript
+   * const problem = CertusResponseBuilder.problem(new CertusNotFoundError('User 42 not found'), {
+   *   instance: '/api/users/42',
+   *   typeBaseUri: 'https://api.example.com/problems/',
+   * });
+   * // {
+   * //   type: 'https://api.example.com/problems/gen-not-found',
+   * //   title: 'Resource not found',
+   * //   status: 404,
+   * //   detail: 'User 42 not found',
+   * //   instance: '/api/users/42',
+   * //   code: 'GEN_NOT_FOUND',
+   * //   timestamp: '2024-01-15T10:30:00.000Z'
+   * // }
+   * ```
+   */
+  static problem(
+    error: CertusAdiValtError | Error,
+    options: {
+      instance?: string;
+      requestId?: string;
+      typeBaseUri?: string;
+      title?: string;
+      includeDetails?: boolean;
+    } = {}
+  ): ProblemDetails {
+    const isCertusError = error instanceof CertusAdiValtError;
+    const code = isCertusError ? error.code : 'UNKNOWN_ERROR';
+    const status = isCertusError ? error.statusCode : HttpStatus.INTERNAL_SERVER_ERROR;
+    const typeBaseUri = options.typeBaseUri ?? DEFAULT_PROBLEM_TYPE_BASE_URI;
+    const requestId = this.resolveRequestId(options.requestId);
+    const { message, context = {} } = this.getExposedFields(error, options.includeDetails);
+
+    const extensions: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(context)) {
+      if (!PROBLEM_RESERVED_MEMBERS.includes(key)) {
+        extensions[key] = value;
+      }
+    }
+
+    return {
+      ...extensions,
+      type: `${typeBaseUri}${code.toLowerCase().replace(/_/g, '-')}`,
+      title: options.title ?? this.resolveProblemTitle(code, status),
+      status,
+      detail: message,
+      instance: options.instance,
+      code,
+      timestamp: this.generateTimestamp(),
+      ...(hasViolations(error) && { errors: error.violations }),
+      ...(requestId && { requestId }),
+    };
+  }
+
+  /**
+   * Selects the message and context of an error that a response may carry.
+   *
+   * @private
+   * @param {CertusAdiValtError | Error} error - The error to send
+   * @param {boolean} [includeDetails] - Whether the internal message and full context may be sent
+   * @returns Message, and context of Certus errors (left out when no entry is public)
+   */
+  private static getExposedFields(
+    error: CertusAdiValtError | Error,
+    includeDetails?: boolean
+  ): { message: string; context?: Record<string, unknown> } {
+    if (!(error instanceof CertusAdiValtError)) {
+      return {
+        message: includeDetails ? error.message : ErrorMessages[ErrorCodes.SRV_INTERNAL_ERROR],
+      };
+    }
+
+    if (includeDetails) {
+      return { message: error.message, context: error.context };
+    }
+
+    const context = error.getPublicContext();
+    return {
+      message: error.getPublicMessage(),
+      context: Object.keys(context).length > 0 ? context : undefined,
+    };
+  }
+
+  /**
+   * Resolves the request ID of a response.
+   *
+   * @private
+   * @param {string} [requestId] - Explicitly provided request ID
+   * @returns {string | undefined} The provided ID, or the ID of the current request context
+   */
+  private static resolveRequestId(requestId?: string): string | undefined {
+    return requestId ?? RequestContextStore.getValue('requestId');
+  }
+
+  /**
+   * Resolves the Problem Details `title` for an error code.
+   *
+   * @private
+   * @param {string} code - Machine-readable error code
+   * @param {number} status - HTTP status code used when no message is registered for the code
+   * @returns {string} User-friendly message for the code, or the HTTP reason phrase
+   */
+  private static resolveProblemTitle(code: string, status: number): string {
+    const message = (ErrorMessages as Record<string, string>)[code];
+    if (message) {
+      return message;
+    }
+
+    const statusName = Object.keys(HttpStatus).find(
+      (key) => HttpStatus[key as keyof typeof HttpStatus] === status
+    );
+
+    return statusName
+      ? statusName
+          .toLowerCase()
+          .split('_')
+          .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+          .join(' ')
+      : 'Unknown Error';
+  }
+
   /**
    * Creates a paginated response for list endpoints with pagination metadata.
    *
    * @template T - Type of items in the data array
    * @param {T[]} data - Array of paginated items
    * @param {PaginationParams} pagination - Pagination metadata
-   * @param {string} [requestId] - Optional request ID for tracing
+   * @param {string} [requestId] - Optional request ID for tracing (defaults to the current request context)
    * @param {Record<string, unknown>} [meta] - Optional additional metadata
    * @returns {PaginatedResponse<T>} Standardized paginated response
    *
@@ -189,7 +363,7 @@ export class CertusResponseBuilder {
       data,
       pagination,
       timestamp: this.generateTimestamp(),
-      requestId,
+      requestId: this.resolveRequestId(requestId),
       meta,
     };
   }
@@ -201,7 +375,7 @@ export class CertusResponseBuilder {
    * is returned, but a success confirmation is needed.
    *
    * @param {string} [message] - Optional success message
-   * @param {string} [requestId] - Optional request ID for tracing
+   * @param {string} [requestId] - Optional request ID for tracing (defaults to the current request context)
    * @returns {EmptyResponse} Standardized empty success response
    *
    * @example
@@ -222,7 +396,7 @@ export class CertusResponseBuilder {
       success: true,
       message,
       timestamp: this.generateTimestamp(),
-      requestId,
+      requestId: this.resolveRequestId(requestId),
     };
   }
 
@@ -234,7 +408,7 @@ export class CertusResponseBuilder {
    * @template T - Type of the created resource data
    * @param {T} data - The created resource data
    * @param {string} [message='Resource created successfully'] - Success message
-   * @param {string} [requestId] - Optional request ID for tracing
+   * @param {string} [requestId] - Optional request ID for tracing (defaults to the current request context)
    * @returns {SuccessResponse<T>} Standardized creation success response
    *
    * @example
@@ -267,7 +441,7 @@ export class CertusResponseBuilder {
    * @template T - Type of the updated resource data
    * @param {T} data - The updated resource data
    * @param {string} [message='Resource updated successfully'] - Success message
-   * @param {string} [requestId] - Optional request ID for tracing
+   * @param {string} [requestId] - Optional request ID for tracing (defaults to the current request context)
    * @returns {SuccessResponse<T>} Standardized update success response
    *
    * @example
@@ -298,7 +472,7 @@ export class CertusResponseBuilder {
    * Convenience method for DELETE endpoints that remove resources.
    *
    * @param {string} [message='Resource deleted successfully'] - Success message
-   * @param {string} [requestId] - Optional request ID for tracing
+   * @param {string} [requestId] - Optional request ID for tracing (defaults to the current request context)
    * @returns {EmptyResponse} Standardized deletion success response
    *
    * @example
@@ -1,6 +1,6 @@
-import { ApiResponse } from '../../types';
+import { ApiResponse, MessageTranslator, ProblemDetails } from '../../types';
 import { CertusResponseBuilder } from '../builder';
-import { CertusAdiValtError } from '../../certus';
+import { CertusAdiValtError, hasViolations } from '../../certus';
 
 /**
  * High-level response formatting utility for the CertusAdiValt system.
@@ -102,7 +102,11 @@ export class ResponseFormatter {
    * @param {unknown} error - The error to format (any type)
    * @param {Object} [options] - Error formatting options
    * @param {string} [options.requestId] - Optional request ID for tracing
-   * @param {boolean} [options.includeDetails=false] - Whether to include detailed error messages in production
+   * @param {boolean} [options.includeDetails=false] - Whether to include internal error messages and
+   *        the full context instead of the public ones
+   * @param {boolean} [options.includeStack=false] - Whether to include the stack trace of the thrown error
+   * @param {MessageTranslator} [options.messages] - Translates the error and violation messages
+   * @param {string} [options.locale] - Locale to translate to (defaults to the translator's default locale)
    * @returns {ApiResponse} Formatted error response
    *
    * @example
@@ -126,6 +130,12 @@ export class ResponseFormatter {
    *   });
    * }
    *
+   * // Translated message, same machine-readable code
+   * return ResponseFormatter.formatError(error, {
+   *   messages,
+   *   locale: messages.resolveLocale(req.get('Accept-Language')),
+   * });
+   *
    * // Handle unknown error types safely
    * try {
    *   await someRiskyOperation();
@@ -142,32 +152,162 @@ export class ResponseFormatter {
     options: {
       requestId?: string;
       includeDetails?: boolean;
+      includeStack?: boolean;
+      messages?: MessageTranslator;
+      locale?: string;
     } = {}
   ): ApiResponse {
+    const normalized = this.normalizeError(error, options.includeDetails);
+    const response = CertusResponseBuilder.error(
+      options.messages
+        ? this.localizeError(normalized, options.messages, options.locale)
+        : normalized,
+      options.requestId,
+      options.includeDetails
+    );
+
+    if (options.includeStack && error instanceof Error && error.stack) {
+      response.error.stack = error.stack;
+    }
+
+    return response;
+  }
+
+  /**
+   * Formats any type of error as an RFC 9457 Problem Details object.
+   *
+   * Applies the same normalization and translation rules as formatError(), so generic
+   * errors only reveal their message when `includeDetails` is enabled. With a translator,
+   * the `title` is also translated, with placeholders filled from the public context (the
+   * full context when `includeDetails` is enabled).
+   *
+   * @param {unknown} error - The error to format (any type)
+   * @param {Object} [options] - Problem Details formatting options
+   * @param {string} [options.requestId] - Optional request ID for tracing
+   * @param {string} [options.instance] - URI reference for this occurrence, usually the request path
+   * @param {string} [options.typeBaseUri] - Base URI prepended to the error code slug
+   * @param {boolean} [options.includeDetails=false] - Whether to include internal error messages and
+   *        the full context instead of the public ones
+   * @param {boolean} [options.includeStack=false] - Whether to add the stack trace of the thrown
+   *        error as the `stack` extension
+   * @param {MessageTranslator} [options.messages] - Translates the title, detail and violation messages
+   * @param {string} [options.locale] - Locale to translate to (defaults to the translator's default locale)
+   * @returns {ProblemDetails} Problem Details object
+   *
+   * @example
+   * ```typescript
+   * app.use((err, req, res, next) => {
+   *   const problem = ResponseFormatter.formatProblem(err, {
+   *     requestId: req.headers['x-request-id'] as string,
+   *     instance: req.originalUrl,
+   *   });
+   *   res.status(problem.status).type(PROBLEM_JSON_CONTENT_TYPE).json(problem);
+   * });
+   * ```
+   */
+  static formatProblem(
+    error: unknown,
+    options: {
+      requestId?: string;
+      instance?: string;
+      typeBaseUri?: string;
+      includeDetails?: boolean;
+      includeStack?: boolean;
+      messages?: MessageTranslator;
+      locale?: string;
+    } = {}
+  ): ProblemDetails {
+    const normalized = this.normalizeError(error, options.includeDetails);
+    const { messages } = options;
+
+    const problem = CertusResponseBuilder.problem(
+      messages ? this.localizeError(normalized, messages, options.locale) : normalized,
+      {
+        requestId: options.requestId,
+        instance: options.instance,
+        typeBaseUri: options.typeBaseUri,
+        includeDetails: options.includeDetails,
+        title: messages?.translate(
+          'errors',
+          normalized.code,
+          options.locale ?? messages.defaultLocale,
+          // The title is shown to clients: internal context only with details exposed
+          options.includeDetails ? normalized.context : normalized.getPublicContext()
+        ),
+      }
+    );
+
+    if (options.includeStack && error instanceof Error && error.stack) {
+      problem.stack = error.stack;
+    }
+
+    return problem;
+  }
+
+  /**
+   * Normalizes any thrown value into a CertusAdiValtError.
+   *
+   * @private
+   * @param {unknown} error - The error to normalize
+   * @param {boolean} [includeDetails] - Whether generic error messages may be exposed
+   * @returns {CertusAdiValtError} Original Certus error or an internal server error wrapping it
+   */
+  private static normalizeError(error: unknown, includeDetails?: boolean): CertusAdiValtError {
     // Handle CertusAdiValtError instances (preserve original structure)
     if (error instanceof CertusAdiValtError) {
-      return CertusResponseBuilder.error(error, options.requestId);
+      return error;
     }
 
     // Handle standard Error instances
     if (error instanceof Error) {
-      const certusError = new CertusAdiValtError(
-        options.includeDetails ? error.message : 'Internal server error',
+      return new CertusAdiValtError(
+        includeDetails ? error.message : 'Internal server error',
         'SRV_INTERNAL_ERROR',
         500,
         {},
         error
       );
-      return CertusResponseBuilder.error(certusError, options.requestId);
     }
 
     // Handle unknown error types (non-Error objects, strings, etc.)
-    const certusError = new CertusAdiValtError(
+    return new CertusAdiValtError(
       'An unexpected error occurred',
       'SRV_INTERNAL_ERROR',
       500
-    );
-    return CertusResponseBuilder.error(certusError, options.requestId);
+    ).withPublicMessage('An unexpected error occurred');
+  }
+
+  /**
+   * Translates the message and violation messages of an error, keeping its code.
+   *
+   * @private
+   * @param {CertusAdiValtError} error - The normalized error
+   * @param {MessageTranslator} messages - The translator
+   * @param {string} [locale] - Locale to translate to (defaults to the translator's default locale)
+   * @returns {CertusAdiValtError} The error itself when nothing changes, otherwise a translated copy
+   */
+  private static localizeError(
+    error: CertusAdiValtError,
+    messages: MessageTranslator,
+    locale: string = messages.defaultLocale
+  ): CertusAdiValtError {
+    const message = messages.translateError(error, locale);
+    if (message === error.message && !hasViolations(error)) {
+      return error;
+    }
+
+    let localized = error.withMessage(message);
+    if (message !== error.message) {
+      // Translations come from message bundles and are filled from the public context only,
+      // so they are safe to show as well
+      localized = localized.withPublicMessage(message);
+    }
+    if (hasViolations(error)) {
+      Object.assign(localized, {
+        violations: messages.translateViolations(error.violations, locale),
+      });
+    }
+    return localized;
   }
 
   /**
@@ -3,6 +3,7 @@ import {
   EmptyResponse,
   ErrorResponse,
   PaginatedResponse,
+  ProblemDetails,
   SuccessResponse,
 } from '../../types';
 
@@ -117,6 +118,39 @@ export function isErrorResponse(response: ApiResponse): response is ErrorRespons
   return response.success === false && 'error' in response;
 }
 
+/**
+ * Type guard to check if a value is an RFC 9457 Problem Details object.
+ *
+ * Problem Details objects are not part of the `ApiResponse` union (they have no `success`
+ * flag), so this guard accepts any value, e.g. a parsed `application/problem+json` body.
+ *
+ * @param {unknown} response - The value to check
+ * @returns {response is ProblemDetails} True if the value has string `type`/`title` and numeric `status`
+ *
+ * @example
+ * ```typescript
+ * const body = await res.json();
+ * if (isProblemDetails(body)) {
+ *   console.error(`${body.status} ${body.title}: ${body.detail}`);
+ * } else if (isErrorResponse(body)) {
+ *   console.error(body.error.message);
+ * }
+ * ```
+ */
+export function isProblemDetails(response: unknown): response is ProblemDetails {
+  if (!response || typeof response !== 'object') {
+    return false;
+  }
+
+  const candidate = response as Record<string, unknown>;
+  return (
+    !('success' in candidate) &&
+    typeof candidate.type === 'string' &&
+    typeof candidate.title === 'string' &&
+    typeof candidate.status === 'number'
+  );
+}
+
 /**
  * Type guard to check if an API response is a paginated response.
  *
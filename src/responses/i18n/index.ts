@@ -0,0 +1,3 @@
+export * from './locale-negotiation';
+export * from './message-catalog';
+export * from './message-format';
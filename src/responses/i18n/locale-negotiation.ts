@@ -0,0 +1,105 @@
+import { LocalePreference } from '../../types';
+
+/** Syntax of a language range: a BCP 47 tag or `*` */
+const LANGUAGE_RANGE_PATTERN = /^(\*|[A-Za-z]{1,8}(-[A-Za-z0-9]{1,8})*)$/;
+
+/**
+ * Parses an `Accept-Language` header into language ranges ordered by preference.
+ *
+ * Ranges are sorted by quality value, keeping header order between equal values.
+ * Malformed ranges and ranges with `q=0` (not acceptable) are dropped.
+ *
+ * @param {string} [header] - The `Accept-Language` header value
+ * @returns {LocalePreference[]} Language ranges, most preferred first
+ *
+ * @example
+ * ```typescript
+ * parseAcceptLanguage('fr-CH, fr;q=0.9, en;q=0.8, *;q=0.5');
+ * // [
+ * //   { tag: 'fr-CH', quality: 1 },
+ * //   { tag: 'fr', quality: 0.9 },
+ * //   { tag: 'en', quality: 0.8 },
+ * //   { tag: '*', quality: 0.5 }
+ * // ]
+ * ```
+ */
+export function parseAcceptLanguage(header?: string): LocalePreference[] {
+  if (!header) {
+    return [];
+  }
+
+  const preferences: LocalePreference[] = [];
+  for (const range of header.split(',')) {
+    const [tag, ...parameters] = range.split(';').map((part) => part.trim());
+    if (!LANGUAGE_RANGE_PATTERN.test(tag)) {
+      continue;
+    }
+
+    let quality = 1;
+    for (const parameter of parameters) {
+      const match = /^q\s*=\s*([0-9.]+)$/i.exec(parameter);
+      if (match) {
+        quality = Math.min(Math.max(Number(match[1]) || 0, 0), 1);
+      }
+    }
+
+    if (quality > 0) {
+      preferences.push({ tag, quality });
+    }
+  }
+
+  // Array.prototype.sort is stable, so equal qualities keep header order
+  return preferences.sort((a, b) => b.quality - a.quality);
+}
+
+/**
+ * Picks the supported locale that best matches an `Accept-Language` header.
+ *
+ * Each language range, in order of preference, is matched against the supported
+ * locales case-insensitively:
+ * 1. exact match (`pt-BR` → `pt-BR`)
+ * 2. a parent of the range (`pt-BR` → `pt`, `zh-Hant-TW` → `zh-Hant`)
+ * 3. a regional variant of the same language (`en` → `en-GB`)
+ *
+ * `*` and headers without any match resolve to the default locale.
+ *
+ * @param {string | undefined} header - The `Accept-Language` header value
+ * @param {string[]} supported - Locales messages are available in
+ * @param {string} defaultLocale - Locale used when nothing matches
+ * @returns {string} The best supported locale, as spelled in `supported`
+ *
+ * @example
+ * ```typescript
+ * negotiateLocale('de-AT, fr;q=0.8', ['en', 'de', 'fr'], 'en'); // 'de'
+ * negotiateLocale('ja', ['en', 'de'], 'en'); // 'en'
+ * ```
+ */
+export function negotiateLocale(
+  header: string | undefined,
+  supported: string[],
+  defaultLocale: string
+): string {
+  const candidates = supported.map((locale) => ({ locale, key: locale.toLowerCase() }));
+
+  for (const { tag } of parseAcceptLanguage(header)) {
+    if (tag === '*') {
+      return defaultLocale;
+    }
+
+    const subtags = tag.toLowerCase().split('-');
+    for (let length = subtags.length; length > 0; length--) {
+      const prefix = subtags.slice(0, length).join('-');
+      const match = candidates.find(({ key }) => key === prefix);
+      if (match) {
+        return match.locale;
+      }
+    }
+
+    const variant = candidates.find(({ key }) => key.split('-')[0] === subtags[0]);
+    if (variant) {
+      return variant.locale;
+    }
+  }
+
+  return defaultLocale;
+}
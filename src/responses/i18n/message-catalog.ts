@@ -0,0 +1,359 @@
+import { ErrorMessages, InfoMessages, SuccessMessages } from '../../constants';
+import {
+  MessageBundle,
+  MessageCatalogOptions,
+  MessageSection,
+  MessageTranslator,
+  Violation,
+} from '../../types';
+import { negotiateLocale } from './locale-negotiation';
+import { formatMessage } from './message-format';
+
+/** Sections of a message bundle */
+const MESSAGE_SECTIONS: MessageSection[] = ['errors', 'success', 'info'];
+
+/**
+ * Per-locale message bundles with fallback chains and ICU-style interpolation.
+ *
+ * The built-in English `ErrorMessages`, `SuccessMessages` and `InfoMessages` form
+ * the bundle of the default locale. Bundles for other locales only need the
+ * messages they translate: lookups walk a fallback chain from the requested
+ * locale through its parents and configured fallbacks down to the default
+ * locale. Error messages are keyed by error code, so codes stay stable while
+ * the human-readable text changes with the locale.
+ *
+ * @class MessageCatalog
+ *
+ * @example
+ * ```typescript
+ * const messages = new MessageCatalog({
+ *   bundles: {
+ *     pt: {
+ *       errors: {
+ *         VAL_STRING_TOO_LONG: '{field} deve ter no máximo {max} caracteres',
+ *         GEN_NOT_FOUND: 'Recurso não encontrado',
+ *       },
+ *       success: { RESOURCE_CREATED: 'Recurso criado com sucesso' },
+ *     },
+ *     'pt-BR': { errors: { AUTH_INVALID_CREDENTIALS: 'E-mail ou senha inválidos' } },
+ *   },
+ * });
+ *
+ * messages.resolveLocale('pt-BR,pt;q=0.9,en;q=0.5'); // 'pt-BR'
+ * messages.getFallbackChain('pt-BR'); // ['pt-BR', 'pt', 'en']
+ * messages.translate('errors', 'GEN_NOT_FOUND', 'pt-BR'); // 'Recurso não encontrado'
+ *
+ * app.use(new ResponseMiddleware({ messages }).successHandler());
+ * app.use(new ErrorMiddleware(logger, { messages }).handle());
+ * ```
+ */
+export class MessageCatalog implements MessageTranslator {
+  public readonly defaultLocale: string;
+  private bundles = new Map<string, MessageBundle>();
+  private fallbacks = new Map<string, string[]>();
+
+  /**
+   * Creates a new message catalog.
+   *
+   * @param {MessageCatalogOptions} [options={}] - Default locale, bundles and fallbacks
+   *
+   * @example
+   * ```typescript
+   * // Spanish first, with Spanish (Spain) as the fallback for Latin American Spanish
+   * const messages = new MessageCatalog({
+   *   defaultLocale: 'en',
+   *   bundles: { es: esMessages, 'es-419': latamMessages },
+   *   fallbacks: { 'es-419': ['es'] },
+   * });
+   * ```
+   */
+  constructor(options: MessageCatalogOptions = {}) {
+    this.defaultLocale = canonicalizeLocale(options.defaultLocale ?? 'en');
+
+    if (options.includeDefaults ?? true) {
+      this.addBundle(this.defaultLocale, {
+        errors: { ...ErrorMessages },
+        success: { ...SuccessMessages },
+        info: { ...InfoMessages },
+      });
+    }
+
+    for (const [locale, bundle] of Object.entries(options.bundles ?? {})) {
+      this.addBundle(locale, bundle);
+    }
+    for (const [locale, fallbacks] of Object.entries(options.fallbacks ?? {})) {
+      this.fallbacks.set(canonicalizeLocale(locale), fallbacks.map(canonicalizeLocale));
+    }
+  }
+
+  /**
+   * Adds messages for a locale, merging them into any messages already registered.
+   *
+   * @param {string} locale - Locale tag (case-insensitive, e.g. `pt-BR` or `pt-br`)
+   * @param {MessageBundle} bundle - Messages by section
+   * @returns {this} The catalog, for chaining
+   *
+   * @example
+   * ```typescript
+   * messages.addBundle('de', {
+   *   errors: { AUTH_TOKEN_EXPIRED: 'Das Authentifizierungstoken ist abgelaufen' },
+   * });
+   * ```
+   */
+  addBundle(locale: string, bundle: MessageBundle): this {
+    const key = canonicalizeLocale(locale);
+    const existing = this.bundles.get(key) ?? {};
+    const merged: MessageBundle = {};
+
+    for (const section of MESSAGE_SECTIONS) {
+      if (existing[section] || bundle[section]) {
+        merged[section] = { ...existing[section], ...bundle[section] };
+      }
+    }
+
+    this.bundles.set(key, merged);
+    return this;
+  }
+
+  /**
+   * Gets the locales messages are registered for.
+   *
+   * @returns {string[]} Canonical locale tags, in registration order
+   */
+  getLocales(): string[] {
+    return [...this.bundles.keys()];
+  }
+
+  /**
+   * Gets the locales searched for a message, in order.
+   *
+   * The chain starts with the locale and its parents (`zh-Hant-TW`, `zh-Hant`, `zh`),
+   * followed by the configured fallbacks of each of them (with their own parents and
+   * fallbacks), and always ends with the default locale.
+   *
+   * @param {string} locale - The requested locale
+   * @returns {string[]} Canonical locale tags without duplicates
+   *
+   * @example
+   * ```typescript
+   * const messages = new MessageCatalog({ fallbacks: { 'pt-BR': ['pt-PT'] } });
+   * messages.getFallbackChain('pt-BR'); // ['pt-BR', 'pt', 'pt-PT', 'en']
+   * ```
+   */
+  getFallbackChain(locale: string): string[] {
+    const chain: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (tag: string): void => {
+      if (visited.has(tag)) {
+        return;
+      }
+      visited.add(tag);
+
+      const parents = getParentLocales(tag);
+      for (const parent of parents) {
+        if (!chain.includes(parent)) {
+          chain.push(parent);
+        }
+      }
+      for (const parent of parents) {
+        for (const fallback of this.fallbacks.get(parent) ?? []) {
+          visit(fallback);
+        }
+      }
+    };
+
+    visit(canonicalizeLocale(locale));
+    visit(this.defaultLocale);
+    return chain;
+  }
+
+  /**
+   * Picks the registered locale that best matches an `Accept-Language` header.
+   *
+   * @param {string} [acceptLanguage] - The `Accept-Language` header value
+   * @returns {string} The negotiated locale, or the default locale
+   *
+   * @example
+   * ```typescript
+   * messages.resolveLocale(req.get('Accept-Language')); // 'pt-BR'
+   * ```
+   */
+  resolveLocale(acceptLanguage?: string): string {
+    return negotiateLocale(acceptLanguage, this.getLocales(), this.defaultLocale);
+  }
+
+  /**
+   * Gets a message in a locale, interpolating its placeholders.
+   *
+   * @param {MessageSection} section - Bundle section (`errors` messages are keyed by error code)
+   * @param {string} key - Message key
+   * @param {string} [locale] - Requested locale (defaults to the default locale)
+   * @param {Record<string, unknown>} [params={}] - Placeholder values
+   * @returns {string | undefined} The first message found along the fallback chain
+   *
+   * @example
+   * ```typescript
+   * messages.translate('errors', 'VAL_STRING_TOO_LONG', 'pt', { field: 'nome', max: 50 });
+   * // 'nome deve ter no máximo 50 caracteres'
+   *
+   * messages.translate('success', 'PROFILE_UPDATED', 'fr'); // 'Profile updated successfully'
+   * ```
+   */
+  translate(
+    section: MessageSection,
+    key: string,
+    locale: string = this.defaultLocale,
+    params: Record<string, unknown> = {}
+  ): string | undefined {
+    return this.lookup(this.getFallbackChain(locale), section, key, params);
+  }
+
+  /**
+   * Gets the message of an error in a locale.
+   *
+   * In the default locale an error keeps its own message, which is usually more
+   * specific than the catalog message for its code ('User 42 not found' rather than
+   * 'Resource not found'). The fallback chain therefore stops before the default
+   * locale, and untranslated errors keep their own message. Placeholders are
+   * filled from the public context only: the translation is shown to clients, and
+   * the rest of the context is internal.
+   *
+   * @param {Object} error - The error to translate
+   * @param {string} error.code - Machine-readable error code, used as the message key
+   * @param {string} error.message - The error's own message
+   * @param {Function} [error.getPublicContext] - Returns the placeholder values
+   * @param {string} locale - The requested locale
+   * @returns {string} The translated message, or the error's own message
+   *
+   * @example
+   * ```typescript
+   * const error = new CertusAdiValtError('Name is too long', 'VAL_STRING_TOO_LONG', 422)
+   *   .withPublicContext({ field: 'name', max: 50 });
+   *
+   * messages.translateError(error, 'pt'); // 'name deve ter no máximo 50 caracteres'
+   * messages.translateError(error, 'en'); // 'Name is too long'
+   * ```
+   */
+  translateError(
+    error: { code: string; message: string; getPublicContext?: () => Record<string, unknown> },
+    locale: string
+  ): string {
+    const params = error.getPublicContext?.() ?? {};
+    return (
+      this.lookup(this.getTranslationChain(locale), 'errors', error.code, params) ?? error.message
+    );
+  }
+
+  /**
+   * Translates the messages of field-level violations.
+   *
+   * Follows the same rules as `translateError()`, keyed by the violation code.
+   * Placeholders are filled from the violation `params`, plus `field` (the last
+   * segment of the path) and `path`.
+   *
+   * @param {Violation[]} violations - The violations to translate
+   * @param {string} locale - The requested locale
+   * @returns {Violation[]} Copies of the violations with translated messages
+   *
+   * @example
+   * ```typescript
+   * messages.translateViolations(
+   *   [{ path: '/name', code: 'VAL_STRING_TOO_LONG', message: 'Too long', params: { max: 50 } }],
+   *   'pt'
+   * );
+   * // [{ path: '/name', code: 'VAL_STRING_TOO_LONG', message: 'name deve ter no máximo 50 caracteres', params: { max: 50 } }]
+   * ```
+   */
+  translateViolations(violations: Violation[], locale: string): Violation[] {
+    const chain = this.getTranslationChain(locale);
+
+    return violations.map((violation) => {
+      const params = {
+        field: getFieldName(violation.path),
+        path: violation.path,
+        ...violation.params,
+      };
+      const message = this.lookup(chain, 'errors', violation.code, params);
+      return message === undefined ? violation : { ...violation, message };
+    });
+  }
+
+  /**
+   * Gets the fallback chain of a locale without the default locale and its parents.
+   *
+   * @private
+   * @param {string} locale - The requested locale
+   * @returns {string[]} Locales whose messages replace an error's own message
+   */
+  private getTranslationChain(locale: string): string[] {
+    const defaults = getParentLocales(this.defaultLocale);
+    const chain = this.getFallbackChain(locale);
+    const end = chain.findIndex((tag) => defaults.includes(tag));
+    return end === -1 ? chain : chain.slice(0, end);
+  }
+
+  /**
+   * Finds a message along a chain of locales and interpolates it.
+   *
+   * @private
+   * @param {string[]} chain - Locales to search, in order
+   * @param {MessageSection} section - Bundle section
+   * @param {string} key - Message key
+   * @param {Record<string, unknown>} params - Placeholder values
+   * @returns {string | undefined} The formatted message, or undefined when none is found
+   */
+  private lookup(
+    chain: string[],
+    section: MessageSection,
+    key: string,
+    params: Record<string, unknown>
+  ): string | undefined {
+    for (const locale of chain) {
+      const template = this.bundles.get(locale)?.[section]?.[key];
+      if (template !== undefined) {
+        return formatMessage(template, params, locale);
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Canonicalizes a locale tag (`pt-br` → `pt-BR`), keeping invalid tags as they are.
+ *
+ * @private
+ * @param {string} locale - Locale tag
+ * @returns {string} Canonical locale tag
+ */
+function canonicalizeLocale(locale: string): string {
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? locale;
+  } catch {
+    return locale;
+  }
+}
+
+/**
+ * Gets a locale followed by its parents (`zh-Hant-TW`, `zh-Hant`, `zh`).
+ *
+ * @private
+ * @param {string} locale - Canonical locale tag
+ * @returns {string[]} The locale and its parents, most specific first
+ */
+function getParentLocales(locale: string): string[] {
+  const subtags = locale.split('-');
+  return subtags.map((_, index) => subtags.slice(0, subtags.length - index).join('-'));
+}
+
+/**
+ * Gets the field name of a violation: the last segment of its JSON pointer.
+ *
+ * @private
+ * @param {string} path - JSON pointer (RFC 6901)
+ * @returns {string} The unescaped last segment, or an empty string for the whole input
+ */
+function getFieldName(path: string): string {
+  const segment = path.slice(path.lastIndexOf('/') + 1);
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
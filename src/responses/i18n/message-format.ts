@@ -0,0 +1,234 @@
+/**
+ * Formats a message with ICU-style placeholders.
+ *
+ * Supports the subset of ICU MessageFormat used by response messages:
+ * - `{name}` → the parameter value (numbers are formatted for the locale)
+ * - `{name, number}` → the parameter formatted as a number
+ * - `{name, plural, =0 {...} one {...} other {...}}` → a branch chosen by exact value,
+ *   then by the plural rules of the locale; `#` in the branch is the number
+ * - `{name, select, admin {...} other {...}}` → a branch chosen by value
+ *
+ * Quote braces with apostrophes (`'{'`) and write `''` for a literal apostrophe.
+ * Placeholders without a matching parameter are left as they are, so a missing
+ * value is visible rather than silently dropped.
+ *
+ * @param {string} template - The message template
+ * @param {Record<string, unknown>} [params={}] - Placeholder values, usually the error context
+ * @param {string} [locale='en'] - Locale used for number formatting and plural rules
+ * @returns {string} The formatted message
+ *
+ * @example
+ * ```typescript
+ * formatMessage('{field} must be at most {max} characters', { field: 'name', max: 50 });
+ * // 'name must be at most 50 characters'
+ *
+ * formatMessage('{count, plural, =0 {No files} one {# file} other {# files}} uploaded', {
+ *   count: 1200,
+ * });
+ * // '1,200 files uploaded'
+ * ```
+ */
+export function formatMessage(
+  template: string,
+  params: Record<string, unknown> = {},
+  locale = 'en'
+): string {
+  return formatPattern(template, params, locale);
+}
+
+/**
+ * Formats a pattern, recursing into plural and select branches.
+ *
+ * @private
+ * @param {string} pattern - The pattern to format
+ * @param {Record<string, unknown>} params - Placeholder values
+ * @param {string} locale - Locale used for numbers and plural rules
+ * @param {number} [pluralValue] - Number substituted for `#` inside a plural branch
+ * @returns {string} The formatted pattern
+ */
+function formatPattern(
+  pattern: string,
+  params: Record<string, unknown>,
+  locale: string,
+  pluralValue?: number
+): string {
+  let output = '';
+  let index = 0;
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+    const next = pattern[index + 1];
+
+    if (char === "'" && next === "'") {
+      output += "'";
+      index += 2;
+    } else if (char === "'" && (next === '{' || next === '}' || next === '#')) {
+      const end = pattern.indexOf("'", index + 1);
+      const stop = end === -1 ? pattern.length : end;
+      output += pattern.slice(index + 1, stop);
+      index = stop + 1;
+    } else if (char === '#' && pluralValue !== undefined) {
+      output += formatNumber(pluralValue, locale);
+      index++;
+    } else if (char === '{') {
+      const end = findClosingBrace(pattern, index);
+      if (end === -1) {
+        return output + pattern.slice(index);
+      }
+      output += formatArgument(pattern.slice(index + 1, end), params, locale);
+      index = end + 1;
+    } else {
+      output += char;
+      index++;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Formats the body of one placeholder (the text between its braces).
+ *
+ * @private
+ * @param {string} body - Placeholder body, e.g. `max` or `count, plural, one {...} other {...}`
+ * @param {Record<string, unknown>} params - Placeholder values
+ * @param {string} locale - Locale used for numbers and plural rules
+ * @returns {string} The formatted value, or the placeholder itself when it cannot be formatted
+ */
+function formatArgument(body: string, params: Record<string, unknown>, locale: string): string {
+  const [name, type, ...rest] = body.split(',');
+  const value = params[name.trim()];
+  if (value === undefined || value === null) {
+    return `{${body}}`;
+  }
+
+  const argumentType = type?.trim();
+  if (argumentType === undefined) {
+    return stringifyValue(value, locale);
+  }
+  if (argumentType === 'number') {
+    return typeof value === 'number' ? formatNumber(value, locale) : String(value);
+  }
+
+  const branches = parseBranches(rest.join(','));
+  if (argumentType === 'plural' && typeof value === 'number') {
+    const branch =
+      branches.get(`=${value}`) ??
+      branches.get(selectPluralCategory(value, locale)) ??
+      branches.get('other');
+    return branch === undefined ? `{${body}}` : formatPattern(branch, params, locale, value);
+  }
+  if (argumentType === 'select') {
+    const branch = branches.get(String(value)) ?? branches.get('other');
+    return branch === undefined ? `{${body}}` : formatPattern(branch, params, locale);
+  }
+
+  return `{${body}}`;
+}
+
+/**
+ * Parses the `selector {message}` branches of a plural or select placeholder.
+ *
+ * @private
+ * @param {string} source - Branch list, e.g. `=0 {none} one {# item} other {# items}`
+ * @returns {Map<string, string>} Branch messages keyed by selector
+ */
+function parseBranches(source: string): Map<string, string> {
+  const branches = new Map<string, string>();
+  let index = 0;
+
+  while (index < source.length) {
+    const start = source.indexOf('{', index);
+    if (start === -1) {
+      break;
+    }
+    const end = findClosingBrace(source, start);
+    if (end === -1) {
+      break;
+    }
+
+    const selector = source.slice(index, start).trim();
+    if (selector && !branches.has(selector)) {
+      branches.set(selector, source.slice(start + 1, end));
+    }
+    index = end + 1;
+  }
+
+  return branches;
+}
+
+/**
+ * Finds the brace closing the one at `start`, skipping nested placeholders.
+ *
+ * @private
+ * @param {string} source - The text to search
+ * @param {number} start - Index of the opening brace
+ * @returns {number} Index of the closing brace, or -1 when it is missing
+ */
+function findClosingBrace(source: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < source.length; index++) {
+    if (source[index] === '{') {
+      depth++;
+    } else if (source[index] === '}' && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Converts a placeholder value to text.
+ *
+ * @private
+ * @param {unknown} value - The value to convert
+ * @param {string} locale - Locale used for numbers
+ * @returns {string} The value as text
+ */
+function stringifyValue(value: unknown, locale: string): string {
+  if (typeof value === 'number') {
+    return formatNumber(value, locale);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => stringifyValue(item, locale)).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Formats a number for a locale, falling back to English for unsupported tags.
+ *
+ * @private
+ * @param {number} value - The number to format
+ * @param {string} locale - Locale tag
+ * @returns {string} The formatted number
+ */
+function formatNumber(value: number, locale: string): string {
+  try {
+    return new Intl.NumberFormat(locale).format(value);
+  } catch {
+    return new Intl.NumberFormat('en').format(value);
+  }
+}
+
+/**
+ * Gets the CLDR plural category of a number, falling back to English rules.
+ *
+ * @private
+ * @param {number} value - The number
+ * @param {string} locale - Locale tag
+ * @returns {string} Plural category (`zero`, `one`, `two`, `few`, `many` or `other`)
+ */
+function selectPluralCategory(value: number, locale: string): string {
+  try {
+    return new Intl.PluralRules(locale).select(value);
+  } catch {
+    return new Intl.PluralRules('en').select(value);
+  }
+}
@@ -1,3 +1,4 @@
 export * from './builder';
 export * from './formatter';
 export * from './guards';
+export * from './i18n';
@@ -1,3 +1,7 @@
+import type { AsyncLoggingOptions, LogTransport } from './logger';
+import type { ErrorResponseFormat } from './responses';
+import type { LogSamplingRule, RoutePattern } from './middleware';
+
 /**
  * Represents the current runtime environment of the application.
  *
@@ -49,6 +53,23 @@ export interface BaseContext {
   [key: string]: unknown;
 }
 
+/**
+ * Request-scoped fields propagated through asynchronous calls.
+ */
+export interface RequestContext extends Partial<BaseContext> {
+  /** Tenant the request belongs to (if any) */
+  tenant?: string;
+
+  /** W3C trace identifier of the request */
+  traceId?: string;
+
+  /** Span identifier of this service's handling of the request */
+  spanId?: string;
+
+  /** Span identifier of the caller, when the request carried a valid `traceparent` */
+  parentSpanId?: string;
+}
+
 /**
  * Pagination details used in paginated responses.
  */
@@ -84,7 +105,10 @@ export interface CertusAdiValtConfig {
     /** Log errors internally */
     logErrors: boolean;
 
-    /** Expose error details to client (disable in production) */
+    /**
+     * Expose error details to client (disable in production): internal messages and
+     * full context instead of the public ones
+     */
     exposeDetails: boolean;
 
     /**
@@ -92,6 +116,16 @@ export interface CertusAdiValtConfig {
      * Overrides the default error formatter.
      */
     formatError?: (error: Error) => Record<string, any>;
+
+    /**
+     * Log level of handled errors by HTTP status, keyed by status code (`'404'`) or
+     * status class (`'4xx'`); a status code wins over its class.
+     * Defaults to WARN for 4xx and ERROR for 5xx.
+     */
+    logLevels?: Record<string, LogLevel>;
+
+    /** Error codes that are never logged, e.g. `AUTH_TOKEN_EXPIRED` */
+    silentCodes?: string[];
   };
 
   logger: {
@@ -115,6 +149,12 @@ export interface CertusAdiValtConfig {
 
     /** Application version */
     version?: string;
+
+    /** Destinations for log entries (defaults to console) */
+    transports?: LogTransport[];
+
+    /** Buffered asynchronous logging (disabled by default) */
+    async?: boolean | AsyncLoggingOptions;
   };
 
   responses: {
@@ -127,6 +167,12 @@ export interface CertusAdiValtConfig {
     /** Default success message */
     successMessage?: string;
 
+    /** Wire format for error responses (envelope, Problem Details or negotiated) */
+    errorFormat?: ErrorResponseFormat;
+
+    /** Base URI prepended to the error code slug to build Problem Details `type` URIs */
+    problemTypeBaseUri?: string;
+
     /** Pagination configuration */
     pagination: {
       /** Default page number */
@@ -147,10 +193,13 @@ export interface CertusAdiValtConfig {
     /** Enable logging middleware */
     enableLogging: boolean;
 
-    /** Enable security middleware */
+    /** Send security headers (SecurityMiddleware) */
     enableSecurity: boolean;
 
-    /** Skip middleware for these paths */
-    skipPaths: string[];
+    /** Requests skipped by the request middleware (logging, correlation, deadlines, ...) */
+    skipPaths: RoutePattern[];
+
+    /** Sampling rates of request logging per route */
+    logSampling?: LogSamplingRule[];
   };
 }
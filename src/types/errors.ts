@@ -43,3 +43,195 @@ export interface CertusErrorOptions {
   /** Force include/exclude stack trace */
   includeStack?: boolean;
 }
+
+/**
+ * A single field-level validation failure.
+ */
+export interface Violation {
+  /** JSON pointer (RFC 6901) to the invalid value; empty string for the whole input */
+  path: string;
+
+  /** Machine-readable `VAL_*` error code */
+  code: string;
+
+  /** Human-readable message */
+  message: string;
+
+  /** Constraint parameters, e.g. `{ min: 8 }` */
+  params?: Record<string, unknown>;
+
+  /** The rejected value, with sensitive data redacted */
+  rejectedValue?: unknown;
+}
+
+/**
+ * Options for a violation added to a ViolationCollector.
+ */
+export interface ViolationOptions {
+  /** Human-readable message (defaults to the message registered for the code) */
+  message?: string;
+
+  /** Constraint parameters */
+  params?: Record<string, unknown>;
+
+  /** The rejected value (redacted when the path or its keys look sensitive) */
+  value?: unknown;
+}
+
+/**
+ * Options for converting a schema library error into a Certus validation error.
+ */
+export interface SchemaErrorAdapterOptions {
+  /** Human-readable error description (default: 'Schema validation failed') */
+  message?: string;
+
+  /** Additional error context, merged after the detected `validator` name */
+  context?: Record<string, unknown>;
+
+  /** Field names whose rejected values are redacted (see ViolationCollector) */
+  redactFields?: string[];
+}
+
+/**
+ * Structural shape of a Zod issue (v3 and v4). Schema libraries are detected by
+ * shape only, so none of them is a dependency of this package.
+ */
+export interface ZodIssueLike {
+  code: string;
+  path: Array<string | number>;
+  message: string;
+  [key: string]: any;
+}
+
+/**
+ * Structural shape of a Zod `ZodError`.
+ */
+export interface ZodErrorLike {
+  issues: ZodIssueLike[];
+}
+
+/**
+ * Structural shape of a Joi `ValidationError`.
+ */
+export interface JoiValidationErrorLike {
+  details: Array<{
+    message: string;
+    path: Array<string | number>;
+    type: string;
+    context?: Record<string, any>;
+  }>;
+}
+
+/**
+ * Structural shape of a Yup `ValidationError`.
+ */
+export interface YupValidationErrorLike {
+  message: string;
+  path?: string;
+  type?: string;
+  value?: unknown;
+  params?: Record<string, any>;
+  inner: YupValidationErrorLike[];
+}
+
+/**
+ * Structural shape of a class-validator `ValidationError`.
+ */
+export interface ClassValidatorErrorLike {
+  property: string;
+  value?: unknown;
+  constraints?: Record<string, string>;
+  children?: ClassValidatorErrorLike[];
+}
+
+/**
+ * Database drivers recognized by `translateDatabaseError`.
+ */
+export type DatabaseDriver = 'postgres' | 'mysql' | 'sqlite' | 'mongodb' | 'unknown';
+
+/**
+ * Options for translating a database driver error.
+ */
+export interface DatabaseErrorTranslationOptions {
+  /** Human-readable error description (defaults to the message registered for the code) */
+  message?: string;
+
+  /** Additional error context, merged after the extracted driver details */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Options for rebuilding errors with the ErrorRegistry.
+ */
+export interface ErrorRehydrationOptions {
+  /** Use the serialized (remote) stack trace instead of the local one (default: false) */
+  remoteStack?: boolean;
+}
+
+/**
+ * JSON-safe representation of an error and its cause chain.
+ */
+export interface SerializedError {
+  /** Error name */
+  name: string;
+
+  /** Error message */
+  message: string;
+
+  /** Error code (driver codes may be numeric) */
+  code?: string | number;
+
+  /** HTTP status code */
+  statusCode?: number;
+
+  /** Stack trace (omitted when `includeStack` is false) */
+  stack?: string;
+
+  /** The error that caused this one */
+  cause?: SerializedError;
+
+  /** Member errors of an AggregateError */
+  errors?: SerializedError[];
+
+  /** Set when the error was already serialized higher up the chain */
+  circular?: true;
+
+  /** Set when the chain was cut off at the depth limit */
+  truncated?: true;
+
+  /** Context, timestamp and subclass fields of Certus errors */
+  [key: string]: unknown;
+}
+
+/**
+ * Options for serializing an error and its cause chain.
+ */
+export interface ErrorSerializationOptions {
+  /** Maximum number of causes serialized below the error (default: 10) */
+  maxDepth?: number;
+
+  /** Include stack traces (default: true) */
+  includeStack?: boolean;
+
+  /** Include the context, timestamp and subclass fields of Certus errors (default: true) */
+  includeContext?: boolean;
+}
+
+/**
+ * A problem found in the error catalog by `checkErrorCatalog`.
+ */
+export interface ErrorCatalogIssue {
+  /** The error code concerned */
+  code: string;
+
+  /**
+   * - `missing_entry` → the code has no catalog entry
+   * - `missing_message` → the entry's message key has no message
+   * - `invalid_status` → the entry's status is not a 4xx/5xx HttpStatus value
+   * - `unknown_code` → the catalog has an entry for a code that does not exist
+   */
+  problem: 'missing_entry' | 'missing_message' | 'invalid_status' | 'unknown_code';
+
+  /** Human-readable description of the problem */
+  message: string;
+}
@@ -2,3 +2,5 @@ export * from './common';
 export * from './errors';
 export * from './responses';
 export * from './logger';
+export * from './middleware';
+export * from './resilience';
@@ -1,4 +1,5 @@
 import { BaseContext, LogLevel } from './common';
+import { SerializedError } from './errors';
 
 /**
  * Represents a single log entry.
@@ -23,17 +24,17 @@ export interface LogEntry extends BaseContext {
   /** Additional structured log context */
   context?: Record<string, unknown>;
 
-  /** Error details for error logs */
-  error?: {
-    name: string;
-    message: string;
-    stack?: string;
-    code?: string;
-    statusCode?: number;
-  };
+  /** Error details for error logs, with the cause chain nested under `cause` */
+  error?: SerializedError;
 
   /** Duration of event in ms (useful for performance logs) */
   duration?: number;
+
+  /** W3C trace identifier (from the request context) */
+  traceId?: string;
+
+  /** Span identifier (from the request context) */
+  spanId?: string;
 }
 
 /**
@@ -60,4 +61,125 @@ export interface LoggerConfig {
 
   /** Timestamp formatting */
   timestampFormat?: string;
+
+  /** Destinations for log entries (defaults to a single console transport) */
+  transports?: LogTransport[];
+
+  /** Queue entries and write them in batches off the calling code path */
+  async?: boolean | AsyncLoggingOptions;
+}
+
+/**
+ * What to do when the asynchronous log buffer is full.
+ *
+ * - `drop-oldest` → Discard the oldest queued entry to make room
+ * - `drop-newest` → Discard the entry being logged
+ * - `block` → Synchronously drain the buffer to the transports before queueing
+ */
+export type LogOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block';
+
+/**
+ * Options for asynchronous (buffered) logging.
+ */
+export interface AsyncLoggingOptions {
+  /** Maximum number of queued entries (default: 10000) */
+  bufferSize?: number;
+
+  /** Maximum number of entries handed to transports per batch (default: 100) */
+  batchSize?: number;
+
+  /** Maximum time an entry waits in the buffer, in milliseconds (default: 100) */
+  flushInterval?: number;
+
+  /** Behavior when the buffer is full (default: `drop-oldest`) */
+  overflowPolicy?: LogOverflowPolicy;
+
+  /** Drain pending entries on SIGTERM and `beforeExit` (default: true) */
+  registerShutdownHooks?: boolean;
+}
+
+/**
+ * Logger delivery counters.
+ */
+export interface LoggerStats {
+  /** Entries handed to the transports */
+  written: number;
+
+  /** Entries discarded because the buffer was full */
+  dropped: number;
+
+  /** Entries waiting in the buffer */
+  pending: number;
+}
+
+/**
+ * A log entry paired with its formatted representation.
+ */
+export interface FormattedLogEntry {
+  /** Structured log entry */
+  entry: LogEntry;
+
+  /** Formatted log line */
+  formatted: string;
+}
+
+/**
+ * Serializes a log entry into a single output string.
+ * Implemented by the built-in JSON and pretty formats.
+ */
+export interface LogFormatter {
+  /** Formats a log entry */
+  format(entry: LogEntry): string;
+}
+
+/**
+ * Destination for formatted log entries (console, file, memory, remote collector...).
+ */
+export interface LogTransport {
+  /** Transport name, used in diagnostics */
+  readonly name: string;
+
+  /** Minimum log level for this transport (defaults to the logger level) */
+  level?: LogLevel;
+
+  /** Formatter for this transport (defaults to the logger's JSON/pretty format) */
+  formatter?: LogFormatter;
+
+  /** Writes a single log entry together with its formatted representation */
+  write(entry: LogEntry, formatted: string): void | Promise<void>;
+
+  /** Writes a batch of entries at once (used by asynchronous logging when available) */
+  writeBatch?(batch: FormattedLogEntry[]): void | Promise<void>;
+
+  /** Flushes any buffered output */
+  flush(): void | Promise<void>;
+
+  /** Flushes and releases underlying resources */
+  close(): void | Promise<void>;
+}
+
+/**
+ * Options for the file log transport.
+ */
+export interface FileTransportOptions {
+  /** Path of the active log file */
+  filename: string;
+
+  /** Minimum log level for this transport */
+  level?: LogLevel;
+
+  /** Formatter overriding the logger format */
+  formatter?: LogFormatter;
+
+  /** Rotate once the active file would exceed this many bytes */
+  maxSize?: number;
+
+  /** Rotate when the active file crosses an interval boundary (ms, e.g. 86400000 for daily) */
+  rotationInterval?: number;
+
+  /** Maximum number of rotated files to keep */
+  maxFiles?: number;
+
+  /** Maximum age of rotated files in milliseconds */
+  maxAge?: number;
 }
@@ -0,0 +1,529 @@
+import type { Request } from 'express';
+import type { Environment } from './common';
+import type { Violation } from './errors';
+import type { ErrorResponseFormat, MessageTranslator } from './responses';
+
+/**
+ * Options for the error handling middleware.
+ * Unset values fall back to the `responses` section of the global configuration.
+ */
+export interface ErrorMiddlewareOptions {
+  /** Wire format for error responses */
+  errorFormat?: ErrorResponseFormat;
+
+  /** Base URI prepended to the error code slug to build Problem Details `type` URIs */
+  problemTypeBaseUri?: string;
+
+  /** Translates error messages into the locale negotiated from `Accept-Language` */
+  messages?: MessageTranslator;
+}
+
+/**
+ * Options for the response formatting middleware.
+ */
+export interface ResponseMiddlewareOptions {
+  /** Translates success messages into the locale negotiated from `Accept-Language` */
+  messages?: MessageTranslator;
+
+  /** Requests whose JSON responses are left unformatted (default: `middleware.skipPaths`) */
+  skipPaths?: RoutePattern[];
+}
+
+/**
+ * How a string route pattern is compared with the request path.
+ *
+ * - `exact` → The whole path, ignoring a trailing slash
+ * - `prefix` → The path itself or anything below it (`/api` matches `/api/users`, not `/apis`)
+ * - `glob` → `*` matches within a path segment, `**` across segments
+ */
+export type RouteMatchMode = 'exact' | 'prefix' | 'glob';
+
+/**
+ * Route pattern with explicit matching options.
+ */
+export interface RouteRule {
+  /** Path pattern, or a regular expression tested against the path */
+  path: string | RegExp;
+
+  /** How a string path is compared (default: `glob` if it contains `*`, else `exact`) */
+  match?: RouteMatchMode;
+
+  /** HTTP methods the rule applies to (default: all) */
+  methods?: string[];
+}
+
+/**
+ * Pattern selecting requests by path and, optionally, method.
+ *
+ * Strings may start with comma-separated methods (`'GET /health'`,
+ * `'GET,HEAD /status'`) and use glob wildcards (`'/static/**'`); regular
+ * expressions are tested against the path; rules give full control.
+ */
+export type RoutePattern = string | RegExp | RouteRule;
+
+/**
+ * Request fields a RouteMatcher reads. Express requests qualify; `baseUrl` makes
+ * the full path available to middleware mounted on a sub-path.
+ */
+export interface MatchableRequest {
+  method?: string;
+  path?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Share of the requests to a route that are logged.
+ */
+export interface LogSamplingRule {
+  /** Requests the rate applies to */
+  route: RoutePattern;
+
+  /** Fraction of requests logged, between 0 and 1 */
+  rate: number;
+}
+
+/**
+ * Options for the request logging middleware.
+ */
+export interface LoggingMiddlewareOptions {
+  /** Requests that are never logged (default: `middleware.skipPaths` of the configuration) */
+  skipPaths?: RoutePattern[];
+
+  /**
+   * Sampling rates per route, the first matching rule applying
+   * (default: `middleware.logSampling` of the configuration)
+   */
+  sampling?: LogSamplingRule[];
+
+  /** Sampling rate of requests no rule matches (default: 1) */
+  sampleRate?: number;
+
+  /** Log the completion of failed (4xx and 5xx) requests even when not sampled (default: true) */
+  alwaysLogErrors?: boolean;
+}
+
+/**
+ * Built-in request ID generation strategies.
+ *
+ * - `uuidv4` → Random UUID
+ * - `uuidv7` → Time-ordered UUID
+ * - `ulid` → Time-ordered Crockford base32 ID
+ * - `prefixed` → Compact time-based ID with `idPrefix` (`CommonUtils.generateId`)
+ */
+export type RequestIdStrategy = 'uuidv4' | 'uuidv7' | 'ulid' | 'prefixed';
+
+/**
+ * What to do with an incoming request ID that fails validation.
+ *
+ * - `regenerate` → Ignore it and generate a new ID
+ * - `reject` → Fail the request with a 400 error
+ */
+export type InvalidRequestIdPolicy = 'regenerate' | 'reject';
+
+/**
+ * Options for the correlation middleware.
+ */
+export interface CorrelationMiddlewareOptions {
+  /** Handle W3C Trace Context `traceparent`/`tracestate` headers (default: true) */
+  traceContext?: boolean;
+
+  /**
+   * Headers an incoming request ID is read from, in order of preference
+   * (default: `['x-request-id']`). The first name is used to propagate the ID.
+   */
+  headerNames?: string[];
+
+  /** Maximum accepted length of an incoming request ID (default: 128) */
+  maxLength?: number;
+
+  /** Pattern an incoming request ID must match (default: `/^[A-Za-z0-9._:-]+$/`) */
+  allowedPattern?: RegExp;
+
+  /** Behavior for invalid incoming request IDs (default: `regenerate`) */
+  invalidIdPolicy?: InvalidRequestIdPolicy;
+
+  /** Strategy or function generating new request IDs (default: `uuidv4`) */
+  generator?: RequestIdStrategy | (() => string);
+
+  /** Prefix for the `prefixed` strategy (default: `req_`) */
+  idPrefix?: string;
+
+  /** Requests that get no request ID or trace context (default: `middleware.skipPaths`) */
+  skipPaths?: RoutePattern[];
+}
+
+/**
+ * Options for the deadline middleware.
+ */
+export interface DeadlineMiddlewareOptions {
+  /** Header the client's time budget is read from (default: `x-request-timeout`) */
+  headerName?: string;
+
+  /** Time budget in milliseconds for requests without a valid header (default: none) */
+  defaultTimeoutMs?: number;
+
+  /** Upper bound of the time budget a client may request, in milliseconds (default: 60000) */
+  maxTimeoutMs?: number;
+
+  /** Requests that get no deadline (default: `middleware.skipPaths` of the configuration) */
+  skipPaths?: RoutePattern[];
+}
+
+/**
+ * Rate limiting algorithms.
+ *
+ * - `token-bucket` → A bucket of `limit` tokens refilled continuously over `windowMs`;
+ *   allows bursts up to `limit`, then a steady rate
+ * - `sliding-window` → At most `limit` requests in any `windowMs`, estimated from the
+ *   counts of the current and previous fixed windows
+ */
+export type RateLimitAlgorithm = 'token-bucket' | 'sliding-window';
+
+/**
+ * Built-in rate limit key strategies.
+ *
+ * - `ip` → Client IP address (`req.ip`)
+ * - `user` → Authenticated user (`userId` of the request context, or `req.user.id`),
+ *   falling back to the IP address
+ * - `api-key` → API key header (hashed), falling back to the IP address
+ */
+export type RateLimitKeyStrategy = 'ip' | 'user' | 'api-key';
+
+/**
+ * A rate limit applied by a store.
+ */
+export interface RateLimitRule {
+  /** Algorithm counting the requests */
+  algorithm: RateLimitAlgorithm;
+
+  /** Requests allowed per window */
+  limit: number;
+
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Outcome of counting one request against a rate limit.
+ */
+export interface RateLimitResult {
+  /** Whether the request is within the limit */
+  allowed: boolean;
+
+  /** Requests allowed per window */
+  limit: number;
+
+  /** Requests left in the current window (0 when limited) */
+  remaining: number;
+
+  /** Milliseconds until the quota is fully restored */
+  resetMs: number;
+
+  /** Milliseconds until the next request may be allowed (0 when allowed) */
+  retryAfterMs: number;
+}
+
+/**
+ * Storage of rate limit counters.
+ *
+ * Implement it to share limits between instances (e.g. with Redis); `hit()` must
+ * count and decide atomically.
+ */
+export interface RateLimitStore {
+  /** Counts one request for a key and decides whether it is allowed */
+  hit(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+
+  /** Forgets the counters of a key */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Options for the rate limiting middleware.
+ */
+export interface RateLimitMiddlewareOptions {
+  /** Requests allowed per window (default: 100) */
+  limit?: number;
+
+  /** Window length in milliseconds (default: 60000) */
+  windowMs?: number;
+
+  /** Algorithm counting the requests (default: `sliding-window`) */
+  algorithm?: RateLimitAlgorithm;
+
+  /**
+   * Strategy or function identifying the client (default: `ip`). Requests for which
+   * the function returns undefined are not limited.
+   */
+  key?: RateLimitKeyStrategy | ((req: Request) => string | undefined);
+
+  /** Header holding the API key for the `api-key` strategy (default: `x-api-key`) */
+  apiKeyHeader?: string;
+
+  /** Prefix of store keys, to keep the counters of several limiters apart (default: `rate-limit`) */
+  keyPrefix?: string;
+
+  /** Counter storage (default: a new MemoryRateLimitStore) */
+  store?: RateLimitStore;
+
+  /** Error code of rejected requests, e.g. `AUTH_RATE_LIMIT_EXCEEDED` for login routes (default: `SRV_RATE_LIMIT`) */
+  code?: string;
+
+  /** Send `RateLimit-*` headers on every response (default: true) */
+  headers?: boolean;
+
+  /** Selects further requests that are never limited, e.g. by header */
+  skip?: (req: Request) => boolean;
+
+  /** Requests that are never counted (default: `middleware.skipPaths` of the configuration) */
+  skipPaths?: RoutePattern[];
+}
+
+/**
+ * Content Security Policy directives, keyed by directive name.
+ * A list of sources renders as `name source...`, `true` as a bare directive
+ * (e.g. `upgrade-insecure-requests`) and `false` omits the directive.
+ */
+export type ContentSecurityPolicyDirectives = Record<string, string[] | boolean>;
+
+/**
+ * Options for the `Content-Security-Policy` header.
+ */
+export interface ContentSecurityPolicyOptions {
+  /** Directives, merged over those of the preset */
+  directives?: ContentSecurityPolicyDirectives;
+
+  /** Send `Content-Security-Policy-Report-Only`: violations are reported, not blocked */
+  reportOnly?: boolean;
+
+  /**
+   * Where browsers post violation reports (`report-uri` directive; default: `/csp-report`
+   * when `reportOnly` is set)
+   */
+  reportUri?: string;
+
+  /** Add a per-request nonce to `script-src` and `style-src` (default: true) */
+  nonce?: boolean;
+}
+
+/**
+ * Options for the `Strict-Transport-Security` header.
+ */
+export interface StrictTransportSecurityOptions {
+  /** Seconds browsers only connect over HTTPS */
+  maxAge: number;
+
+  /** Apply to subdomains as well */
+  includeSubDomains?: boolean;
+
+  /** Allow inclusion in browser preload lists */
+  preload?: boolean;
+}
+
+/**
+ * Values of the `Referrer-Policy` header.
+ */
+export type ReferrerPolicy =
+  | 'no-referrer'
+  | 'no-referrer-when-downgrade'
+  | 'origin'
+  | 'origin-when-cross-origin'
+  | 'same-origin'
+  | 'strict-origin'
+  | 'strict-origin-when-cross-origin'
+  | 'unsafe-url';
+
+/**
+ * Security headers to send; `false` leaves a header out.
+ */
+export interface SecurityHeadersOptions {
+  /** `Content-Security-Policy` (or its report-only variant) */
+  contentSecurityPolicy?: ContentSecurityPolicyOptions | false;
+
+  /** `Strict-Transport-Security`, only honored by browsers over HTTPS */
+  strictTransportSecurity?: StrictTransportSecurityOptions | false;
+
+  /** `X-Content-Type-Options: nosniff` */
+  contentTypeOptions?: boolean;
+
+  /** `Referrer-Policy` */
+  referrerPolicy?: ReferrerPolicy | false;
+
+  /** `X-Frame-Options` */
+  frameOptions?: 'DENY' | 'SAMEORIGIN' | false;
+
+  /**
+   * `Permissions-Policy` allowlists, keyed by feature: `[]` disables the feature,
+   * `'self'` and `'*'` are keywords, other entries are origins
+   */
+  permissionsPolicy?: Record<string, string[]> | false;
+}
+
+/**
+ * Options for the security headers middleware.
+ * Headers are merged over the preset of the environment.
+ */
+export interface SecurityMiddlewareOptions extends SecurityHeadersOptions {
+  /** Environment whose preset is used (default: the configured logger environment) */
+  environment?: Environment;
+
+  /** Requests that get no security headers (default: `middleware.skipPaths` of the configuration) */
+  skipPaths?: RoutePattern[];
+}
+
+/**
+ * Fields of a W3C Trace Context `traceparent` header.
+ */
+export interface TraceParent {
+  /** Format version, two lowercase hex digits */
+  version: string;
+
+  /** Trace identifier, 32 lowercase hex digits */
+  traceId: string;
+
+  /** Span identifier of the caller, 16 lowercase hex digits */
+  parentId: string;
+
+  /** Trace flags, two lowercase hex digits (`01` = sampled) */
+  traceFlags: string;
+}
+
+/**
+ * Request locations checked by the validation middleware.
+ */
+export type ValidationLocation = 'body' | 'query' | 'params' | 'headers';
+
+/**
+ * Value types of the built-in schema DSL.
+ */
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+/**
+ * String formats of the built-in schema DSL.
+ *
+ * - `email` → `VAL_INVALID_EMAIL`
+ * - `url` → `VAL_INVALID_URL` (absolute http/https URL)
+ * - `uuid` → `VAL_INVALID_UUID`
+ * - `date` → `VAL_INVALID_DATE` (anything `Date.parse` accepts)
+ */
+export type FieldFormat = 'email' | 'url' | 'uuid' | 'date';
+
+/**
+ * Rules for a single field in the built-in schema DSL.
+ */
+export interface FieldSchema {
+  /** Expected value type */
+  type: FieldType;
+
+  /** Whether the field must be present and not null (default: false) */
+  required?: boolean;
+
+  /** Value used when the field is missing */
+  default?: unknown;
+
+  /** Minimum string length, array length or number value */
+  min?: number;
+
+  /** Maximum string length, array length or number value */
+  max?: number;
+
+  /** Pattern a string must match */
+  pattern?: RegExp;
+
+  /** Format a string must have */
+  format?: FieldFormat;
+
+  /** Allowed values */
+  enum?: readonly unknown[];
+
+  /** Rules for the items of an array */
+  items?: FieldSchema;
+
+  /** Rules for the properties of an object */
+  properties?: ObjectSchema;
+}
+
+/**
+ * Built-in schema DSL for an object: field names mapped to their rules.
+ *
+ * @example
+ * ```typescript
+ * const createUser: ObjectSchema = {
+ *   email: { type: 'string', format: 'email', required: true },
+ *   age: { type: 'integer', min: 18 },
+ *   tags: { type: 'array', max: 10, items: { type: 'string', max: 30 } },
+ * };
+ * ```
+ */
+export type ObjectSchema = Record<string, FieldSchema>;
+
+/**
+ * Structural shape of a Zod schema.
+ */
+export interface ZodSchemaLike {
+  safeParse(value: unknown): { success: boolean; data?: unknown; error?: unknown };
+  safeParseAsync?(value: unknown): Promise<{ success: boolean; data?: unknown; error?: unknown }>;
+}
+
+/**
+ * Structural shape of a Joi schema.
+ */
+export interface JoiSchemaLike {
+  validate(value: unknown, options?: Record<string, unknown>): { value: unknown; error?: unknown };
+}
+
+/**
+ * Structural shape of a Yup schema.
+ */
+export interface YupSchemaLike {
+  __isYupSchema__: boolean;
+  validate(value: unknown, options?: Record<string, unknown>): Promise<unknown>;
+}
+
+/**
+ * Schema for one request location: the built-in DSL or a Zod, Joi or Yup schema.
+ */
+export type RequestSchema = ObjectSchema | ZodSchemaLike | JoiSchemaLike | YupSchemaLike;
+
+/**
+ * Schemas for the request locations to validate.
+ */
+export type RequestSchemas = Partial<Record<ValidationLocation, RequestSchema>>;
+
+/**
+ * Options for checking a value against a RequestSchema.
+ */
+export interface SchemaValidationOptions {
+  /** Convert strings to the declared number, integer, boolean and array types (DSL only) */
+  coerce?: boolean;
+
+  /** Remove fields the schema does not declare */
+  stripUnknown?: boolean;
+}
+
+/**
+ * Result of checking a value against a RequestSchema.
+ */
+export interface SchemaValidationResult {
+  /** The validated value: coerced, defaulted and stripped as configured */
+  value: unknown;
+
+  /** Violations relative to the validated value; empty when it is valid */
+  violations: Violation[];
+}
+
+/**
+ * Options for the validation middleware.
+ */
+export interface ValidationMiddlewareOptions {
+  /**
+   * Locations whose string values are coerced to the declared DSL types
+   * (default: `['query', 'params', 'headers']`; `true`/`false` for all/none)
+   */
+  coerce?: boolean | ValidationLocation[];
+
+  /** Remove fields the schemas do not declare from body, query and params (default: false) */
+  stripUnknown?: boolean;
+
+  /** Message of the aggregated validation error (default: 'Request validation failed') */
+  message?: string;
+}
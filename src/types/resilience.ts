@@ -0,0 +1,230 @@
+/**
+ * State of a circuit breaker.
+ *
+ * - `closed` → Calls go through; outcomes are recorded in the sliding window
+ * - `open` → Calls are rejected without reaching the dependency
+ * - `half-open` → A limited number of trial calls decide whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for a circuit breaker.
+ */
+export interface CircuitBreakerOptions {
+  /** Number of most recent calls the failure and slow-call rates are computed over (default: 20) */
+  windowSize?: number;
+
+  /** Calls recorded before the rates are evaluated (default: 10, at most `windowSize`) */
+  minimumCalls?: number;
+
+  /** Failure percentage at or above which the circuit opens (default: 50) */
+  failureRateThreshold?: number;
+
+  /** Slow-call percentage at or above which the circuit opens (default: 100) */
+  slowCallRateThreshold?: number;
+
+  /** Duration in milliseconds from which a call counts as slow (default: 60000) */
+  slowCallDurationMs?: number;
+
+  /** Time in milliseconds the circuit stays open before letting trial calls through (default: 30000) */
+  openDurationMs?: number;
+
+  /** Trial calls allowed while half-open (default: 3) */
+  halfOpenMaxCalls?: number;
+
+  /**
+   * Decides whether an error counts as a failure. Other errors count as successful
+   * calls. Defaults to every error except Certus client (4xx) errors.
+   */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Snapshot of a circuit breaker's state and sliding window.
+ */
+export interface CircuitBreakerMetrics {
+  /** Current state */
+  state: CircuitState;
+
+  /** Calls in the sliding window (or trial calls completed while half-open) */
+  calls: number;
+
+  /** Failed calls among them */
+  failures: number;
+
+  /** Slow calls among them */
+  slowCalls: number;
+
+  /** Failure percentage (0-100) */
+  failureRate: number;
+
+  /** Slow-call percentage (0-100) */
+  slowCallRate: number;
+
+  /** Calls rejected since the circuit last closed */
+  rejectedCalls: number;
+
+  /** When the circuit last opened (if it is open) */
+  openedAt?: Date;
+}
+
+/**
+ * A circuit breaker state transition.
+ */
+export interface CircuitStateChange {
+  /** Name of the circuit */
+  circuit: string;
+
+  /** Previous state */
+  from: CircuitState;
+
+  /** New state */
+  to: CircuitState;
+
+  /** Metrics at the time of the transition, before the window is cleared */
+  metrics: CircuitBreakerMetrics;
+}
+
+/**
+ * Randomization applied to retry delays, so that clients failing together do not
+ * retry together.
+ *
+ * - `none` → The exponential delay itself
+ * - `full` → A random delay between 0 and the exponential delay
+ * - `equal` → Half the exponential delay plus a random delay up to the other half
+ * - `decorrelated` → A random delay between the initial delay and three times the previous delay
+ */
+export type RetryJitter = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * Options for a retry policy.
+ */
+export interface RetryPolicyOptions {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+
+  /** Delay in milliseconds before the first retry, before jitter (default: 1000) */
+  delayMs?: number;
+
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  backoffMultiplier?: number;
+
+  /** Upper bound of any delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+
+  /** Randomization of the delays (default: `full`) */
+  jitter?: RetryJitter;
+
+  /**
+   * Overall time budget in milliseconds, measured from the first attempt. No retry is
+   * scheduled that would start after it (default: no deadline)
+   */
+  deadlineMs?: number;
+
+  /**
+   * Wait at least as long as the `retryAfterMs` (milliseconds) or `retryAfter` (seconds)
+   * context of the error, typically set from a `Retry-After` header (default: true)
+   */
+  respectRetryAfter?: boolean;
+
+  /** Decides whether a failed attempt is retried (default: `isRetryableError`) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+
+  /** Called after each failed attempt that will be retried, before waiting */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * A failed attempt about to be retried.
+ */
+export interface RetryEvent {
+  /** Number of the failed attempt, starting at 1 */
+  attempt: number;
+
+  /** The error the attempt failed with */
+  error: unknown;
+
+  /** Delay in milliseconds before the next attempt */
+  delayMs: number;
+
+  /** Time in milliseconds since the first attempt started */
+  elapsedMs: number;
+}
+
+/**
+ * Information passed to each attempt of a retried operation.
+ */
+export interface RetryAttemptContext {
+  /** Number of the attempt, starting at 1 */
+  attempt: number;
+
+  /** Signal of the caller, to forward to the operation (e.g. to `fetch()`) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for one execution of a retry policy.
+ */
+export interface RetryExecuteOptions {
+  /** Cancels the execution: no further attempt starts and pending delays end immediately */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for a time-bounded operation or deadline scope.
+ */
+export interface TimeoutOptions {
+  /** Name of the operation, included in the timeout error */
+  operation?: string;
+
+  /** Signal of the caller; aborting it aborts the operation as well */
+  signal?: AbortSignal;
+}
+
+/**
+ * The deadline of the current scope.
+ */
+export interface DeadlineInfo {
+  /** When the deadline expires */
+  deadline: Date;
+
+  /** Time budget of the scope in milliseconds */
+  budgetMs: number;
+
+  /** Time left in milliseconds (0 once expired) */
+  remainingMs: number;
+}
+
+/**
+ * Process event through which an error escaped the application.
+ *
+ * - `uncaughtException` → An exception thrown outside any try/catch or error middleware
+ * - `unhandledRejection` → A rejected promise without a rejection handler
+ */
+export type ProcessErrorOrigin = 'uncaughtException' | 'unhandledRejection';
+
+/**
+ * Options for a process error handler.
+ */
+export interface ProcessErrorHandlerOptions {
+  /**
+   * Decides whether an error shuts the process down. Defaults to every error that is not
+   * operational (see `isOperationalError`)
+   */
+  shouldShutdown?: (error: unknown, origin: ProcessErrorOrigin) => boolean;
+
+  /**
+   * Called once before the process exits, to stop accepting requests and close servers,
+   * connections and queues
+   */
+  onShutdown?: (error: unknown, origin: ProcessErrorOrigin) => Promise<void> | void;
+
+  /**
+   * Time in milliseconds the shutdown may take, including flushing the logs, before the
+   * process is exited anyway (default: 10000)
+   */
+  shutdownTimeoutMs?: number;
+
+  /** Exit code of the process after a shutdown (default: 1) */
+  exitCode?: number;
+}
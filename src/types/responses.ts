@@ -1,4 +1,5 @@
 import type { PaginationParams } from './common';
+import type { Violation } from './errors';
 
 /**
  * Success response wrapper for standard API results.
@@ -49,8 +50,14 @@ export interface ErrorResponse {
     /** Additional contextual data */
     context?: Record<string, unknown>;
 
+    /** Field-level validation failures */
+    errors?: Violation[];
+
     /** Request tracking ID */
     requestId?: string;
+
+    /** Stack trace of the thrown error, when stack traces are included */
+    stack?: string;
   };
 }
 
@@ -102,3 +109,110 @@ export type ApiResponse<T = unknown> =
   | ErrorResponse
   | PaginatedResponse<T>
   | EmptyResponse;
+
+/**
+ * Problem Details object as defined by RFC 9457 (obsoletes RFC 7807).
+ * Served with the `application/problem+json` media type.
+ */
+export interface ProblemDetails {
+  /** URI reference identifying the problem type */
+  type: string;
+
+  /** Short, human-readable summary of the problem type */
+  title: string;
+
+  /** HTTP status code */
+  status: number;
+
+  /** Human-readable explanation specific to this occurrence */
+  detail?: string;
+
+  /** URI reference identifying this occurrence (usually the request path) */
+  instance?: string;
+
+  /** Extension members */
+  [extension: string]: unknown;
+}
+
+/**
+ * Wire format used for error responses.
+ *
+ * - `standard` → `{ success: false, error: {...} }` envelope
+ * - `problem` → RFC 9457 Problem Details (`application/problem+json`)
+ * - `negotiate` → Problem Details when the client prefers it via `Accept`, envelope otherwise
+ */
+export type ErrorResponseFormat = 'standard' | 'problem' | 'negotiate';
+
+/**
+ * Sections of a message bundle, matching `ErrorMessages` (keyed by error code),
+ * `SuccessMessages` and `InfoMessages`.
+ */
+export type MessageSection = 'errors' | 'success' | 'info';
+
+/**
+ * Messages of one locale. Messages may contain ICU-style placeholders such as
+ * `{field}` or `{max, plural, one {# character} other {# characters}}`.
+ */
+export type MessageBundle = {
+  [section in MessageSection]?: Record<string, string>;
+};
+
+/**
+ * Options for creating a MessageCatalog.
+ */
+export interface MessageCatalogOptions {
+  /** Locale used when negotiation finds no match, and last in every fallback chain (default: `en`) */
+  defaultLocale?: string;
+
+  /** Bundles keyed by locale tag */
+  bundles?: Record<string, MessageBundle>;
+
+  /** Extra locales tried after a locale and its parents, e.g. `{ 'pt-BR': ['pt-PT'] }` */
+  fallbacks?: Record<string, string[]>;
+
+  /** Register the built-in English messages as the default locale bundle (default: true) */
+  includeDefaults?: boolean;
+}
+
+/**
+ * A language range parsed from an `Accept-Language` header.
+ */
+export interface LocalePreference {
+  /** Language tag, or `*` for any language */
+  tag: string;
+
+  /** Quality value between 0 and 1 */
+  quality: number;
+}
+
+/**
+ * Translates response messages. Implemented by MessageCatalog; custom implementations
+ * can delegate to an existing i18n library.
+ */
+export interface MessageTranslator {
+  /** Locale used when negotiation finds no match */
+  readonly defaultLocale: string;
+
+  /** Picks the best supported locale for an `Accept-Language` header */
+  resolveLocale(acceptLanguage?: string): string;
+
+  /** Gets a message in a locale, or undefined when no locale of its fallback chain has it */
+  translate(
+    section: MessageSection,
+    key: string,
+    locale?: string,
+    params?: Record<string, unknown>
+  ): string | undefined;
+
+  /**
+   * Gets the message of an error in a locale (the error's own message when untranslated),
+   * with placeholders filled from its public context
+   */
+  translateError(
+    error: { code: string; message: string; getPublicContext?: () => Record<string, unknown> },
+    locale: string
+  ): string;
+
+  /** Translates the messages of field-level violations */
+  translateViolations(violations: Violation[], locale: string): Violation[];
+}
@@ -1,3 +1,6 @@
 export * from './logger';
 export * from './middleware';
 export * from './security';
+export * from './tracing';
+export * from './validation';
+export * from './resilience';
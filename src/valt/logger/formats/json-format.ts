@@ -55,7 +55,9 @@ export class JsonFormat {
    *   version: '2.1.0',
    *   redactFields: ['authorization', 'cookie'],
    *   prettyPrint: true,
-   *   timestampFormat: 'ISO'
+   *   timestampFormat: 'ISO',
+   *   transports: [],
+   *   async: false
    * };
    *
    * const formatter = new JsonFormat(config);
@@ -68,7 +70,9 @@ export class JsonFormat {
    *
    * Transforms the log entry into a structured JSON object with all optional
    * fields included only when they have values. Ensures consistent field ordering
-   * and handles timestamp formatting according to configuration.
+   * and handles timestamp formatting according to configuration. Trace and span
+   * identifiers are emitted as `trace_id` and `span_id` so logs correlate with
+   * distributed traces.
    *
    * @param {LogEntry} entry - The log entry to format
    * @returns {string} JSON string representation of the log entry
@@ -136,6 +140,8 @@ export class JsonFormat {
       ...(entry.requestId && { requestId: entry.requestId }),
       ...(entry.userId && { userId: entry.userId }),
       ...(entry.sessionId && { sessionId: entry.sessionId }),
+      ...(entry.traceId && { trace_id: entry.traceId }),
+      ...(entry.spanId && { span_id: entry.spanId }),
     };
 
     return JSON.stringify(formattedEntry);
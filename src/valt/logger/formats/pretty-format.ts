@@ -1,4 +1,4 @@
-import { LogEntry, LogLevel, LoggerConfig } from '../../../types';
+import { LogEntry, LogLevel, LoggerConfig, SerializedError } from '../../../types';
 
 /**
  * Pretty formatter for human-readable console logging in the CertusAdiValt system.
@@ -75,7 +75,9 @@ export class PrettyFormat {
    *   version: '2.1.0',
    *   redactFields: ['authorization', 'cookie'],
    *   prettyPrint: true,
-   *   timestampFormat: 'LOCAL'
+   *   timestampFormat: 'LOCAL',
+   *   transports: [],
+   *   async: false
    * };
    *
    * const formatter = new PrettyFormat(config);
@@ -144,6 +146,12 @@ export class PrettyFormat {
    * //   Stack: Error: Connection timeout...
    * //     at Connection.connect...
    * //   Duration: 5234ms
+   *
+   * // Causes and AggregateError members are listed below the error:
+   * //   Error: CertusAdiValtError: Import failed
+   * //     [0]: Error: Row 1 rejected
+   * //     [1]: Error: Row 7 rejected
+   * //   Caused by: Error: connect ECONNREFUSED
    * ```
    */
   format(entry: LogEntry): string {
@@ -158,12 +166,9 @@ export class PrettyFormat {
       output += `\n${color}  Context: ${JSON.stringify(entry.context, null, 2)}${this.reset}`;
     }
 
-    // Add error if present
+    // Add error and its cause chain if present
     if (entry.error) {
-      output += `\n${color}  Error: ${entry.error.name}: ${entry.error.message}`;
-      if (entry.error.stack && this.config.environment === 'development') {
-        output += `\n${color}  Stack: ${entry.error.stack}${this.reset}`;
-      }
+      output += this.formatError(entry.error, color, 'Error', '  ');
     }
 
     // Add duration if present
@@ -174,6 +179,40 @@ export class PrettyFormat {
     return output;
   }
 
+  /**
+   * Formats a serialized error, its AggregateError members and its causes.
+   *
+   * @private
+   * @param {SerializedError} error - The serialized error
+   * @param {string} color - ANSI color of the log level
+   * @param {string} label - Label of the line ('Error', 'Caused by' or the member index)
+   * @param {string} indent - Indentation of the line
+   * @returns {string} Formatted lines, each starting with a newline
+   */
+  private formatError(
+    error: SerializedError,
+    color: string,
+    label: string,
+    indent: string
+  ): string {
+    const marker = error.circular ? ' [circular]' : error.truncated ? ' [truncated]' : '';
+    let output = `\n${color}${indent}${label}: ${error.name}: ${error.message}${marker}${this.reset}`;
+
+    if (error.stack && this.config.environment === 'development') {
+      output += `\n${color}${indent}Stack: ${error.stack}${this.reset}`;
+    }
+
+    error.errors?.forEach((member, index) => {
+      output += this.formatError(member, color, `[${index}]`, `${indent}  `);
+    });
+
+    if (error.cause) {
+      output += this.formatError(error.cause, color, 'Caused by', indent);
+    }
+
+    return output;
+  }
+
   /**
    * Formats a timestamp according to the configured timestamp format.
    *
@@ -1,2 +1,4 @@
 export * from './formats';
 export * from './valt-logger';
+export * from './ring-buffer';
+export * from './transports';
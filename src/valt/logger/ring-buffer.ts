@@ -0,0 +1,94 @@
+/**
+ * Fixed-capacity FIFO queue backed by a circular array.
+ *
+ * Used by ValtLogger in asynchronous mode to queue log entries without
+ * reallocating on every push. Push and shift are O(1).
+ *
+ * @template T - Type of queued items
+ *
+ * @example
+ * ```typescript
+ * const buffer = new RingBuffer<string>(2);
+ * buffer.push('a');
+ * buffer.push('b');
+ * buffer.isFull(); // true
+ * buffer.shift(); // 'a'
+ * ```
+ */
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private head = 0;
+  private count = 0;
+
+  /**
+   * Creates a new RingBuffer instance.
+   *
+   * @param {number} capacity - Maximum number of queued items (at least 1)
+   */
+  constructor(private readonly capacity: number) {
+    this.items = new Array(Math.max(1, capacity));
+  }
+
+  /**
+   * Number of queued items.
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Checks whether the buffer has reached its capacity.
+   *
+   * @returns {boolean} True if no more items can be pushed
+   */
+  isFull(): boolean {
+    return this.count >= this.items.length;
+  }
+
+  /**
+   * Appends an item at the tail.
+   *
+   * @param {T} item - Item to append
+   * @returns {boolean} False if the buffer is full and the item was not added
+   */
+  push(item: T): boolean {
+    if (this.isFull()) {
+      return false;
+    }
+
+    this.items[(this.head + this.count) % this.items.length] = item;
+    this.count++;
+    return true;
+  }
+
+  /**
+   * Removes and returns the item at the head.
+   *
+   * @returns {T | undefined} Oldest item, or undefined when empty
+   */
+  shift(): T | undefined {
+    if (this.count === 0) {
+      return undefined;
+    }
+
+    const item = this.items[this.head];
+    this.items[this.head] = undefined;
+    this.head = (this.head + 1) % this.items.length;
+    this.count--;
+    return item;
+  }
+
+  /**
+   * Removes and returns up to `max` items from the head.
+   *
+   * @param {number} max - Maximum number of items to take
+   * @returns {T[]} Oldest items, in queue order
+   */
+  take(max: number): T[] {
+    const batch: T[] = [];
+    while (batch.length < max && this.count > 0) {
+      batch.push(this.shift() as T);
+    }
+    return batch;
+  }
+}
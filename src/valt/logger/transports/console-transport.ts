@@ -0,0 +1,82 @@
+import { LogEntry, LogFormatter, LogLevel, LogTransport } from '../../../types';
+
+/**
+ * Log transport that writes entries to the console.
+ *
+ * Routes each entry to the console method matching its severity
+ * (`console.error`, `console.warn`, `console.info`, `console.debug`). This is the
+ * transport used by ValtLogger when no transports are configured.
+ *
+ * @class ConsoleTransport
+ *
+ * @example
+ * ```typescript
+ * const logger = new ValtLogger({
+ *   level: LogLevel.DEBUG,
+ *   service: 'api',
+ *   environment: 'production',
+ *   transports: [new ConsoleTransport({ level: LogLevel.WARN })],
+ * });
+ * ```
+ */
+export class ConsoleTransport implements LogTransport {
+  readonly name = 'console';
+  level?: LogLevel;
+  formatter?: LogFormatter;
+
+  /**
+   * Creates a new ConsoleTransport instance.
+   *
+   * @param {Object} [options] - Transport options
+   * @param {LogLevel} [options.level] - Minimum log level for this transport
+   * @param {LogFormatter} [options.formatter] - Formatter overriding the logger format
+   */
+  constructor(options: { level?: LogLevel; formatter?: LogFormatter } = {}) {
+    this.level = options.level;
+    this.formatter = options.formatter;
+  }
+
+  /**
+   * Writes a formatted entry using the console method for its level.
+   *
+   * @param {LogEntry} entry - Log entry being written
+   * @param {string} formatted - Formatted log line
+   */
+  write(entry: LogEntry, formatted: string): void {
+    const consoleMethod = this.getConsoleMethod(entry.level);
+    consoleMethod(formatted);
+  }
+
+  /**
+   * Console output is unbuffered, so there is nothing to flush.
+   */
+  flush(): void {}
+
+  /**
+   * The console is never closed.
+   */
+  close(): void {}
+
+  /**
+   * Maps log levels to appropriate console methods.
+   *
+   * @private
+   * @param {LogLevel} level - Log level to map
+   * @returns {Function} Console method for the specified level
+   */
+  private getConsoleMethod(level: LogLevel): (...args: any[]) => void {
+    switch (level) {
+      case LogLevel.ERROR:
+        return console.error;
+      case LogLevel.WARN:
+        return console.warn;
+      case LogLevel.INFO:
+        return console.info;
+      case LogLevel.DEBUG:
+      case LogLevel.TRACE:
+        return console.debug;
+      default:
+        return console.log;
+    }
+  }
+}
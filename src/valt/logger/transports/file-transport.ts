@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  FileTransportOptions,
+  FormattedLogEntry,
+  LogEntry,
+  LogFormatter,
+  LogLevel,
+  LogTransport,
+} from '../../../types';
+
+/**
+ * Log transport that appends entries to a file, one entry per line.
+ *
+ * Supports size-based rotation (`maxSize`), time-based rotation aligned to
+ * interval boundaries (`rotationInterval`), and retention of rotated files by
+ * count (`maxFiles`) and age (`maxAge`). Rotated files are renamed to
+ * `<filename>.<ISO timestamp>` next to the active file.
+ *
+ * @class FileTransport
+ *
+ * @example
+ * ```typescript
+ * const logger = new ValtLogger({
+ *   level: LogLevel.INFO,
+ *   service: 'api',
+ *   environment: 'production',
+ *   transports: [
+ *     new ConsoleTransport({ level: LogLevel.WARN }),
+ *     new FileTransport({
+ *       filename: '/var/log/api/app.log',
+ *       maxSize: 10 * 1024 * 1024, // 10 MB
+ *       rotationInterval: 24 * 60 * 60 * 1000, // daily
+ *       maxFiles: 14,
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export class FileTransport implements LogTransport {
+  readonly name = 'file';
+  level?: LogLevel;
+  formatter?: LogFormatter;
+  private options: FileTransportOptions;
+  private fd: number | null = null;
+  private currentSize = 0;
+  private openedAt = 0;
+
+  /**
+   * Creates a new FileTransport instance. The directory is created if missing;
+   * the file itself is opened lazily on the first write.
+   *
+   * @param {FileTransportOptions} options - File and rotation options
+   */
+  constructor(options: FileTransportOptions) {
+    this.options = options;
+    this.level = options.level;
+    this.formatter = options.formatter;
+
+    fs.mkdirSync(path.dirname(options.filename), { recursive: true });
+  }
+
+  /**
+   * Appends a formatted entry to the active file, rotating first when required.
+   *
+   * @param {LogEntry} _entry - Log entry being written
+   * @param {string} formatted - Formatted log line
+   */
+  write(_entry: LogEntry, formatted: string): void {
+    const line = `${formatted}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    if (this.fd === null) {
+      this.open();
+    }
+
+    if (this.shouldRotate(bytes)) {
+      this.rotate();
+    }
+
+    this.append(line, bytes);
+  }
+
+  /**
+   * Appends a batch of entries with as few write calls as rotation allows.
+   *
+   * @param {FormattedLogEntry[]} batch - Entries with their formatted lines
+   */
+  writeBatch(batch: FormattedLogEntry[]): void {
+    if (this.fd === null) {
+      this.open();
+    }
+
+    let chunk = '';
+    let chunkBytes = 0;
+
+    for (const { formatted } of batch) {
+      const line = `${formatted}\n`;
+      const bytes = Buffer.byteLength(line);
+
+      if (this.shouldRotate(bytes, chunkBytes)) {
+        if (chunk) {
+          this.append(chunk, chunkBytes);
+          chunk = '';
+          chunkBytes = 0;
+        }
+        this.rotate();
+      }
+
+      chunk += line;
+      chunkBytes += bytes;
+    }
+
+    if (chunk) {
+      this.append(chunk, chunkBytes);
+    }
+  }
+
+  /**
+   * Flushes written data to disk.
+   */
+  flush(): void {
+    if (this.fd !== null) {
+      fs.fsyncSync(this.fd);
+    }
+  }
+
+  /**
+   * Closes the active file. A later write reopens it.
+   */
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  /**
+   * Opens the active file in append mode and records its size and age.
+   *
+   * @private
+   */
+  private open(): void {
+    this.fd = fs.openSync(this.options.filename, 'a');
+    const stats = fs.fstatSync(this.fd);
+    this.currentSize = stats.size;
+    this.openedAt = stats.size > 0 ? stats.mtimeMs : Date.now();
+  }
+
+  /**
+   * Writes data to the active file and tracks its size.
+   *
+   * @private
+   * @param {string} data - Data to append
+   * @param {number} bytes - Byte length of the data
+   */
+  private append(data: string, bytes: number): void {
+    fs.writeSync(this.fd!, data);
+    this.currentSize += bytes;
+  }
+
+  /**
+   * Checks whether the active file must be rotated before writing.
+   *
+   * @private
+   * @param {number} bytes - Size of the pending write
+   * @param {number} [buffered=0] - Bytes already batched for the active file but not yet written
+   * @returns {boolean} True when a size or interval limit is reached
+   */
+  private shouldRotate(bytes: number, buffered = 0): boolean {
+    const size = this.currentSize + buffered;
+    if (size === 0) {
+      return false;
+    }
+
+    const { maxSize, rotationInterval } = this.options;
+
+    if (maxSize && size + bytes > maxSize) {
+      return true;
+    }
+
+    return (
+      !!rotationInterval &&
+      Math.floor(Date.now() / rotationInterval) !== Math.floor(this.openedAt / rotationInterval)
+    );
+  }
+
+  /**
+   * Renames the active file to a timestamped name, opens a fresh file and
+   * applies the retention policy.
+   *
+   * @private
+   */
+  private rotate(): void {
+    this.close();
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    let rotatedName = `${this.options.filename}.${stamp}`;
+    for (let counter = 1; fs.existsSync(rotatedName); counter++) {
+      rotatedName = `${this.options.filename}.${stamp}-${counter}`;
+    }
+
+    fs.renameSync(this.options.filename, rotatedName);
+    this.open();
+    this.applyRetention();
+  }
+
+  /**
+   * Deletes rotated files beyond `maxFiles` or older than `maxAge`.
+   *
+   * @private
+   */
+  private applyRetention(): void {
+    const { maxFiles, maxAge } = this.options;
+    if (maxFiles === undefined && maxAge === undefined) {
+      return;
+    }
+
+    const directory = path.dirname(this.options.filename);
+    const prefix = `${path.basename(this.options.filename)}.`;
+    const now = Date.now();
+
+    const rotated = fs
+      .readdirSync(directory)
+      .filter((file) => file.startsWith(prefix))
+      .sort()
+      .reverse();
+
+    rotated.forEach((file, index) => {
+      const filePath = path.join(directory, file);
+      const expired = maxAge !== undefined && now - fs.statSync(filePath).mtimeMs > maxAge;
+
+      if ((maxFiles !== undefined && index >= maxFiles) || expired) {
+        fs.unlinkSync(filePath);
+      }
+    });
+  }
+}
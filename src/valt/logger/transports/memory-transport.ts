@@ -0,0 +1,100 @@
+import { LogEntry, LogFormatter, LogLevel, LogTransport } from '../../../types';
+
+/**
+ * Log transport that keeps entries in memory.
+ *
+ * Intended for tests and diagnostics endpoints. Keeps at most `maxEntries`
+ * entries, discarding the oldest ones first.
+ *
+ * @class MemoryTransport
+ *
+ * @example
+ * ```typescript
+ * const memory = new MemoryTransport();
+ * const logger = new ValtLogger({
+ *   level: LogLevel.INFO,
+ *   service: 'test',
+ *   environment: 'test',
+ *   transports: [memory],
+ * });
+ *
+ * logger.info('User created', { userId: '123' });
+ * expect(memory.getEntries()[0].message).toBe('User created');
+ * ```
+ */
+export class MemoryTransport implements LogTransport {
+  readonly name = 'memory';
+  level?: LogLevel;
+  formatter?: LogFormatter;
+  private maxEntries: number;
+  private entries: LogEntry[] = [];
+  private lines: string[] = [];
+
+  /**
+   * Creates a new MemoryTransport instance.
+   *
+   * @param {Object} [options] - Transport options
+   * @param {LogLevel} [options.level] - Minimum log level for this transport
+   * @param {LogFormatter} [options.formatter] - Formatter overriding the logger format
+   * @param {number} [options.maxEntries=1000] - Maximum number of retained entries
+   */
+  constructor(options: { level?: LogLevel; formatter?: LogFormatter; maxEntries?: number } = {}) {
+    this.level = options.level;
+    this.formatter = options.formatter;
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * Stores an entry and its formatted line, evicting the oldest entry when full.
+   *
+   * @param {LogEntry} entry - Log entry being written
+   * @param {string} formatted - Formatted log line
+   */
+  write(entry: LogEntry, formatted: string): void {
+    this.entries.push(entry);
+    this.lines.push(formatted);
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+      this.lines.shift();
+    }
+  }
+
+  /**
+   * Entries are stored synchronously, so there is nothing to flush.
+   */
+  flush(): void {}
+
+  /**
+   * Releases retained entries.
+   */
+  close(): void {
+    this.clear();
+  }
+
+  /**
+   * Gets the retained log entries, oldest first.
+   *
+   * @returns {LogEntry[]} Copy of the retained entries
+   */
+  getEntries(): LogEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Gets the retained formatted log lines, oldest first.
+   *
+   * @returns {string[]} Copy of the retained lines
+   */
+  getLines(): string[] {
+    return [...this.lines];
+  }
+
+  /**
+   * Removes all retained entries.
+   */
+  clear(): void {
+    this.entries = [];
+    this.lines = [];
+  }
+}
@@ -1,5 +1,18 @@
-import { LogEntry, LogLevel, LoggerConfig } from '../../types';
+import {
+  AsyncLoggingOptions,
+  FormattedLogEntry,
+  LogEntry,
+  LogFormatter,
+  LogLevel,
+  LoggerConfig,
+  LoggerStats,
+  LogTransport,
+} from '../../types';
+import { RequestContextStore } from '../../adi';
+import { serializeError } from '../../certus';
 import { JsonFormat, PrettyFormat } from './formats';
+import { RingBuffer } from './ring-buffer';
+import { ConsoleTransport } from './transports';
 
 /**
  * Main logger class for the CertusAdiValt system with structured logging capabilities.
@@ -34,12 +47,28 @@ import { JsonFormat, PrettyFormat } from './formats';
  * // Child logger with shared context
  * const requestLogger = logger.child({ requestId: 'req_123', userId: 'user_456' });
  * requestLogger.info('Processing request');
+ *
+ * // Buffered logging: entries are queued and written in batches
+ * const asyncLogger = new ValtLogger({
+ *   level: LogLevel.INFO,
+ *   service: 'user-service',
+ *   environment: 'production',
+ *   async: { bufferSize: 50000, overflowPolicy: 'drop-oldest' }
+ * });
  * ```
  */
 export class ValtLogger {
+  /** Asynchronous loggers drained by the process shutdown hooks */
+  private static readonly shutdownLoggers = new Set<ValtLogger>();
+
   private config: Required<LoggerConfig>;
   private jsonFormat: JsonFormat;
   private prettyFormat: PrettyFormat;
+  private asyncOptions?: Required<AsyncLoggingOptions>;
+  private buffer?: RingBuffer<LogEntry>;
+  private drainTimer?: NodeJS.Timeout;
+  private drainScheduled = false;
+  private stats = { written: 0, dropped: 0 };
 
   /**
    * Creates a new ValtLogger instance with the specified configuration.
@@ -65,6 +94,25 @@ export class ValtLogger {
    *   environment: 'development',
    *   prettyPrint: true
    * });
+   *
+   * // Buffered logging that blocks the caller instead of dropping entries
+   * const auditLogger = new ValtLogger({
+   *   level: LogLevel.INFO,
+   *   service: 'audit',
+   *   environment: 'production',
+   *   async: { batchSize: 500, flushInterval: 250, overflowPolicy: 'block' }
+   * });
+   *
+   * // Multiple transports, each with its own level and format
+   * const multiLogger = new ValtLogger({
+   *   level: LogLevel.DEBUG,
+   *   service: 'api-gateway',
+   *   environment: 'production',
+   *   transports: [
+   *     new ConsoleTransport({ level: LogLevel.WARN }),
+   *     new FileTransport({ filename: './logs/app.log', maxSize: 10 * 1024 * 1024, maxFiles: 5 })
+   *   ]
+   * });
    * ```
    */
   constructor(config: LoggerConfig) {
@@ -76,10 +124,28 @@ export class ValtLogger {
       redactFields: config.redactFields || [],
       prettyPrint: config.prettyPrint || false,
       timestampFormat: config.timestampFormat || 'ISO',
+      transports: config.transports || [new ConsoleTransport()],
+      async: config.async || false,
     };
 
     this.jsonFormat = new JsonFormat(this.config);
     this.prettyFormat = new PrettyFormat(this.config);
+
+    if (this.config.async) {
+      const options = this.config.async === true ? {} : this.config.async;
+      this.asyncOptions = {
+        bufferSize: options.bufferSize ?? 10000,
+        batchSize: options.batchSize ?? 100,
+        flushInterval: options.flushInterval ?? 100,
+        overflowPolicy: options.overflowPolicy ?? 'drop-oldest',
+        registerShutdownHooks: options.registerShutdownHooks ?? true,
+      };
+      this.buffer = new RingBuffer(this.asyncOptions.bufferSize);
+
+      if (this.asyncOptions.registerShutdownHooks) {
+        ValtLogger.registerShutdownLogger(this);
+      }
+    }
   }
 
   /**
@@ -96,6 +162,9 @@ export class ValtLogger {
   /**
    * Creates a structured log entry with proper formatting and redaction.
    *
+   * Fields of the current request context (see RequestContextStore) are merged
+   * under the given context.
+   *
    * @private
    * @param {LogLevel} level - The log level
    * @param {string} message - The log message
@@ -109,9 +178,11 @@ export class ValtLogger {
     context?: Record<string, unknown>,
     error?: Error
   ): LogEntry {
+    const mergedContext = { ...RequestContextStore.get(), ...context };
+
     const baseContext: any = {
       timestamp: new Date(),
-      ...context,
+      ...mergedContext,
     };
 
     const logEntry: LogEntry = {
@@ -121,17 +192,15 @@ export class ValtLogger {
       service: this.config.service,
       environment: this.config.environment,
       version: this.config.version,
-      context: this.redactSensitiveData(context || {}),
+      context: this.redactSensitiveData(mergedContext),
     };
 
     if (error) {
-      logEntry.error = {
-        name: error.name,
-        message: error.message,
-        stack: this.config.environment === 'development' ? error.stack : undefined,
-        ...((error as any).code && { code: (error as any).code }),
-        ...((error as any).statusCode && { statusCode: (error as any).statusCode }),
-      };
+      // Context of Certus errors is left out: it usually repeats the log context
+      logEntry.error = serializeError(error, {
+        includeStack: this.config.environment === 'development',
+        includeContext: false,
+      });
     }
 
     return logEntry;
@@ -157,41 +226,178 @@ export class ValtLogger {
   }
 
   /**
-   * Writes a log entry to the appropriate output stream with formatting.
+   * Hands a log entry to the transports, either immediately or through the
+   * asynchronous buffer.
+   *
+   * When the buffer is full the configured overflow policy applies: the oldest
+   * or the new entry is dropped, or the buffer is drained synchronously before
+   * queueing (`block`).
    *
    * @private
    * @param {LogEntry} entry - The log entry to write
    */
   private writeLog(entry: LogEntry): void {
-    const formattedLog = this.config.prettyPrint
-      ? this.prettyFormat.format(entry)
-      : this.jsonFormat.format(entry);
+    if (!this.buffer || !this.asyncOptions) {
+      this.dispatch([entry]);
+      return;
+    }
+
+    if (this.buffer.isFull()) {
+      switch (this.asyncOptions.overflowPolicy) {
+        case 'drop-newest':
+          this.stats.dropped++;
+          return;
+        case 'block':
+          this.drain();
+          break;
+        default:
+          this.buffer.shift();
+          this.stats.dropped++;
+      }
+    }
 
-    const consoleMethod = this.getConsoleMethod(entry.level);
-    consoleMethod(formattedLog);
+    this.buffer.push(entry);
+    this.scheduleDrain();
   }
 
   /**
-   * Gets the appropriate console method for a log level.
+   * Schedules the buffer to be drained: on the next tick once a full batch is
+   * queued, otherwise after the flush interval.
    *
    * @private
-   * @param {LogLevel} level - The log level
-   * @returns {(...args: any[]) => void} Console method function
    */
-  private getConsoleMethod(level: LogLevel): (...args: any[]) => void {
-    switch (level) {
-      case LogLevel.ERROR:
-        return console.error;
-      case LogLevel.WARN:
-        return console.warn;
-      case LogLevel.INFO:
-        return console.info;
-      case LogLevel.DEBUG:
-      case LogLevel.TRACE:
-        return console.debug;
-      default:
-        return console.log;
+  private scheduleDrain(): void {
+    const { batchSize, flushInterval } = this.asyncOptions!;
+
+    if (this.buffer!.size >= batchSize) {
+      if (!this.drainScheduled) {
+        this.drainScheduled = true;
+        setImmediate(() => {
+          this.drainScheduled = false;
+          this.drain();
+        });
+      }
+      return;
     }
+
+    if (!this.drainTimer) {
+      this.drainTimer = setTimeout(() => {
+        this.drainTimer = undefined;
+        this.drain();
+      }, flushInterval);
+      this.drainTimer.unref();
+    }
+  }
+
+  /**
+   * Writes every queued entry to the transports in batches.
+   *
+   * @private
+   */
+  private drain(): void {
+    if (!this.buffer || !this.asyncOptions) return;
+
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = undefined;
+    }
+
+    while (this.buffer.size > 0) {
+      this.dispatch(this.buffer.take(this.asyncOptions.batchSize));
+    }
+  }
+
+  /**
+   * Writes log entries to every transport whose level accepts them.
+   *
+   * Each transport receives the entries formatted with its own formatter, or the
+   * logger's JSON/pretty format by default, through `writeBatch` when it has one.
+   * A failing transport never prevents the remaining transports from receiving
+   * the entries.
+   *
+   * @private
+   * @param {LogEntry[]} entries - The log entries to write
+   */
+  private dispatch(entries: LogEntry[]): void {
+    const defaultFormatted = new Map<LogEntry, string>();
+    const format = (transport: LogTransport, entry: LogEntry): string => {
+      if (transport.formatter) {
+        return transport.formatter.format(entry);
+      }
+
+      let formatted = defaultFormatted.get(entry);
+      if (formatted === undefined) {
+        formatted = this.getDefaultFormatter().format(entry);
+        defaultFormatted.set(entry, formatted);
+      }
+      return formatted;
+    };
+
+    this.stats.written += entries.length;
+
+    for (const transport of this.config.transports) {
+      const accepted =
+        transport.level === undefined
+          ? entries
+          : entries.filter((entry) => entry.level <= transport.level!);
+
+      if (transport.writeBatch) {
+        if (!accepted.length) continue;
+        try {
+          const batch: FormattedLogEntry[] = accepted.map((entry) => ({
+            entry,
+            formatted: format(transport, entry),
+          }));
+          this.watchTransportResult(transport, transport.writeBatch(batch));
+        } catch (error) {
+          this.handleTransportError(transport, error);
+        }
+        continue;
+      }
+
+      for (const entry of accepted) {
+        try {
+          this.watchTransportResult(transport, transport.write(entry, format(transport, entry)));
+        } catch (error) {
+          this.handleTransportError(transport, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Routes the rejection of an asynchronous transport write to the error handler.
+   *
+   * @private
+   * @param {LogTransport} transport - The transport that was written to
+   * @param {void | Promise<void>} result - The value returned by the write
+   */
+  private watchTransportResult(transport: LogTransport, result: void | Promise<void>): void {
+    if (result instanceof Promise) {
+      result.catch((error) => this.handleTransportError(transport, error));
+    }
+  }
+
+  /**
+   * Gets the formatter used by transports without their own formatter.
+   *
+   * @private
+   * @returns {LogFormatter} Pretty format when prettyPrint is enabled, JSON otherwise
+   */
+  private getDefaultFormatter(): LogFormatter {
+    return this.config.prettyPrint ? this.prettyFormat : this.jsonFormat;
+  }
+
+  /**
+   * Reports a transport failure without throwing into application code.
+   *
+   * @private
+   * @param {LogTransport} transport - The transport that failed
+   * @param {unknown} error - The failure
+   */
+  private handleTransportError(transport: LogTransport, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[ValtLogger] Transport "${transport.name}" failed: ${message}`);
   }
 
   // Public API methods
@@ -201,7 +407,7 @@ export class ValtLogger {
    *
    * @param {string} message - The error message
    * @param {Record<string, unknown>} [context] - Optional context data
-   * @param {Error} [error] - Optional error object
+   * @param {Error} [error] - Optional error object, logged with its cause chain
    *
    * @example
    * ```typescript
@@ -368,9 +574,125 @@ export class ValtLogger {
     this.writeLog(entry);
   }
 
+  /**
+   * Writes all queued entries and flushes buffered output of all transports.
+   *
+   * @returns {Promise<void>} Resolves once every transport has flushed
+   *
+   * @example
+   * ```typescript
+   * await logger.flush();
+   * ```
+   */
+  async flush(): Promise<void> {
+    this.drain();
+    await Promise.all(this.config.transports.map((transport) => transport.flush()));
+  }
+
+  /**
+   * Writes all queued entries, then flushes and closes all transports.
+   *
+   * The logger is also removed from the shutdown hooks. On a child logger (see
+   * child()), only flushes: the transports stay open for the parent.
+   *
+   * @returns {Promise<void>} Resolves once every transport has been closed
+   *
+   * @example
+   * ```typescript
+   * process.on('SIGTERM', async () => {
+   *   await logger.close();
+   *   process.exit(0);
+   * });
+   * ```
+   */
+  async close(): Promise<void> {
+    ValtLogger.unregisterShutdownLogger(this);
+    await this.flush();
+    await Promise.all(this.config.transports.map((transport) => transport.close()));
+  }
+
+  /**
+   * Gets the delivery counters of this logger.
+   *
+   * @returns {LoggerStats} Written, dropped and pending entry counts
+   *
+   * @example
+   * ```typescript
+   * const { dropped, pending } = logger.getStats();
+   * if (dropped > 0) {
+   *   metrics.gauge('logger.dropped', dropped);
+   * }
+   * ```
+   */
+  getStats(): LoggerStats {
+    return {
+      written: this.stats.written,
+      dropped: this.stats.dropped,
+      pending: this.buffer?.size ?? 0,
+    };
+  }
+
+  /**
+   * Adds an asynchronous logger to the shutdown hooks, installing the process
+   * listeners on first use.
+   *
+   * @private
+   * @param {ValtLogger} logger - Logger to drain on shutdown
+   */
+  private static registerShutdownLogger(logger: ValtLogger): void {
+    if (ValtLogger.shutdownLoggers.size === 0) {
+      process.on('beforeExit', ValtLogger.drainShutdownLoggers);
+      process.on('SIGTERM', ValtLogger.handleSigterm);
+    }
+    ValtLogger.shutdownLoggers.add(logger);
+  }
+
+  /**
+   * Removes a logger from the shutdown hooks, removing the process listeners
+   * once no logger is left.
+   *
+   * @private
+   * @param {ValtLogger} logger - Logger to remove
+   */
+  private static unregisterShutdownLogger(logger: ValtLogger): void {
+    if (!ValtLogger.shutdownLoggers.delete(logger)) return;
+
+    if (ValtLogger.shutdownLoggers.size === 0) {
+      process.removeListener('beforeExit', ValtLogger.drainShutdownLoggers);
+      process.removeListener('SIGTERM', ValtLogger.handleSigterm);
+    }
+  }
+
+  /**
+   * Synchronously writes the queued entries of every registered logger.
+   *
+   * @private
+   */
+  private static drainShutdownLoggers = (): void => {
+    ValtLogger.shutdownLoggers.forEach((logger) => logger.drain());
+  };
+
+  /**
+   * Drains the registered loggers on SIGTERM. When no other SIGTERM listener
+   * exists the signal is re-raised so the default termination still happens.
+   *
+   * @private
+   */
+  private static handleSigterm = (): void => {
+    ValtLogger.drainShutdownLoggers();
+
+    if (process.listenerCount('SIGTERM') === 1) {
+      process.removeListener('SIGTERM', ValtLogger.handleSigterm);
+      process.kill(process.pid, 'SIGTERM');
+    }
+  };
+
   /**
    * Creates a child logger with inherited context.
    *
+   * The child writes through the parent's transports. Closing the child only
+   * flushes them; close the parent to close them.
+   *
    * @param {Record<string, unknown>} context - Context to include in all child logs
    * @returns {ValtLogger} Child logger instance
    *
@@ -395,10 +717,18 @@ export class ValtLogger {
     const childConfig = {
       ...this.config,
       service: this.config.service,
+      async: false,
     };
 
     const childLogger = new ValtLogger(childConfig);
 
+    // Route entries through the parent so children share its buffer and counters
+    childLogger.writeLog = (entry: LogEntry) => this.writeLog(entry);
+    childLogger.flush = () => this.flush();
+    childLogger.getStats = () => this.getStats();
+    // The transports belong to the parent: closing a child only flushes them
+    childLogger.close = () => this.flush();
+
     // Override createLogEntry to include parent context
     const originalCreateLogEntry = childLogger.createLogEntry.bind(childLogger);
     childLogger.createLogEntry = (
@@ -1,5 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { randomUUID } from 'crypto';
+import { CommonUtils, ConfigManager, RequestContextStore, RouteMatcher } from '../../adi';
+import { CertusAdiValtError, CertusClientError } from '../../certus';
+import { ErrorCodes, HttpStatus } from '../../constants';
+import { CorrelationMiddlewareOptions, RequestContext } from '../../types';
+import { W3CTraceContext } from '../tracing';
+
+/** Headers an incoming request ID is read from by default */
+const DEFAULT_HEADER_NAMES = ['x-request-id'];
+
+/** Default maximum length of an incoming request ID */
+const DEFAULT_MAX_LENGTH = 128;
+
+/** Default pattern an incoming request ID must match */
+const DEFAULT_ALLOWED_PATTERN = /^[A-Za-z0-9._:-]+$/;
 
 /**
  * Express middleware for generating and managing correlation IDs across distributed systems.
@@ -38,17 +52,96 @@ import { randomUUID } from 'crypto';
  *
  * // Response headers will include:
  * // x-request-id: abc-123-xyz
+ *
+ * // Deep service code can read it without access to the request
+ * const requestId = RequestContextStore.getValue('requestId');
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // W3C Trace Context: an incoming 'traceparent' continues the trace with a new span
+ * // traceparent: 00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01
+ * app.get('/api/orders', (req: Request, res: Response) => {
+ *   const { traceId, spanId, parentSpanId } = RequestContextStore.get()!;
+ *   // traceId: '4bf92f3577b34da6a3ce929d0e0e4736'
+ *   // spanId: newly generated, e.g. 'b7ad6b7169203331'
+ *   // parentSpanId: '00f067aa0ba902b7'
+ * });
+ *
+ * // Response headers will include:
+ * // traceparent: 00-4bf92f3577b34da6a3ce929d0e0e4736-b7ad6b7169203331-01
  * ```
  */
 export class CorrelationMiddleware {
+  private options: CorrelationMiddlewareOptions;
+  private skipMatcher?: RouteMatcher;
+
+  /**
+   * Creates a new CorrelationMiddleware instance.
+   *
+   * @param {CorrelationMiddlewareOptions} [options={}] - Correlation options
+   *
+   * @example
+   * ```typescript
+   * // Request IDs only, leave trace headers to a tracing agent
+   * const correlation = new CorrelationMiddleware({ traceContext: false });
+   * ```
+   */
+  constructor(options: CorrelationMiddlewareOptions = {}) {
+    this.options = options;
+    this.skipMatcher = options.skipPaths && new RouteMatcher(options.skipPaths);
+  }
+
+  /**
+   * Checks an incoming request ID against the length and charset rules.
+   *
+   * Rejects repeated headers, IDs longer than `maxLength` and IDs with
+   * characters outside `allowedPattern` (such as spaces or newlines used for
+   * log injection).
+   *
+   * @param {string | string[]} value - The raw header value
+   * @returns {string | undefined} The reason the ID is invalid, or undefined when it is valid
+   *
+   * @example
+   * ```typescript
+   * correlation.validateRequestId('abc-123'); // undefined
+   * correlation.validateRequestId('abc\nforged'); // 'invalid_characters'
+   * ```
+   */
+  validateRequestId(value: string | string[]): string | undefined {
+    if (Array.isArray(value)) {
+      return 'multiple_values';
+    }
+
+    if (value.length > (this.options.maxLength ?? DEFAULT_MAX_LENGTH)) {
+      return 'too_long';
+    }
+
+    if (!(this.options.allowedPattern ?? DEFAULT_ALLOWED_PATTERN).test(value)) {
+      return 'invalid_characters';
+    }
+
+    return undefined;
+  }
+
   /**
    * Generates Express middleware for request ID correlation.
    *
    * Creates middleware that ensures every request has a unique correlation ID,
-   * either by reusing an existing 'x-request-id' header from the client or
-   * generating a new UUIDv4. The ID is propagated through both request and
+   * either by reusing an existing 'x-request-id' header (or the configured
+   * `headerNames`) from the client or generating a new ID with the configured
+   * generator (UUIDv4 by default). The ID is propagated through both request and
    * response headers for distributed tracing.
    *
+   * Incoming IDs that fail `validateRequestId()` are replaced by a new ID, or,
+   * with the `reject` policy, the request fails with a 400 `VAL_INVALID_FORMAT`
+   * error passed to `next()`.
+   *
+   * Unless disabled, W3C Trace Context is handled as well: a valid incoming
+   * `traceparent` continues its trace, otherwise a new trace is started (not
+   * sampled). Each hop gets a new span ID, and `traceparent` (plus a valid
+   * `tracestate`) is set on the request and response headers.
+   *
    * @returns {function} Express middleware function
    *
    * @example
@@ -63,23 +156,135 @@ export class CorrelationMiddleware {
    * // Or apply to specific routes
    * app.use('/api/*', correlation.generateRequestId());
    *
+   * // Time-ordered IDs, accepting a legacy header and rejecting bad IDs
+   * const strict = new CorrelationMiddleware({
+   *   headerNames: ['x-request-id', 'x-correlation-id'],
+   *   maxLength: 64,
+   *   invalidIdPolicy: 'reject',
+   *   generator: 'uuidv7',
+   * });
+   *
    * // The middleware will:
    * // 1. Check for existing 'x-request-id' in request headers
-   * // 2. Use existing ID if present, generate new UUID if not
+   * // 2. Use existing ID if present and valid, generate new ID if not
    * // 3. Set the ID in request headers for downstream use
    * // 4. Set the ID in response headers for client propagation
+   * // 5. Continue or start the W3C trace and create a span for this hop
+   * // 6. Run the rest of the request inside a RequestContextStore context
+   * //    holding the request ID, traceId, spanId and parentSpanId, so logs,
+   * //    errors and responses pick them up
    * ```
    */
   generateRequestId() {
+    const headerNames = (this.options.headerNames ?? DEFAULT_HEADER_NAMES).map((name) =>
+      name.toLowerCase()
+    );
+    const generate = this.createGenerator();
+
     return (req: Request, res: Response, next: NextFunction) => {
-      const existingRequestId = req.headers['x-request-id'];
-      const requestId = existingRequestId || randomUUID();
+      if ((this.skipMatcher ?? ConfigManager.getInstance().getSkipPathMatcher()).matches(req)) {
+        return next();
+      }
+
+      let error: CertusClientError | undefined;
+      let requestId: string | undefined;
+
+      const header = headerNames.find((name) => req.headers[name]);
+      if (header) {
+        const existingRequestId = req.headers[header]!;
+        const reason = this.validateRequestId(existingRequestId);
+
+        if (!reason) {
+          requestId = existingRequestId as string;
+        } else if (this.options.invalidIdPolicy === 'reject') {
+          error = new CertusClientError(
+            'Invalid request ID header',
+            ErrorCodes.VAL_INVALID_FORMAT,
+            HttpStatus.BAD_REQUEST,
+            { header, reason }
+          );
+        }
+      }
+
+      requestId ??= generate();
 
       // Set request ID in request and response
-      req.headers['x-request-id'] = requestId;
-      res.setHeader('x-request-id', requestId);
+      req.headers[headerNames[0]] = requestId;
+      res.setHeader(headerNames[0], requestId);
 
-      next();
+      const context: RequestContext = { requestId };
+      if (this.options.traceContext !== false) {
+        Object.assign(context, this.propagateTraceContext(req, res));
+      }
+
+      RequestContextStore.run(context, () => (error ? next(error) : next()));
     };
   }
+
+  /**
+   * Creates the request ID generator for the configured strategy.
+   *
+   * @private
+   * @returns {() => string} Function generating a new request ID
+   * @throws {CertusAdiValtError} CFG_INVALID_REQUEST_ID_GENERATOR - When the strategy is unknown
+   */
+  private createGenerator(): () => string {
+    const { generator = 'uuidv4', idPrefix = 'req_' } = this.options;
+
+    if (typeof generator === 'function') {
+      return generator;
+    }
+
+    switch (generator) {
+      case 'uuidv4':
+        return () => randomUUID();
+      case 'uuidv7':
+        return () => CommonUtils.generateUuidV7();
+      case 'ulid':
+        return () => CommonUtils.generateUlid();
+      case 'prefixed':
+        return () => CommonUtils.generateId(idPrefix);
+      default:
+        throw new CertusAdiValtError(
+          `Unknown request ID generator "${generator}"`,
+          'CFG_INVALID_REQUEST_ID_GENERATOR',
+          400
+        );
+    }
+  }
+
+  /**
+   * Continues the incoming W3C trace (or starts a new one) with a new span and
+   * sets the resulting trace headers on the request and response.
+   *
+   * @private
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @returns {RequestContext} traceId, spanId and, for a continued trace, parentSpanId
+   */
+  private propagateTraceContext(req: Request, res: Response): RequestContext {
+    const parent = W3CTraceContext.parseTraceparent(req.headers.traceparent);
+    const tracestate = parent ? W3CTraceContext.parseTracestate(req.headers.tracestate) : undefined;
+
+    const traceId = parent?.traceId ?? W3CTraceContext.generateTraceId();
+    const spanId = W3CTraceContext.generateSpanId();
+    const traceparent = W3CTraceContext.formatTraceparent({
+      version: '00',
+      traceId,
+      parentId: spanId,
+      traceFlags: parent?.traceFlags ?? '00',
+    });
+
+    req.headers.traceparent = traceparent;
+    res.setHeader('traceparent', traceparent);
+
+    if (tracestate) {
+      req.headers.tracestate = tracestate;
+      res.setHeader('tracestate', tracestate);
+    } else {
+      delete req.headers.tracestate;
+    }
+
+    return { traceId, spanId, ...(parent && { parentSpanId: parent.parentId }) };
+  }
 }
@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { ConfigManager, RequestDeadline, RouteMatcher } from '../../adi';
+import { DeadlineMiddlewareOptions } from '../../types';
+
+/** Header the client's time budget is read from by default */
+const DEFAULT_HEADER_NAME = 'x-request-timeout';
+
+/** Default upper bound of a client-requested time budget */
+const DEFAULT_MAX_TIMEOUT_MS = 60000;
+
+/** Syntax of a time budget: milliseconds, or a number with an `ms` or `s` unit */
+const TIMEOUT_PATTERN = /^(\d+(?:\.\d+)?)\s*(ms|s)?$/i;
+
+/**
+ * Express middleware setting a deadline for each request.
+ *
+ * The time budget comes from the `x-request-timeout` header (so that a caller can
+ * pass on the time it has left), bounded by `maxTimeoutMs`, or from
+ * `defaultTimeoutMs`. The rest of the request runs inside a `RequestDeadline`
+ * scope: `withTimeout()` calls and nested deadlines never outlive it, and
+ * `RequestDeadline.signal()` aborts with a `CertusOperationTimeoutError`
+ * (504, `GEN_TIMEOUT`) when it expires. Operations given the signal reject with
+ * that error, which ErrorMiddleware turns into a 504 response.
+ *
+ * @class DeadlineMiddleware
+ *
+ * @example
+ * ```typescript
+ * const app = express();
+ *
+ * app.use(new CorrelationMiddleware().generateRequestId());
+ * app.use(new DeadlineMiddleware({ defaultTimeoutMs: 10000, maxTimeoutMs: 30000 }).handle());
+ *
+ * app.get('/api/quotes/:sku', async (req, res) => {
+ *   // Bounded by 2 seconds and by the request deadline, whichever comes first
+ *   const quote = await withTimeout((signal) => pricingApi.quote(req.params.sku, { signal }), 2000);
+ *   res.json(quote);
+ * });
+ *
+ * app.use(new ErrorMiddleware(logger).handle());
+ *
+ * // A caller with 1.5 seconds left:
+ * // GET /api/quotes/sku-1
+ * // x-request-timeout: 1500
+ * ```
+ */
+export class DeadlineMiddleware {
+  private options: DeadlineMiddlewareOptions;
+  private skipMatcher?: RouteMatcher;
+
+  /**
+   * Creates a new DeadlineMiddleware instance.
+   *
+   * @param {DeadlineMiddlewareOptions} [options={}] - Header, default and maximum time budget
+   *
+   * @example
+   * ```typescript
+   * // Honor the budget of gRPC-style gateways, without a default
+   * const deadlines = new DeadlineMiddleware({ headerName: 'grpc-timeout-ms' });
+   * ```
+   */
+  constructor(options: DeadlineMiddlewareOptions = {}) {
+    this.options = options;
+    this.skipMatcher = options.skipPaths && new RouteMatcher(options.skipPaths);
+  }
+
+  /**
+   * Parses a time budget header value.
+   *
+   * Accepts milliseconds (`1500`), or a number with an `ms` or `s` unit
+   * (`1500ms`, `1.5s`).
+   *
+   * @param {string | string[] | undefined} value - The raw header value
+   * @returns {number | undefined} The budget in milliseconds, or undefined when missing or invalid
+   *
+   * @example
+   * ```typescript
+   * deadlines.parseTimeout('2.5s'); // 2500
+   * deadlines.parseTimeout('soon'); // undefined
+   * ```
+   */
+  parseTimeout(value: string | string[] | undefined): number | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+
+    const match = TIMEOUT_PATTERN.exec(value.trim());
+    if (!match) {
+      return undefined;
+    }
+
+    const amount = Number(match[1]);
+    return Math.round(match[2]?.toLowerCase() === 's' ? amount * 1000 : amount);
+  }
+
+  /**
+   * Generates Express middleware opening a deadline scope for each request.
+   *
+   * Requests without a valid header and without `defaultTimeoutMs` run without a
+   * deadline. The scope ends when the response is closed.
+   *
+   * @returns {function} Express middleware function
+   *
+   * @example
+   * ```typescript
+   * app.use('/api', new DeadlineMiddleware({ defaultTimeoutMs: 5000 }).handle());
+   * ```
+   */
+  handle() {
+    const headerName = (this.options.headerName ?? DEFAULT_HEADER_NAME).toLowerCase();
+    const maxTimeoutMs = this.options.maxTimeoutMs ?? DEFAULT_MAX_TIMEOUT_MS;
+
+    return (req: Request, res: Response, next: NextFunction) => {
+      if ((this.skipMatcher ?? ConfigManager.getInstance().getSkipPathMatcher()).matches(req)) {
+        return next();
+      }
+
+      const requested = this.parseTimeout(req.headers[headerName]);
+      const budgetMs =
+        requested !== undefined ? Math.min(requested, maxTimeoutMs) : this.options.defaultTimeoutMs;
+
+      if (budgetMs === undefined) {
+        return next();
+      }
+
+      return RequestDeadline.run(
+        budgetMs,
+        () =>
+          new Promise<void>((resolve) => {
+            res.once('close', () => resolve());
+            next();
+          })
+      );
+    };
+  }
+}
@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { ValtLogger } from '../logger';
-import { isErrorResponse, ResponseFormatter } from '../../responses';
+import { isErrorResponse, PROBLEM_JSON_CONTENT_TYPE, ResponseFormatter } from '../../responses';
 import { CertusAdiValtError } from '../../certus';
 import { HttpStatus } from '../../constants';
+import { ConfigManager } from '../../adi';
+import { ErrorMiddlewareOptions, ErrorResponseFormat, LogLevel } from '../../types';
 
 /**
  * Express middleware for comprehensive error handling and 404 route management.
@@ -11,6 +13,20 @@ import { HttpStatus } from '../../constants';
  * consistent error response formatting, and proper 404 handling. Integrates seamlessly
  * with the ValtLogger for error tracking and CorrelationMiddleware for request tracing.
  *
+ * The `errors` configuration section drives the pipeline: `logErrors` and
+ * `silentCodes` decide what is logged, `logLevels` the level by status (WARN for
+ * 4xx and ERROR for 5xx by default), `exposeDetails` whether internal messages and
+ * context reach the client, `includeStack` whether responses carry stack traces,
+ * and `formatError` replaces the response body altogether.
+ *
+ * Errors that carry HTTP hints get the matching response headers: `retryAfter`
+ * (CertusTooManyRequestsError, CertusServiceUnavailableError) becomes `Retry-After`
+ * and `allowedMethods` (CertusMethodNotAllowedError) becomes `Allow`.
+ *
+ * While the `middleware.enableErrorHandler` setting is off, errors and unmatched
+ * routes are passed on to the next handler (Express's default one, unless another
+ * is registered).
+ *
  * @class ErrorMiddleware
  *
  * @example
@@ -37,11 +53,14 @@ import { HttpStatus } from '../../constants';
  */
 export class ErrorMiddleware {
   private logger: ValtLogger;
+  private options: ErrorMiddlewareOptions;
 
   /**
    * Creates a new ErrorMiddleware instance with the specified logger.
    *
    * @param {ValtLogger} logger - Logger instance for structured error logging
+   * @param {ErrorMiddlewareOptions} [options={}] - Response format options; unset values
+   *        fall back to the `responses` configuration section
    *
    * @example
    * ```typescript
@@ -63,10 +82,22 @@ export class ErrorMiddleware {
    * });
    *
    * const devErrorMiddleware = new ErrorMiddleware(devLogger);
+   *
+   * // RFC 9457 Problem Details when the client asks for application/problem+json
+   * const negotiatingErrorMiddleware = new ErrorMiddleware(productionLogger, {
+   *   errorFormat: 'negotiate',
+   *   problemTypeBaseUri: 'https://api.example.com/problems/'
+   * });
+   *
+   * // Error messages in the client's language (codes are unchanged)
+   * const localizedErrorMiddleware = new ErrorMiddleware(productionLogger, {
+   *   messages: new MessageCatalog({ bundles: { de: deMessages, fr: frMessages } })
+   * });
    * ```
    */
-  constructor(logger: ValtLogger) {
+  constructor(logger: ValtLogger, options: ErrorMiddlewareOptions = {}) {
     this.logger = logger;
+    this.options = options;
   }
 
   /**
@@ -74,7 +105,8 @@ export class ErrorMiddleware {
    *
    * Catches all errors thrown in the application, logs them with comprehensive context,
    * and returns formatted error responses. Integrates with request ID correlation for
-   * distributed tracing and provides environment-appropriate error details.
+   * distributed tracing. The `errors` configuration section is read on every error,
+   * so it can be changed with `ConfigManager.updateConfig()`.
    *
    * @returns {function} Express error handling middleware
    *
@@ -89,7 +121,7 @@ export class ErrorMiddleware {
    * });
    *
    * // If user not found, error is caught by handle() middleware:
-   * // - Logs: { message: "Request processing error", method: "GET", path: "/users/123", ... }
+   * // - Logs a warning: { message: "Request processing error", method: "GET", path: "/users/123", ... }
    * // - Returns: { error: { message: "User not found", code: "DB_NOT_FOUND", statusCode: 404 } }
    *
    * // 2. Validation error
@@ -98,36 +130,27 @@ export class ErrorMiddleware {
    *     throw new CertusAdiValtError('Email is required', 'VALIDATION_ERROR', 400);
    *   }
    * });
+   *
+   * // 3. Quieter logs: 404s at DEBUG, expired tokens not at all
+   * ConfigManager.getInstance().updateConfig({
+   *   errors: {
+   *     ...ConfigManager.getInstance().getErrorsConfig(),
+   *     logLevels: { '404': LogLevel.DEBUG },
+   *     silentCodes: ['AUTH_TOKEN_EXPIRED'],
+   *   },
+   * });
    * ```
    */
   handle() {
     return (error: Error, req: Request, res: Response, next: NextFunction) => {
-      const requestId = req.headers['x-request-id'] as string;
-
-      // Log the error
-      this.logger.error(
-        'Request processing error',
-        {
-          method: req.method,
-          path: req.path,
-          requestId,
-          ip: req.ip,
-          userAgent: req.get('User-Agent'),
-        },
-        error
-      );
+      if (!this.isEnabled()) {
+        return next(error);
+      }
 
-      // Format and send error response
-      const response = ResponseFormatter.formatError(error, {
-        requestId,
-        includeDetails: process.env.NODE_ENV === 'development',
-      });
+      const requestId = req.headers['x-request-id'] as string;
 
-      if (isErrorResponse(response)) {
-        res.status(response.error.statusCode).json(response);
-      } else {
-        res.status(HttpStatus.INTERNAL_SERVER_ERROR).json(response);
-      }
+      this.logError(error, req, requestId);
+      this.sendError(error, req, res, requestId);
     };
   }
 
@@ -163,6 +186,10 @@ export class ErrorMiddleware {
    */
   notFound() {
     return (req: Request, res: Response, next: NextFunction) => {
+      if (!this.isEnabled()) {
+        return next();
+      }
+
       const requestId = req.headers['x-request-id'] as string;
 
       const error = new CertusAdiValtError(
@@ -172,8 +199,214 @@ export class ErrorMiddleware {
         { method: req.method, path: req.path }
       );
 
-      const response = ResponseFormatter.formatError(error, { requestId });
-      res.status(404).json(response);
+      this.sendError(error, req, res, requestId);
     };
   }
+
+  /**
+   * Logs a handled error at the level configured for its status, unless error
+   * logging is off or its code is silent.
+   *
+   * @private
+   * @param {Error} error - The error to log
+   * @param {Request} req - Express request providing the log context
+   * @param {string} [requestId] - Request ID for tracing
+   */
+  private logError(error: Error, req: Request, requestId?: string): void {
+    const { logErrors, logLevels = {}, silentCodes = [] } = this.getErrorsConfig();
+    const isCertusError = error instanceof CertusAdiValtError;
+    if (!logErrors || (isCertusError && silentCodes.includes(error.code))) {
+      return;
+    }
+
+    const status = isCertusError ? error.statusCode : HttpStatus.INTERNAL_SERVER_ERROR;
+    const level =
+      logLevels[String(status)] ?? logLevels[`${Math.floor(status / 100)}xx`] ?? LogLevel.ERROR;
+    const context = {
+      method: req.method,
+      path: req.path,
+      requestId,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    };
+
+    switch (level) {
+      case LogLevel.ERROR:
+        return this.logger.error('Request processing error', context, error);
+      case LogLevel.WARN:
+        return this.logger.warn('Request processing error', context, error);
+      default: {
+        // info(), debug() and trace() take no error, so its code and message join the context
+        const log = level === LogLevel.INFO ? 'info' : level === LogLevel.DEBUG ? 'debug' : 'trace';
+        return this.logger[log]('Request processing error', {
+          ...context,
+          code: isCertusError ? error.code : undefined,
+          error: error.message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Formats an error in the negotiated wire format and writes it to the response.
+   *
+   * With a message translator, messages are translated into the locale negotiated
+   * from `Accept-Language`, announced in the `Content-Language` header. A
+   * `formatError` hook of the `errors` configuration section replaces the formatter;
+   * the status still comes from the error, and so do the `Retry-After` and `Allow`
+   * headers.
+   *
+   * @private
+   * @param {unknown} error - The error to send
+   * @param {Request} req - Express request, used for content and language negotiation and the
+   *        `instance` member
+   * @param {Response} res - Express response
+   * @param {string} [requestId] - Request ID for tracing
+   */
+  private sendError(error: unknown, req: Request, res: Response, requestId?: string): void {
+    const { exposeDetails: includeDetails, includeStack, formatError } = this.getErrorsConfig();
+
+    this.setErrorHeaders(error, res);
+
+    if (formatError) {
+      res
+        .status(
+          error instanceof CertusAdiValtError ? error.statusCode : HttpStatus.INTERNAL_SERVER_ERROR
+        )
+        .json(formatError(error as Error));
+      return;
+    }
+
+    const translation = this.resolveTranslation(req, res);
+
+    if (this.shouldUseProblemDetails(req)) {
+      const problem = ResponseFormatter.formatProblem(error, {
+        requestId,
+        includeDetails,
+        includeStack,
+        instance: req.originalUrl || req.path,
+        typeBaseUri:
+          this.options.problemTypeBaseUri ?? this.getResponsesConfig().problemTypeBaseUri,
+        ...translation,
+      });
+
+      res.setHeader('Content-Type', PROBLEM_JSON_CONTENT_TYPE);
+      res.status(problem.status).json(problem);
+      return;
+    }
+
+    const response = ResponseFormatter.formatError(error, {
+      requestId,
+      includeDetails,
+      includeStack,
+      ...translation,
+    });
+
+    if (isErrorResponse(response)) {
+      res.status(response.error.statusCode).json(response);
+    } else {
+      res.status(HttpStatus.INTERNAL_SERVER_ERROR).json(response);
+    }
+  }
+
+  /**
+   * Sets the response headers an error asks for: `Retry-After` from its `retryAfter`
+   * seconds and `Allow` from its `allowedMethods`.
+   *
+   * The fields are read rather than the classes checked, so that rehydrated errors
+   * and custom classes with the same fields get the headers too.
+   *
+   * @private
+   * @param {unknown} error - The error to send
+   * @param {Response} res - Express response
+   */
+  private setErrorHeaders(error: unknown, res: Response): void {
+    if (!(error instanceof CertusAdiValtError)) {
+      return;
+    }
+
+    const { retryAfter, allowedMethods } = error as CertusAdiValtError & {
+      retryAfter?: unknown;
+      allowedMethods?: unknown;
+    };
+    if (typeof retryAfter === 'number' && retryAfter >= 0) {
+      res.setHeader('Retry-After', String(Math.ceil(retryAfter)));
+    }
+    if (Array.isArray(allowedMethods) && allowedMethods.length > 0) {
+      res.setHeader('Allow', allowedMethods.join(', '));
+    }
+  }
+
+  /**
+   * Negotiates the response locale when a message translator is configured.
+   *
+   * @private
+   * @param {Request} req - Express request, read for `Accept-Language`
+   * @param {Response} res - Express response, given the `Content-Language` and `Vary` headers
+   * @returns Translation options for the formatter, or an empty object without a translator
+   */
+  private resolveTranslation(req: Request, res: Response) {
+    const { messages } = this.options;
+    if (!messages) {
+      return {};
+    }
+
+    const locale = messages.resolveLocale(req.get('Accept-Language'));
+    res.setHeader('Content-Language', locale);
+    res.vary('Accept-Language');
+    return { messages, locale };
+  }
+
+  /**
+   * Decides whether the error should be rendered as Problem Details.
+   *
+   * In `negotiate` mode the client must rank `application/problem+json` above
+   * `application/json`; wildcard `Accept` headers keep the standard envelope.
+   *
+   * @private
+   * @param {Request} req - Express request
+   * @returns {boolean} True if the response should be `application/problem+json`
+   */
+  private shouldUseProblemDetails(req: Request): boolean {
+    const format: ErrorResponseFormat =
+      this.options.errorFormat ?? this.getResponsesConfig().errorFormat ?? 'standard';
+
+    if (format === 'negotiate') {
+      return (
+        req.accepts(['application/json', PROBLEM_JSON_CONTENT_TYPE]) === PROBLEM_JSON_CONTENT_TYPE
+      );
+    }
+
+    return format === 'problem';
+  }
+
+  /**
+   * Checks the `middleware.enableErrorHandler` setting.
+   *
+   * @private
+   * @returns {boolean} True if errors are handled by this middleware
+   */
+  private isEnabled(): boolean {
+    return ConfigManager.getInstance().getMiddlewareConfig().enableErrorHandler;
+  }
+
+  /**
+   * Reads the errors configuration section driving logging and response details.
+   *
+   * @private
+   * @returns Errors configuration section
+   */
+  private getErrorsConfig() {
+    return ConfigManager.getInstance().getErrorsConfig();
+  }
+
+  /**
+   * Reads the responses configuration section used for unset middleware options.
+   *
+   * @private
+   * @returns Responses configuration section
+   */
+  private getResponsesConfig() {
+    return ConfigManager.getInstance().getResponsesConfig();
+  }
 }
@@ -1,4 +1,8 @@
 export * from './correlation-middleware';
+export * from './deadline-middleware';
 export * from './error-middleware';
 export * from './logging-middleware';
+export * from './rate-limit-middleware';
 export * from './response-middleware';
+export * from './security-middleware';
+export * from './validation-middleware';
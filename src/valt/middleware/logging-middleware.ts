@@ -1,5 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import { ValtLogger } from '../logger';
+import { ConfigManager, RouteMatcher } from '../../adi';
+import { LoggingMiddlewareOptions, LogSamplingRule } from '../../types';
+
+/**
+ * Compiled log sampling rule.
+ */
+interface SamplingRoute {
+  matcher: RouteMatcher;
+  rate: number;
+}
+
+/** Sampling rules when neither the options nor the configuration have any */
+const NO_SAMPLING: LogSamplingRule[] = [];
 
 /**
  * Express middleware for comprehensive request logging with performance monitoring.
@@ -8,6 +21,11 @@ import { ValtLogger } from '../logger';
  * timing information, status codes, and contextual data. Integrates with the
  * ValtLogger for structured logging and CorrelationMiddleware for request tracing.
  *
+ * Nothing is logged while the `middleware.enableLogging` setting is off, nor for the
+ * `skipPaths` (by default the `middleware.skipPaths` setting: `/health`, `/metrics`
+ * and `/favicon.ico`). Sampling rates per route keep high-volume endpoints from
+ * flooding the logs, while failed requests are still logged.
+ *
  * @class LoggingMiddleware
  *
  * @example
@@ -30,11 +48,18 @@ import { ValtLogger } from '../logger';
  */
 export class LoggingMiddleware {
   private logger: ValtLogger;
+  private options: LoggingMiddlewareOptions;
+  private skipMatcher?: RouteMatcher;
+  private sampling?: { rules: LogSamplingRule[]; routes: SamplingRoute[] };
 
   /**
    * Creates a new LoggingMiddleware instance with the specified logger.
    *
    * @param {ValtLogger} logger - Logger instance for structured request logging
+   * @param {LoggingMiddlewareOptions} [options={}] - Skipped paths and sampling rates;
+   *        unset values fall back to the `middleware` configuration section
+   *
+   * @throws {CertusConfigurationError} When a route pattern is invalid
    *
    * @example
    * ```typescript
@@ -57,10 +82,20 @@ export class LoggingMiddleware {
    * });
    *
    * const devLogging = new LoggingMiddleware(devLogger);
+   *
+   * // Log 1% of the search requests and 10% of the other GETs of the catalog
+   * const sampledLogging = new LoggingMiddleware(prodLogger, {
+   *   sampling: [
+   *     { route: '/api/search', rate: 0.01 },
+   *     { route: 'GET /api/catalog/**', rate: 0.1 },
+   *   ],
+   * });
    * ```
    */
-  constructor(logger: ValtLogger) {
+  constructor(logger: ValtLogger, options: LoggingMiddlewareOptions = {}) {
     this.logger = logger;
+    this.options = options;
+    this.skipMatcher = options.skipPaths && new RouteMatcher(options.skipPaths);
   }
 
   /**
@@ -93,23 +128,46 @@ export class LoggingMiddleware {
    * ```
    */
   requestLogger() {
+    const { sampleRate = 1, alwaysLogErrors = true } = this.options;
+
     return (req: Request, res: Response, next: NextFunction) => {
+      const configManager = ConfigManager.getInstance();
+      if (
+        !configManager.getMiddlewareConfig().enableLogging ||
+        (this.skipMatcher ?? configManager.getSkipPathMatcher()).matches(req)
+      ) {
+        return next();
+      }
+
+      const rate =
+        this.getSampling().find(({ matcher }) => matcher.matches(req))?.rate ?? sampleRate;
+      const sampled = rate >= 1 || Math.random() < rate;
+      if (!sampled && !alwaysLogErrors) {
+        return next();
+      }
+
       const start = Date.now();
       const requestId = req.headers['x-request-id'] as string;
 
       // Log request start
-      this.logger.info('Incoming request', {
-        method: req.method,
-        path: req.path,
-        requestId,
-        ip: req.ip,
-        userAgent: req.get('User-Agent'),
-        query: req.query,
-        params: req.params,
-      });
+      if (sampled) {
+        this.logger.info('Incoming request', {
+          method: req.method,
+          path: req.path,
+          requestId,
+          ip: req.ip,
+          userAgent: req.get('User-Agent'),
+          query: req.query,
+          params: req.params,
+        });
+      }
 
       // Capture response finish
       res.on('finish', () => {
+        if (!sampled && res.statusCode < 400) {
+          return;
+        }
+
         const duration = Date.now() - start;
         const context = {
           method: req.method,
@@ -134,4 +192,27 @@ export class LoggingMiddleware {
       next();
     };
   }
+
+  /**
+   * Gets the compiled sampling rules of the options, or of the configuration.
+   * Rules are compiled again only when the configured rules change, so that
+   * `ConfigManager.updateConfig()` applies to running middleware.
+   *
+   * @private
+   * @returns {SamplingRoute[]} Matchers and rates, in order of precedence
+   */
+  private getSampling(): SamplingRoute[] {
+    const rules =
+      this.options.sampling ??
+      ConfigManager.getInstance().getMiddlewareConfig().logSampling ??
+      NO_SAMPLING;
+
+    if (this.sampling?.rules !== rules) {
+      this.sampling = {
+        rules,
+        routes: rules.map(({ route, rate }) => ({ matcher: new RouteMatcher([route]), rate })),
+      };
+    }
+    return this.sampling.routes;
+  }
 }
@@ -0,0 +1,223 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { ConfigManager, RequestContextStore, RouteMatcher } from '../../adi';
+import { CertusConfigurationError, CertusTooManyRequestsError } from '../../certus';
+import { ErrorCatalog, ErrorCodes, ErrorCodeType, ErrorMessages } from '../../constants';
+import {
+  RateLimitMiddlewareOptions,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+} from '../../types';
+import { MemoryRateLimitStore } from '../resilience';
+
+/** Header holding the API key by default */
+const DEFAULT_API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Express middleware limiting the rate of requests per client.
+ *
+ * Each request is counted against the client's quota in the store, with the
+ * `sliding-window` or `token-bucket` algorithm. Clients are identified by IP
+ * address, authenticated user or API key, or by a custom function. Responses
+ * carry the `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and
+ * `RateLimit-Policy` headers (IETF RateLimit header fields draft). Requests over
+ * the limit are passed to `next()` as a CertusTooManyRequestsError (`SRV_RATE_LIMIT`,
+ * or the configured code) whose `retryAfter` ErrorMiddleware sends as the
+ * `Retry-After` header, so that they are rendered like any other error. The error
+ * context holds `limit`, `windowMs` and `retryAfterMs`, which RetryPolicy honors.
+ *
+ * The result of each check is stored in `res.locals.rateLimit` for route handlers.
+ *
+ * @class RateLimitMiddleware
+ *
+ * @example
+ * ```typescript
+ * const app = express();
+ *
+ * // 100 requests per minute per IP address
+ * app.use('/api', new RateLimitMiddleware().handle());
+ *
+ * // 5 login attempts per 15 minutes, reported as AUTH_RATE_LIMIT_EXCEEDED
+ * app.post(
+ *   '/auth/login',
+ *   new RateLimitMiddleware({
+ *     limit: 5,
+ *     windowMs: 15 * 60 * 1000,
+ *     keyPrefix: 'login',
+ *     code: 'AUTH_RATE_LIMIT_EXCEEDED',
+ *   }).handle(),
+ *   loginHandler
+ * );
+ *
+ * app.use(new ErrorMiddleware(logger).handle());
+ *
+ * // Response headers:
+ * // RateLimit-Limit: 100
+ * // RateLimit-Remaining: 99
+ * // RateLimit-Reset: 60
+ * // RateLimit-Policy: 100;w=60
+ * ```
+ */
+export class RateLimitMiddleware {
+  private options: RateLimitMiddlewareOptions;
+  private store: RateLimitStore;
+  private rule: RateLimitRule;
+  private skipMatcher?: RouteMatcher;
+
+  /**
+   * Creates a new RateLimitMiddleware instance.
+   *
+   * @param {RateLimitMiddlewareOptions} [options={}] - Limit, algorithm, key and store options
+   *
+   * @throws {CertusConfigurationError} When the limit or window is not a positive number
+   *
+   * @example
+   * ```typescript
+   * // Burst-friendly limit per API key, shared between instances
+   * const limiter = new RateLimitMiddleware({
+   *   algorithm: 'token-bucket',
+   *   limit: 20,
+   *   windowMs: 1000,
+   *   key: 'api-key',
+   *   store: new RedisRateLimitStore(redis),
+   * });
+   * ```
+   */
+  constructor(options: RateLimitMiddlewareOptions = {}) {
+    this.options = options;
+    this.store = options.store ?? new MemoryRateLimitStore();
+    this.skipMatcher = options.skipPaths && new RouteMatcher(options.skipPaths);
+    this.rule = {
+      algorithm: options.algorithm ?? 'sliding-window',
+      limit: options.limit ?? 100,
+      windowMs: options.windowMs ?? 60000,
+    };
+
+    const invalidOptions = (['limit', 'windowMs'] as const).filter(
+      (option) => !(this.rule[option] > 0)
+    );
+    if (invalidOptions.length > 0) {
+      throw new CertusConfigurationError('Invalid rate limit options', { invalidOptions });
+    }
+  }
+
+  /**
+   * Identifies the client of a request.
+   *
+   * @param {Request} req - Express request object
+   * @returns {string | undefined} Store key of the client, or undefined when the
+   *          request is not limited
+   *
+   * @example
+   * ```typescript
+   * limiter.resolveKey(req); // 'rate-limit:user:user_42'
+   * ```
+   */
+  resolveKey(req: Request): string | undefined {
+    const { key = 'ip', keyPrefix = 'rate-limit' } = this.options;
+    const ip = `ip:${req.ip ?? req.socket?.remoteAddress ?? 'unknown'}`;
+
+    let id: string | undefined;
+    if (typeof key === 'function') {
+      id = key(req);
+    } else if (key === 'user') {
+      const userId =
+        RequestContextStore.getValue('userId') ??
+        (req as Request & { user?: { id?: unknown } }).user?.id;
+      id = userId !== undefined ? `user:${userId}` : ip;
+    } else if (key === 'api-key') {
+      const apiKey =
+        req.headers[(this.options.apiKeyHeader ?? DEFAULT_API_KEY_HEADER).toLowerCase()];
+      // Hashed, so that stores and logs never hold the key itself
+      id =
+        typeof apiKey === 'string' && apiKey
+          ? `key:${createHash('sha256').update(apiKey).digest('hex').slice(0, 32)}`
+          : ip;
+    } else {
+      id = ip;
+    }
+
+    return id === undefined ? undefined : `${keyPrefix}:${id}`;
+  }
+
+  /**
+   * Generates Express middleware counting each request against the client's quota.
+   *
+   * @returns {function} Express middleware function
+   *
+   * @example
+   * ```typescript
+   * app.use(
+   *   new RateLimitMiddleware({ skip: (req) => req.path === '/health' }).handle()
+   * );
+   * ```
+   */
+  handle() {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (
+        (this.skipMatcher ?? ConfigManager.getInstance().getSkipPathMatcher()).matches(req) ||
+        this.options.skip?.(req)
+      ) {
+        return next();
+      }
+
+      const key = this.resolveKey(req);
+      if (key === undefined) {
+        return next();
+      }
+
+      let result: RateLimitResult;
+      try {
+        result = await this.store.hit(key, this.rule);
+      } catch (error) {
+        return next(error);
+      }
+
+      res.locals.rateLimit = result;
+      if (this.options.headers !== false) {
+        this.setHeaders(res, result);
+      }
+
+      if (result.allowed) {
+        return next();
+      }
+
+      next(this.createError(result));
+    };
+  }
+
+  /**
+   * Creates the error of a rejected request.
+   *
+   * @private
+   * @param {RateLimitResult} result - Outcome of the check
+   * @returns {CertusTooManyRequestsError} 429 error with the configured code, its
+   *          catalog message and the seconds to wait as `retryAfter`
+   */
+  private createError(result: RateLimitResult): CertusTooManyRequestsError {
+    const code = this.options.code ?? ErrorCodes.SRV_RATE_LIMIT;
+    const entry = ErrorCatalog[code as ErrorCodeType];
+    const error = new CertusTooManyRequestsError(
+      entry && ErrorMessages[entry.messageKey],
+      { limit: result.limit, windowMs: this.rule.windowMs, retryAfterMs: result.retryAfterMs },
+      Math.ceil(result.retryAfterMs / 1000)
+    );
+
+    return code === error.code ? error : error.withCode(code);
+  }
+
+  /**
+   * Sets the `RateLimit-*` headers of a response.
+   *
+   * @private
+   * @param {Response} res - Express response object
+   * @param {RateLimitResult} result - Outcome of the check
+   */
+  private setHeaders(res: Response, result: RateLimitResult): void {
+    res.setHeader('RateLimit-Limit', String(result.limit));
+    res.setHeader('RateLimit-Remaining', String(result.remaining));
+    res.setHeader('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+    res.setHeader('RateLimit-Policy', `${result.limit};w=${Math.ceil(this.rule.windowMs / 1000)}`);
+  }
+}
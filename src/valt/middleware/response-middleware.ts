@@ -1,5 +1,8 @@
 import { ResponseFormatter } from '../../responses';
 import { Request, Response, NextFunction } from 'express';
+import { SuccessMessages } from '../../constants';
+import { ResponseMiddlewareOptions } from '../../types';
+import { ConfigManager, RouteMatcher } from '../../adi';
 
 /**
  * Express middleware for standardizing success response formatting across the API.
@@ -39,9 +42,33 @@ import { Request, Response, NextFunction } from 'express';
  * //   timestamp: '2023-10-05T12:00:00.000Z',
  * //   requestId: 'req_123'
  * // }
+ *
+ * // Success messages in the client's language
+ * const localizedResponseMiddleware = new ResponseMiddleware({
+ *   messages: new MessageCatalog({ bundles: { fr: { success: { RESOURCE_CREATED: 'Ressource créée' } } } })
+ * });
  * ```
  */
 export class ResponseMiddleware {
+  private options: ResponseMiddlewareOptions;
+  private skipMatcher?: RouteMatcher;
+
+  /**
+   * Creates a new ResponseMiddleware instance.
+   *
+   * @param {ResponseMiddlewareOptions} [options={}] - Message translation options
+   *
+   * @example
+   * ```typescript
+   * const messages = new MessageCatalog({ bundles: { es: esMessages } });
+   * const responseMiddleware = new ResponseMiddleware({ messages });
+   * ```
+   */
+  constructor(options: ResponseMiddlewareOptions = {}) {
+    this.options = options;
+    this.skipMatcher = options.skipPaths && new RouteMatcher(options.skipPaths);
+  }
+
   /**
    * Success response formatting middleware for Express applications.
    *
@@ -49,6 +76,10 @@ export class ResponseMiddleware {
    * responses. Preserves existing formatted responses, adds request correlation IDs,
    * and provides appropriate success messages for common status codes like 201 Created.
    *
+   * With a message translator, the locale negotiated from `Accept-Language` is stored in
+   * `res.locals.locale` for route handlers, and success messages are translated into it
+   * (announced in the `Content-Language` header).
+   *
    * @returns {function} Express middleware function
    *
    * @example
@@ -79,13 +110,34 @@ export class ResponseMiddleware {
    *   };
    *   res.json(customResponse); // Left unchanged due to existing 'success' field
    * });
+   *
+   * // Handler messages in the negotiated locale
+   * app.put('/api/profile', (req: Request, res: Response) => {
+   *   const profile = profileService.update(req.body);
+   *   res.json(
+   *     ResponseFormatter.formatSuccess(profile, {
+   *       message: messages.translate('success', 'PROFILE_UPDATED', res.locals.locale),
+   *     })
+   *   );
+   * });
    * ```
    */
   successHandler() {
+    const { messages } = this.options;
+
     return (req: Request, res: Response, next: NextFunction) => {
+      if ((this.skipMatcher ?? ConfigManager.getInstance().getSkipPathMatcher()).matches(req)) {
+        return next();
+      }
+
       // Store original json method
       const originalJson = res.json;
 
+      const locale = messages?.resolveLocale(req.get('Accept-Language'));
+      if (locale) {
+        res.locals.locale = locale;
+      }
+
       // Override json method to format responses
       res.json = function (data: any) {
         const requestId = req.headers['x-request-id'] as string;
@@ -96,10 +148,18 @@ export class ResponseMiddleware {
         }
 
         // Format success response
-        const formattedResponse = ResponseFormatter.formatSuccess(data, {
-          requestId,
-          message: res.statusCode === 201 ? 'Resource created successfully' : undefined,
-        });
+        let message: string | undefined;
+        if (res.statusCode === 201) {
+          message =
+            messages?.translate('success', 'RESOURCE_CREATED', locale) ??
+            SuccessMessages.RESOURCE_CREATED;
+        }
+        if (message && locale) {
+          res.setHeader('Content-Language', locale);
+          res.vary('Accept-Language');
+        }
+
+        const formattedResponse = ResponseFormatter.formatSuccess(data, { requestId, message });
 
         return originalJson.call(this, formattedResponse);
       };
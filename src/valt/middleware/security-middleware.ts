@@ -0,0 +1,384 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomBytes } from 'crypto';
+import { ValtLogger } from '../logger';
+import { ConfigManager, RouteMatcher } from '../../adi';
+import { HttpStatus } from '../../constants';
+import {
+  ContentSecurityPolicyOptions,
+  Environment,
+  SecurityHeadersOptions,
+  SecurityMiddlewareOptions,
+} from '../../types';
+import { SECURITY_HEADER_PRESETS } from '../security';
+
+/** Directives receiving the per-request nonce */
+const NONCE_DIRECTIVES = ['script-src', 'style-src'];
+
+/** Options naming a header, merged over the preset */
+const HEADER_OPTIONS: (keyof SecurityHeadersOptions)[] = [
+  'contentSecurityPolicy',
+  'strictTransportSecurity',
+  'contentTypeOptions',
+  'referrerPolicy',
+  'frameOptions',
+  'permissionsPolicy',
+];
+
+/** Where browsers post violation reports of a report-only policy without a `reportUri` */
+const DEFAULT_REPORT_URI = '/csp-report';
+
+/** Largest violation report body read, in bytes */
+const MAX_REPORT_BYTES = 64 * 1024;
+
+/**
+ * Express middleware setting security response headers.
+ *
+ * Sends `Content-Security-Policy`, `Strict-Transport-Security`,
+ * `X-Content-Type-Options`, `Referrer-Policy`, `X-Frame-Options` and
+ * `Permissions-Policy` from the preset of the environment (see
+ * `SECURITY_HEADER_PRESETS`), with the given options merged over it. The
+ * environment is read from ConfigManager unless given, and the middleware does
+ * nothing while the `middleware.enableSecurity` setting is off.
+ *
+ * Each response gets a fresh CSP nonce, added to `script-src` and `style-src` and
+ * exposed as `res.locals.cspNonce` for inline `<script nonce>` tags. Browsers post
+ * violation reports to the CSP `reportUri`, where `reportHandler()` logs them;
+ * combined with `reportOnly`, a policy can be tried out without blocking anything.
+ * A report-only policy, such as the development preset's, reports to `/csp-report`
+ * unless a `reportUri` is given: mount `reportHandler()` there.
+ *
+ * @class SecurityMiddleware
+ *
+ * @example
+ * ```typescript
+ * const logger = new ValtLogger({ /* config *\/ });
+ * const security = new SecurityMiddleware(logger, {
+ *   contentSecurityPolicy: { reportOnly: true, reportUri: '/csp-report' },
+ * });
+ *
+ * const app = express();
+ *
+ * app.post('/csp-report', security.reportHandler());
+ * app.use(security.handle());
+ *
+ * app.get('/', (req, res) => {
+ *   res.send(`<script nonce="${res.locals.cspNonce}">start()</script>`);
+ * });
+ * ```
+ */
+export class SecurityMiddleware {
+  private logger: ValtLogger;
+  private options: SecurityMiddlewareOptions;
+  private skipMatcher?: RouteMatcher;
+
+  /**
+   * Creates a new SecurityMiddleware instance.
+   *
+   * @param {ValtLogger} logger - Logger receiving CSP violation reports
+   * @param {SecurityMiddlewareOptions} [options={}] - Headers merged over the preset of
+   *        the environment; `false` leaves a header out
+   *
+   * @example
+   * ```typescript
+   * // Production preset with a CDN and without the Permissions-Policy header
+   * const security = new SecurityMiddleware(logger, {
+   *   environment: 'production',
+   *   contentSecurityPolicy: {
+   *     directives: { 'script-src': ["'self'", 'https://cdn.example.com'] },
+   *   },
+   *   permissionsPolicy: false,
+   * });
+   * ```
+   */
+  constructor(logger: ValtLogger, options: SecurityMiddlewareOptions = {}) {
+    this.logger = logger;
+    this.options = options;
+    this.skipMatcher = options.skipPaths && new RouteMatcher(options.skipPaths);
+  }
+
+  /**
+   * Generates Express middleware setting the security headers of each response.
+   *
+   * The headers are resolved when the middleware is created. The
+   * `middleware.enableSecurity` setting is checked on every request, so it can be
+   * switched with `ConfigManager.updateConfig()`.
+   *
+   * @returns {function} Express middleware function
+   *
+   * @example
+   * ```typescript
+   * app.use(security.handle());
+   *
+   * // Response headers in production:
+   * // Content-Security-Policy: default-src 'self'; ...; script-src 'self' 'nonce-r4nd0m...'
+   * // Strict-Transport-Security: max-age=31536000; includeSubDomains
+   * // X-Content-Type-Options: nosniff
+   * // Referrer-Policy: no-referrer
+   * // X-Frame-Options: DENY
+   * // Permissions-Policy: camera=(), microphone=(), geolocation=(), payment=(), usb=()
+   * ```
+   */
+  handle() {
+    const headers = this.resolveHeaders();
+    const staticHeaders = this.getStaticHeaders(headers);
+    const csp = headers.contentSecurityPolicy;
+
+    return (req: Request, res: Response, next: NextFunction) => {
+      const configManager = ConfigManager.getInstance();
+      if (
+        !configManager.getMiddlewareConfig().enableSecurity ||
+        (this.skipMatcher ?? configManager.getSkipPathMatcher()).matches(req)
+      ) {
+        return next();
+      }
+
+      for (const [name, value] of staticHeaders) {
+        res.setHeader(name, value);
+      }
+
+      if (csp) {
+        const nonce = csp.nonce !== false ? randomBytes(16).toString('base64') : undefined;
+        if (nonce) {
+          res.locals.cspNonce = nonce;
+        }
+        res.setHeader(
+          csp.reportOnly ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy',
+          this.formatContentSecurityPolicy(csp, nonce)
+        );
+      }
+
+      next();
+    };
+  }
+
+  /**
+   * Generates an Express handler logging the CSP violation reports posted by browsers.
+   *
+   * Accepts `application/csp-report` bodies (`report-uri`) and Reporting API
+   * batches (`application/reports+json`), whether or not a body parser ran first.
+   * Each violation is logged as a warning; the browser gets a 204 response.
+   *
+   * @returns {function} Express request handler
+   *
+   * @example
+   * ```typescript
+   * app.post('/csp-report', security.reportHandler());
+   *
+   * // Logs: { message: "Content Security Policy violation",
+   * //         violatedDirective: "script-src-elem", blockedUri: "https://evil.example", ... }
+   * ```
+   */
+  reportHandler() {
+    return async (req: Request, res: Response) => {
+      const reports = this.parseReports(await this.readBody(req));
+      if (!reports) {
+        res.status(HttpStatus.BAD_REQUEST).end();
+        return;
+      }
+
+      for (const report of reports) {
+        this.logger.warn('Content Security Policy violation', {
+          ...report,
+          userAgent: req.get('User-Agent'),
+        });
+      }
+
+      res.status(HttpStatus.NO_CONTENT).end();
+    };
+  }
+
+  /**
+   * Merges the options over the preset of the environment. Objects are merged one
+   * level deep, so single CSP directives and permissions can be overridden.
+   *
+   * @private
+   * @returns {SecurityHeadersOptions} Headers to send
+   */
+  private resolveHeaders(): SecurityHeadersOptions {
+    const { environment = this.getEnvironment() } = this.options;
+    const headers: SecurityHeadersOptions = { ...SECURITY_HEADER_PRESETS[environment] };
+
+    for (const name of HEADER_OPTIONS) {
+      const preset = headers[name];
+      const override = this.options[name];
+      if (override === undefined) {
+        continue;
+      }
+
+      if (name === 'contentSecurityPolicy' && preset && override) {
+        const presetCsp = preset as ContentSecurityPolicyOptions;
+        const overrideCsp = override as ContentSecurityPolicyOptions;
+        headers.contentSecurityPolicy = {
+          ...presetCsp,
+          ...overrideCsp,
+          directives: { ...presetCsp.directives, ...overrideCsp.directives },
+        };
+      } else if (name === 'permissionsPolicy' && preset && override) {
+        headers.permissionsPolicy = {
+          ...(preset as Record<string, string[]>),
+          ...(override as Record<string, string[]>),
+        };
+      } else {
+        Object.assign(headers, { [name]: override });
+      }
+    }
+
+    return headers;
+  }
+
+  /**
+   * Renders the headers that are the same for every response.
+   *
+   * @private
+   * @param {SecurityHeadersOptions} headers - Resolved headers
+   * @returns {Array<[string, string]>} Header names and values
+   */
+  private getStaticHeaders(headers: SecurityHeadersOptions): [string, string][] {
+    const result: [string, string][] = [];
+    const { strictTransportSecurity: hsts, permissionsPolicy } = headers;
+
+    if (hsts) {
+      result.push([
+        'Strict-Transport-Security',
+        [
+          `max-age=${hsts.maxAge}`,
+          hsts.includeSubDomains && 'includeSubDomains',
+          hsts.preload && 'preload',
+        ]
+          .filter(Boolean)
+          .join('; '),
+      ]);
+    }
+    if (headers.contentTypeOptions) {
+      result.push(['X-Content-Type-Options', 'nosniff']);
+    }
+    if (headers.referrerPolicy) {
+      result.push(['Referrer-Policy', headers.referrerPolicy]);
+    }
+    if (headers.frameOptions) {
+      result.push(['X-Frame-Options', headers.frameOptions]);
+    }
+    if (permissionsPolicy && Object.keys(permissionsPolicy).length > 0) {
+      result.push([
+        'Permissions-Policy',
+        Object.entries(permissionsPolicy)
+          .map(([feature, allowlist]) =>
+            allowlist.includes('*')
+              ? `${feature}=*`
+              : `${feature}=(${allowlist
+                  .map((origin) => (origin === 'self' ? origin : `"${origin}"`))
+                  .join(' ')})`
+          )
+          .join(', '),
+      ]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Renders the Content Security Policy of a response.
+   *
+   * @private
+   * @param {ContentSecurityPolicyOptions} csp - Policy options
+   * @param {string} [nonce] - Nonce of the response
+   * @returns {string} Header value
+   */
+  private formatContentSecurityPolicy(csp: ContentSecurityPolicyOptions, nonce?: string): string {
+    const directives = Object.entries(csp.directives ?? {}).flatMap(([name, value]) => {
+      if (value === false) {
+        return [];
+      }
+      if (value === true) {
+        return [name];
+      }
+
+      const sources =
+        nonce && NONCE_DIRECTIVES.includes(name) ? [...value, `'nonce-${nonce}'`] : value;
+      return [[name, ...sources].join(' ')];
+    });
+
+    // A report-only policy without a report URI would report nothing at all
+    const reportUri = csp.reportUri ?? (csp.reportOnly ? DEFAULT_REPORT_URI : undefined);
+    if (reportUri) {
+      directives.push(`report-uri ${reportUri}`);
+    }
+
+    return directives.join('; ');
+  }
+
+  /**
+   * Reads the JSON body of a report request, parsing it unless a body parser did.
+   *
+   * @private
+   * @param {Request} req - Express request
+   * @returns {Promise<unknown>} Parsed body, or undefined when missing, too large or invalid
+   */
+  private async readBody(req: Request): Promise<unknown> {
+    if (Array.isArray(req.body) || (req.body && Object.keys(req.body).length > 0)) {
+      return req.body;
+    }
+
+    let raw = '';
+    for await (const chunk of req) {
+      raw += chunk;
+      if (raw.length > MAX_REPORT_BYTES) {
+        return undefined;
+      }
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Extracts the violations of a `report-uri` body or a Reporting API batch.
+   *
+   * @private
+   * @param {unknown} body - Parsed request body
+   * @returns Violation details to log, or undefined when the body is not a report
+   */
+  private parseReports(body: unknown): Record<string, unknown>[] | undefined {
+    if (Array.isArray(body)) {
+      return body
+        .filter((report) => report?.type === 'csp-violation' && report.body)
+        .map(({ body: report }) => ({
+          documentUri: report.documentURL,
+          violatedDirective: report.effectiveDirective,
+          blockedUri: report.blockedURL,
+          sourceFile: report.sourceFile,
+          lineNumber: report.lineNumber,
+          disposition: report.disposition,
+        }));
+    }
+
+    const report = (body as { 'csp-report'?: Record<string, unknown> } | undefined)?.['csp-report'];
+    if (!report || typeof report !== 'object') {
+      return undefined;
+    }
+
+    return [
+      {
+        documentUri: report['document-uri'],
+        violatedDirective: report['effective-directive'] ?? report['violated-directive'],
+        blockedUri: report['blocked-uri'],
+        sourceFile: report['source-file'],
+        lineNumber: report['line-number'],
+        disposition: report.disposition,
+      },
+    ];
+  }
+
+  /**
+   * Reads the environment from the logger configuration section.
+   *
+   * @private
+   * @returns {Environment} Current environment
+   */
+  private getEnvironment(): Environment {
+    return ConfigManager.getInstance().getLoggerConfig().environment;
+  }
+}
@@ -0,0 +1,197 @@
+import { Request, Response, NextFunction } from 'express';
+import { CertusInputValidationError, ViolationCollector } from '../../certus';
+import { RequestSchemas, ValidationLocation, ValidationMiddlewareOptions } from '../../types';
+import { SchemaValidator } from '../validation';
+
+/** Request locations in the order they are validated */
+const LOCATIONS: ValidationLocation[] = ['params', 'query', 'headers', 'body'];
+
+/** Locations whose string values are coerced by default */
+const DEFAULT_COERCE_LOCATIONS: ValidationLocation[] = ['query', 'params', 'headers'];
+
+/**
+ * Express middleware for validating request body, query, params and headers.
+ *
+ * Checks each location against its schema (the built-in `ObjectSchema` DSL or a
+ * Zod, Joi or Yup schema) and replaces the location with the validated value, so
+ * route handlers see coerced numbers and booleans, defaults and, optionally,
+ * only the declared fields. Headers are checked but never rewritten.
+ *
+ * All failures across all locations are reported together as one
+ * `CertusInputValidationError` (400, `VAL_INVALID_INPUT`) passed to `next()`,
+ * whose violation paths start with the location (`/body/email`,
+ * `/query/page`). ErrorMiddleware renders them as the `errors` array.
+ *
+ * @class ValidationMiddleware
+ *
+ * @example
+ * ```typescript
+ * const validation = new ValidationMiddleware({ stripUnknown: true });
+ *
+ * app.get(
+ *   '/api/users',
+ *   validation.validate({
+ *     query: {
+ *       page: { type: 'integer', min: 1, default: 1 },
+ *       role: { type: 'string', enum: ['admin', 'user'] },
+ *     },
+ *   }),
+ *   (req, res) => {
+ *     const { page } = req.query as { page: number }; // ?page=2 → 2
+ *   }
+ * );
+ *
+ * app.post('/api/users', validation.validate({ body: CreateUserSchema }), createUser); // Zod
+ *
+ * // POST /api/users with { "email": "nope" } responds 400:
+ * // {
+ * //   success: false,
+ * //   error: {
+ * //     code: 'VAL_INVALID_INPUT',
+ * //     message: 'Request validation failed',
+ * //     statusCode: 400,
+ * //     errors: [{ path: '/body/email', code: 'VAL_INVALID_EMAIL', message: 'Invalid email address', rejectedValue: 'nope' }],
+ * //     ...
+ * //   }
+ * // }
+ * ```
+ */
+export class ValidationMiddleware {
+  private options: ValidationMiddlewareOptions;
+
+  /**
+   * Creates a new ValidationMiddleware instance.
+   *
+   * @param {ValidationMiddlewareOptions} [options={}] - Coercion, stripping and message options
+   *
+   * @example
+   * ```typescript
+   * // Coerce query strings only, drop undeclared fields
+   * const validation = new ValidationMiddleware({ coerce: ['query'], stripUnknown: true });
+   * ```
+   */
+  constructor(options: ValidationMiddlewareOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Generates Express middleware validating the request against the given schemas.
+   *
+   * Locations without a schema are left untouched. Errors thrown by a third-party
+   * schema that are not validation failures are passed to `next()` unchanged.
+   *
+   * @param {RequestSchemas} schemas - Schemas keyed by request location
+   * @returns {function} Express middleware function (req, res, next) => Promise<void>
+   *
+   * @example
+   * ```typescript
+   * router.put(
+   *   '/orders/:orderId',
+   *   validation.validate({
+   *     params: { orderId: { type: 'string', format: 'uuid', required: true } },
+   *     headers: { 'if-match': { type: 'string', required: true } },
+   *     body: {
+   *       items: {
+   *         type: 'array',
+   *         min: 1,
+   *         items: {
+   *           type: 'object',
+   *           properties: {
+   *             sku: { type: 'string', required: true },
+   *             quantity: { type: 'integer', min: 1, required: true },
+   *           },
+   *         },
+   *       },
+   *     },
+   *   }),
+   *   updateOrder
+   * );
+   * ```
+   */
+  validate(schemas: RequestSchemas) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const collector = new ViolationCollector();
+      const validated: Partial<Record<ValidationLocation, unknown>> = {};
+
+      try {
+        for (const location of LOCATIONS) {
+          const schema = schemas[location];
+          if (!schema) {
+            continue;
+          }
+
+          const result = await SchemaValidator.validate(schema, req[location], {
+            coerce: this.shouldCoerce(location),
+            stripUnknown: location !== 'headers' && (this.options.stripUnknown ?? false),
+          });
+
+          collector.at([location]).addAll(result.violations);
+          validated[location] = result.value;
+        }
+      } catch (error) {
+        next(error);
+        return;
+      }
+
+      if (collector.hasViolations()) {
+        const locations = LOCATIONS.filter((location) =>
+          collector.getViolations().some(({ path }) => path.startsWith(`/${location}`))
+        );
+        next(
+          collector.toError(
+            this.options.message ?? 'Request validation failed',
+            CertusInputValidationError,
+            { locations }
+          )
+        );
+        return;
+      }
+
+      this.applyValidated(req, validated);
+      next();
+    };
+  }
+
+  /**
+   * Checks whether string values of a location are coerced.
+   *
+   * @private
+   * @param {ValidationLocation} location - Request location
+   * @returns {boolean} True if the location is coerced
+   */
+  private shouldCoerce(location: ValidationLocation): boolean {
+    const coerce = this.options.coerce ?? DEFAULT_COERCE_LOCATIONS;
+    return typeof coerce === 'boolean' ? coerce : coerce.includes(location);
+  }
+
+  /**
+   * Replaces the validated request locations with their validated values.
+   *
+   * Express 5 exposes `req.query` as a getter, so it is redefined as an own property.
+   *
+   * @private
+   * @param {Request} req - Express request
+   * @param {Partial<Record<ValidationLocation, unknown>>} validated - Validated values by location
+   */
+  private applyValidated(
+    req: Request,
+    validated: Partial<Record<ValidationLocation, unknown>>
+  ): void {
+    if ('body' in validated) {
+      req.body = validated.body;
+    }
+
+    if ('params' in validated) {
+      req.params = validated.params as Request['params'];
+    }
+
+    if ('query' in validated) {
+      Object.defineProperty(req, 'query', {
+        value: validated.query,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { CircuitBreakerMetrics, CircuitBreakerOptions } from '../../types';
+import { ValtLogger } from '../logger';
+import { CircuitBreaker } from './circuit-breaker';
+
+/**
+ * Registry of circuit breakers keyed by dependency.
+ *
+ * Creates one CircuitBreaker per key on first use, so that each dependency (or
+ * each host, tenant or endpoint of one) trips independently. Breakers share the
+ * registry's default options and logger.
+ *
+ * @class CircuitBreakerRegistry
+ *
+ * @example
+ * ```typescript
+ * const circuits = new CircuitBreakerRegistry({ failureRateThreshold: 50 }, logger);
+ *
+ * // One circuit per upstream host
+ * async function callPartner(partner: Partner, path: string) {
+ *   return circuits
+ *     .get(`partner:${partner.host}`)
+ *     .execute(() => httpClient.get(`https://${partner.host}${path}`));
+ * }
+ *
+ * app.get('/health/circuits', (req, res) => res.json(circuits.getMetrics()));
+ * ```
+ */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private defaults: CircuitBreakerOptions;
+  private logger?: ValtLogger;
+
+  /**
+   * Creates a new circuit breaker registry.
+   *
+   * @param {CircuitBreakerOptions} [defaults={}] - Options shared by every breaker
+   * @param {ValtLogger} [logger] - Logger receiving state changes of every breaker
+   */
+  constructor(defaults: CircuitBreakerOptions = {}, logger?: ValtLogger) {
+    this.defaults = defaults;
+    this.logger = logger;
+  }
+
+  /**
+   * Gets the circuit breaker of a key, creating it on first use.
+   *
+   * @param {string} key - The key, also used as the circuit name
+   * @param {CircuitBreakerOptions} [options] - Options overriding the defaults; only
+   *        used when the breaker is created
+   * @returns {CircuitBreaker} The circuit breaker of the key
+   *
+   * @example
+   * ```typescript
+   * const search = circuits.get('search', { slowCallDurationMs: 500, slowCallRateThreshold: 50 });
+   * ```
+   */
+  get(key: string, options: CircuitBreakerOptions = {}): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, { ...this.defaults, ...options }, this.logger);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Checks whether a key has a circuit breaker.
+   *
+   * @param {string} key - The key
+   * @returns {boolean} True when the breaker exists
+   */
+  has(key: string): boolean {
+    return this.breakers.has(key);
+  }
+
+  /**
+   * Removes the circuit breaker of a key.
+   *
+   * @param {string} key - The key
+   * @returns {boolean} True when a breaker was removed
+   */
+  remove(key: string): boolean {
+    return this.breakers.delete(key);
+  }
+
+  /**
+   * Gets the keys with a circuit breaker.
+   *
+   * @returns {string[]} Keys in creation order
+   */
+  keys(): string[] {
+    return [...this.breakers.keys()];
+  }
+
+  /**
+   * Gets the metrics of every circuit breaker.
+   *
+   * @returns {Record<string, CircuitBreakerMetrics>} Metrics keyed by key
+   */
+  getMetrics(): Record<string, CircuitBreakerMetrics> {
+    const metrics: Record<string, CircuitBreakerMetrics> = {};
+    for (const [key, breaker] of this.breakers) {
+      metrics[key] = breaker.getMetrics();
+    }
+    return metrics;
+  }
+
+  /**
+   * Closes every circuit and clears their sliding windows.
+   */
+  resetAll(): void {
+    for (const breaker of this.breakers.values()) {
+      breaker.reset();
+    }
+  }
+}
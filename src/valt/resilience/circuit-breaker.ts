@@ -0,0 +1,410 @@
+import { CertusCircuitOpenError, CertusConfigurationError, isClientError } from '../../certus';
+import {
+  CircuitBreakerMetrics,
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChange,
+} from '../../types';
+import { RingBuffer, ValtLogger } from '../logger';
+
+/**
+ * Outcome of one call recorded in the sliding window.
+ */
+interface CallOutcome {
+  failure: boolean;
+  slow: boolean;
+}
+
+/** Default circuit breaker options */
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  windowSize: 20,
+  minimumCalls: 10,
+  failureRateThreshold: 50,
+  slowCallRateThreshold: 100,
+  slowCallDurationMs: 60000,
+  openDurationMs: 30000,
+  halfOpenMaxCalls: 3,
+  isFailure: (error) => !isClientError(error),
+};
+
+/**
+ * Circuit breaker protecting calls to a failing dependency.
+ *
+ * While closed, the outcome of every call is recorded in a sliding window of the
+ * most recent `windowSize` calls. Once `minimumCalls` are recorded, the circuit
+ * opens when the failure rate or the slow-call rate reaches its threshold. An open
+ * circuit rejects calls with a `CertusCircuitOpenError` (503, `SRV_SERVICE_UNAVAILABLE`)
+ * without calling the dependency. After `openDurationMs` it half-opens and lets
+ * `halfOpenMaxCalls` trial calls through: their rates decide whether the circuit
+ * closes again or reopens.
+ *
+ * State changes are logged to the ValtLogger (opening as a warning) and passed to
+ * `onStateChange()` listeners. Calls that started before a state change are not
+ * recorded in the new state.
+ *
+ * @class CircuitBreaker
+ *
+ * @example
+ * ```typescript
+ * const paymentsBreaker = new CircuitBreaker(
+ *   'payments',
+ *   { failureRateThreshold: 50, slowCallDurationMs: 2000, slowCallRateThreshold: 80 },
+ *   logger
+ * );
+ *
+ * const charge = await paymentsBreaker.execute(() => paymentGateway.charge(amount, token));
+ *
+ * // Retry transient failures, but not calls rejected by the open circuit
+ * const order = await CommonUtils.retry(paymentsBreaker.wrap(() => ordersApi.get(orderId)), {
+ *   maxAttempts: 3,
+ * });
+ * ```
+ */
+export class CircuitBreaker {
+  public readonly name: string;
+  private options: Required<CircuitBreakerOptions>;
+  private logger?: ValtLogger;
+  private state: CircuitState = 'closed';
+  private window: RingBuffer<CallOutcome>;
+  private failures = 0;
+  private slowCalls = 0;
+  private rejectedCalls = 0;
+  private halfOpenPermits = 0;
+  private openedAt = 0;
+  private generation = 0;
+  private listeners: Array<(change: CircuitStateChange) => void> = [];
+
+  /**
+   * Creates a new circuit breaker.
+   *
+   * @param {string} name - Name of the circuit, used in errors, logs and metrics
+   * @param {CircuitBreakerOptions} [options={}] - Window, thresholds and timing options
+   * @param {ValtLogger} [logger] - Logger receiving state changes
+   *
+   * @throws {CertusConfigurationError} When an option is out of range
+   *
+   * @example
+   * ```typescript
+   * // Open after 5 failures out of the last 10 calls, retry after 10 seconds
+   * const breaker = new CircuitBreaker('inventory', {
+   *   windowSize: 10,
+   *   minimumCalls: 10,
+   *   failureRateThreshold: 50,
+   *   openDurationMs: 10000,
+   * });
+   * ```
+   */
+  constructor(name: string, options: CircuitBreakerOptions = {}, logger?: ValtLogger) {
+    const windowSize = options.windowSize ?? DEFAULT_OPTIONS.windowSize;
+
+    this.name = name;
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      // Default counts never exceed a smaller window
+      minimumCalls: Math.min(DEFAULT_OPTIONS.minimumCalls, windowSize),
+      halfOpenMaxCalls: Math.min(DEFAULT_OPTIONS.halfOpenMaxCalls, windowSize),
+      ...options,
+    };
+    this.logger = logger;
+    this.validateOptions();
+    this.window = new RingBuffer<CallOutcome>(this.options.windowSize);
+  }
+
+  /**
+   * Calls a function through the circuit breaker.
+   *
+   * @template T - The result type of the function
+   * @param {() => Promise<T>} fn - The call to the protected dependency
+   * @returns {Promise<T>} The result of the call
+   *
+   * @throws {CertusCircuitOpenError} When the circuit is open, or half-open with all
+   *         trial calls in flight; the function is not called
+   * @throws {unknown} Any error thrown by the function, after recording it
+   *
+   * @example
+   * ```typescript
+   * const profile = await breaker.execute(() => profileApi.get(userId));
+   * ```
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.acquirePermission();
+
+    const generation = this.generation;
+    const start = Date.now();
+    try {
+      const result = await fn();
+      this.record(generation, false, Date.now() - start);
+      return result;
+    } catch (error) {
+      this.record(generation, this.options.isFailure(error), Date.now() - start);
+      throw error;
+    }
+  }
+
+  /**
+   * Wraps a function so that every call goes through the circuit breaker.
+   *
+   * @template A - The argument types of the function
+   * @template T - The result type of the function
+   * @param {(...args: A) => Promise<T>} fn - The function to protect
+   * @returns {(...args: A) => Promise<T>} The protected function
+   *
+   * @example
+   * ```typescript
+   * const getRates = breaker.wrap((currency: string) => ratesApi.get(currency));
+   * await getRates('EUR');
+   * ```
+   */
+  wrap<A extends unknown[], T>(fn: (...args: A) => Promise<T>): (...args: A) => Promise<T> {
+    return (...args: A) => this.execute(() => fn(...args));
+  }
+
+  /**
+   * Gets the current state, half-opening the circuit when its open duration has elapsed.
+   *
+   * @returns {CircuitState} The current state
+   */
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  /**
+   * Gets a snapshot of the state and sliding window.
+   *
+   * @returns {CircuitBreakerMetrics} Current metrics
+   *
+   * @example
+   * ```typescript
+   * app.get('/health', (req, res) => {
+   *   res.json({ payments: paymentsBreaker.getMetrics() });
+   * });
+   * ```
+   */
+  getMetrics(): CircuitBreakerMetrics {
+    this.refreshState();
+    return this.computeMetrics();
+  }
+
+  /**
+   * Registers a listener for state changes.
+   *
+   * @param {(change: CircuitStateChange) => void} listener - Called after each transition
+   * @returns {() => void} Function removing the listener
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = breaker.onStateChange(({ circuit, to }) => {
+   *   metrics.gauge(`circuit.${circuit}.open`, to === 'open' ? 1 : 0);
+   * });
+   * ```
+   */
+  onStateChange(listener: (change: CircuitStateChange) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((registered) => registered !== listener);
+    };
+  }
+
+  /**
+   * Forces the circuit open, e.g. during a known outage of the dependency.
+   */
+  trip(): void {
+    this.transition('open');
+  }
+
+  /**
+   * Closes the circuit and clears the sliding window.
+   */
+  reset(): void {
+    this.transition('closed');
+  }
+
+  /**
+   * Lets a call through or rejects it.
+   *
+   * @private
+   * @throws {CertusCircuitOpenError} When the call is not permitted
+   */
+  private acquirePermission(): void {
+    this.refreshState();
+
+    if (this.state === 'closed') {
+      return;
+    }
+    if (this.state === 'half-open' && this.halfOpenPermits < this.options.halfOpenMaxCalls) {
+      this.halfOpenPermits++;
+      return;
+    }
+
+    this.rejectedCalls++;
+    throw new CertusCircuitOpenError(`Circuit '${this.name}' is ${this.state}`, {
+      circuit: this.name,
+      state: this.state,
+      ...(this.state === 'open' && {
+        retryAfterMs: Math.max(this.openedAt + this.options.openDurationMs - Date.now(), 0),
+      }),
+    });
+  }
+
+  /**
+   * Records the outcome of a call and evaluates the thresholds.
+   *
+   * @private
+   * @param {number} generation - State generation the call started in
+   * @param {boolean} failure - Whether the call failed
+   * @param {number} durationMs - Call duration in milliseconds
+   */
+  private record(generation: number, failure: boolean, durationMs: number): void {
+    if (generation !== this.generation || this.state === 'open') {
+      return;
+    }
+
+    const slow = durationMs >= this.options.slowCallDurationMs;
+    if (this.window.isFull()) {
+      const oldest = this.window.shift()!;
+      this.failures -= Number(oldest.failure);
+      this.slowCalls -= Number(oldest.slow);
+    }
+    this.window.push({ failure, slow });
+    this.failures += Number(failure);
+    this.slowCalls += Number(slow);
+
+    const required =
+      this.state === 'half-open' ? this.options.halfOpenMaxCalls : this.options.minimumCalls;
+    if (this.window.size < required) {
+      return;
+    }
+
+    const { failureRate, slowCallRate } = this.computeMetrics();
+    if (
+      failureRate >= this.options.failureRateThreshold ||
+      slowCallRate >= this.options.slowCallRateThreshold
+    ) {
+      this.transition('open');
+    } else if (this.state === 'half-open') {
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * Computes the metrics of the current state without refreshing it.
+   *
+   * @private
+   * @returns {CircuitBreakerMetrics} Current metrics
+   */
+  private computeMetrics(): CircuitBreakerMetrics {
+    const calls = this.window.size;
+    return {
+      state: this.state,
+      calls,
+      failures: this.failures,
+      slowCalls: this.slowCalls,
+      failureRate: calls === 0 ? 0 : (this.failures / calls) * 100,
+      slowCallRate: calls === 0 ? 0 : (this.slowCalls / calls) * 100,
+      rejectedCalls: this.rejectedCalls,
+      ...(this.state === 'open' && { openedAt: new Date(this.openedAt) }),
+    };
+  }
+
+  /**
+   * Half-opens an open circuit once its open duration has elapsed.
+   *
+   * @private
+   */
+  private refreshState(): void {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.openDurationMs) {
+      this.transition('half-open');
+    }
+  }
+
+  /**
+   * Moves to a new state, clears the window and notifies the logger and listeners.
+   *
+   * @private
+   * @param {CircuitState} to - The new state
+   */
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    const metrics: CircuitBreakerMetrics = { ...this.computeMetrics(), state: to };
+    delete metrics.openedAt;
+
+    this.state = to;
+    this.generation++;
+    this.window.take(this.options.windowSize);
+    this.failures = 0;
+    this.slowCalls = 0;
+    this.halfOpenPermits = 0;
+    if (to === 'open') {
+      this.openedAt = Date.now();
+      metrics.openedAt = new Date(this.openedAt);
+    }
+    if (to === 'closed') {
+      this.rejectedCalls = 0;
+    }
+
+    if (from === to && to === 'closed') {
+      return;
+    }
+
+    const context = {
+      circuit: this.name,
+      from,
+      to,
+      calls: metrics.calls,
+      failureRate: metrics.failureRate,
+      slowCallRate: metrics.slowCallRate,
+    };
+    if (to === 'open') {
+      this.logger?.warn('Circuit breaker opened', context);
+    } else {
+      this.logger?.info(`Circuit breaker ${to}`, context);
+    }
+
+    for (const listener of this.listeners) {
+      listener({ circuit: this.name, from, to, metrics });
+    }
+  }
+
+  /**
+   * Checks that the options are in range.
+   *
+   * @private
+   * @throws {CertusConfigurationError} When an option is out of range
+   */
+  private validateOptions(): void {
+    const { windowSize, minimumCalls, halfOpenMaxCalls } = this.options;
+    const invalid: string[] = [];
+
+    if (!Number.isInteger(windowSize) || windowSize < 1) {
+      invalid.push('windowSize');
+    }
+    if (!Number.isInteger(minimumCalls) || minimumCalls < 1 || minimumCalls > windowSize) {
+      invalid.push('minimumCalls');
+    }
+    if (
+      !Number.isInteger(halfOpenMaxCalls) ||
+      halfOpenMaxCalls < 1 ||
+      halfOpenMaxCalls > windowSize
+    ) {
+      invalid.push('halfOpenMaxCalls');
+    }
+    for (const key of ['failureRateThreshold', 'slowCallRateThreshold'] as const) {
+      if (!(this.options[key] > 0 && this.options[key] <= 100)) {
+        invalid.push(key);
+      }
+    }
+    for (const key of ['slowCallDurationMs', 'openDurationMs'] as const) {
+      if (!(this.options[key] >= 0)) {
+        invalid.push(key);
+      }
+    }
+
+    if (invalid.length > 0) {
+      throw new CertusConfigurationError(`Invalid circuit breaker options for '${this.name}'`, {
+        circuit: this.name,
+        invalidOptions: invalid,
+      });
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export * from './circuit-breaker';
+export * from './circuit-breaker-registry';
+export * from './retry-policy';
+export * from './timeout';
+export * from './memory-rate-limit-store';
+export * from './process-error-handler';
@@ -0,0 +1,224 @@
+import { RateLimitResult, RateLimitRule, RateLimitStore } from '../../types';
+
+/**
+ * Token bucket counters of a key.
+ */
+interface TokenBucketState {
+  algorithm: 'token-bucket';
+  tokens: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Sliding window counters of a key.
+ */
+interface SlidingWindowState {
+  algorithm: 'sliding-window';
+  windowStart: number;
+  current: number;
+  previous: number;
+  expiresAt: number;
+}
+
+/** Interval between sweeps of expired counters */
+const SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * In-memory rate limit store.
+ *
+ * Keeps the counters in the process, so limits apply per instance: use a shared
+ * store (implementing `RateLimitStore`) when several instances serve the same
+ * clients. Counters of idle keys are swept as requests come in, without timers.
+ *
+ * @class MemoryRateLimitStore
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryRateLimitStore();
+ *
+ * // Share the counters between the limiters of the same instance
+ * app.use('/api', new RateLimitMiddleware({ store, keyPrefix: 'api' }).handle());
+ * app.post('/login', new RateLimitMiddleware({ store, keyPrefix: 'login', limit: 5 }).handle());
+ *
+ * // Unblock a client
+ * await store.reset('login:ip:203.0.113.7');
+ * ```
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private states = new Map<string, TokenBucketState | SlidingWindowState>();
+  private lastSweep = Date.now();
+
+  /**
+   * Counts one request for a key and decides whether it is allowed.
+   *
+   * @param {string} key - Client key
+   * @param {RateLimitRule} rule - Algorithm, limit and window
+   * @returns {Promise<RateLimitResult>} The decision and the remaining quota
+   *
+   * @example
+   * ```typescript
+   * const result = await store.hit('ip:203.0.113.7', {
+   *   algorithm: 'token-bucket',
+   *   limit: 10,
+   *   windowMs: 1000,
+   * });
+   * // { allowed: true, limit: 10, remaining: 9, resetMs: 100, retryAfterMs: 0 }
+   * ```
+   */
+  async hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    this.sweep(now);
+
+    return rule.algorithm === 'token-bucket'
+      ? this.hitTokenBucket(key, rule, now)
+      : this.hitSlidingWindow(key, rule, now);
+  }
+
+  /**
+   * Forgets the counters of a key.
+   *
+   * @param {string} key - Client key
+   * @returns {Promise<void>} Resolves once the counters are removed
+   */
+  async reset(key: string): Promise<void> {
+    this.states.delete(key);
+  }
+
+  /**
+   * Counts a request with a token bucket refilled continuously at `limit` tokens per window.
+   *
+   * @private
+   * @param {string} key - Client key
+   * @param {RateLimitRule} rule - Limit and window
+   * @param {number} now - Current time in milliseconds
+   * @returns {RateLimitResult} The decision and the remaining quota
+   */
+  private hitTokenBucket(key: string, rule: RateLimitRule, now: number): RateLimitResult {
+    const { limit, windowMs } = rule;
+    const rate = limit / windowMs;
+    const state = this.states.get(key);
+
+    let tokens =
+      state?.algorithm === 'token-bucket'
+        ? Math.min(limit, state.tokens + (now - state.updatedAt) * rate)
+        : limit;
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+
+    const resetMs = Math.ceil((limit - tokens) / rate);
+    this.states.set(key, {
+      algorithm: 'token-bucket',
+      tokens,
+      updatedAt: now,
+      expiresAt: now + resetMs,
+    });
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+    };
+  }
+
+  /**
+   * Counts a request with a sliding window counter: the count of the previous fixed
+   * window, weighted by how much of it still overlaps the sliding window, plus the
+   * count of the current fixed window.
+   *
+   * @private
+   * @param {string} key - Client key
+   * @param {RateLimitRule} rule - Limit and window
+   * @param {number} now - Current time in milliseconds
+   * @returns {RateLimitResult} The decision and the remaining quota
+   */
+  private hitSlidingWindow(key: string, rule: RateLimitRule, now: number): RateLimitResult {
+    const { limit, windowMs } = rule;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const stored = this.states.get(key);
+
+    let state: SlidingWindowState;
+    if (stored?.algorithm === 'sliding-window' && stored.windowStart === windowStart) {
+      state = stored;
+    } else {
+      const previous =
+        stored?.algorithm === 'sliding-window' && stored.windowStart === windowStart - windowMs
+          ? stored.current
+          : 0;
+      state = {
+        algorithm: 'sliding-window',
+        windowStart,
+        current: 0,
+        previous,
+        expiresAt: windowStart + 2 * windowMs,
+      };
+      this.states.set(key, state);
+    }
+
+    const elapsed = now - windowStart;
+    const weight = 1 - elapsed / windowMs;
+    const allowed = state.previous * weight + state.current + 1 <= limit;
+    if (allowed) {
+      state.current++;
+    }
+
+    const count = state.previous * weight + state.current;
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(Math.floor(limit - count), 0),
+      resetMs: (state.current > 0 ? 2 * windowMs : windowMs) - elapsed,
+      retryAfterMs: allowed ? 0 : this.getSlidingWindowRetryAfter(state, limit, windowMs, elapsed),
+    };
+  }
+
+  /**
+   * Computes how long until the weighted count leaves room for one more request.
+   *
+   * @private
+   * @param {SlidingWindowState} state - Counters of the key
+   * @param {number} limit - Requests allowed per window
+   * @param {number} windowMs - Window length in milliseconds
+   * @param {number} elapsed - Time elapsed in the current fixed window
+   * @returns {number} Delay in milliseconds
+   */
+  private getSlidingWindowRetryAfter(
+    state: SlidingWindowState,
+    limit: number,
+    windowMs: number,
+    elapsed: number
+  ): number {
+    // Room within the current window once enough of the previous one slides out
+    if (state.current + 1 <= limit) {
+      const needed = windowMs * (1 - (limit - state.current - 1) / state.previous);
+      return Math.max(Math.ceil(needed - elapsed), 1);
+    }
+
+    // Otherwise wait for the next window, where the current count becomes the previous one
+    const needed = windowMs * (1 - (limit - 1) / state.current);
+    return windowMs - elapsed + Math.max(Math.ceil(needed), 0);
+  }
+
+  /**
+   * Removes the counters of keys that have been idle long enough to be back at a full quota.
+   *
+   * @private
+   * @param {number} now - Current time in milliseconds
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastSweep = now;
+    for (const [key, state] of this.states) {
+      if (state.expiresAt <= now) {
+        this.states.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { CertusConfigurationError, isOperationalError } from '../../certus';
+import { ProcessErrorHandlerOptions, ProcessErrorOrigin } from '../../types';
+import { ValtLogger } from '../logger';
+
+/** Default process error handler options */
+const DEFAULT_OPTIONS: Required<ProcessErrorHandlerOptions> = {
+  shouldShutdown: (error) => !isOperationalError(error),
+  onShutdown: () => {},
+  shutdownTimeoutMs: 10000,
+  exitCode: 1,
+};
+
+/** Log messages per process event */
+const ORIGIN_MESSAGES: Record<ProcessErrorOrigin, string> = {
+  uncaughtException: 'Uncaught exception',
+  unhandledRejection: 'Unhandled promise rejection',
+};
+
+/**
+ * Crash policy for errors that escape the application through the
+ * `uncaughtException` and `unhandledRejection` process events.
+ *
+ * Every such error is logged to the ValtLogger together with its classification.
+ * Operational errors (see `isOperationalError`), such as a CertusNotFoundError thrown
+ * from a timer, are expected failures that were merely not caught: the process keeps
+ * running. Programmer errors, such as a TypeError in a handler or a
+ * CertusConfigurationError, leave the process in an unknown state: it shuts down
+ * gracefully by running `onShutdown`, closing the logger so that buffered entries are
+ * written, and exiting with `exitCode`. If the shutdown takes longer than
+ * `shutdownTimeoutMs`, the process exits anyway.
+ *
+ * Errors raised while a shutdown is in progress are logged with the action
+ * `shutdown-in-progress` but do not start another one. If the policy itself fails,
+ * for example because `shouldShutdown` or the logger throws, the process exits with
+ * `exitCode` right away.
+ *
+ * @class ProcessErrorHandler
+ *
+ * @example
+ * ```typescript
+ * const server = app.listen(3000);
+ *
+ * new ProcessErrorHandler(logger, {
+ *   onShutdown: () => new Promise<void>((resolve) => server.close(() => resolve())),
+ *   shutdownTimeoutMs: 15000,
+ * }).install();
+ *
+ * // Shut down on every uncaught exception, keep running on operational rejections
+ * new ProcessErrorHandler(logger, {
+ *   shouldShutdown: (error, origin) =>
+ *     origin === 'uncaughtException' || !isOperationalError(error),
+ * }).install();
+ * ```
+ */
+export class ProcessErrorHandler {
+  private options: Required<ProcessErrorHandlerOptions>;
+  private logger: ValtLogger;
+  private installed = false;
+  private shuttingDown = false;
+
+  /**
+   * Creates a new process error handler. Call install() to start handling process events.
+   *
+   * @param {ValtLogger} logger - Logger receiving the errors, closed before the process exits
+   * @param {ProcessErrorHandlerOptions} [options={}] - Shutdown decision, hook and timing options
+   *
+   * @throws {CertusConfigurationError} When an option is out of range
+   *
+   * @example
+   * ```typescript
+   * const handler = new ProcessErrorHandler(logger, {
+   *   onShutdown: async () => {
+   *     await db.close();
+   *     await queue.disconnect();
+   *   },
+   * });
+   * ```
+   */
+  constructor(logger: ValtLogger, options: ProcessErrorHandlerOptions = {}) {
+    this.logger = logger;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.validateOptions();
+  }
+
+  /**
+   * Starts handling the `uncaughtException` and `unhandledRejection` process events.
+   * Installing an installed handler has no effect.
+   *
+   * @returns {this} The handler, for chaining
+   *
+   * @example
+   * ```typescript
+   * const handler = new ProcessErrorHandler(logger).install();
+   * ```
+   */
+  install(): this {
+    if (!this.installed) {
+      process.on('uncaughtException', this.onUncaughtException);
+      process.on('unhandledRejection', this.onUnhandledRejection);
+      this.installed = true;
+    }
+    return this;
+  }
+
+  /**
+   * Stops handling the process events, restoring the default behavior of Node.js
+   * unless other listeners are installed.
+   *
+   * @example
+   * ```typescript
+   * afterAll(() => handler.uninstall());
+   * ```
+   */
+  uninstall(): void {
+    process.removeListener('uncaughtException', this.onUncaughtException);
+    process.removeListener('unhandledRejection', this.onUnhandledRejection);
+    this.installed = false;
+  }
+
+  /**
+   * Logs an error that escaped the application and applies the crash policy to it.
+   *
+   * Called by the process event listeners; call it directly for errors reaching the
+   * top level by other means, such as a worker's `error` event.
+   *
+   * @param {unknown} error - The uncaught exception or rejection reason
+   * @param {ProcessErrorOrigin} origin - Process event the error was raised through
+   * @returns {Promise<void>} Resolves once the error is logged when the process keeps
+   *          running; does not resolve when it shuts down. Never rejects: when the
+   *          policy fails, the process exits
+   *
+   * @example
+   * ```typescript
+   * worker.on('error', (error) => handler.handle(error, 'uncaughtException'));
+   * ```
+   */
+  async handle(error: unknown, origin: ProcessErrorOrigin): Promise<void> {
+    try {
+      const operational = isOperationalError(error);
+      const inProgress = this.shuttingDown;
+      const shutdown = !inProgress && this.options.shouldShutdown(error, origin);
+
+      this.logger.error(
+        ORIGIN_MESSAGES[origin],
+        {
+          origin,
+          operational,
+          action: inProgress ? 'shutdown-in-progress' : shutdown ? 'shutdown' : 'continue',
+          ...(error instanceof Error ? {} : { reason: String(error) }),
+        },
+        error instanceof Error ? error : undefined
+      );
+
+      if (shutdown) {
+        await this.shutdown(error, origin);
+      }
+    } catch {
+      // A rejection here would be raised as another unhandledRejection, and so on
+      process.exit(this.options.exitCode);
+    }
+  }
+
+  /**
+   * Runs the shutdown hook, closes the logger and exits the process, or exits after
+   * the shutdown timeout if that takes too long.
+   *
+   * @private
+   * @param {unknown} error - The error that caused the shutdown
+   * @param {ProcessErrorOrigin} origin - Process event the error was raised through
+   */
+  private async shutdown(error: unknown, origin: ProcessErrorOrigin): Promise<void> {
+    const { onShutdown, shutdownTimeoutMs, exitCode } = this.options;
+    this.shuttingDown = true;
+
+    const timer = setTimeout(() => {
+      this.logger.error('Graceful shutdown timed out', { timeoutMs: shutdownTimeoutMs });
+      process.exit(exitCode);
+    }, shutdownTimeoutMs);
+
+    try {
+      await onShutdown(error, origin);
+    } catch (shutdownError) {
+      this.logger.error(
+        'Graceful shutdown failed',
+        { origin },
+        shutdownError instanceof Error ? shutdownError : undefined
+      );
+    }
+
+    try {
+      await this.logger.close();
+    } catch {
+      // Nothing is left to report the failure to
+    }
+
+    clearTimeout(timer);
+    process.exit(exitCode);
+  }
+
+  /**
+   * Listener of the `uncaughtException` event. With `--unhandled-rejections=strict`,
+   * rejections arrive here as well, with their own origin.
+   *
+   * @private
+   */
+  private onUncaughtException = (error: Error, origin: ProcessErrorOrigin): void => {
+    void this.handle(error, origin);
+  };
+
+  /**
+   * Listener of the `unhandledRejection` event.
+   *
+   * @private
+   */
+  private onUnhandledRejection = (reason: unknown): void => {
+    void this.handle(reason, 'unhandledRejection');
+  };
+
+  /**
+   * Checks the timing and exit code options.
+   *
+   * @private
+   * @throws {CertusConfigurationError} When an option is out of range
+   */
+  private validateOptions(): void {
+    const { shutdownTimeoutMs, exitCode } = this.options;
+    const invalid: string[] = [];
+
+    if (!(shutdownTimeoutMs >= 0)) {
+      invalid.push('shutdownTimeoutMs');
+    }
+    if (!Number.isInteger(exitCode) || exitCode < 0 || exitCode > 255) {
+      invalid.push('exitCode');
+    }
+
+    if (invalid.length > 0) {
+      throw new CertusConfigurationError('Invalid process error handler options', {
+        invalidOptions: invalid,
+      });
+    }
+  }
+}
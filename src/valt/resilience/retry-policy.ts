@@ -0,0 +1,291 @@
+import { CertusConfigurationError, isRetryableError } from '../../certus';
+import {
+  RetryAttemptContext,
+  RetryExecuteOptions,
+  RetryJitter,
+  RetryPolicyOptions,
+} from '../../types';
+
+/** Default retry policy options */
+const DEFAULT_OPTIONS: Required<Omit<RetryPolicyOptions, 'deadlineMs' | 'onRetry'>> = {
+  maxAttempts: 3,
+  delayMs: 1000,
+  backoffMultiplier: 2,
+  maxDelayMs: 30000,
+  jitter: 'full',
+  respectRetryAfter: true,
+  shouldRetry: (error) => isRetryableError(error),
+};
+
+/** Supported jitter strategies */
+const JITTER_STRATEGIES: RetryJitter[] = ['none', 'full', 'equal', 'decorrelated'];
+
+/**
+ * Retry policy with exponential backoff, jitter, an overall deadline and cancellation.
+ *
+ * A failed attempt is retried while attempts remain and `shouldRetry` accepts the
+ * error. By default only transient failures are retried (see `isRetryableError`):
+ * connection and timeout errors, other server errors and Node.js network errors,
+ * but never client (4xx) errors or calls rejected by an open circuit breaker.
+ *
+ * The delay before retry `n` grows as `delayMs * backoffMultiplier^(n-1)`, bounded
+ * by `maxDelayMs` and randomized by the `jitter` strategy. When the error carries a
+ * `retryAfter` field, or a `retryAfterMs` or `retryAfter` context (e.g. from a
+ * `Retry-After` header), the policy waits at least that long, and gives up when that is longer than `maxDelayMs`.
+ * No retry is scheduled past `deadlineMs`.
+ *
+ * When the policy gives up, the last error is thrown as is, so that its class,
+ * status code and context reach the caller unchanged.
+ *
+ * @class RetryPolicy
+ *
+ * @example
+ * ```typescript
+ * const retryPolicy = new RetryPolicy({
+ *   maxAttempts: 5,
+ *   delayMs: 200,
+ *   maxDelayMs: 5000,
+ *   deadlineMs: 10000,
+ *   onRetry: ({ attempt, error, delayMs }) =>
+ *     logger.warn('Retrying shipping quote', { attempt, delayMs, error }),
+ * });
+ *
+ * const quote = await retryPolicy.execute(({ signal }) => shippingApi.quote(parcel, { signal }), {
+ *   signal: req.signal,
+ * });
+ *
+ * // Each attempt goes through the circuit breaker; rejected calls are not retried
+ * const rates = await retryPolicy.execute(() => ratesBreaker.execute(() => ratesApi.get('EUR')));
+ * ```
+ */
+export class RetryPolicy {
+  private options: Required<Omit<RetryPolicyOptions, 'deadlineMs' | 'onRetry'>> &
+    Pick<RetryPolicyOptions, 'deadlineMs' | 'onRetry'>;
+
+  /**
+   * Creates a new retry policy.
+   *
+   * @param {RetryPolicyOptions} [options={}] - Attempts, backoff, jitter, deadline and hooks
+   *
+   * @throws {CertusConfigurationError} When an option is out of range
+   *
+   * @example
+   * ```typescript
+   * // Retry database deadlocks quickly, without jitter
+   * const deadlockRetry = new RetryPolicy({
+   *   maxAttempts: 4,
+   *   delayMs: 50,
+   *   jitter: 'none',
+   *   shouldRetry: (error) => isCertusError(error) && error.code === 'DB_DEADLOCK_ERROR',
+   * });
+   * ```
+   */
+  constructor(options: RetryPolicyOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.validateOptions();
+  }
+
+  /**
+   * Calls a function until it succeeds or the policy gives up.
+   *
+   * @template T - The result type of the function
+   * @param {(context: RetryAttemptContext) => Promise<T>} fn - The operation; receives the
+   *        attempt number and the caller's signal
+   * @param {RetryExecuteOptions} [options={}] - Execution options
+   * @param {AbortSignal} [options.signal] - Cancels the execution
+   * @returns {Promise<T>} The result of the first successful attempt
+   *
+   * @throws {unknown} The error of the last attempt, when it is not retried
+   * @throws {unknown} The abort reason of the signal, when the execution is cancelled
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * req.on('close', () => controller.abort());
+   *
+   * const report = await retryPolicy.execute(
+   *   ({ attempt, signal }) => reportsApi.generate(reportId, { signal, headers: { 'X-Attempt': attempt } }),
+   *   { signal: controller.signal }
+   * );
+   * ```
+   */
+  async execute<T>(
+    fn: (context: RetryAttemptContext) => Promise<T>,
+    options: RetryExecuteOptions = {}
+  ): Promise<T> {
+    const { signal } = options;
+    const start = Date.now();
+    let previousDelay = this.options.delayMs;
+
+    for (let attempt = 1; ; attempt++) {
+      signal?.throwIfAborted();
+
+      try {
+        return await fn({ attempt, signal });
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (attempt >= this.options.maxAttempts || !this.options.shouldRetry(error, attempt)) {
+          throw error;
+        }
+
+        const backoff = this.computeBackoff(attempt, previousDelay);
+        const retryAfter = this.options.respectRetryAfter ? getRetryAfterMs(error) : undefined;
+        if (retryAfter !== undefined && retryAfter > this.options.maxDelayMs) {
+          throw error;
+        }
+
+        const delayMs = Math.max(backoff, retryAfter ?? 0);
+        const elapsedMs = Date.now() - start;
+        if (
+          this.options.deadlineMs !== undefined &&
+          elapsedMs + delayMs >= this.options.deadlineMs
+        ) {
+          throw error;
+        }
+
+        previousDelay = backoff;
+        this.options.onRetry?.({ attempt, error, delayMs, elapsedMs });
+        await wait(delayMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Wraps a function so that every call is retried by the policy.
+   *
+   * @template A - The argument types of the function
+   * @template T - The result type of the function
+   * @param {(...args: A) => Promise<T>} fn - The function to retry
+   * @returns {(...args: A) => Promise<T>} The retrying function
+   *
+   * @example
+   * ```typescript
+   * const sendWebhook = retryPolicy.wrap((url: string, payload: unknown) => http.post(url, payload));
+   * await sendWebhook(subscription.url, event);
+   * ```
+   */
+  wrap<A extends unknown[], T>(fn: (...args: A) => Promise<T>): (...args: A) => Promise<T> {
+    return (...args: A) => this.execute(() => fn(...args));
+  }
+
+  /**
+   * Computes the jittered backoff delay before a retry.
+   *
+   * @private
+   * @param {number} attempt - Number of the failed attempt
+   * @param {number} previousDelay - Delay before the previous retry (or `delayMs`)
+   * @returns {number} Delay in milliseconds
+   */
+  private computeBackoff(attempt: number, previousDelay: number): number {
+    const { delayMs, backoffMultiplier, maxDelayMs, jitter } = this.options;
+
+    if (jitter === 'decorrelated') {
+      const upper = Math.max(previousDelay * 3, delayMs);
+      return Math.min(maxDelayMs, Math.round(delayMs + Math.random() * (upper - delayMs)));
+    }
+
+    const exponential = Math.min(maxDelayMs, delayMs * backoffMultiplier ** (attempt - 1));
+    if (jitter === 'full') {
+      return Math.round(Math.random() * exponential);
+    }
+    if (jitter === 'equal') {
+      return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    }
+    return exponential;
+  }
+
+  /**
+   * Validates the options.
+   *
+   * @private
+   * @throws {CertusConfigurationError} When an option is out of range
+   */
+  private validateOptions(): void {
+    const { maxAttempts, delayMs, backoffMultiplier, maxDelayMs, jitter, deadlineMs } =
+      this.options;
+    const invalidOptions: string[] = [];
+
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      invalidOptions.push('maxAttempts');
+    }
+    if (!(delayMs >= 0)) {
+      invalidOptions.push('delayMs');
+    }
+    if (!(backoffMultiplier >= 1)) {
+      invalidOptions.push('backoffMultiplier');
+    }
+    if (!(maxDelayMs >= delayMs)) {
+      invalidOptions.push('maxDelayMs');
+    }
+    if (!JITTER_STRATEGIES.includes(jitter)) {
+      invalidOptions.push('jitter');
+    }
+    if (deadlineMs !== undefined && !(deadlineMs > 0)) {
+      invalidOptions.push('deadlineMs');
+    }
+
+    if (invalidOptions.length > 0) {
+      throw new CertusConfigurationError('Invalid retry policy options', { invalidOptions });
+    }
+  }
+}
+
+/**
+ * Gets the minimum delay requested by an error, from its `retryAfter` field (seconds,
+ * as set by CertusTooManyRequestsError and CertusServiceUnavailableError), or from its
+ * `retryAfterMs` (milliseconds) or `retryAfter` (seconds or HTTP date, as in a
+ * `Retry-After` header) context.
+ *
+ * @private
+ * @param {unknown} error - The error of the failed attempt
+ * @returns {number | undefined} Delay in milliseconds, or undefined when none is requested
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  const field = (error as { retryAfter?: unknown } | null | undefined)?.retryAfter;
+  if (typeof field === 'number' && field >= 0) {
+    return field * 1000;
+  }
+
+  const context = (error as { context?: Record<string, unknown> } | null | undefined)?.context;
+  if (typeof context !== 'object' || context === null) {
+    return undefined;
+  }
+
+  const { retryAfterMs, retryAfter } = context;
+  if (typeof retryAfterMs === 'number' && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+  if (typeof retryAfter === 'number' && retryAfter >= 0) {
+    return retryAfter * 1000;
+  }
+  if (typeof retryAfter === 'string') {
+    if (/^\d+$/.test(retryAfter.trim())) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+  }
+  return undefined;
+}
+
+/**
+ * Waits for a delay, ending early when the signal aborts.
+ *
+ * @private
+ * @param {number} ms - Delay in milliseconds
+ * @param {AbortSignal} [signal] - Signal cancelling the wait
+ * @returns {Promise<void>} Resolves after the delay, rejects with the abort reason
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,72 @@
+import { RequestDeadline } from '../../adi';
+import { TimeoutOptions } from '../../types';
+
+/**
+ * Bounds the duration of an operation.
+ *
+ * The operation runs in a nested `RequestDeadline` scope, so its budget is the
+ * smaller of `ms` and the time left on the current deadline (e.g. the request
+ * deadline set by `DeadlineMiddleware`), and deadlines inside it are bounded in
+ * turn. When the budget runs out, the returned promise rejects with a
+ * `CertusOperationTimeoutError` (504, `GEN_TIMEOUT`) whose context holds
+ * `budgetMs` and `elapsedMs`.
+ *
+ * Pass a function to have the operation cancelled as well: it receives an
+ * `AbortSignal` that aborts on timeout. A promise that is already running cannot
+ * be cancelled; it is only no longer waited for.
+ *
+ * @template T - The result type of the operation
+ * @param {Promise<T> | ((signal: AbortSignal) => Promise<T>)} operation - The promise to
+ *        wait for, or a function starting the operation with an abort signal
+ * @param {number} ms - Time budget in milliseconds
+ * @param {TimeoutOptions} [options={}] - Execution options
+ * @param {string} [options.operation] - Name of the operation, included in the error
+ * @param {AbortSignal} [options.signal] - Signal of the caller, aborting the operation as well
+ * @returns {Promise<T>} The result of the operation
+ *
+ * @throws {CertusOperationTimeoutError} When the budget (or the enclosing deadline) runs out
+ * @throws {unknown} The abort reason of the caller's signal, when it aborts first
+ *
+ * @example
+ * ```typescript
+ * // Cancel the HTTP call after 2 seconds, or earlier if the request deadline is closer
+ * const quote = await withTimeout(
+ *   (signal) => fetch(`${pricingUrl}/quotes/${sku}`, { signal }).then((res) => res.json()),
+ *   2000,
+ *   { operation: 'pricing-quote' }
+ * );
+ *
+ * // Stop waiting for a promise
+ * await withTimeout(cache.warmUp(), 500);
+ * ```
+ */
+export async function withTimeout<T>(
+  operation: Promise<T> | ((signal: AbortSignal) => Promise<T>),
+  ms: number,
+  options: TimeoutOptions = {}
+): Promise<T> {
+  return RequestDeadline.run(
+    ms,
+    async () => {
+      const signal = RequestDeadline.signal()!;
+      signal.throwIfAborted();
+
+      const promise = typeof operation === 'function' ? operation(signal) : operation;
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = (): void => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+          (value) => {
+            signal.removeEventListener('abort', onAbort);
+            resolve(value);
+          },
+          (error: unknown) => {
+            signal.removeEventListener('abort', onAbort);
+            reject(error);
+          }
+        );
+      });
+    },
+    options
+  );
+}
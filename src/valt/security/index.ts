@@ -1 +1,2 @@
 export * from './data-redaction';
+export * from './security-presets';
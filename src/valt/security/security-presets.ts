@@ -0,0 +1,87 @@
+import { ContentSecurityPolicyDirectives, Environment, SecurityHeadersOptions } from '../../types';
+
+/**
+ * Content Security Policy shared by every environment: resources from the
+ * application's own origin only, no plugins, no framing and no `<base>` rewriting.
+ */
+const BASE_DIRECTIVES: ContentSecurityPolicyDirectives = {
+  'default-src': ["'self'"],
+  'base-uri': ["'self'"],
+  'object-src': ["'none'"],
+  'frame-ancestors': ["'none'"],
+  'form-action': ["'self'"],
+  'script-src': ["'self'"],
+  'style-src': ["'self'"],
+  'img-src': ["'self'", 'data:'],
+};
+
+/** Browser features no API needs */
+const DISABLED_FEATURES: Record<string, string[]> = {
+  camera: [],
+  microphone: [],
+  geolocation: [],
+  payment: [],
+  usb: [],
+};
+
+/**
+ * Security headers sent by SecurityMiddleware in each environment.
+ *
+ * - development: CSP in report-only mode, so violations are reported to
+ *   `/csp-report` (see SecurityMiddleware.reportHandler()) without breaking
+ *   tooling; no HSTS, as local servers run over plain HTTP
+ * - test: enforced CSP, no HSTS
+ * - stagging: enforced CSP, one-day HSTS so that mistakes expire quickly
+ * - production: enforced CSP, one-year HSTS including subdomains
+ *
+ * @example
+ * ```typescript
+ * SECURITY_HEADER_PRESETS.production.strictTransportSecurity;
+ * // { maxAge: 31536000, includeSubDomains: true }
+ *
+ * // Options of SecurityMiddleware are merged over the preset, directive by directive
+ * new SecurityMiddleware(logger, {
+ *   contentSecurityPolicy: {
+ *     directives: { 'script-src': ["'self'", 'https://cdn.example.com'] },
+ *   },
+ * });
+ * ```
+ */
+export const SECURITY_HEADER_PRESETS: Readonly<Record<Environment, SecurityHeadersOptions>> = {
+  development: {
+    contentSecurityPolicy: { directives: BASE_DIRECTIVES, reportOnly: true },
+    strictTransportSecurity: false,
+    contentTypeOptions: true,
+    referrerPolicy: 'strict-origin-when-cross-origin',
+    frameOptions: 'SAMEORIGIN',
+    permissionsPolicy: DISABLED_FEATURES,
+  },
+  test: {
+    contentSecurityPolicy: { directives: BASE_DIRECTIVES },
+    strictTransportSecurity: false,
+    contentTypeOptions: true,
+    referrerPolicy: 'no-referrer',
+    frameOptions: 'DENY',
+    permissionsPolicy: DISABLED_FEATURES,
+  },
+  stagging: {
+    contentSecurityPolicy: {
+      directives: { ...BASE_DIRECTIVES, 'upgrade-insecure-requests': true },
+    },
+    strictTransportSecurity: { maxAge: 86400 },
+    contentTypeOptions: true,
+    referrerPolicy: 'no-referrer',
+    frameOptions: 'DENY',
+    permissionsPolicy: DISABLED_FEATURES,
+  },
+  production: {
+    contentSecurityPolicy: {
+      directives: { ...BASE_DIRECTIVES, 'upgrade-insecure-requests': true },
+    },
+    strictTransportSecurity: { maxAge: 31536000, includeSubDomains: true },
+    contentTypeOptions: true,
+    referrerPolicy: 'no-referrer',
+    frameOptions: 'DENY',
+    permissionsPolicy: DISABLED_FEATURES,
+  },
+};
@@ -0,0 +1,193 @@
+import { randomBytes } from 'crypto';
+import { TraceParent } from '../../types';
+
+/**
+ * Matches a `traceparent` header: version, trace-id, parent-id and trace-flags,
+ * followed by extra fields only for versions above `00`.
+ */
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Matches a `tracestate` list member key: simple or multi-tenant (`tenant@system`).
+ */
+const TRACESTATE_KEY_PATTERN =
+  /^(?:[a-z][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+
+/**
+ * Matches a `tracestate` list member value: printable ASCII except `,` and `=`,
+ * not ending with a space.
+ */
+const TRACESTATE_VALUE_PATTERN =
+  /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+/** Maximum number of `tracestate` list members */
+const TRACESTATE_MAX_MEMBERS = 32;
+
+/**
+ * Utility class for W3C Trace Context (`traceparent`/`tracestate`) headers.
+ *
+ * Parses and validates incoming headers according to the W3C Trace Context
+ * specification, formats outgoing headers, and generates trace and span IDs.
+ *
+ * @class W3CTraceContext
+ *
+ * @example
+ * ```typescript
+ * const parent = W3CTraceContext.parseTraceparent(
+ *   '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+ * );
+ * // { version: '00', traceId: '4bf92f3577b34da6a3ce929d0e0e4736', parentId: '00f067aa0ba902b7', traceFlags: '01' }
+ *
+ * const traceparent = W3CTraceContext.formatTraceparent({
+ *   ...parent,
+ *   parentId: W3CTraceContext.generateSpanId(),
+ * });
+ * ```
+ */
+export class W3CTraceContext {
+  /**
+   * Parses and validates a `traceparent` header.
+   *
+   * Rejects malformed values, version `ff`, all-zero trace or parent IDs and
+   * extra fields on version `00`. Values of higher versions are accepted as long
+   * as their first four fields are valid.
+   *
+   * @param {string | string[] | undefined} header - The raw header value
+   * @returns {TraceParent | null} The parsed header, or null when missing or invalid
+   *
+   * @example
+   * ```typescript
+   * const parent = W3CTraceContext.parseTraceparent(req.headers.traceparent);
+   * if (!parent) {
+   *   // Start a new trace
+   * }
+   * ```
+   */
+  static parseTraceparent(header: string | string[] | undefined): TraceParent | null {
+    if (typeof header !== 'string') {
+      return null;
+    }
+
+    const match = TRACEPARENT_PATTERN.exec(header.trim());
+    if (!match) {
+      return null;
+    }
+
+    const [, version, traceId, parentId, traceFlags, extra] = match;
+
+    if (version === 'ff' || (version === '00' && extra !== undefined)) {
+      return null;
+    }
+
+    if (/^0+$/.test(traceId) || /^0+$/.test(parentId)) {
+      return null;
+    }
+
+    return { version, traceId, parentId, traceFlags };
+  }
+
+  /**
+   * Parses and validates a `tracestate` header.
+   *
+   * Multiple header values are combined into one list. Empty members are
+   * ignored. The whole header is discarded when a member is invalid, a key is
+   * repeated, or there are more than 32 members.
+   *
+   * @param {string | string[] | undefined} header - The raw header value
+   * @returns {string | undefined} The normalized header value, or undefined when missing or invalid
+   *
+   * @example
+   * ```typescript
+   * W3CTraceContext.parseTracestate('rojo=00f067aa0ba902b7, congo=t61rcWkgMzE');
+   * // 'rojo=00f067aa0ba902b7,congo=t61rcWkgMzE'
+   * ```
+   */
+  static parseTracestate(header: string | string[] | undefined): string | undefined {
+    if (header === undefined) {
+      return undefined;
+    }
+
+    const members = (Array.isArray(header) ? header.join(',') : header)
+      .split(',')
+      .map((member) => member.trim())
+      .filter((member) => member.length > 0);
+
+    if (members.length === 0 || members.length > TRACESTATE_MAX_MEMBERS) {
+      return undefined;
+    }
+
+    const keys = new Set<string>();
+    for (const member of members) {
+      const separator = member.indexOf('=');
+      const key = member.slice(0, separator);
+      const value = member.slice(separator + 1);
+
+      if (
+        separator <= 0 ||
+        !TRACESTATE_KEY_PATTERN.test(key) ||
+        !TRACESTATE_VALUE_PATTERN.test(value) ||
+        keys.has(key)
+      ) {
+        return undefined;
+      }
+      keys.add(key);
+    }
+
+    return members.join(',');
+  }
+
+  /**
+   * Formats a `traceparent` header value.
+   *
+   * @param {TraceParent} traceParent - The header fields
+   * @returns {string} The header value
+   *
+   * @example
+   * ```typescript
+   * W3CTraceContext.formatTraceparent({
+   *   version: '00',
+   *   traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+   *   parentId: '00f067aa0ba902b7',
+   *   traceFlags: '01',
+   * });
+   * // '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+   * ```
+   */
+  static formatTraceparent(traceParent: TraceParent): string {
+    const { version, traceId, parentId, traceFlags } = traceParent;
+    return `${version}-${traceId}-${parentId}-${traceFlags}`;
+  }
+
+  /**
+   * Generates a random trace ID.
+   *
+   * @returns {string} 32 lowercase hex digits, never all zeros
+   */
+  static generateTraceId(): string {
+    return this.generateHexId(16);
+  }
+
+  /**
+   * Generates a random span ID.
+   *
+   * @returns {string} 16 lowercase hex digits, never all zeros
+   */
+  static generateSpanId(): string {
+    return this.generateHexId(8);
+  }
+
+  /**
+   * Generates a random non-zero hex identifier.
+   *
+   * @private
+   * @param {number} bytes - Number of random bytes
+   * @returns {string} Lowercase hex string of twice the byte length
+   */
+  private static generateHexId(bytes: number): string {
+    let id: string;
+    do {
+      id = randomBytes(bytes).toString('hex');
+    } while (/^0+$/.test(id));
+    return id;
+  }
+}
@@ -0,0 +1,436 @@
+import {
+  ViolationCollector,
+  fromJoiError,
+  fromYupError,
+  fromZodError,
+  isJoiValidationError,
+  isYupValidationError,
+  isZodError,
+} from '../../certus';
+import { ErrorCodes } from '../../constants';
+import {
+  FieldSchema,
+  JoiSchemaLike,
+  ObjectSchema,
+  RequestSchema,
+  SchemaValidationOptions,
+  SchemaValidationResult,
+  YupSchemaLike,
+  ZodSchemaLike,
+} from '../../types';
+
+/** Patterns for the string formats of the built-in DSL */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Checks values against the built-in schema DSL or Zod, Joi and Yup schemas.
+ *
+ * The built-in DSL (`ObjectSchema`) covers the usual request checks: types,
+ * required fields, defaults, lengths and ranges, patterns, formats, enums and
+ * nested objects and arrays, with optional string coercion for query strings.
+ * Third-party schemas are recognized by shape and their failures converted with
+ * the Certus schema adapters, so every schema reports the same `Violation`s.
+ *
+ * @class SchemaValidator
+ *
+ * @example
+ * ```typescript
+ * const { value, violations } = await SchemaValidator.validate(
+ *   { page: { type: 'integer', min: 1, default: 1 } },
+ *   req.query,
+ *   { coerce: true }
+ * );
+ * // value: { page: 2 } for ?page=2
+ * ```
+ */
+export class SchemaValidator {
+  /**
+   * Checks a value against a schema.
+   *
+   * Coercion only applies to the built-in DSL; Zod, Joi and Yup schemas coerce
+   * according to their own definitions. `stripUnknown` is passed on to Joi and
+   * Yup, while Zod object schemas strip unknown keys unless declared otherwise.
+   *
+   * @param {RequestSchema} schema - Built-in DSL or a Zod, Joi or Yup schema
+   * @param {unknown} value - The value to check
+   * @param {SchemaValidationOptions} [options={}] - Coercion and stripping options
+   * @returns {Promise<SchemaValidationResult>} The validated value and any violations
+   * @throws {Error} Errors thrown or returned by a third-party schema that are not
+   *         validation failures
+   *
+   * @example
+   * ```typescript
+   * const result = await SchemaValidator.validate(CreateUserSchema, req.body); // Zod
+   * if (result.violations.length > 0) {
+   *   throw new CertusSchemaValidationError('Invalid user', {}, result.violations);
+   * }
+   * ```
+   */
+  static async validate(
+    schema: RequestSchema,
+    value: unknown,
+    options: SchemaValidationOptions = {}
+  ): Promise<SchemaValidationResult> {
+    if (this.isYupSchema(schema)) {
+      try {
+        const validated = await schema.validate(value, {
+          abortEarly: false,
+          stripUnknown: options.stripUnknown ?? false,
+        });
+        return { value: validated, violations: [] };
+      } catch (error) {
+        if (isYupValidationError(error)) {
+          return { value, violations: fromYupError(error).violations };
+        }
+        throw error;
+      }
+    }
+
+    if (this.isZodSchema(schema)) {
+      const result = schema.safeParseAsync
+        ? await schema.safeParseAsync(value)
+        : schema.safeParse(value);
+      if (result.success) {
+        return { value: result.data, violations: [] };
+      }
+      if (isZodError(result.error)) {
+        return { value, violations: fromZodError(result.error).violations };
+      }
+      throw result.error;
+    }
+
+    if (this.isJoiSchema(schema)) {
+      const result = schema.validate(value, {
+        abortEarly: false,
+        stripUnknown: options.stripUnknown ?? false,
+      });
+      if (!result.error) {
+        return { value: result.value, violations: [] };
+      }
+      if (isJoiValidationError(result.error)) {
+        return { value, violations: fromJoiError(result.error).violations };
+      }
+      throw result.error;
+    }
+
+    const collector = new ViolationCollector();
+    const validated = this.validateObject(schema as ObjectSchema, value ?? {}, collector, options);
+    return { value: validated, violations: collector.getViolations() };
+  }
+
+  /**
+   * Checks an object against a DSL object schema.
+   *
+   * @private
+   * @param {ObjectSchema} schema - Field rules
+   * @param {unknown} value - The value to check
+   * @param {ViolationCollector} collector - Collector scoped to the object's path
+   * @param {SchemaValidationOptions} options - Coercion and stripping options
+   * @returns {unknown} The validated object, or the value itself if it is not an object
+   */
+  private static validateObject(
+    schema: ObjectSchema,
+    value: unknown,
+    collector: ViolationCollector,
+    options: SchemaValidationOptions
+  ): unknown {
+    if (!this.isPlainObject(value)) {
+      collector.add('', ErrorCodes.VAL_INVALID_FORMAT, {
+        params: { expected: 'object' },
+        value,
+      });
+      return value;
+    }
+
+    const result: Record<string, unknown> = options.stripUnknown ? {} : { ...value };
+
+    for (const [name, field] of Object.entries(schema)) {
+      const validated = this.validateField(field, value[name], collector.at([name]), options);
+      if (validated !== undefined) {
+        result[name] = validated;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks a value against a DSL field schema.
+   *
+   * @private
+   * @param {FieldSchema} field - Field rules
+   * @param {unknown} value - The value to check
+   * @param {ViolationCollector} collector - Collector scoped to the field's path
+   * @param {SchemaValidationOptions} options - Coercion and stripping options
+   * @returns {unknown} The validated value
+   */
+  private static validateField(
+    field: FieldSchema,
+    value: unknown,
+    collector: ViolationCollector,
+    options: SchemaValidationOptions
+  ): unknown {
+    if (value === undefined || value === null) {
+      if (field.required) {
+        collector.add('', ErrorCodes.VAL_REQUIRED_FIELD);
+      }
+      return value ?? field.default;
+    }
+
+    const coerced = options.coerce ? this.coerce(field, value) : value;
+
+    if (!this.hasType(field, coerced)) {
+      collector.add('', ErrorCodes.VAL_INVALID_FORMAT, {
+        params: { expected: field.type },
+        value: coerced,
+      });
+      return coerced;
+    }
+
+    if (field.enum && !field.enum.includes(coerced)) {
+      collector.add('', ErrorCodes.VAL_INVALID_CHOICE, {
+        params: { options: field.enum },
+        value: coerced,
+      });
+    }
+
+    switch (field.type) {
+      case 'string':
+        this.checkString(field, coerced as string, collector);
+        return coerced;
+      case 'number':
+      case 'integer':
+        this.checkBounds(
+          field,
+          coerced as number,
+          coerced as number,
+          ErrorCodes.VAL_NUMBER_TOO_SMALL,
+          ErrorCodes.VAL_NUMBER_TOO_LARGE,
+          collector
+        );
+        return coerced;
+      case 'array': {
+        const items = coerced as unknown[];
+        this.checkBounds(
+          field,
+          items.length,
+          items,
+          ErrorCodes.VAL_ARRAY_TOO_SHORT,
+          ErrorCodes.VAL_ARRAY_TOO_LONG,
+          collector
+        );
+        return field.items
+          ? items.map((item, index) =>
+              this.validateField(field.items!, item, collector.at([index]), options)
+            )
+          : items;
+      }
+      case 'object':
+        return field.properties
+          ? this.validateObject(field.properties, coerced, collector, options)
+          : coerced;
+      default:
+        return coerced;
+    }
+  }
+
+  /**
+   * Checks the length, pattern and format rules of a string.
+   *
+   * @private
+   * @param {FieldSchema} field - Field rules
+   * @param {string} value - The string to check
+   * @param {ViolationCollector} collector - Collector scoped to the field's path
+   */
+  private static checkString(
+    field: FieldSchema,
+    value: string,
+    collector: ViolationCollector
+  ): void {
+    this.checkBounds(
+      field,
+      value.length,
+      value,
+      ErrorCodes.VAL_STRING_TOO_SHORT,
+      ErrorCodes.VAL_STRING_TOO_LONG,
+      collector
+    );
+
+    if (field.pattern && !field.pattern.test(value)) {
+      collector.add('', ErrorCodes.VAL_INVALID_FORMAT, {
+        params: { pattern: field.pattern.source },
+        value,
+      });
+    }
+
+    if (field.format && !this.hasFormat(field.format, value)) {
+      const codes = {
+        email: ErrorCodes.VAL_INVALID_EMAIL,
+        url: ErrorCodes.VAL_INVALID_URL,
+        uuid: ErrorCodes.VAL_INVALID_UUID,
+        date: ErrorCodes.VAL_INVALID_DATE,
+      };
+      collector.add('', codes[field.format], { value });
+    }
+  }
+
+  /**
+   * Checks the `min`/`max` rules against a measured size.
+   *
+   * @private
+   * @param {FieldSchema} field - Field rules
+   * @param {number} size - Length or numeric value being bounded
+   * @param {unknown} value - The value reported as rejected
+   * @param {string} tooSmall - Code for a size below `min`
+   * @param {string} tooLarge - Code for a size above `max`
+   * @param {ViolationCollector} collector - Collector scoped to the field's path
+   */
+  private static checkBounds(
+    field: FieldSchema,
+    size: number,
+    value: unknown,
+    tooSmall: string,
+    tooLarge: string,
+    collector: ViolationCollector
+  ): void {
+    if (field.min !== undefined && size < field.min) {
+      collector.add('', tooSmall, { params: { min: field.min }, value });
+    }
+    if (field.max !== undefined && size > field.max) {
+      collector.add('', tooLarge, { params: { max: field.max }, value });
+    }
+  }
+
+  /**
+   * Converts string input to the declared type where unambiguous.
+   *
+   * Numeric strings become numbers, `true`/`false`/`1`/`0` become booleans, and
+   * single values become one-item arrays (as with `?tag=a` versus `?tag=a&tag=b`).
+   *
+   * @private
+   * @param {FieldSchema} field - Field rules
+   * @param {unknown} value - The raw value
+   * @returns {unknown} The coerced value, or the raw value if it cannot be converted
+   */
+  private static coerce(field: FieldSchema, value: unknown): unknown {
+    if (field.type === 'array') {
+      return Array.isArray(value) ? value : [value];
+    }
+
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    switch (field.type) {
+      case 'number':
+      case 'integer':
+        return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+      case 'boolean':
+        if (value === 'true' || value === '1') return true;
+        if (value === 'false' || value === '0') return false;
+        return value;
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Checks whether a value has the declared type.
+   *
+   * @private
+   * @param {FieldSchema} field - Field rules
+   * @param {unknown} value - The value to check
+   * @returns {boolean} True if the value matches the field type
+   */
+  private static hasType(field: FieldSchema, value: unknown): boolean {
+    switch (field.type) {
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return this.isPlainObject(value);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Checks whether a string has a DSL format.
+   *
+   * @private
+   * @param {string} format - The format name
+   * @param {string} value - The string to check
+   * @returns {boolean} True if the string has the format
+   */
+  private static hasFormat(format: string, value: string): boolean {
+    switch (format) {
+      case 'email':
+        return EMAIL_PATTERN.test(value);
+      case 'uuid':
+        return UUID_PATTERN.test(value);
+      case 'date':
+        return !isNaN(Date.parse(value));
+      case 'url':
+        try {
+          const { protocol } = new URL(value);
+          return protocol === 'http:' || protocol === 'https:';
+        } catch {
+          return false;
+        }
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Checks if a value is a non-array object.
+   *
+   * @private
+   * @param {unknown} value - The value to check
+   * @returns {boolean} True if the value is a non-null, non-array object
+   */
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Checks if a schema looks like a Yup schema.
+   *
+   * @private
+   * @param {RequestSchema} schema - The schema to check
+   * @returns {boolean} True for Yup schemas
+   */
+  private static isYupSchema(schema: RequestSchema): schema is YupSchemaLike {
+    return (schema as YupSchemaLike).__isYupSchema__ === true;
+  }
+
+  /**
+   * Checks if a schema looks like a Zod schema.
+   *
+   * @private
+   * @param {RequestSchema} schema - The schema to check
+   * @returns {boolean} True for Zod schemas
+   */
+  private static isZodSchema(schema: RequestSchema): schema is ZodSchemaLike {
+    return typeof (schema as ZodSchemaLike).safeParse === 'function';
+  }
+
+  /**
+   * Checks if a schema looks like a Joi schema.
+   *
+   * @private
+   * @param {RequestSchema} schema - The schema to check
+   * @returns {boolean} True for Joi schemas
+   */
+  private static isJoiSchema(schema: RequestSchema): schema is JoiSchemaLike {
+    return typeof (schema as JoiSchemaLike).validate === 'function';
+  }
+}
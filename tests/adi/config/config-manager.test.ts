@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ConfigManager } from '../../../src/adi/config';
+import { LogLevel } from '../../../src/types';
 
 describe('ConfigManager', () => {
   let originalEnv: NodeJS.ProcessEnv;
@@ -109,6 +110,47 @@ describe('ConfigManager', () => {
       };
       expect(() => configManager.updateConfig(invalidConfig)).toThrow('Invalid log level');
     });
+
+    it('should validate skip path patterns', () => {
+      expect(() => configManager.updateConfig({ middleware: { skipPaths: [42] } } as any)).toThrow(
+        expect.objectContaining({ code: 'CFG_INVALID_SKIP_PATHS', context: { pattern: 42 } })
+      );
+    });
+
+    it('should validate log sampling rules', () => {
+      expect(() =>
+        configManager.updateConfig({
+          middleware: { logSampling: [{ route: '/search', rate: 1.5 }] },
+        } as any)
+      ).toThrow(expect.objectContaining({ code: 'CFG_INVALID_LOG_SAMPLING' }));
+      expect(() =>
+        configManager.updateConfig({
+          middleware: { logSampling: [{ route: '/search', rate: 0.1 }] },
+        } as any)
+      ).not.toThrow();
+    });
+
+    it('should validate error log levels', () => {
+      expect(configManager.getErrorsConfig().logLevels).toEqual({
+        '4xx': LogLevel.WARN,
+        '5xx': LogLevel.ERROR,
+      });
+      expect(() =>
+        configManager.updateConfig({ errors: { logLevels: { '40x': LogLevel.INFO } } } as any)
+      ).toThrow(expect.objectContaining({ code: 'CFG_INVALID_ERROR_LOGGING' }));
+
+      configManager.reset();
+      configManager.initialize();
+      expect(() =>
+        configManager.updateConfig({ errors: { logLevels: { '404': 9 } } } as any)
+      ).toThrow(expect.objectContaining({ code: 'CFG_INVALID_ERROR_LOGGING' }));
+    });
+
+    it('should validate silent error codes', () => {
+      expect(() =>
+        configManager.updateConfig({ errors: { silentCodes: 'AUTH_TOKEN_EXPIRED' } } as any)
+      ).toThrow('Silent error codes must be an array of strings');
+    });
   });
 
   describe('Environment Variable Helpers', () => {
@@ -165,6 +207,18 @@ describe('ConfigManager', () => {
       expect(configManager.getResponsesConfig()).toHaveProperty('pagination');
       expect(configManager.getMiddlewareConfig()).toHaveProperty('enableErrorHandler');
     });
+
+    it('should compile the skip paths into a matcher', () => {
+      const matcher = configManager.getSkipPathMatcher();
+
+      expect(matcher.test('/health')).toBe(true);
+      expect(matcher.test('/api/users')).toBe(false);
+      expect(configManager.getSkipPathMatcher()).toBe(matcher);
+
+      configManager.updateConfig({ middleware: { skipPaths: ['/internal/**'] } } as any);
+      expect(configManager.getSkipPathMatcher().test('/internal/jobs')).toBe(true);
+      expect(configManager.getSkipPathMatcher().test('/health')).toBe(false);
+    });
   });
 
   describe('updateConfig()', () => {
@@ -187,4 +241,4 @@ describe('ConfigManager', () => {
       expect(() => newManager.updateConfig({})).toThrow('Configuration not initialized');
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { RequestContextStore } from '../../../src/adi/context/request-context';
+
+describe('RequestContextStore', () => {
+  it('should be inactive outside any context', () => {
+    expect(RequestContextStore.isActive()).toBe(false);
+    expect(RequestContextStore.get()).toBeUndefined();
+    expect(RequestContextStore.getValue('requestId')).toBeUndefined();
+    expect(RequestContextStore.set({ userId: 'user_1' })).toBe(false);
+  });
+
+  it('should expose the context inside run', () => {
+    const result = RequestContextStore.run({ requestId: 'req_1', tenant: 'acme' }, () => {
+      expect(RequestContextStore.isActive()).toBe(true);
+      expect(RequestContextStore.getValue('tenant')).toBe('acme');
+      return RequestContextStore.get();
+    });
+
+    expect(result).toEqual({ requestId: 'req_1', tenant: 'acme' });
+  });
+
+  it('should propagate the context across await boundaries', async () => {
+    await RequestContextStore.run({ requestId: 'req_async' }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(RequestContextStore.getValue('requestId')).toBe('req_async');
+    });
+  });
+
+  it('should merge fields set inside the context', () => {
+    RequestContextStore.run({ requestId: 'req_1' }, () => {
+      expect(RequestContextStore.set({ userId: 'user_1', role: 'admin' })).toBe(true);
+      expect(RequestContextStore.get()).toEqual({
+        requestId: 'req_1',
+        userId: 'user_1',
+        role: 'admin',
+      });
+    });
+  });
+
+  it('should inherit the outer context without leaking nested changes', () => {
+    RequestContextStore.run({ requestId: 'outer', tenant: 'acme' }, () => {
+      RequestContextStore.run({ requestId: 'inner' }, () => {
+        RequestContextStore.set({ userId: 'user_1' });
+        expect(RequestContextStore.get()).toEqual({
+          requestId: 'inner',
+          tenant: 'acme',
+          userId: 'user_1',
+        });
+      });
+
+      expect(RequestContextStore.get()).toEqual({ requestId: 'outer', tenant: 'acme' });
+    });
+  });
+
+  it('should return a copy of the context', () => {
+    RequestContextStore.run({ requestId: 'req_1' }, () => {
+      const context = RequestContextStore.get()!;
+      context.requestId = 'changed';
+
+      expect(RequestContextStore.getValue('requestId')).toBe('req_1');
+    });
+  });
+});
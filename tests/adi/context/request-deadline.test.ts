@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestDeadline } from '../../../src/adi/context/request-deadline';
+import { CertusOperationTimeoutError } from '../../../src/certus';
+import { ErrorCodes } from '../../../src/constants';
+
+describe('RequestDeadline', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should have no deadline outside any scope', () => {
+    expect(RequestDeadline.get()).toBeUndefined();
+    expect(RequestDeadline.remaining()).toBeUndefined();
+    expect(RequestDeadline.signal()).toBeUndefined();
+    expect(() => RequestDeadline.throwIfExpired()).not.toThrow();
+  });
+
+  it('should expose the deadline inside run', () => {
+    const start = Date.now();
+
+    const info = RequestDeadline.run(5000, () => {
+      vi.advanceTimersByTime(1000);
+      return RequestDeadline.get();
+    });
+
+    expect(info).toEqual({ deadline: new Date(start + 5000), budgetMs: 5000, remainingMs: 4000 });
+  });
+
+  it('should abort the signal with a timeout error when the deadline expires', async () => {
+    let signal: AbortSignal | undefined;
+
+    const running = RequestDeadline.run(1000, async () => {
+      signal = RequestDeadline.signal();
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(signal!.aborted).toBe(true);
+    expect(signal!.reason).toBeInstanceOf(CertusOperationTimeoutError);
+    expect(signal!.reason).toMatchObject({
+      code: ErrorCodes.GEN_TIMEOUT,
+      message: 'Deadline of 1000 ms exceeded',
+      context: { budgetMs: 1000, elapsedMs: 1000 },
+    });
+
+    await vi.runAllTimersAsync();
+    await running;
+  });
+
+  it('should name the operation in the timeout error', () => {
+    RequestDeadline.run(
+      200,
+      () => {
+        vi.advanceTimersByTime(250);
+        expect(() => RequestDeadline.throwIfExpired()).toThrow(
+          "Operation 'export' timed out after 200 ms"
+        );
+      },
+      { operation: 'export' }
+    );
+  });
+
+  it('should bound nested scopes by the enclosing deadline', () => {
+    RequestDeadline.run(2000, () => {
+      vi.advanceTimersByTime(500);
+
+      RequestDeadline.run(5000, () => {
+        expect(RequestDeadline.get()).toMatchObject({ budgetMs: 1500, remainingMs: 1500 });
+      });
+      RequestDeadline.run(300, () => {
+        expect(RequestDeadline.remaining()).toBe(300);
+      });
+    });
+  });
+
+  it('should abort nested scopes with the reason of the enclosing scope', async () => {
+    let inner: AbortSignal | undefined;
+
+    const running = RequestDeadline.run(1000, () =>
+      RequestDeadline.run(5000, async () => {
+        inner = RequestDeadline.signal();
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+      })
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(inner!.reason).toMatchObject({ context: { budgetMs: 1000 } });
+
+    await vi.runAllTimersAsync();
+    await running;
+  });
+
+  it('should abort when the caller signal aborts', () => {
+    const controller = new AbortController();
+    const reason = new Error('Client disconnected');
+
+    RequestDeadline.run(
+      5000,
+      () => {
+        controller.abort(reason);
+        expect(RequestDeadline.signal()!.reason).toBe(reason);
+        expect(() => RequestDeadline.throwIfExpired()).toThrow(reason);
+      },
+      { signal: controller.signal }
+    );
+  });
+
+  it('should expire immediately without budget left', () => {
+    RequestDeadline.run(0, () => {
+      expect(RequestDeadline.signal()!.aborted).toBe(true);
+      expect(RequestDeadline.remaining()).toBe(0);
+    });
+  });
+
+  it('should clear the timer once the scope ends', async () => {
+    await RequestDeadline.run(1000, async () => undefined);
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
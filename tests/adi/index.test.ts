@@ -12,9 +12,25 @@ describe('ADI Module', () => {
     expect(typeof ADI.CommonUtils.deepClone).toBe('function');
   });
 
+  it('should export RequestContextStore', () => {
+    expect(ADI.RequestContextStore).toBeDefined();
+    expect(typeof ADI.RequestContextStore.run).toBe('function');
+  });
+
+  it('should export RequestDeadline', () => {
+    expect(ADI.RequestDeadline).toBeDefined();
+    expect(typeof ADI.RequestDeadline.run).toBe('function');
+  });
+
   it('should have all expected exports', () => {
     const exports = Object.keys(ADI);
-    expect(exports).toEqual(['ConfigManager', 'CommonUtils']);
+    expect(exports).toEqual([
+      'ConfigManager',
+      'RequestContextStore',
+      'RequestDeadline',
+      'CommonUtils',
+      'RouteMatcher',
+    ]);
   });
 
   it('should allow ConfigManager instantiation', () => {
@@ -28,4 +44,4 @@ describe('ADI Module', () => {
     expect(typeof ADI.CommonUtils.isValidEmail).toBe('function');
     expect(typeof ADI.CommonUtils.retry).toBe('function');
   });
-});
\ No newline at end of file
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { CommonUtils } from '../../../src/adi/utils';
-import { CertusAdiValtError } from '../../../src/certus';
+import { CertusAdiValtError, CertusCircuitOpenError } from '../../../src/certus';
 
 describe('CommonUtils', () => {
   describe('deepClone()', () => {
@@ -94,6 +94,16 @@ describe('CommonUtils', () => {
         CertusAdiValtError
       );
     });
+
+    it('should rethrow circuit breaker rejections without retrying', async () => {
+      const rejection = new CertusCircuitOpenError("Circuit 'rates' is open", { circuit: 'rates' });
+      const mockFn = vi.fn().mockRejectedValue(rejection);
+
+      await expect(CommonUtils.retry(mockFn, { maxAttempts: 3, delayMs: 10 })).rejects.toBe(
+        rejection
+      );
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('debounce()', () => {
@@ -203,6 +213,50 @@ describe('CommonUtils', () => {
     });
   });
 
+  describe('generateUuidV7()', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should generate a version 7 UUID', () => {
+      expect(CommonUtils.generateUuidV7()).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+    });
+
+    it('should encode the timestamp so later IDs sort after earlier ones', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      const earlier = CommonUtils.generateUuidV7();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.001Z'));
+      const later = CommonUtils.generateUuidV7();
+
+      expect(earlier.slice(0, 13)).toBe('018cc251-f400');
+      expect([later, earlier].sort()).toEqual([earlier, later]);
+    });
+  });
+
+  describe('generateUlid()', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should generate a 26-character Crockford base32 ID', () => {
+      expect(CommonUtils.generateUlid()).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    });
+
+    it('should encode the timestamp so later IDs sort after earlier ones', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      const earlier = CommonUtils.generateUlid();
+      vi.setSystemTime(new Date('2024-01-01T00:00:01.000Z'));
+      const later = CommonUtils.generateUlid();
+
+      expect(earlier.slice(0, 10)).toBe('01HK153X00');
+      expect([later, earlier].sort()).toEqual([earlier, later]);
+    });
+  });
+
   describe('maskSensitiveData()', () => {
     it('should mask strings with default visible characters', () => {
       const result = CommonUtils.maskSensitiveData('1234567890');
@@ -226,4 +280,4 @@ describe('CommonUtils', () => {
       expect(CommonUtils.isNodeEnvironment()).toBe(true);
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { RouteMatcher } from '../../../src/adi/utils/route-matcher';
+import { CertusConfigurationError } from '../../../src/certus';
+import { RoutePattern } from '../../../src/types';
+
+describe('RouteMatcher', () => {
+  it('should match exact paths, ignoring a trailing slash', () => {
+    const matcher = new RouteMatcher(['/health', '/api/']);
+
+    expect(matcher.test('/health')).toBe(true);
+    expect(matcher.test('/health/')).toBe(true);
+    expect(matcher.test('/api')).toBe(true);
+    expect(matcher.test('/health/live')).toBe(false);
+    expect(matcher.test('/healthz')).toBe(false);
+  });
+
+  it('should match prefixes segment by segment', () => {
+    const matcher = new RouteMatcher([{ path: '/internal', match: 'prefix' }]);
+
+    expect(matcher.test('/internal')).toBe(true);
+    expect(matcher.test('/internal/jobs/42')).toBe(true);
+    expect(matcher.test('/internals')).toBe(false);
+  });
+
+  it('should match glob patterns', () => {
+    const matcher = new RouteMatcher(['/static/**', '/api/*/status', '/files/*.txt']);
+
+    expect(matcher.test('/static')).toBe(true);
+    expect(matcher.test('/static/css/app.css')).toBe(true);
+    expect(matcher.test('/api/orders/status')).toBe(true);
+    expect(matcher.test('/api/orders/42/status')).toBe(false);
+    expect(matcher.test('/files/notes.txt')).toBe(true);
+    expect(matcher.test('/files/notesXtxt')).toBe(false);
+  });
+
+  it('should test regular expressions against the path', () => {
+    const matcher = new RouteMatcher([/^\/v\d+\/ping$/]);
+
+    expect(matcher.test('/v2/ping')).toBe(true);
+    expect(matcher.test('/v2/pong')).toBe(false);
+  });
+
+  it('should restrict patterns to their methods', () => {
+    const matcher = new RouteMatcher([
+      'get,HEAD /metrics',
+      { path: /^\/admin/, methods: ['delete'] },
+    ]);
+
+    expect(matcher.test('/metrics', 'GET')).toBe(true);
+    expect(matcher.test('/metrics', 'head')).toBe(true);
+    expect(matcher.test('/metrics', 'POST')).toBe(false);
+    expect(matcher.test('/metrics')).toBe(false);
+    expect(matcher.test('/admin/users/1', 'DELETE')).toBe(true);
+    expect(matcher.test('/admin/users/1', 'GET')).toBe(false);
+  });
+
+  it('should match requests on their full path', () => {
+    const matcher = new RouteMatcher(['POST /api/orders']);
+
+    expect(matcher.matches({ method: 'POST', baseUrl: '/api', path: '/orders' })).toBe(true);
+    expect(matcher.matches({ method: 'POST', path: '/orders' })).toBe(false);
+    expect(matcher.matches({})).toBe(false);
+  });
+
+  it('should match nothing without patterns', () => {
+    expect(new RouteMatcher().test('/')).toBe(false);
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(() => new RouteMatcher([42 as unknown as RoutePattern])).toThrow(
+      CertusConfigurationError
+    );
+    expect(() => new RouteMatcher([{ path: '' }])).toThrow('Invalid route pattern');
+  });
+});
@@ -1,6 +1,14 @@
-import { describe, it, expect } from 'vitest';
-import { CertusAdiValtError } from '../../../src/certus';
-import { ErrorCodes, HttpStatus } from '../../../src/constants';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CertusAdiValtError,
+  CertusClientError,
+  CertusConfigurationError,
+  CertusServerError,
+  CertusTokenExpiredError,
+  ErrorRegistry,
+} from '../../../src/certus';
+import { ErrorCodes, ErrorMessages, HttpStatus } from '../../../src/constants';
+import { RequestContextStore } from '../../../src/adi';
 
 describe('CertusAdiValtError', () => {
   describe('Constructor', () => {
@@ -36,6 +44,57 @@ describe('CertusAdiValtError', () => {
     });
   });
 
+  describe('fromCode()', () => {
+    it('should take the status and message from the catalog', () => {
+      const error = CertusAdiValtError.fromCode(ErrorCodes.PAY_INVALID_CARD, { orderId: 'ord_1' });
+
+      expect(error).toBeInstanceOf(CertusClientError);
+      expect(error.name).toBe('CertusClientError');
+      expect(error.code).toBe(ErrorCodes.PAY_INVALID_CARD);
+      expect(error.statusCode).toBe(HttpStatus.PAYMENT_REQUIRED);
+      expect(error.message).toBe(ErrorMessages[ErrorCodes.PAY_INVALID_CARD]);
+      expect(error.context).toEqual({ orderId: 'ord_1' });
+    });
+
+    it('should create the class registered for the code', () => {
+      const cause = new Error('jwt expired');
+      const error = CertusAdiValtError.fromCode(
+        ErrorCodes.AUTH_TOKEN_EXPIRED,
+        {},
+        {
+          message: 'Please sign in again',
+          originalError: cause,
+        }
+      );
+
+      expect(error).toBeInstanceOf(CertusTokenExpiredError);
+      expect(error.name).toBe('CertusTokenExpiredError');
+      expect(error.statusCode).toBe(HttpStatus.UNAUTHORIZED);
+      expect(error.message).toBe('Please sign in again');
+      expect(error.cause).toBe(cause);
+    });
+
+    it('should apply a status code override', () => {
+      const error = CertusAdiValtError.fromCode(
+        ErrorCodes.NET_PROXY_ERROR,
+        {},
+        { statusCode: 503 }
+      );
+
+      expect(error).toBeInstanceOf(CertusServerError);
+      expect(error.statusCode).toBe(503);
+    });
+
+    it('should create the registered class when only the errors are imported', async () => {
+      vi.resetModules();
+      const errors = await import('../../../src/certus/errors');
+
+      const error = errors.CertusAdiValtError.fromCode(ErrorCodes.AUTH_TOKEN_EXPIRED);
+
+      expect(error).toBeInstanceOf(errors.CertusTokenExpiredError);
+    });
+  });
+
   describe('toJSON()', () => {
     it('should serialize error to JSON format', () => {
       const context = { userId: '123' };
@@ -113,6 +172,27 @@ describe('CertusAdiValtError', () => {
       });
     });
 
+    it('should keep the subclass and its fields when cloning', () => {
+      class TestValidationError extends CertusAdiValtError {
+        public readonly field: string;
+
+        constructor(field: string) {
+          super(`${field} is invalid`, 'TEST_INVALID', 422);
+          this.name = 'TestValidationError';
+          this.field = field;
+        }
+      }
+      const originalError = new TestValidationError('email');
+
+      const clonedError = originalError.withContext({ attempt: 2 });
+
+      expect(clonedError).toBeInstanceOf(TestValidationError);
+      expect(clonedError.name).toBe('TestValidationError');
+      expect(clonedError.field).toBe('email');
+      expect(clonedError.message).toBe('email is invalid');
+      expect(clonedError.toJSON()).toMatchObject({ field: 'email' });
+    });
+
     it('should clone error with new code using withCode()', () => {
       const originalError = new CertusAdiValtError('Error', 'OLD_CODE', 400);
 
@@ -143,6 +223,68 @@ describe('CertusAdiValtError', () => {
     });
   });
 
+  describe('Public message and context', () => {
+    it('should show client error messages and hide server error messages', () => {
+      expect(new CertusAdiValtError('Email taken', 'CODE', 409).getPublicMessage()).toBe(
+        'Email taken'
+      );
+      expect(new CertusAdiValtError('Connection to db-3 refused').getPublicMessage()).toBe(
+        ErrorMessages[ErrorCodes.SRV_INTERNAL_ERROR]
+      );
+    });
+
+    it('should prefer the public message and keep the internal one', () => {
+      const error = new CertusServerError('Deadlock on table orders').withPublicMessage(
+        'Please retry the request'
+      );
+
+      expect(error).toBeInstanceOf(CertusServerError);
+      expect(error.message).toBe('Deadlock on table orders');
+      expect(error.getPublicMessage()).toBe('Please retry the request');
+      expect(error.withContext({ attempt: 2 }).getPublicMessage()).toBe('Please retry the request');
+    });
+
+    it('should only show context entries marked public', () => {
+      const error = new CertusAdiValtError('Quota exceeded', 'QUOTA_EXCEEDED', 429, {
+        accountId: 'acc_1',
+        quota: 100,
+      })
+        .withPublicContext(['quota', 'missing'])
+        .withPublicContext({ resetAt: '2026-01-01T00:00:00.000Z' });
+
+      expect(error.context).toEqual({
+        accountId: 'acc_1',
+        quota: 100,
+        resetAt: '2026-01-01T00:00:00.000Z',
+      });
+      expect(error.getPublicContext()).toEqual({ quota: 100, resetAt: '2026-01-01T00:00:00.000Z' });
+      expect(new CertusAdiValtError('Error', 'CODE', 400, { id: 1 }).getPublicContext()).toEqual(
+        {}
+      );
+    });
+  });
+
+  describe('Operational classification', () => {
+    it('should be operational unless the class declares programmer errors', () => {
+      expect(new CertusAdiValtError('Error').isOperational).toBe(true);
+      expect(new CertusTokenExpiredError().isOperational).toBe(true);
+      expect(new CertusConfigurationError().isOperational).toBe(false);
+      expect(CertusAdiValtError.fromCode(ErrorCodes.SRV_CONFIGURATION_ERROR).isOperational).toBe(
+        false
+      );
+    });
+
+    it('should override the classification and keep it across builders and JSON', () => {
+      const error = new CertusServerError('Order without lines').withOperational(false);
+
+      expect(error).toBeInstanceOf(CertusServerError);
+      expect(error.isOperational).toBe(false);
+      expect(error.withContext({ orderId: 'ord_1' }).isOperational).toBe(false);
+      expect(ErrorRegistry.fromJSON(JSON.stringify(error)).isOperational).toBe(false);
+      expect(new CertusConfigurationError().withOperational(true).isOperational).toBe(true);
+    });
+  });
+
   describe('Inheritance', () => {
     it('should maintain prototype chain', () => {
       const error = new CertusAdiValtError('Test error');
@@ -231,4 +373,22 @@ describe('CertusAdiValtError', () => {
       expect(clonedError.context).toEqual({ field: 'value' });
     });
   });
-});
\ No newline at end of file
+
+  describe('Request Context', () => {
+    it('should capture the current request context into context', () => {
+      const error = RequestContextStore.run({ requestId: 'req_1', tenant: 'acme' }, () => {
+        return new CertusAdiValtError('Test error');
+      });
+
+      expect(error.context).toEqual({ requestId: 'req_1', tenant: 'acme' });
+    });
+
+    it('should let explicit context override request context fields', () => {
+      const error = RequestContextStore.run({ requestId: 'req_1', userId: 'user_1' }, () => {
+        return new CertusAdiValtError('Test error', undefined, undefined, { userId: 'user_2' });
+      });
+
+      expect(error.context).toEqual({ requestId: 'req_1', userId: 'user_2' });
+    });
+  });
+});
@@ -5,6 +5,13 @@ import {
   CertusNotFoundError,
   CertusUnauthorizedError,
   CertusForbiddenError,
+  CertusConflictError,
+  CertusTooManyRequestsError,
+  CertusPayloadTooLargeError,
+  CertusMethodNotAllowedError,
+  CertusGoneError,
+  CertusAdiValtError,
+  ErrorRegistry,
 } from '../../../src/certus';
 import { ErrorCodes, HttpStatus } from '../../../src/constants';
 
@@ -93,4 +100,77 @@ describe('Client Errors', () => {
       expect(error.statusCode).toBe(HttpStatus.FORBIDDEN);
     });
   });
-});
\ No newline at end of file
+
+  describe('CertusConflictError', () => {
+    it('should create conflict error', () => {
+      const error = new CertusConflictError('Order was modified', { orderId: 'ord_1' });
+
+      expect(error.name).toBe('CertusConflictError');
+      expect(error.code).toBe(ErrorCodes.GEN_CONFLICT);
+      expect(error.statusCode).toBe(HttpStatus.CONFLICT);
+      expect(error.context).toEqual({ orderId: 'ord_1' });
+      expect(new CertusConflictError().message).toBe('Resource conflict');
+    });
+  });
+
+  describe('CertusTooManyRequestsError', () => {
+    it('should create too many requests error with retry after', () => {
+      const error = new CertusTooManyRequestsError('Slow down', { limit: 5 }, 30);
+
+      expect(error.name).toBe('CertusTooManyRequestsError');
+      expect(error.code).toBe(ErrorCodes.SRV_RATE_LIMIT);
+      expect(error.statusCode).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(error.retryAfter).toBe(30);
+      expect(error.withContext({ userId: 'u1' }).retryAfter).toBe(30);
+    });
+
+    it('should be created from the rate limit code', () => {
+      const error = CertusAdiValtError.fromCode(ErrorCodes.SRV_RATE_LIMIT);
+
+      expect(error).toBeInstanceOf(CertusTooManyRequestsError);
+      expect(error).toBeInstanceOf(CertusClientError);
+    });
+  });
+
+  describe('CertusPayloadTooLargeError', () => {
+    it('should create payload too large error', () => {
+      const error = new CertusPayloadTooLargeError();
+
+      expect(error.name).toBe('CertusPayloadTooLargeError');
+      expect(error.message).toBe('Request body too large');
+      expect(error.code).toBe(ErrorCodes.GEN_PAYLOAD_TOO_LARGE);
+      expect(error.statusCode).toBe(HttpStatus.PAYLOAD_TOO_LARGE);
+    });
+  });
+
+  describe('CertusMethodNotAllowedError', () => {
+    it('should create method not allowed error with upper-cased allowed methods', () => {
+      const error = new CertusMethodNotAllowedError('DELETE not supported', {}, ['get', 'HEAD']);
+
+      expect(error.name).toBe('CertusMethodNotAllowedError');
+      expect(error.code).toBe(ErrorCodes.GEN_METHOD_NOT_ALLOWED);
+      expect(error.statusCode).toBe(HttpStatus.METHOD_NOT_ALLOWED);
+      expect(error.allowedMethods).toEqual(['GET', 'HEAD']);
+      expect(new CertusMethodNotAllowedError().allowedMethods).toEqual([]);
+    });
+
+    it('should keep the allowed methods through serialization', () => {
+      const error = new CertusMethodNotAllowedError(undefined, {}, ['GET']);
+      const copy = ErrorRegistry.fromJSON(JSON.stringify(error));
+
+      expect(copy).toBeInstanceOf(CertusMethodNotAllowedError);
+      expect((copy as CertusMethodNotAllowedError).allowedMethods).toEqual(['GET']);
+    });
+  });
+
+  describe('CertusGoneError', () => {
+    it('should create gone error', () => {
+      const error = new CertusGoneError('API v1 was retired', { apiVersion: 'v1' });
+
+      expect(error.name).toBe('CertusGoneError');
+      expect(error.code).toBe(ErrorCodes.GEN_GONE);
+      expect(error.statusCode).toBe(HttpStatus.GONE);
+      expect(new CertusGoneError().message).toBe('Resource no longer available');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CertusAdiValtError,
+  CertusFileError,
+  CertusFileNotFoundError,
+  CertusFileTooLargeError,
+  CertusInvalidFileTypeError,
+  CertusStorageLimitError,
+} from '../../../src/certus';
+import { ErrorCodes, HttpStatus } from '../../../src/constants';
+
+describe('File Errors', () => {
+  describe('CertusFileError', () => {
+    it('should create file error with default values', () => {
+      const error = new CertusFileError();
+
+      expect(error.name).toBe('CertusFileError');
+      expect(error.message).toBe('File upload failed');
+      expect(error.code).toBe(ErrorCodes.FILE_UPLOAD_ERROR);
+      expect(error.statusCode).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+    });
+
+    it('should create file error with custom values', () => {
+      const cause = new Error('NoSuchBucket');
+      const context = { bucket: 'exports', key: 'report.csv' };
+      const error = new CertusFileError(
+        'Download failed',
+        ErrorCodes.FILE_DOWNLOAD_ERROR,
+        HttpStatus.BAD_GATEWAY,
+        context,
+        cause
+      );
+
+      expect(error.code).toBe(ErrorCodes.FILE_DOWNLOAD_ERROR);
+      expect(error.statusCode).toBe(HttpStatus.BAD_GATEWAY);
+      expect(error.context).toEqual(context);
+      expect(error.cause).toBe(cause);
+    });
+  });
+
+  describe('subclasses', () => {
+    it('should set the code and status code of each case', () => {
+      const notFound = new CertusFileNotFoundError('Avatar not found', { fileId: 'file_1' });
+      const tooLarge = new CertusFileTooLargeError();
+      const invalidType = new CertusInvalidFileTypeError();
+      const storageLimit = new CertusStorageLimitError();
+
+      expect(notFound).toBeInstanceOf(CertusFileError);
+      expect(notFound.name).toBe('CertusFileNotFoundError');
+      expect(notFound.message).toBe('Avatar not found');
+      expect(notFound.context).toEqual({ fileId: 'file_1' });
+      expect(notFound.statusCode).toBe(HttpStatus.NOT_FOUND);
+      expect(tooLarge.code).toBe(ErrorCodes.FILE_TOO_LARGE);
+      expect(tooLarge.statusCode).toBe(HttpStatus.PAYLOAD_TOO_LARGE);
+      expect(tooLarge.message).toBe('File size exceeds limit');
+      expect(invalidType.code).toBe(ErrorCodes.FILE_INVALID_TYPE);
+      expect(invalidType.statusCode).toBe(HttpStatus.UNSUPPORTED_MEDIA_TYPE);
+      expect(storageLimit.code).toBe(ErrorCodes.FILE_STORAGE_LIMIT);
+      expect(storageLimit.statusCode).toBe(HttpStatus.INSUFFICIENT_STORAGE);
+    });
+
+    it('should be created from their code', () => {
+      const error = CertusAdiValtError.fromCode(ErrorCodes.FILE_TOO_LARGE, { maxBytes: 1024 });
+
+      expect(error).toBeInstanceOf(CertusFileTooLargeError);
+      expect(error.statusCode).toBe(HttpStatus.PAYLOAD_TOO_LARGE);
+      expect(error.context).toEqual({ maxBytes: 1024 });
+    });
+
+    it('should keep their class when cloned', () => {
+      const error = new CertusFileTooLargeError().withContext({ maxBytes: 1024 });
+
+      expect(error).toBeInstanceOf(CertusFileTooLargeError);
+      expect(error.statusCode).toBe(HttpStatus.PAYLOAD_TOO_LARGE);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CertusAdiValtError,
+  CertusNetworkError,
+  CertusDnsError,
+  CertusSslError,
+  CertusNetworkTimeoutError,
+} from '../../../src/certus';
+import { ErrorCodes, HttpStatus } from '../../../src/constants';
+
+describe('Network Errors', () => {
+  describe('CertusNetworkError', () => {
+    it('should create network error with default values', () => {
+      const error = new CertusNetworkError();
+
+      expect(error.name).toBe('CertusNetworkError');
+      expect(error.message).toBe('Network connection failed');
+      expect(error.code).toBe(ErrorCodes.NET_NETWORK_ERROR);
+      expect(error.statusCode).toBe(HttpStatus.BAD_GATEWAY);
+    });
+
+    it('should create network error with custom values', () => {
+      const context = { host: 'api.partner.com', port: 443 };
+      const error = new CertusNetworkError(
+        'Outbound connection blocked',
+        ErrorCodes.NET_FIREWALL_BLOCKED,
+        HttpStatus.FORBIDDEN,
+        context
+      );
+
+      expect(error.code).toBe(ErrorCodes.NET_FIREWALL_BLOCKED);
+      expect(error.statusCode).toBe(HttpStatus.FORBIDDEN);
+      expect(error.context).toEqual(context);
+    });
+  });
+
+  describe('CertusDnsError', () => {
+    it('should create DNS error as a bad gateway error', () => {
+      const cause = Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' });
+      const error = new CertusDnsError(undefined, { host: 'api.partner.com' }, cause);
+
+      expect(error).toBeInstanceOf(CertusNetworkError);
+      expect(error.name).toBe('CertusDnsError');
+      expect(error.message).toBe('DNS resolution failed');
+      expect(error.code).toBe(ErrorCodes.NET_DNS_ERROR);
+      expect(error.statusCode).toBe(HttpStatus.BAD_GATEWAY);
+      expect(error.cause).toBe(cause);
+    });
+  });
+
+  describe('CertusSslError', () => {
+    it('should create SSL error as a bad gateway error', () => {
+      const error = new CertusSslError('Certificate has expired');
+
+      expect(error.name).toBe('CertusSslError');
+      expect(error.code).toBe(ErrorCodes.NET_SSL_ERROR);
+      expect(error.statusCode).toBe(HttpStatus.BAD_GATEWAY);
+    });
+  });
+
+  describe('CertusNetworkTimeoutError', () => {
+    it('should create timeout error as a gateway timeout error', () => {
+      const error = new CertusNetworkTimeoutError();
+
+      expect(error.message).toBe('Connection timeout');
+      expect(error.code).toBe(ErrorCodes.NET_CONNECTION_TIMEOUT);
+      expect(error.statusCode).toBe(HttpStatus.GATEWAY_TIMEOUT);
+    });
+  });
+
+  it('should create the subclasses from their code', () => {
+    expect(CertusAdiValtError.fromCode(ErrorCodes.NET_DNS_ERROR)).toBeInstanceOf(CertusDnsError);
+    expect(CertusAdiValtError.fromCode(ErrorCodes.NET_SSL_ERROR)).toBeInstanceOf(CertusSslError);
+    expect(CertusAdiValtError.fromCode(ErrorCodes.NET_CONNECTION_TIMEOUT)).toBeInstanceOf(
+      CertusNetworkTimeoutError
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CertusAdiValtError,
+  CertusNotificationError,
+  CertusEmailDeliveryError,
+  CertusSmsDeliveryError,
+  CertusNotificationRateLimitError,
+} from '../../../src/certus';
+import { ErrorCodes, HttpStatus } from '../../../src/constants';
+
+describe('Notification Errors', () => {
+  describe('CertusNotificationError', () => {
+    it('should create notification error with default values', () => {
+      const error = new CertusNotificationError();
+
+      expect(error.name).toBe('CertusNotificationError');
+      expect(error.message).toBe('Notification service error');
+      expect(error.code).toBe(ErrorCodes.NOTIF_PROVIDER_ERROR);
+      expect(error.statusCode).toBe(HttpStatus.BAD_GATEWAY);
+    });
+
+    it('should create notification error with custom values', () => {
+      const context = { template: 'welcome', locale: 'de' };
+      const error = new CertusNotificationError(
+        'Template missing',
+        ErrorCodes.NOTIF_TEMPLATE_NOT_FOUND,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        context
+      );
+
+      expect(error.code).toBe(ErrorCodes.NOTIF_TEMPLATE_NOT_FOUND);
+      expect(error.statusCode).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+      expect(error.context).toEqual(context);
+    });
+  });
+
+  describe('subclasses', () => {
+    it('should set the code and status code of each case', () => {
+      const cause = new Error('550 mailbox unavailable');
+      const email = new CertusEmailDeliveryError('Reset email failed', { userId: 'u1' }, cause);
+      const sms = new CertusSmsDeliveryError();
+      const rateLimit = new CertusNotificationRateLimitError();
+
+      expect(email).toBeInstanceOf(CertusNotificationError);
+      expect(email.name).toBe('CertusEmailDeliveryError');
+      expect(email.code).toBe(ErrorCodes.NOTIF_EMAIL_FAILED);
+      expect(email.statusCode).toBe(HttpStatus.BAD_GATEWAY);
+      expect(email.cause).toBe(cause);
+      expect(sms.code).toBe(ErrorCodes.NOTIF_SMS_FAILED);
+      expect(sms.message).toBe('SMS sending failed');
+      expect(rateLimit.code).toBe(ErrorCodes.NOTIF_RATE_LIMIT);
+      expect(rateLimit.statusCode).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    });
+
+    it('should be created from their code', () => {
+      expect(CertusAdiValtError.fromCode(ErrorCodes.NOTIF_EMAIL_FAILED)).toBeInstanceOf(
+        CertusEmailDeliveryError
+      );
+      expect(CertusAdiValtError.fromCode(ErrorCodes.NOTIF_RATE_LIMIT)).toBeInstanceOf(
+        CertusNotificationRateLimitError
+      );
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CertusAdiValtError,
+  CertusClientError,
+  CertusPaymentError,
+  CertusCardDeclinedError,
+  CertusInsufficientFundsError,
+  CertusPaymentProcessorError,
+} from '../../../src/certus';
+import { ErrorCodes, HttpStatus } from '../../../src/constants';
+
+describe('Payment Errors', () => {
+  describe('CertusPaymentError', () => {
+    it('should create payment error with default values', () => {
+      const error = new CertusPaymentError();
+
+      expect(error.name).toBe('CertusPaymentError');
+      expect(error.message).toBe('Payment processing failed');
+      expect(error.code).toBe(ErrorCodes.PAY_PAYMENT_FAILED);
+      expect(error.statusCode).toBe(HttpStatus.PAYMENT_REQUIRED);
+    });
+
+    it('should create payment error with custom values', () => {
+      const context = { refundId: 're_1', amount: 4200 };
+      const error = new CertusPaymentError(
+        'Refund failed',
+        ErrorCodes.PAY_REFUND_FAILED,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        context
+      );
+
+      expect(error.message).toBe('Refund failed');
+      expect(error.code).toBe(ErrorCodes.PAY_REFUND_FAILED);
+      expect(error.statusCode).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+      expect(error.context).toEqual(context);
+    });
+  });
+
+  describe('CertusCardDeclinedError', () => {
+    it('should create card declined error', () => {
+      const context = { declineCode: 'do_not_honor' };
+      const error = new CertusCardDeclinedError('Your card was declined', context);
+
+      expect(error).toBeInstanceOf(CertusPaymentError);
+      expect(error.name).toBe('CertusCardDeclinedError');
+      expect(error.message).toBe('Your card was declined');
+      expect(error.code).toBe(ErrorCodes.PAY_CARD_DECLINED);
+      expect(error.statusCode).toBe(HttpStatus.PAYMENT_REQUIRED);
+      expect(error.context).toEqual(context);
+    });
+
+    it('should be created from its code', () => {
+      const error = CertusAdiValtError.fromCode(ErrorCodes.PAY_CARD_DECLINED);
+
+      expect(error).toBeInstanceOf(CertusCardDeclinedError);
+      expect(error).not.toBeInstanceOf(CertusClientError);
+      expect(error.statusCode).toBe(HttpStatus.PAYMENT_REQUIRED);
+    });
+  });
+
+  describe('CertusInsufficientFundsError', () => {
+    it('should create insufficient funds error with default message', () => {
+      const error = new CertusInsufficientFundsError();
+
+      expect(error.message).toBe('Insufficient funds');
+      expect(error.code).toBe(ErrorCodes.PAY_INSUFFICIENT_FUNDS);
+      expect(error.statusCode).toBe(HttpStatus.PAYMENT_REQUIRED);
+    });
+  });
+
+  describe('CertusPaymentProcessorError', () => {
+    it('should create processor error as a bad gateway error', () => {
+      const cause = new Error('503 from gateway');
+      const error = new CertusPaymentProcessorError(undefined, { gateway: 'stripe' }, cause);
+
+      expect(error.message).toBe('Payment processor error');
+      expect(error.code).toBe(ErrorCodes.PAY_PROCESSOR_ERROR);
+      expect(error.statusCode).toBe(HttpStatus.BAD_GATEWAY);
+      expect(error.originalError).toBe(cause);
+    });
+  });
+});
@@ -4,6 +4,10 @@ import {
   CertusInternalServerError,
   CertusExternalServiceError,
   CertusConfigurationError,
+  CertusCircuitOpenError,
+  CertusOperationTimeoutError,
+  CertusServiceUnavailableError,
+  CertusAdiValtError,
 } from '../../../src/certus';
 import { ErrorCodes, HttpStatus } from '../../../src/constants';
 
@@ -90,4 +94,72 @@ describe('Server Errors', () => {
       expect(error.message).toBe('Configuration error');
     });
   });
-});
\ No newline at end of file
+
+  describe('CertusCircuitOpenError', () => {
+    it('should create circuit open error', () => {
+      const context = { circuit: 'payments', state: 'open', retryAfterMs: 5000 };
+      const error = new CertusCircuitOpenError("Circuit 'payments' is open", context);
+
+      expect(error.name).toBe('CertusCircuitOpenError');
+      expect(error.code).toBe(ErrorCodes.SRV_SERVICE_UNAVAILABLE);
+      expect(error.statusCode).toBe(HttpStatus.SERVICE_UNAVAILABLE);
+      expect(error.context).toEqual(context);
+      expect(error).toBeInstanceOf(CertusServiceUnavailableError);
+      expect(error.retryAfter).toBe(5);
+    });
+
+    it('should create circuit open error with default message', () => {
+      const error = new CertusCircuitOpenError();
+
+      expect(error.message).toBe('Service temporarily unavailable');
+      expect(error.retryAfter).toBeUndefined();
+    });
+  });
+
+  describe('CertusServiceUnavailableError', () => {
+    it('should create service unavailable error with retry after', () => {
+      const error = new CertusServiceUnavailableError(
+        'Maintenance',
+        { window: '02:00-03:00' },
+        600
+      );
+
+      expect(error.name).toBe('CertusServiceUnavailableError');
+      expect(error.code).toBe(ErrorCodes.SRV_SERVICE_UNAVAILABLE);
+      expect(error.statusCode).toBe(HttpStatus.SERVICE_UNAVAILABLE);
+      expect(error.context).toEqual({ window: '02:00-03:00' });
+      expect(error.retryAfter).toBe(600);
+      expect(error.withContext({ region: 'eu' }).retryAfter).toBe(600);
+    });
+
+    it('should create service unavailable error with default values', () => {
+      const error = new CertusServiceUnavailableError();
+
+      expect(error.message).toBe('Service unavailable');
+      expect(error.retryAfter).toBeUndefined();
+      expect(Object.keys(error)).not.toContain('retryAfter');
+      expect(CertusAdiValtError.fromCode(ErrorCodes.SRV_SERVICE_UNAVAILABLE)).toBeInstanceOf(
+        CertusServiceUnavailableError
+      );
+    });
+  });
+
+  describe('CertusOperationTimeoutError', () => {
+    it('should create operation timeout error', () => {
+      const context = { operation: 'geocode', budgetMs: 1500, elapsedMs: 1502 };
+      const error = new CertusOperationTimeoutError("Operation 'geocode' timed out", context);
+
+      expect(error.name).toBe('CertusOperationTimeoutError');
+      expect(error.code).toBe(ErrorCodes.GEN_TIMEOUT);
+      expect(error.statusCode).toBe(HttpStatus.GATEWAY_TIMEOUT);
+      expect(error.context).toEqual(context);
+      expect(error).toBeInstanceOf(CertusServerError);
+    });
+
+    it('should create operation timeout error with default message', () => {
+      const error = new CertusOperationTimeoutError();
+
+      expect(error.message).toBe('Operation timed out');
+    });
+  });
+});
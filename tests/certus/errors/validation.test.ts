@@ -63,4 +63,34 @@ describe('Validation Errors', () => {
       expect(error.message).toBe('Business rule violation');
     });
   });
-});
\ No newline at end of file
+
+  describe('Violations', () => {
+    const violations = [
+      { path: '/email', code: ErrorCodes.VAL_INVALID_EMAIL, message: 'Invalid email address' },
+    ];
+
+    it('should default to no violations', () => {
+      expect(new CertusInputValidationError().violations).toEqual([]);
+      expect(new CertusSchemaValidationError().violations).toEqual([]);
+    });
+
+    it('should carry violations', () => {
+      expect(new CertusInputValidationError('Invalid', {}, violations).violations).toEqual(
+        violations
+      );
+      expect(new CertusSchemaValidationError('Invalid', {}, violations).violations).toEqual(
+        violations
+      );
+    });
+
+    it('should keep violations and name through builder methods', () => {
+      const error = new CertusSchemaValidationError('Invalid', {}, violations).withContext({
+        form: 'signup',
+      });
+
+      expect(error.violations).toEqual(violations);
+      expect(error.name).toBe('CertusSchemaValidationError');
+      expect(error.context).toEqual({ form: 'signup' });
+    });
+  });
+});
@@ -6,6 +6,17 @@ import {
   CertusAuthenticationError,
   CertusValidationError,
   CertusDatabaseError,
+  CertusCircuitOpenError,
+  CertusConnectionError,
+  CertusTimeoutError,
+  CertusConfigurationError,
+  CertusFileTooLargeError,
+  CertusCardDeclinedError,
+  CertusPaymentProcessorError,
+  CertusEmailDeliveryError,
+  CertusDnsError,
+  CertusSslError,
+  CertusNetworkTimeoutError,
 } from '../../../src/certus';
 import {
   isCertusError,
@@ -14,7 +25,15 @@ import {
   isAuthenticationError,
   isValidationError,
   isDatabaseError,
+  isFileError,
+  isPaymentError,
+  isNotificationError,
+  isNetworkError,
   isExternalServiceError,
+  isCircuitOpenError,
+  isRetryableError,
+  isOperationalError,
+  hasViolations,
 } from '../../../src/certus/guards';
 import { ErrorCodes, HttpStatus } from '../../../src/constants';
 
@@ -116,6 +135,41 @@ describe('Error Guards', () => {
     });
   });
 
+  describe('isFileError', () => {
+    it('should return true for FILE_ prefixed codes', () => {
+      const downloadError = new CertusServerError('Error', ErrorCodes.FILE_DOWNLOAD_ERROR);
+
+      expect(isFileError(new CertusFileTooLargeError())).toBe(true);
+      expect(isFileError(downloadError)).toBe(true);
+      expect(isFileError(new CertusDatabaseError())).toBe(false);
+    });
+  });
+
+  describe('isPaymentError', () => {
+    it('should return true for PAY_ prefixed codes', () => {
+      expect(isPaymentError(new CertusCardDeclinedError())).toBe(true);
+      expect(isPaymentError(new CertusPaymentProcessorError())).toBe(true);
+      expect(isPaymentError(new CertusClientError('Error', ErrorCodes.GEN_BAD_REQUEST))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('isNotificationError', () => {
+    it('should return true for NOTIF_ prefixed codes', () => {
+      expect(isNotificationError(new CertusEmailDeliveryError())).toBe(true);
+      expect(isNotificationError(new Error('Email sending failed'))).toBe(false);
+    });
+  });
+
+  describe('isNetworkError', () => {
+    it('should return true for NET_ prefixed codes', () => {
+      expect(isNetworkError(new CertusDnsError())).toBe(true);
+      expect(isNetworkError(new CertusSslError())).toBe(true);
+      expect(isNetworkError(new CertusConnectionError())).toBe(false);
+    });
+  });
+
   describe('isExternalServiceError', () => {
     it('should return true for SRV_EXTERNAL_SERVICE code', () => {
       const externalError = new CertusServerError('Error', ErrorCodes.SRV_EXTERNAL_SERVICE);
@@ -127,4 +181,94 @@ describe('Error Guards', () => {
       expect(isExternalServiceError(internalError)).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('isCircuitOpenError', () => {
+    it('should return true for circuit breaker rejections', () => {
+      expect(isCircuitOpenError(new CertusCircuitOpenError())).toBe(true);
+    });
+
+    it('should return false for other service unavailable errors', () => {
+      const error = new CertusServerError(
+        'Maintenance',
+        ErrorCodes.SRV_SERVICE_UNAVAILABLE,
+        HttpStatus.SERVICE_UNAVAILABLE
+      );
+      expect(isCircuitOpenError(error)).toBe(false);
+      expect(isCircuitOpenError(new Error('open'))).toBe(false);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry connection and timeout errors', () => {
+      expect(isRetryableError(new CertusConnectionError())).toBe(true);
+      expect(isRetryableError(new CertusTimeoutError())).toBe(true);
+    });
+
+    it('should retry server errors unless their context marks them as not retryable', () => {
+      expect(isRetryableError(new CertusServerError('Upstream failed'))).toBe(true);
+      expect(isRetryableError(new CertusConfigurationError('Bad', { retryable: false }))).toBe(
+        false
+      );
+    });
+
+    it('should never retry client errors or open circuits', () => {
+      expect(isRetryableError(new CertusValidationError())).toBe(false);
+      expect(
+        isRetryableError(
+          new CertusClientError(
+            'Slow down',
+            ErrorCodes.SRV_RATE_LIMIT,
+            HttpStatus.TOO_MANY_REQUESTS,
+            { retryAfter: 30 }
+          )
+        )
+      ).toBe(false);
+      expect(isRetryableError(new CertusCircuitOpenError())).toBe(false);
+    });
+
+    it('should retry network failures other than rejected certificates', () => {
+      expect(isRetryableError(new CertusDnsError())).toBe(true);
+      expect(isRetryableError(new CertusNetworkTimeoutError())).toBe(true);
+      expect(isRetryableError(new CertusSslError())).toBe(false);
+    });
+
+    it('should retry other errors only for transient network codes', () => {
+      const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      const fetchFailed = Object.assign(new Error('fetch failed'), { cause: reset });
+
+      expect(isRetryableError(reset)).toBe(true);
+      expect(isRetryableError(fetchFailed)).toBe(true);
+      expect(isRetryableError(new TypeError('x is undefined'))).toBe(false);
+      expect(isRetryableError('failed')).toBe(false);
+    });
+  });
+
+  describe('isOperationalError', () => {
+    it('should return true for operational Certus errors', () => {
+      expect(isOperationalError(new CertusClientError('Not found', 'NOT_FOUND', 404))).toBe(true);
+      expect(isOperationalError(new CertusConnectionError())).toBe(true);
+    });
+
+    it('should return false for programmer errors', () => {
+      expect(isOperationalError(new CertusConfigurationError())).toBe(false);
+      expect(isOperationalError(new CertusServerError('Bug').withOperational(false))).toBe(false);
+      expect(isOperationalError(new TypeError('x is undefined'))).toBe(false);
+      expect(isOperationalError('failed')).toBe(false);
+    });
+  });
+
+  describe('hasViolations', () => {
+    it('should return true for errors with violations', () => {
+      const error = new CertusValidationError('Invalid', {}, [
+        { path: '/email', code: ErrorCodes.VAL_REQUIRED_FIELD, message: 'Required' },
+      ]);
+      expect(hasViolations(error)).toBe(true);
+    });
+
+    it('should return false for errors without violations', () => {
+      expect(hasViolations(new CertusValidationError())).toBe(false);
+      expect(hasViolations(new CertusAdiValtError('Error'))).toBe(false);
+      expect(hasViolations(new Error('Error'))).toBe(false);
+    });
+  });
+});
@@ -12,6 +12,10 @@ describe('Certus Index Exports', () => {
     expect(CertusExports.CertusAuthenticationError).toBeDefined();
     expect(CertusExports.CertusValidationError).toBeDefined();
     expect(CertusExports.CertusDatabaseError).toBeDefined();
+    expect(CertusExports.CertusFileError).toBeDefined();
+    expect(CertusExports.CertusPaymentError).toBeDefined();
+    expect(CertusExports.CertusNotificationError).toBeDefined();
+    expect(CertusExports.CertusNetworkError).toBeDefined();
   });
 
   it('should export all guard functions', () => {
@@ -21,6 +25,10 @@ describe('Certus Index Exports', () => {
     expect(CertusExports.isAuthenticationError).toBeDefined();
     expect(CertusExports.isValidationError).toBeDefined();
     expect(CertusExports.isDatabaseError).toBeDefined();
+    expect(CertusExports.isFileError).toBeDefined();
+    expect(CertusExports.isPaymentError).toBeDefined();
+    expect(CertusExports.isNotificationError).toBeDefined();
+    expect(CertusExports.isNetworkError).toBeDefined();
   });
 
   it('should export all utility functions', () => {
@@ -37,4 +45,4 @@ describe('Certus Index Exports', () => {
     expect(CertusExports.isCertusError).toBe(CertusGuards.isCertusError);
     expect(CertusExports.createCertusError).toBe(CertusUtils.createCertusError);
   });
-});
\ No newline at end of file
+});
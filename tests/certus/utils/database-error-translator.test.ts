@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CertusAdiValtError,
+  CertusUniqueConstraintError,
+  CertusValidationError,
+  detectDatabaseDriver,
+  isClientError,
+  isServerError,
+  translateDatabaseError,
+} from '../../../src/certus';
+import { ErrorCodes } from '../../../src/constants';
+
+const pgError = (code: string, fields: Record<string, unknown> = {}) =>
+  Object.assign(new Error('pg error'), { code, severity: 'ERROR', routine: 'x', ...fields });
+
+const mysqlError = (errno: number, code: string, sqlMessage: string) =>
+  Object.assign(new Error(sqlMessage), { errno, code, sqlState: '23000', sqlMessage });
+
+describe('detectDatabaseDriver', () => {
+  it('should detect drivers from the error shape', () => {
+    expect(detectDatabaseDriver(pgError('23505'))).toBe('postgres');
+    expect(detectDatabaseDriver(mysqlError(1062, 'ER_DUP_ENTRY', 'dup'))).toBe('mysql');
+    expect(detectDatabaseDriver({ code: 'SQLITE_BUSY' })).toBe('sqlite');
+    expect(detectDatabaseDriver({ name: 'MongoServerError', code: 11000 })).toBe('mongodb');
+    expect(detectDatabaseDriver(new Error('boom'))).toBe('unknown');
+    expect(detectDatabaseDriver(null)).toBe('unknown');
+  });
+});
+
+describe('translateDatabaseError', () => {
+  describe('PostgreSQL', () => {
+    it('should translate unique violations with constraint details', () => {
+      const error = translateDatabaseError(
+        pgError('23505', {
+          constraint: 'users_email_key',
+          table: 'users',
+          schema: 'public',
+          detail: 'Key (email)=(jane@example.com) already exists.',
+        })
+      );
+
+      expect(error).toBeInstanceOf(CertusAdiValtError);
+      expect(error.name).toBe('CertusUniqueConstraintError');
+      expect(error.code).toBe(ErrorCodes.DB_UNIQUE_CONSTRAINT);
+      expect(error.statusCode).toBe(409);
+      expect(error.message).toBe('Duplicate entry found');
+      expect(error.context).toEqual({
+        driver: 'postgres',
+        driverCode: '23505',
+        retryable: false,
+        constraint: 'users_email_key',
+        table: 'users',
+        schema: 'public',
+        columns: ['email'],
+      });
+      expect(JSON.stringify(error.context)).not.toContain('jane@example.com');
+    });
+
+    it('should keep the driver error as the cause', () => {
+      const driverError = pgError('42P01', { table: 'users' });
+      const error = translateDatabaseError(driverError);
+
+      expect(error.originalError).toBe(driverError);
+      expect(error.cause).toBe(driverError);
+      expect(error.toJSON().originalError).toMatchObject({ message: 'pg error', code: '42P01' });
+    });
+
+    it('should translate not null and check violations into client validation errors', () => {
+      const driverError = pgError('23502', { table: 'users', column: 'name' });
+      const error = translateDatabaseError(driverError);
+
+      expect(error).toBeInstanceOf(CertusValidationError);
+      expect(error.statusCode).toBe(422);
+      expect(isClientError(error)).toBe(true);
+      expect(isServerError(error)).toBe(false);
+      expect(error.context).toMatchObject({ driverCode: '23502', columns: ['name'] });
+      expect(error.originalError).toBe(driverError);
+    });
+
+    it.each([
+      ['23503', ErrorCodes.DB_FOREIGN_KEY_CONSTRAINT, 409, false],
+      ['23502', ErrorCodes.VAL_INVALID_INPUT, 422, false],
+      ['23514', ErrorCodes.VAL_INVALID_INPUT, 422, false],
+      ['40P01', ErrorCodes.DB_DEADLOCK_ERROR, 503, true],
+      ['40001', ErrorCodes.DB_TRANSACTION_ERROR, 503, true],
+      ['53300', ErrorCodes.DB_CONNECTION_LIMIT, 503, true],
+      ['57014', ErrorCodes.DB_TIMEOUT_ERROR, 504, true],
+      ['08006', ErrorCodes.DB_CONNECTION_ERROR, 503, true],
+      ['42P01', ErrorCodes.DB_QUERY_ERROR, 500, false],
+    ])('should translate SQLSTATE %s', (sqlState, code, statusCode, retryable) => {
+      const error = translateDatabaseError(pgError(sqlState));
+
+      expect(error.code).toBe(code);
+      expect(error.statusCode).toBe(statusCode);
+      expect(error.context.retryable).toBe(retryable);
+    });
+  });
+
+  describe('MySQL', () => {
+    it('should translate duplicate entries', () => {
+      const error = translateDatabaseError(
+        mysqlError(
+          1062,
+          'ER_DUP_ENTRY',
+          "Duplicate entry 'jane@example.com' for key 'users.email_unique'"
+        )
+      );
+
+      expect(error.name).toBe('CertusUniqueConstraintError');
+      expect(error.context).toEqual({
+        driver: 'mysql',
+        driverCode: 1062,
+        retryable: false,
+        constraint: 'users.email_unique',
+      });
+    });
+
+    it('should extract foreign key details', () => {
+      const error = translateDatabaseError(
+        mysqlError(
+          1452,
+          'ER_NO_REFERENCED_ROW_2',
+          'Cannot add or update a child row: a foreign key constraint fails (`shop`.`orders`, CONSTRAINT `orders_user_fk` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`))'
+        )
+      );
+
+      expect(error.code).toBe(ErrorCodes.DB_FOREIGN_KEY_CONSTRAINT);
+      expect(error.statusCode).toBe(409);
+      expect(error.context).toMatchObject({
+        schema: 'shop',
+        table: 'orders',
+        constraint: 'orders_user_fk',
+        columns: ['user_id'],
+        referencedTable: 'users',
+      });
+    });
+
+    it.each([
+      [1048, 'ER_BAD_NULL_ERROR', ErrorCodes.VAL_INVALID_INPUT, 422],
+      [3819, 'ER_CHECK_CONSTRAINT_VIOLATED', ErrorCodes.VAL_INVALID_INPUT, 422],
+      [1213, 'ER_LOCK_DEADLOCK', ErrorCodes.DB_DEADLOCK_ERROR, 503],
+      [1205, 'ER_LOCK_WAIT_TIMEOUT', ErrorCodes.DB_TIMEOUT_ERROR, 504],
+      [1040, 'ER_CON_COUNT_ERROR', ErrorCodes.DB_CONNECTION_LIMIT, 503],
+      [2013, 'CR_SERVER_LOST', ErrorCodes.DB_CONNECTION_ERROR, 503],
+    ])('should translate errno %s', (errno, name, code, statusCode) => {
+      const error = translateDatabaseError(mysqlError(errno, name, "Column 'name' cannot be null"));
+
+      expect(error.code).toBe(code);
+      expect(error.statusCode).toBe(statusCode);
+    });
+  });
+
+  describe('SQLite', () => {
+    it('should translate constraint failures from extended codes and messages', () => {
+      const unique = translateDatabaseError({
+        code: 'SQLITE_CONSTRAINT_UNIQUE',
+        message: 'UNIQUE constraint failed: users.email',
+      });
+      const notNull = translateDatabaseError({
+        code: 'SQLITE_CONSTRAINT',
+        errno: 19,
+        message: 'SQLITE_CONSTRAINT: NOT NULL constraint failed: users.name',
+      });
+      const foreignKey = translateDatabaseError({
+        code: 'SQLITE_CONSTRAINT',
+        message: 'SQLITE_CONSTRAINT: FOREIGN KEY constraint failed',
+      });
+
+      expect(unique.name).toBe('CertusUniqueConstraintError');
+      expect(unique.context).toMatchObject({ table: 'users', columns: ['email'] });
+      expect(notNull.statusCode).toBe(422);
+      expect(notNull.context).toMatchObject({ driverCode: 'SQLITE_CONSTRAINT', columns: ['name'] });
+      expect(foreignKey.code).toBe(ErrorCodes.DB_FOREIGN_KEY_CONSTRAINT);
+    });
+
+    it('should translate busy and open failures', () => {
+      expect(translateDatabaseError({ code: 'SQLITE_BUSY' }).code).toBe(
+        ErrorCodes.DB_TIMEOUT_ERROR
+      );
+      expect(translateDatabaseError({ code: 'SQLITE_CANTOPEN' }).code).toBe(
+        ErrorCodes.DB_CONNECTION_ERROR
+      );
+    });
+  });
+
+  describe('MongoDB', () => {
+    it('should translate duplicate key errors', () => {
+      const error = translateDatabaseError(
+        Object.assign(new Error('E11000'), {
+          name: 'MongoServerError',
+          code: 11000,
+          errmsg:
+            'E11000 duplicate key error collection: shop.users index: email_1 dup key: { email: "jane@example.com" }',
+          keyPattern: { email: 1 },
+          keyValue: { email: 'jane@example.com' },
+        })
+      );
+
+      expect(error.name).toBe('CertusUniqueConstraintError');
+      expect(error.context).toEqual({
+        driver: 'mongodb',
+        driverCode: 11000,
+        retryable: false,
+        constraint: 'email_1',
+        table: 'users',
+        columns: ['email'],
+      });
+    });
+
+    it('should translate network and timeout errors', () => {
+      expect(translateDatabaseError({ name: 'MongoServerSelectionError' }).code).toBe(
+        ErrorCodes.DB_CONNECTION_ERROR
+      );
+      expect(translateDatabaseError({ name: 'MongoServerError', code: 50 }).code).toBe(
+        ErrorCodes.DB_TIMEOUT_ERROR
+      );
+      expect(translateDatabaseError({ name: 'MongoServerError', code: 112 }).code).toBe(
+        ErrorCodes.DB_TRANSACTION_ERROR
+      );
+      expect(translateDatabaseError({ name: 'MongoServerError', code: 121 }).code).toBe(
+        ErrorCodes.VAL_INVALID_INPUT
+      );
+    });
+  });
+
+  it('should translate socket errors and unknown errors', () => {
+    const refused = translateDatabaseError(
+      Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' })
+    );
+    const unknown = translateDatabaseError(new Error('something odd'));
+
+    expect(refused.name).toBe('CertusConnectionError');
+    expect(refused.statusCode).toBe(503);
+    expect(unknown.code).toBe(ErrorCodes.DB_QUERY_ERROR);
+    expect(unknown.statusCode).toBe(500);
+    expect(unknown.context).toMatchObject({ driver: 'unknown', retryable: false });
+  });
+
+  it('should apply message and context options', () => {
+    const error = translateDatabaseError(pgError('23505'), {
+      message: 'Email already registered',
+      context: { operation: 'createUser' },
+    });
+
+    expect(error.message).toBe('Email already registered');
+    expect(error.context).toMatchObject({ driver: 'postgres', operation: 'createUser' });
+  });
+
+  it('should return Certus database errors unchanged', () => {
+    const original = new CertusUniqueConstraintError('Already exists');
+
+    expect(translateDatabaseError(original)).toBe(original);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { checkErrorCatalog } from '../../../src/certus';
+import {
+  ErrorCatalog,
+  ErrorCatalogEntry,
+  ErrorCodes,
+  ErrorMessages,
+  HttpStatus,
+} from '../../../src/constants';
+
+describe('checkErrorCatalog', () => {
+  it('should find every built-in error code with a status and message', () => {
+    expect(checkErrorCatalog()).toEqual([]);
+  });
+
+  it('should report missing entries, messages and invalid statuses', () => {
+    const entry = (status: number, messageKey: string): ErrorCatalogEntry =>
+      ({ status, messageKey, retryable: false, category: 'payment' }) as ErrorCatalogEntry;
+
+    const issues = checkErrorCatalog({
+      codes: {
+        APP_OK: 'APP_OK',
+        APP_NO_ENTRY: 'APP_NO_ENTRY',
+        APP_NO_MESSAGE: 'APP_NO_MESSAGE',
+        APP_BAD_STATUS: 'APP_BAD_STATUS',
+      },
+      catalog: {
+        APP_OK: entry(HttpStatus.PAYMENT_REQUIRED, 'APP_OK'),
+        APP_NO_MESSAGE: entry(HttpStatus.CONFLICT, 'APP_NO_MESSAGE'),
+        APP_BAD_STATUS: entry(200, 'APP_OK'),
+        APP_REMOVED: entry(HttpStatus.GONE, 'APP_OK'),
+      },
+      messages: { APP_OK: 'Fine' },
+    });
+
+    expect(issues.map(({ code, problem }) => ({ code, problem }))).toEqual([
+      { code: 'APP_NO_ENTRY', problem: 'missing_entry' },
+      { code: 'APP_NO_MESSAGE', problem: 'missing_message' },
+      { code: 'APP_BAD_STATUS', problem: 'invalid_status' },
+      { code: 'APP_REMOVED', problem: 'unknown_code' },
+    ]);
+    expect(issues[0].message).toBe('Error code APP_NO_ENTRY has no catalog entry');
+  });
+
+  it('should declare the catalog defaults per code', () => {
+    expect(ErrorCatalog[ErrorCodes.PAY_CARD_DECLINED]).toEqual({
+      status: HttpStatus.PAYMENT_REQUIRED,
+      messageKey: ErrorCodes.PAY_CARD_DECLINED,
+      retryable: false,
+      category: 'payment',
+    });
+    expect(ErrorCatalog[ErrorCodes.DB_DEADLOCK_ERROR]).toMatchObject({ retryable: true });
+    expect(ErrorMessages[ErrorCatalog[ErrorCodes.GEN_NOT_FOUND].messageKey]).toBe(
+      ErrorMessages[ErrorCodes.GEN_NOT_FOUND]
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CertusAdiValtError,
+  CertusInputValidationError,
+  ErrorRegistry,
+  getErrorCause,
+  getErrorChain,
+  getRootCause,
+  serializeError,
+  wrapError,
+} from '../../../src/certus';
+import { ErrorCodes } from '../../../src/constants';
+
+const withCause = (message: string, cause: unknown): Error =>
+  Object.assign(new Error(message), { cause });
+
+describe('error chain', () => {
+  it('should set the native cause on Certus errors', () => {
+    const socketError = new Error('socket hang up');
+    const error = wrapError(socketError, 'Sync failed');
+
+    expect(error.cause).toBe(socketError);
+    expect(getErrorCause(error)).toBe(socketError);
+    expect(Object.keys(error)).not.toContain('cause');
+  });
+
+  it('should walk causes and aggregate members', () => {
+    const root = new Error('connect ECONNREFUSED');
+    const rowOne = new Error('Row 1 rejected');
+    const rowTwo = withCause('Row 2 rejected', root);
+    const aggregate = Object.assign(new Error('Import failed'), {
+      name: 'AggregateError',
+      errors: [rowOne, rowTwo],
+    });
+    const error = new CertusAdiValtError('Job failed', 'JOB_FAILED', 500, {}, aggregate);
+
+    expect(getErrorChain(error)).toEqual([error, aggregate, rowOne, rowTwo, root]);
+    expect(getRootCause(withCause('Checkout failed', rowTwo))).toBe(root);
+    expect(getRootCause(error)).toBe(aggregate);
+  });
+
+  it('should stop at cycles and the depth limit', () => {
+    const first = new Error('first');
+    const second = withCause('second', first);
+    Object.assign(first, { cause: second });
+
+    expect(getErrorChain(first)).toEqual([first, second]);
+    expect(getRootCause(first)).toBe(second);
+    expect(
+      getErrorChain(withCause('a', withCause('b', new Error('c'))), { maxDepth: 1 })
+    ).toHaveLength(2);
+  });
+
+  describe('serializeError', () => {
+    it('should serialize the chain recursively', () => {
+      const root = Object.assign(new Error('socket hang up'), {
+        code: 'ECONNRESET',
+        detail: 'Key (email)=(jane@example.com)',
+      });
+      const error = new CertusAdiValtError(
+        'Payment provider unavailable',
+        ErrorCodes.SRV_EXTERNAL_SERVICE,
+        502,
+        { provider: 'stripe' },
+        withCause('connect ETIMEDOUT', root)
+      );
+
+      expect(serializeError(error, { includeStack: false })).toEqual({
+        name: 'CertusAdiValtError',
+        message: 'Payment provider unavailable',
+        code: ErrorCodes.SRV_EXTERNAL_SERVICE,
+        statusCode: 502,
+        timestamp: error.timestamp,
+        context: { provider: 'stripe' },
+        isOperational: true,
+        cause: {
+          name: 'Error',
+          message: 'connect ETIMEDOUT',
+          cause: { name: 'Error', message: 'socket hang up', code: 'ECONNRESET' },
+        },
+      });
+    });
+
+    it('should include subclass fields unless context is excluded', () => {
+      const error = new CertusInputValidationError('Invalid request', { form: 'signup' }, [
+        { path: '/email', code: ErrorCodes.VAL_REQUIRED_FIELD, message: 'Required' },
+      ]);
+
+      expect(serializeError(error)).toMatchObject({ violations: error.violations });
+      expect(serializeError(error, { includeContext: false, includeStack: false })).toEqual({
+        name: 'CertusInputValidationError',
+        message: 'Invalid request',
+        code: ErrorCodes.VAL_INVALID_INPUT,
+        statusCode: 400,
+      });
+    });
+
+    it('should serialize AggregateError members and non-Error values', () => {
+      const aggregate = Object.assign(new Error('2 uploads failed'), {
+        name: 'AggregateError',
+        errors: [new Error('a.png too large'), 'b.png missing'],
+      });
+
+      expect(serializeError(aggregate, { includeStack: false })).toEqual({
+        name: 'AggregateError',
+        message: '2 uploads failed',
+        errors: [
+          { name: 'Error', message: 'a.png too large' },
+          { name: 'Error', message: 'b.png missing' },
+        ],
+      });
+    });
+
+    it('should ignore message lists stored in errors', () => {
+      const yupError = Object.assign(new Error('2 errors occurred'), {
+        name: 'ValidationError',
+        errors: ['name is required', 'age must be a number'],
+      });
+
+      expect(serializeError(yupError).errors).toBeUndefined();
+    });
+
+    it('should mark circular and truncated causes', () => {
+      const first = new Error('first');
+      const second = withCause('second', first);
+      Object.assign(first, { cause: second });
+
+      expect(serializeError(first, { includeStack: false })).toEqual({
+        name: 'Error',
+        message: 'first',
+        cause: {
+          name: 'Error',
+          message: 'second',
+          cause: { name: 'Error', message: 'first', circular: true },
+        },
+      });
+      expect(
+        serializeError(withCause('a', withCause('b', new Error('c'))), {
+          maxDepth: 1,
+          includeStack: false,
+        })
+      ).toEqual({
+        name: 'Error',
+        message: 'a',
+        cause: {
+          name: 'Error',
+          message: 'b',
+          cause: { name: 'Error', message: 'c', truncated: true },
+        },
+      });
+    });
+
+    it('should round-trip nested Certus causes through toJSON', () => {
+      const cause = new CertusAdiValtError(
+        'Lookup failed',
+        ErrorCodes.DB_QUERY_ERROR,
+        500,
+        {},
+        withCause('query timeout', new Error('socket closed'))
+      );
+      const error = new CertusAdiValtError('Checkout failed', 'CHECKOUT_FAILED', 500, {}, cause);
+
+      const rebuilt = ErrorRegistry.fromJSON(JSON.stringify(error));
+
+      expect(error.toJSON().originalError).toMatchObject({
+        code: ErrorCodes.DB_QUERY_ERROR,
+        cause: { message: 'query timeout', cause: { message: 'socket closed' } },
+      });
+      expect(rebuilt.originalError).toBeInstanceOf(CertusAdiValtError);
+      expect(getErrorChain(rebuilt).map((link) => (link as Error).message)).toEqual([
+        'Checkout failed',
+        'Lookup failed',
+        'query timeout',
+        'socket closed',
+      ]);
+    });
+  });
+});
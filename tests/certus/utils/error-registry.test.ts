@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CertusAdiValtError,
+  CertusClientError,
+  CertusInputValidationError,
+  CertusNotFoundError,
+  CertusServerError,
+  CertusTokenExpiredError,
+  CertusValidationError,
+  ErrorRegistry,
+  isAuthenticationError,
+  isValidationError,
+} from '../../../src/certus';
+import { ErrorCodes } from '../../../src/constants';
+
+describe('ErrorRegistry', () => {
+  describe('fromJSON', () => {
+    it('should rebuild the subclass with its fields', () => {
+      const original = new CertusNotFoundError('Order not found', { orderId: 'ord_1' });
+
+      const error = ErrorRegistry.fromJSON(JSON.stringify(original));
+
+      expect(error).toBeInstanceOf(CertusNotFoundError);
+      expect(error.name).toBe('CertusNotFoundError');
+      expect(error.message).toBe('Order not found');
+      expect(error.code).toBe(original.code);
+      expect(error.statusCode).toBe(404);
+      expect(error.context).toEqual(original.context);
+      expect(error.timestamp.getTime()).toBe(original.timestamp.getTime());
+      expect(error.stack).not.toBe(original.stack);
+    });
+
+    it('should make type guards work on rehydrated errors', () => {
+      const error = ErrorRegistry.fromJSON(new CertusTokenExpiredError().toJSON());
+
+      expect(error).toBeInstanceOf(CertusTokenExpiredError);
+      expect(isAuthenticationError(error)).toBe(true);
+    });
+
+    it('should restore subclass fields such as violations', () => {
+      const original = new CertusInputValidationError('Invalid request', {}, [
+        { path: '/email', code: ErrorCodes.VAL_INVALID_EMAIL, message: 'Invalid email' },
+      ]);
+
+      const error = ErrorRegistry.fromJSON(JSON.parse(JSON.stringify(original)));
+
+      expect(error).toBeInstanceOf(CertusInputValidationError);
+      expect(isValidationError(error)).toBe(true);
+      expect((error as CertusInputValidationError).violations).toEqual(original.violations);
+    });
+
+    it('should restore the original error chain and remote stacks', () => {
+      const rootCause = new Error('socket hang up');
+      const cause = new CertusNotFoundError('Customer not found', {}).withContext({ id: 'c_1' });
+      const lookup = new CertusAdiValtError('Lookup failed', 'DB_QUERY_ERROR', 500, {}, rootCause);
+      const original = new CertusAdiValtError('Checkout failed', 'CHECKOUT_FAILED', 500, {}, cause);
+
+      const error = ErrorRegistry.fromJSON(JSON.stringify(original), { remoteStack: true });
+      const rebuiltLookup = ErrorRegistry.fromJSON(JSON.stringify(lookup), { remoteStack: true });
+
+      expect(error.stack).toBe(original.stack);
+      expect(error.originalError).toBeInstanceOf(CertusNotFoundError);
+      expect(error.originalError).toMatchObject({
+        message: 'Customer not found',
+        context: { id: 'c_1' },
+        stack: cause.stack,
+      });
+      expect(rebuiltLookup.originalError).not.toBeInstanceOf(CertusAdiValtError);
+      expect(rebuiltLookup.originalError).toMatchObject({
+        name: 'Error',
+        message: 'socket hang up',
+        stack: rootCause.stack,
+      });
+    });
+
+    it('should rebuild custom registered classes', () => {
+      class PaymentDeclinedError extends CertusClientError {
+        constructor(message = 'Payment declined', context: Record<string, unknown> = {}) {
+          super(message, 'PAY_DECLINED', 402, context);
+          this.name = 'PaymentDeclinedError';
+        }
+      }
+      ErrorRegistry.register(PaymentDeclinedError, {
+        name: 'PaymentDeclinedError',
+        code: 'PAY_DECLINED',
+      });
+
+      const error = ErrorRegistry.fromJSON(new PaymentDeclinedError().toJSON());
+
+      expect(error).toBeInstanceOf(PaymentDeclinedError);
+      expect(error.name).toBe('PaymentDeclinedError');
+      expect(ErrorRegistry.resolve({ code: 'PAY_DECLINED' })).toBe(PaymentDeclinedError);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve by name, code and status, then status range', () => {
+      expect(ErrorRegistry.resolve({ name: 'CertusNotFoundError' })).toBe(CertusNotFoundError);
+      expect(ErrorRegistry.resolve({ code: ErrorCodes.AUTH_TOKEN_EXPIRED })).toBe(
+        CertusTokenExpiredError
+      );
+      expect(ErrorRegistry.resolve({ code: ErrorCodes.VAL_INVALID_INPUT, statusCode: 400 })).toBe(
+        CertusInputValidationError
+      );
+      expect(ErrorRegistry.resolve({ code: ErrorCodes.VAL_INVALID_INPUT, statusCode: 422 })).toBe(
+        CertusValidationError
+      );
+      expect(ErrorRegistry.resolve({ code: 'ORDER_LOCKED', statusCode: 423 })).toBe(
+        CertusClientError
+      );
+      expect(ErrorRegistry.resolve({ code: 'UPSTREAM_DOWN', statusCode: 502 })).toBe(
+        CertusServerError
+      );
+      expect(ErrorRegistry.resolve({ name: 'SomethingElse' })).toBe(CertusAdiValtError);
+    });
+  });
+
+  describe('fromErrorResponse', () => {
+    it('should rebuild errors from the standard envelope', () => {
+      const error = ErrorRegistry.fromErrorResponse({
+        success: false,
+        error: {
+          code: ErrorCodes.AUTH_TOKEN_EXPIRED,
+          message: 'Authentication token has expired',
+          statusCode: 401,
+          timestamp: '2024-01-15T10:30:00.000Z',
+          context: { tokenId: 'tok_1' },
+          requestId: 'req_123',
+        },
+      });
+
+      expect(error).toBeInstanceOf(CertusTokenExpiredError);
+      expect(error.name).toBe('CertusTokenExpiredError');
+      expect(error.timestamp.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+      expect(error.context).toEqual({ requestId: 'req_123', tokenId: 'tok_1' });
+    });
+
+    it('should rebuild errors from Problem Details', () => {
+      const error = ErrorRegistry.fromErrorResponse({
+        type: 'https://errors.example.com/val-invalid-input',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Request validation failed',
+        instance: '/users',
+        code: ErrorCodes.VAL_INVALID_INPUT,
+        timestamp: '2024-01-15T10:30:00.000Z',
+        errors: [{ path: '/body/email', code: ErrorCodes.VAL_REQUIRED_FIELD, message: 'Required' }],
+        requestId: 'req_123',
+        locations: ['body'],
+      });
+
+      expect(error).toBeInstanceOf(CertusInputValidationError);
+      expect(error.message).toBe('Request validation failed');
+      expect(error.statusCode).toBe(400);
+      expect(error.context).toEqual({ locations: ['body'], requestId: 'req_123' });
+      expect((error as CertusInputValidationError).violations).toHaveLength(1);
+    });
+  });
+});
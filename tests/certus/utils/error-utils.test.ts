@@ -1,11 +1,27 @@
 import { describe, it, expect } from 'vitest';
 import {
   createAuthenticationError,
+  createFileError,
+  createPaymentError,
+  createNotificationError,
+  createNetworkError,
   wrapError,
   toServerError,
+  toNetworkError,
   assertClientError,
 } from '../../../src/certus/utils';
-import { CertusAdiValtError, CertusClientError, CertusServerError } from '../../../src/certus';
+import {
+  CertusAdiValtError,
+  CertusClientError,
+  CertusServerError,
+  CertusFileError,
+  CertusPaymentError,
+  CertusNotificationError,
+  CertusNetworkError,
+  CertusDnsError,
+  CertusSslError,
+  CertusNetworkTimeoutError,
+} from '../../../src/certus';
 import { ErrorCodes, HttpStatus } from '../../../src/constants';
 
 describe('Error Utilities', () => {
@@ -28,6 +44,82 @@ describe('Error Utilities', () => {
     });
   });
 
+  describe('family factories', () => {
+    it('should create file, payment, notification and network errors', () => {
+      const fileError = createFileError();
+      const paymentError = createPaymentError('Charge failed', { orderId: 'ord_1' });
+      const notificationError = createNotificationError();
+      const networkError = createNetworkError();
+
+      expect(fileError).toBeInstanceOf(CertusFileError);
+      expect(fileError.code).toBe(ErrorCodes.FILE_UPLOAD_ERROR);
+      expect(fileError.statusCode).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+      expect(paymentError).toBeInstanceOf(CertusPaymentError);
+      expect(paymentError.message).toBe('Charge failed');
+      expect(paymentError.code).toBe(ErrorCodes.PAY_PAYMENT_FAILED);
+      expect(paymentError.statusCode).toBe(HttpStatus.PAYMENT_REQUIRED);
+      expect(paymentError.context).toEqual({ orderId: 'ord_1' });
+      expect(notificationError).toBeInstanceOf(CertusNotificationError);
+      expect(notificationError.code).toBe(ErrorCodes.NOTIF_PROVIDER_ERROR);
+      expect(notificationError.statusCode).toBe(HttpStatus.BAD_GATEWAY);
+      expect(networkError).toBeInstanceOf(CertusNetworkError);
+      expect(networkError.message).toBe('Network connection failed');
+      expect(networkError.code).toBe(ErrorCodes.NET_NETWORK_ERROR);
+      expect(networkError.statusCode).toBe(HttpStatus.BAD_GATEWAY);
+    });
+  });
+
+  describe('toNetworkError', () => {
+    function systemError(message: string, code: string): Error {
+      return Object.assign(new Error(message), { code });
+    }
+
+    it('should return network errors unchanged', () => {
+      const error = new CertusDnsError();
+
+      expect(toNetworkError(error)).toBe(error);
+    });
+
+    it('should pick the class from the system error code', () => {
+      const lookup = systemError('getaddrinfo ENOTFOUND api.partner.com', 'ENOTFOUND');
+      const dnsError = toNetworkError(lookup);
+
+      expect(dnsError).toBeInstanceOf(CertusDnsError);
+      expect(dnsError.message).toBe('getaddrinfo ENOTFOUND api.partner.com');
+      expect(dnsError.context).toEqual({ systemCode: 'ENOTFOUND' });
+      expect(dnsError.cause).toBe(lookup);
+      expect(
+        toNetworkError(systemError('certificate has expired', 'CERT_HAS_EXPIRED'))
+      ).toBeInstanceOf(CertusSslError);
+      expect(
+        toNetworkError(systemError('self-signed', 'DEPTH_ZERO_SELF_SIGNED_CERT'))
+      ).toBeInstanceOf(CertusSslError);
+      expect(toNetworkError(systemError('connect ETIMEDOUT', 'ETIMEDOUT'))).toBeInstanceOf(
+        CertusNetworkTimeoutError
+      );
+    });
+
+    it('should read the code of the cause, as fetch() reports it', () => {
+      const fetchFailed = Object.assign(new TypeError('fetch failed'), {
+        cause: systemError('getaddrinfo EAI_AGAIN api.partner.com', 'EAI_AGAIN'),
+      });
+
+      expect(toNetworkError(fetchFailed)).toBeInstanceOf(CertusDnsError);
+    });
+
+    it('should fall back to a generic network error', () => {
+      const refused = toNetworkError(systemError('connect ECONNREFUSED', 'ECONNREFUSED'));
+      const unknown = toNetworkError('offline');
+
+      expect(refused).toBeInstanceOf(CertusNetworkError);
+      expect(refused.code).toBe(ErrorCodes.NET_NETWORK_ERROR);
+      expect(refused.context).toEqual({ systemCode: 'ECONNREFUSED' });
+      expect(toNetworkError(new CertusServerError('Upstream failed')).context).toEqual({});
+      expect(unknown.message).toBe('Network connection failed');
+      expect(unknown.originalError).toBeUndefined();
+    });
+  });
+
   describe('wrapError - Edge Cases', () => {
     it('should use original error message when no custom message provided', () => {
       const originalError = new Error('Original error message');
@@ -75,7 +167,9 @@ describe('Error Utilities', () => {
 
       expect(result).toBeInstanceOf(CertusAdiValtError);
       expect(result.message).toBe('Regular error');
-      expect(result.context.originalError).toBe(regularError);
+      expect(result.originalError).toBe(regularError);
+      expect(result.cause).toBe(regularError);
+      expect(result.context.originalError).toBeUndefined();
     });
 
     it('should handle non-Error objects', () => {
@@ -84,7 +178,7 @@ describe('Error Utilities', () => {
 
       expect(result).toBeInstanceOf(CertusAdiValtError);
       expect(result.message).toBe('Server error occurred');
-      expect(result.context.originalError).toBe(nonError);
+      expect(result.originalError).toBeUndefined();
     });
   });
 
@@ -97,4 +191,4 @@ describe('Error Utilities', () => {
       );
     });
   });
-});
\ No newline at end of file
+});
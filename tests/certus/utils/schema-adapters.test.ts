@@ -0,0 +1,345 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CertusAdiValtError,
+  fromClassValidatorErrors,
+  fromJoiError,
+  fromSchemaError,
+  fromYupError,
+  fromZodError,
+  isClassValidatorErrors,
+  isJoiValidationError,
+  isYupValidationError,
+  isZodError,
+} from '../../../src/certus';
+import { ErrorCodes } from '../../../src/constants';
+
+class FakeYupError extends Error {
+  name = 'ValidationError';
+  errors: string[];
+
+  constructor(
+    message: string,
+    public path?: string,
+    public type?: string,
+    public value?: unknown,
+    public params?: Record<string, unknown>,
+    public inner: FakeYupError[] = []
+  ) {
+    super(message);
+    this.errors = inner.length > 0 ? inner.map((error) => error.message) : [message];
+  }
+}
+
+const zodError = {
+  name: 'ZodError',
+  issues: [
+    {
+      code: 'invalid_type',
+      expected: 'string',
+      received: 'undefined',
+      path: ['email'],
+      message: 'Required',
+    },
+    {
+      code: 'too_small',
+      type: 'string',
+      minimum: 8,
+      inclusive: true,
+      path: ['password'],
+      message: 'String must contain at least 8 character(s)',
+    },
+    {
+      code: 'invalid_string',
+      validation: 'url',
+      path: ['links', 0],
+      message: 'Invalid url',
+    },
+    {
+      code: 'invalid_enum_value',
+      options: ['admin', 'user'],
+      received: 'root',
+      path: ['role'],
+      message: "Invalid enum value. Expected 'admin' | 'user', received 'root'",
+    },
+    {
+      code: 'unrecognized_keys',
+      keys: ['extra'],
+      path: [],
+      message: "Unrecognized key(s) in object: 'extra'",
+    },
+  ],
+};
+
+const joiError = Object.assign(new Error('"quantity" must be greater than or equal to 1'), {
+  name: 'ValidationError',
+  isJoi: true,
+  details: [
+    {
+      message: '"quantity" must be greater than or equal to 1',
+      path: ['items', 0, 'quantity'],
+      type: 'number.min',
+      context: { limit: 1, value: 0, label: 'items[0].quantity', key: 'quantity' },
+    },
+    {
+      message: '"email" must be a valid email',
+      path: ['email'],
+      type: 'string.email',
+      context: { value: 'nope', label: 'email', key: 'email' },
+    },
+    {
+      message: '"name" is required',
+      path: ['name'],
+      type: 'any.required',
+      context: { label: 'name', key: 'name' },
+    },
+  ],
+});
+
+describe('schema library detection', () => {
+  it('should detect errors by shape', () => {
+    expect(isZodError(zodError)).toBe(true);
+    expect(isJoiValidationError(joiError)).toBe(true);
+    expect(isYupValidationError(new FakeYupError('Required', 'name', 'required'))).toBe(true);
+    expect(isClassValidatorErrors([{ property: 'email', constraints: { isEmail: 'bad' } }])).toBe(
+      true
+    );
+  });
+
+  it('should not detect unrelated values', () => {
+    expect(isZodError(new Error('boom'))).toBe(false);
+    expect(isJoiValidationError(zodError)).toBe(false);
+    expect(isYupValidationError(joiError)).toBe(false);
+    expect(isClassValidatorErrors([])).toBe(false);
+    expect(isClassValidatorErrors(['email'])).toBe(false);
+  });
+});
+
+describe('fromZodError', () => {
+  it('should map issues to violations', () => {
+    const error = fromZodError(zodError);
+
+    expect(error).toBeInstanceOf(CertusAdiValtError);
+    expect(error.name).toBe('CertusSchemaValidationError');
+    expect(error.code).toBe(ErrorCodes.VAL_SCHEMA_ERROR);
+    expect(error.context).toEqual({ validator: 'zod' });
+    expect(error.violations).toEqual([
+      { path: '/email', code: ErrorCodes.VAL_REQUIRED_FIELD, message: 'Required' },
+      {
+        path: '/password',
+        code: ErrorCodes.VAL_STRING_TOO_SHORT,
+        message: 'String must contain at least 8 character(s)',
+        params: { min: 8, inclusive: true },
+      },
+      {
+        path: '/links/0',
+        code: ErrorCodes.VAL_INVALID_URL,
+        message: 'Invalid url',
+        params: { format: 'url' },
+      },
+      {
+        path: '/role',
+        code: ErrorCodes.VAL_INVALID_CHOICE,
+        message: "Invalid enum value. Expected 'admin' | 'user', received 'root'",
+        params: { options: ['admin', 'user'] },
+      },
+      {
+        path: '/extra',
+        code: ErrorCodes.VAL_INVALID_INPUT,
+        message: "Unrecognized key(s) in object: 'extra'",
+      },
+    ]);
+  });
+
+  it('should support Zod 4 issue shapes and reported input', () => {
+    const error = fromZodError({
+      issues: [
+        {
+          code: 'too_big',
+          origin: 'array',
+          maximum: 3,
+          inclusive: true,
+          path: ['tags'],
+          message: 'Too big',
+          input: ['a', 'b', 'c', 'd'],
+        },
+        { code: 'invalid_format', format: 'email', path: ['email'], message: 'Invalid email' },
+      ],
+    });
+
+    expect(error.violations[0]).toMatchObject({
+      path: '/tags',
+      code: ErrorCodes.VAL_ARRAY_TOO_LONG,
+      params: { max: 3, inclusive: true },
+      rejectedValue: ['a', 'b', 'c', 'd'],
+    });
+    expect(error.violations[1].code).toBe(ErrorCodes.VAL_INVALID_EMAIL);
+  });
+
+  it('should apply message and context options', () => {
+    const error = fromZodError(zodError, {
+      message: 'Invalid user',
+      context: { schema: 'CreateUser' },
+    });
+
+    expect(error.message).toBe('Invalid user');
+    expect(error.context).toEqual({ validator: 'zod', schema: 'CreateUser' });
+  });
+});
+
+describe('fromJoiError', () => {
+  it('should map details to violations', () => {
+    const error = fromJoiError(joiError);
+
+    expect(error.context).toEqual({ validator: 'joi' });
+    expect(error.violations).toEqual([
+      {
+        path: '/items/0/quantity',
+        code: ErrorCodes.VAL_NUMBER_TOO_SMALL,
+        message: '"quantity" must be greater than or equal to 1',
+        params: { limit: 1 },
+        rejectedValue: 0,
+      },
+      {
+        path: '/email',
+        code: ErrorCodes.VAL_INVALID_EMAIL,
+        message: '"email" must be a valid email',
+        rejectedValue: 'nope',
+      },
+      { path: '/name', code: ErrorCodes.VAL_REQUIRED_FIELD, message: '"name" is required' },
+    ]);
+  });
+
+  it('should redact sensitive rejected values', () => {
+    const error = fromJoiError({
+      details: [
+        {
+          message: '"password" length must be at least 8 characters long',
+          path: ['password'],
+          type: 'string.min',
+          context: { limit: 8, value: 'short' },
+        },
+      ],
+    });
+
+    expect(error.violations[0]).toMatchObject({
+      code: ErrorCodes.VAL_STRING_TOO_SHORT,
+      rejectedValue: '[REDACTED]',
+    });
+  });
+});
+
+describe('fromYupError', () => {
+  it('should map inner errors and parse Yup paths', () => {
+    const error = fromYupError(
+      new FakeYupError('2 errors occurred', undefined, undefined, undefined, undefined, [
+        new FakeYupError('items[0].sku is required', 'items[0].sku', 'required', undefined, {
+          path: 'items[0].sku',
+        }),
+        new FakeYupError('tags must have at least 1 items', 'tags', 'min', [], {
+          path: 'tags',
+          value: [],
+          originalValue: [],
+          min: 1,
+        }),
+      ])
+    );
+
+    expect(error.context).toEqual({ validator: 'yup' });
+    expect(error.violations).toEqual([
+      {
+        path: '/items/0/sku',
+        code: ErrorCodes.VAL_REQUIRED_FIELD,
+        message: 'items[0].sku is required',
+      },
+      {
+        path: '/tags',
+        code: ErrorCodes.VAL_ARRAY_TOO_SHORT,
+        message: 'tags must have at least 1 items',
+        params: { min: 1 },
+        rejectedValue: [],
+      },
+    ]);
+  });
+
+  it('should convert a single failure when validation aborted early', () => {
+    const error = fromYupError(
+      new FakeYupError('Must be a valid email', 'meta["contact.email"]', 'email', 'nope')
+    );
+
+    expect(error.violations).toEqual([
+      {
+        path: '/meta/contact.email',
+        code: ErrorCodes.VAL_INVALID_EMAIL,
+        message: 'Must be a valid email',
+        rejectedValue: 'nope',
+      },
+    ]);
+  });
+});
+
+describe('fromClassValidatorErrors', () => {
+  it('should flatten constraints and nested children', () => {
+    const error = fromClassValidatorErrors([
+      {
+        property: 'email',
+        value: 'nope',
+        constraints: { isEmail: 'email must be an email' },
+      },
+      {
+        property: 'address',
+        value: { zip: '1' },
+        children: [
+          {
+            property: 'zip',
+            value: '1',
+            constraints: {
+              minLength: 'zip must be longer than or equal to 5 characters',
+              isPostalCode: 'zip must be a postal code',
+            },
+          },
+        ],
+      },
+    ]);
+
+    expect(error.context).toEqual({ validator: 'class-validator' });
+    expect(error.violations).toEqual([
+      {
+        path: '/email',
+        code: ErrorCodes.VAL_INVALID_EMAIL,
+        message: 'email must be an email',
+        rejectedValue: 'nope',
+      },
+      {
+        path: '/address/zip',
+        code: ErrorCodes.VAL_STRING_TOO_SHORT,
+        message: 'zip must be longer than or equal to 5 characters',
+        rejectedValue: '1',
+      },
+      {
+        path: '/address/zip',
+        code: ErrorCodes.VAL_INVALID_INPUT,
+        message: 'zip must be a postal code',
+        rejectedValue: '1',
+      },
+    ]);
+  });
+});
+
+describe('fromSchemaError', () => {
+  it('should detect the library and convert the error', () => {
+    expect(fromSchemaError(zodError)?.context).toEqual({ validator: 'zod' });
+    expect(fromSchemaError(joiError)?.context).toEqual({ validator: 'joi' });
+    expect(fromSchemaError(new FakeYupError('Required', 'name', 'required'))?.context).toEqual({
+      validator: 'yup',
+    });
+    expect(
+      fromSchemaError([{ property: 'name', constraints: { isDefined: 'name is required' } }])
+        ?.violations[0].code
+    ).toBe(ErrorCodes.VAL_REQUIRED_FIELD);
+  });
+
+  it('should return undefined for unrecognized errors', () => {
+    expect(fromSchemaError(new Error('boom'))).toBeUndefined();
+    expect(fromSchemaError(null)).toBeUndefined();
+  });
+});
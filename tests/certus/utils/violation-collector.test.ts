@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CertusAdiValtError,
+  CertusSchemaValidationError,
+  ViolationCollector,
+  toJsonPointer,
+} from '../../../src/certus';
+import { ErrorCodes } from '../../../src/constants';
+
+describe('toJsonPointer', () => {
+  it('should join and escape path segments', () => {
+    expect(toJsonPointer(['items', 0, 'sku'])).toBe('/items/0/sku');
+    expect(toJsonPointer(['a/b', 'c~d'])).toBe('/a~1b/c~0d');
+  });
+
+  it('should keep JSON pointers and wrap property names', () => {
+    expect(toJsonPointer('/address/city')).toBe('/address/city');
+    expect(toJsonPointer('')).toBe('');
+    expect(toJsonPointer('email')).toBe('/email');
+  });
+});
+
+describe('ViolationCollector', () => {
+  it('should collect violations with default messages', () => {
+    const collector = new ViolationCollector()
+      .add('email', ErrorCodes.VAL_REQUIRED_FIELD)
+      .add(['name'], ErrorCodes.VAL_STRING_TOO_SHORT, {
+        message: 'Name must be at least 2 characters',
+        params: { min: 2 },
+        value: 'A',
+      });
+
+    expect(collector.hasViolations()).toBe(true);
+    expect(collector.getViolations()).toEqual([
+      { path: '/email', code: 'VAL_REQUIRED_FIELD', message: 'This field is required' },
+      {
+        path: '/name',
+        code: 'VAL_STRING_TOO_SHORT',
+        message: 'Name must be at least 2 characters',
+        params: { min: 2 },
+        rejectedValue: 'A',
+      },
+    ]);
+  });
+
+  it('should only add failed checks', () => {
+    const collector = new ViolationCollector()
+      .check(true, 'email', ErrorCodes.VAL_REQUIRED_FIELD)
+      .check(false, 'age', ErrorCodes.VAL_NUMBER_TOO_SMALL, { params: { min: 18 } });
+
+    expect(collector.getViolations().map((violation) => violation.path)).toEqual(['/age']);
+  });
+
+  it('should prefix paths of nested collectors', () => {
+    const collector = new ViolationCollector();
+
+    collector.at(['items', 1]).add('quantity', ErrorCodes.VAL_NUMBER_TOO_SMALL);
+    collector
+      .at('address')
+      .addAll([{ path: '/zip', code: ErrorCodes.VAL_INVALID_FORMAT, message: 'Invalid format' }]);
+
+    expect(collector.getViolations().map((violation) => violation.path)).toEqual([
+      '/items/1/quantity',
+      '/address/zip',
+    ]);
+  });
+
+  it('should redact sensitive rejected values', () => {
+    const violations = new ViolationCollector()
+      .add('password', ErrorCodes.VAL_STRING_TOO_SHORT, { value: 'hunter2' })
+      .add('credentials', ErrorCodes.VAL_INVALID_INPUT, {
+        value: { username: 'jane', apiKey: 'abc', tokens: ['x'] },
+      })
+      .getViolations();
+
+    expect(violations[0].rejectedValue).toBe('[REDACTED]');
+    expect(violations[1].rejectedValue).toEqual({
+      username: 'jane',
+      apiKey: '[REDACTED]',
+      tokens: '[REDACTED]',
+    });
+  });
+
+  it('should cut off circular and deeply nested rejected values', () => {
+    const author: Record<string, unknown> = { name: 'Jane' };
+    const post = { title: 'Hello', author, coAuthors: [author] };
+    author.posts = [post];
+    let nested: Record<string, unknown> = { leaf: true };
+    for (let i = 0; i < 20; i++) {
+      nested = { nested };
+    }
+
+    const [circular, deep] = new ViolationCollector()
+      .add('post', ErrorCodes.VAL_INVALID_INPUT, { value: post })
+      .add('tree', ErrorCodes.VAL_INVALID_INPUT, { value: nested })
+      .getViolations();
+
+    expect(circular.rejectedValue).toEqual({
+      title: 'Hello',
+      author: { name: 'Jane', posts: ['[Circular]'] },
+      coAuthors: [{ name: 'Jane', posts: ['[Circular]'] }],
+    });
+    expect(JSON.stringify(deep.rejectedValue)).toContain('"[Truncated]"');
+  });
+
+  it('should use custom redact fields', () => {
+    const [violation] = new ViolationCollector({ redactFields: ['pin'] })
+      .add('cardPin', ErrorCodes.VAL_INVALID_FORMAT, { value: '1234' })
+      .getViolations();
+
+    expect(violation.rejectedValue).toBe('[REDACTED]');
+  });
+
+  it('should create validation errors carrying the violations', () => {
+    const collector = new ViolationCollector().add('email', ErrorCodes.VAL_INVALID_EMAIL);
+
+    const error = collector.toError('Invalid signup', CertusSchemaValidationError, {
+      form: 'signup',
+    });
+
+    expect(error.name).toBe('CertusSchemaValidationError');
+    expect(error.message).toBe('Invalid signup');
+    expect(error.code).toBe(ErrorCodes.VAL_SCHEMA_ERROR);
+    expect(error.context).toEqual({ form: 'signup' });
+    expect(error.violations).toEqual(collector.getViolations());
+  });
+
+  it('should throw only when violations exist', () => {
+    expect(() => new ViolationCollector().throwIfAny()).not.toThrow();
+
+    try {
+      new ViolationCollector().add('email', ErrorCodes.VAL_REQUIRED_FIELD).throwIfAny();
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(CertusAdiValtError);
+      expect((error as CertusAdiValtError).name).toBe('CertusValidationError');
+      expect((error as CertusAdiValtError).message).toBe('Validation failed');
+    }
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { CertusResponseBuilder } from '../../../src/responses/builder';
-import { CertusAdiValtError } from '../../../src/certus';
+import { CertusAdiValtError, CertusValidationError } from '../../../src/certus';
+import { RequestContextStore } from '../../../src/adi';
 
 describe('CertusResponseBuilder', () => {
   const mockRequestId = 'test-request-123';
@@ -58,7 +59,9 @@ describe('CertusResponseBuilder', () => {
 
   describe('error', () => {
     it('should create an error response from CertusAdiValtError', () => {
-      const error = new CertusAdiValtError('Test error', 'TEST_ERROR', 400, { field: 'test' });
+      const error = new CertusAdiValtError('Test error', 'TEST_ERROR', 400).withPublicContext({
+        field: 'test',
+      });
 
       const result = CertusResponseBuilder.error(error, mockRequestId);
 
@@ -75,15 +78,69 @@ describe('CertusResponseBuilder', () => {
       });
     });
 
+    it('should keep internal messages and context out of the response', () => {
+      const error = new CertusAdiValtError(
+        'Connection to db-3:5432 refused',
+        'DB_CONNECTION_ERROR',
+        503,
+        { host: 'db-3', userId: 'usr_1', reportId: 'rep_1' }
+      ).withPublicContext(['reportId']);
+
+      const result = CertusResponseBuilder.error(error, mockRequestId);
+
+      expect(result.error.message).toBe('Internal server error');
+      expect(result.error.context).toEqual({ reportId: 'rep_1' });
+      expect(
+        CertusResponseBuilder.error(error.withPublicMessage('Report unavailable')).error.message
+      ).toBe('Report unavailable');
+      expect(
+        CertusResponseBuilder.error(
+          new CertusAdiValtError('Token expired', 'AUTH_TOKEN_EXPIRED', 401, { userId: 'usr_1' })
+        ).error
+      ).toMatchObject({ message: 'Token expired', context: undefined });
+    });
+
+    it('should send the internal message and context with includeDetails', () => {
+      const error = new CertusAdiValtError('Connection refused', 'DB_CONNECTION_ERROR', 503, {
+        host: 'db-3',
+      });
+
+      const result = CertusResponseBuilder.error(error, mockRequestId, true);
+
+      expect(result.error.message).toBe('Connection refused');
+      expect(result.error.context).toEqual({ host: 'db-3' });
+    });
+
+    it('should render validation violations as errors', () => {
+      const violations = [
+        {
+          path: '/password',
+          code: 'VAL_STRING_TOO_SHORT',
+          message: 'Text is too short',
+          params: { min: 8 },
+          rejectedValue: '[REDACTED]',
+        },
+      ];
+      const error = new CertusValidationError('Validation failed', {}, violations);
+
+      const result = CertusResponseBuilder.error(error, mockRequestId);
+
+      expect(result.error.errors).toEqual(violations);
+      expect(CertusResponseBuilder.problem(error).errors).toEqual(violations);
+    });
+
     it('should create an error response from generic Error', () => {
       const error = new Error('Generic error');
       const result = CertusResponseBuilder.error(error, mockRequestId);
 
+      expect(CertusResponseBuilder.error(error, mockRequestId, true).error.message).toBe(
+        'Generic error'
+      );
       expect(result).toEqual({
         success: false,
         error: {
           code: 'UNKNOWN_ERROR',
-          message: 'Generic error',
+          message: 'Internal server error',
           details: 'An unexpected error occurred',
           statusCode: 500,
           timestamp: mockTimestamp,
@@ -93,6 +150,77 @@ describe('CertusResponseBuilder', () => {
     });
   });
 
+  describe('problem', () => {
+    it('should create Problem Details from CertusAdiValtError', () => {
+      const error = new CertusAdiValtError('User 42 not found', 'GEN_NOT_FOUND', 404, {
+        userId: 'usr_1',
+      }).withPublicContext({ resource: 'User' });
+
+      const result = CertusResponseBuilder.problem(error, {
+        instance: '/api/users/42',
+        requestId: mockRequestId,
+      });
+
+      expect(result).toEqual({
+        type: 'urn:certus-adivalt:problem:gen-not-found',
+        title: 'Resource not found',
+        status: 404,
+        detail: 'User 42 not found',
+        instance: '/api/users/42',
+        code: 'GEN_NOT_FOUND',
+        timestamp: mockTimestamp,
+        requestId: mockRequestId,
+        resource: 'User',
+      });
+    });
+
+    it('should use custom type base URI', () => {
+      const error = new CertusAdiValtError('Declined', 'PAY_CARD_DECLINED', 402);
+
+      const result = CertusResponseBuilder.problem(error, {
+        typeBaseUri: 'https://api.example.com/problems/',
+      });
+
+      expect(result.type).toBe('https://api.example.com/problems/pay-card-declined');
+      expect(result.title).toBe('Card declined');
+    });
+
+    it('should fall back to HTTP reason phrase for unknown codes', () => {
+      const error = new CertusAdiValtError('Disk full', 'CUSTOM_CODE', 507);
+
+      const result = CertusResponseBuilder.problem(error);
+
+      expect(result.title).toBe('Insufficient Storage');
+      expect(result.status).toBe(507);
+    });
+
+    it('should not let context overwrite reserved members', () => {
+      const error = new CertusAdiValtError('Conflict', 'GEN_CONFLICT', 409).withPublicContext({
+        status: 200,
+        type: 'spoofed',
+        field: 'email',
+      });
+
+      const result = CertusResponseBuilder.problem(error);
+
+      expect(result.status).toBe(409);
+      expect(result.type).toBe('urn:certus-adivalt:problem:gen-conflict');
+      expect(result.field).toBe('email');
+    });
+
+    it('should create Problem Details from generic Error', () => {
+      const result = CertusResponseBuilder.problem(new Error('Boom'));
+
+      expect(result.status).toBe(500);
+      expect(result.code).toBe('UNKNOWN_ERROR');
+      expect(result.title).toBe('Internal Server Error');
+      expect(result.detail).toBe('Internal server error');
+      expect(
+        CertusResponseBuilder.problem(new Error('Boom'), { includeDetails: true }).detail
+      ).toBe('Boom');
+    });
+  });
+
   describe('paginated', () => {
     it('should create a paginated response', () => {
       const data = [{ id: 1 }, { id: 2 }];
@@ -232,4 +360,28 @@ describe('CertusResponseBuilder', () => {
       expect(new Date(result.timestamp).getTime()).toBe(testDate.getTime());
     });
   });
-});
\ No newline at end of file
+
+  describe('request context', () => {
+    it('should default requestId to the current request context', () => {
+      const response = RequestContextStore.run({ requestId: 'ctx-request' }, () => ({
+        success: CertusResponseBuilder.success({ id: 1 }),
+        error: CertusResponseBuilder.error(new Error('Boom')),
+        problem: CertusResponseBuilder.problem(new Error('Boom')),
+        empty: CertusResponseBuilder.empty(),
+      }));
+
+      expect(response.success.requestId).toBe('ctx-request');
+      expect(response.error.error.requestId).toBe('ctx-request');
+      expect(response.problem.requestId).toBe('ctx-request');
+      expect(response.empty.requestId).toBe('ctx-request');
+    });
+
+    it('should prefer an explicit requestId', () => {
+      const response = RequestContextStore.run({ requestId: 'ctx-request' }, () =>
+        CertusResponseBuilder.success({ id: 1 }, undefined, mockRequestId)
+      );
+
+      expect(response.requestId).toBe(mockRequestId);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ResponseFormatter } from '../../../src/responses/formatter';
-import { CertusAdiValtError } from '../../../src/certus';
+import { MessageCatalog } from '../../../src/responses/i18n';
+import { CertusAdiValtError, CertusInputValidationError } from '../../../src/certus';
 
 describe('ResponseFormatter', () => {
   const mockRequestId = 'test-request-123';
@@ -116,6 +117,18 @@ describe('ResponseFormatter', () => {
       // Note: context may be present in the actual implementation
     });
 
+    it('should include the stack trace of the thrown error when asked', () => {
+      const error = new Error('Database connection failed');
+
+      expect(ResponseFormatter.formatError(error).error.stack).toBeUndefined();
+      expect(ResponseFormatter.formatError(error, { includeStack: true }).error.stack).toBe(
+        error.stack
+      );
+      expect(
+        ResponseFormatter.formatError('String error', { includeStack: true }).error.stack
+      ).toBe(undefined);
+    });
+
     it('should format non-Error objects', () => {
       const error = 'String error';
       const result = ResponseFormatter.formatError(error, {
@@ -150,6 +163,154 @@ describe('ResponseFormatter', () => {
     });
   });
 
+  describe('formatProblem', () => {
+    it('should format CertusAdiValtError as Problem Details', () => {
+      const error = new CertusAdiValtError('Token has expired', 'AUTH_TOKEN_EXPIRED', 401);
+
+      const result = ResponseFormatter.formatProblem(error, {
+        requestId: mockRequestId,
+        instance: '/api/me',
+      });
+
+      expect(result.type).toBe('urn:certus-adivalt:problem:auth-token-expired');
+      expect(result.status).toBe(401);
+      expect(result.detail).toBe('Token has expired');
+      expect(result.instance).toBe('/api/me');
+      expect(result.requestId).toBe(mockRequestId);
+    });
+
+    it('should mask generic Error messages unless includeDetails is set', () => {
+      const error = new Error('Database connection failed');
+
+      expect(ResponseFormatter.formatProblem(error).detail).toBe('Internal server error');
+      expect(ResponseFormatter.formatProblem(error, { includeDetails: true }).detail).toBe(
+        'Database connection failed'
+      );
+    });
+
+    it('should add the stack trace as an extension when asked', () => {
+      const error = new CertusAdiValtError('Token has expired', 'AUTH_TOKEN_EXPIRED', 401);
+
+      expect(ResponseFormatter.formatProblem(error)).not.toHaveProperty('stack');
+      expect(ResponseFormatter.formatProblem(error, { includeStack: true }).stack).toBe(
+        error.stack
+      );
+    });
+
+    it('should format non-Error values', () => {
+      const result = ResponseFormatter.formatProblem('String error');
+
+      expect(result.status).toBe(500);
+      expect(result.code).toBe('SRV_INTERNAL_ERROR');
+      expect(result.detail).toBe('An unexpected error occurred');
+    });
+  });
+
+  describe('translation', () => {
+    const messages = new MessageCatalog({
+      bundles: {
+        de: {
+          errors: {
+            GEN_NOT_FOUND: 'Ressource nicht gefunden',
+            SRV_INTERNAL_ERROR: 'Interner Serverfehler',
+            VAL_REQUIRED_FIELD: '{field} ist erforderlich',
+            VAL_VALIDATION_FAILED: 'Validierung fehlgeschlagen',
+          },
+        },
+      },
+    });
+
+    it('should translate error messages and keep the code', () => {
+      const error = new CertusAdiValtError('User 42 not found', 'GEN_NOT_FOUND', 404);
+
+      const result = ResponseFormatter.formatError(error, { messages, locale: 'de' });
+
+      expect(result).toMatchObject({
+        error: { code: 'GEN_NOT_FOUND', message: 'Ressource nicht gefunden', statusCode: 404 },
+      });
+      expect(error.message).toBe('User 42 not found');
+    });
+
+    it('should fill placeholders from the public context only', () => {
+      const error = new CertusAdiValtError('email is required', 'VAL_REQUIRED_FIELD', 400, {
+        field: 'users.email',
+      });
+
+      expect(ResponseFormatter.formatError(error, { messages, locale: 'de' })).toMatchObject({
+        error: { message: '{field} ist erforderlich' },
+      });
+      expect(
+        ResponseFormatter.formatError(error.withPublicContext({ field: 'email' }), {
+          messages,
+          locale: 'de',
+        })
+      ).toMatchObject({ error: { message: 'email ist erforderlich' } });
+    });
+
+    it('should keep the error message in the default locale', () => {
+      const error = new CertusAdiValtError('User 42 not found', 'GEN_NOT_FOUND', 404);
+
+      const result = ResponseFormatter.formatError(error, { messages });
+
+      expect(result).toMatchObject({ error: { message: 'User 42 not found' } });
+    });
+
+    it('should translate masked generic errors', () => {
+      const result = ResponseFormatter.formatError(new Error('Connection refused'), {
+        messages,
+        locale: 'de',
+      });
+
+      expect(result).toMatchObject({
+        error: { code: 'SRV_INTERNAL_ERROR', message: 'Interner Serverfehler' },
+      });
+    });
+
+    it('should translate Problem Details titles, details and violations', () => {
+      const error = new CertusInputValidationError('Validation failed', undefined, [
+        { path: '/email', code: 'VAL_REQUIRED_FIELD', message: 'email is required' },
+      ]);
+
+      const result = ResponseFormatter.formatProblem(error, { messages, locale: 'de' });
+
+      expect(result.code).toBe(error.code);
+      expect(result.title).toBe(messages.translate('errors', error.code, 'de'));
+      expect(result.errors).toEqual([
+        { path: '/email', code: 'VAL_REQUIRED_FIELD', message: 'email ist erforderlich' },
+      ]);
+      expect(error.violations[0].message).toBe('email is required');
+    });
+
+    it('should fill Problem Details title placeholders from the public context only', () => {
+      const error = new CertusAdiValtError('email is required', 'VAL_REQUIRED_FIELD', 400, {
+        field: 'users.email',
+      });
+
+      expect(ResponseFormatter.formatProblem(error, { messages, locale: 'de' }).title).toBe(
+        '{field} ist erforderlich'
+      );
+      expect(
+        ResponseFormatter.formatProblem(error, { messages, locale: 'de', includeDetails: true })
+          .title
+      ).toBe('users.email ist erforderlich');
+      expect(
+        ResponseFormatter.formatProblem(error.withPublicContext({ field: 'email' }), {
+          messages,
+          locale: 'de',
+        }).title
+      ).toBe('email ist erforderlich');
+    });
+
+    it('should translate the Problem Details title in the default locale', () => {
+      const error = new CertusAdiValtError('User 42 not found', 'GEN_NOT_FOUND', 404);
+
+      const result = ResponseFormatter.formatProblem(error, { messages });
+
+      expect(result.title).toBe('Resource not found');
+      expect(result.detail).toBe('User 42 not found');
+    });
+  });
+
   describe('formatPaginated', () => {
     it('should format paginated response correctly', () => {
       const data = [{ id: 1 }, { id: 2 }, { id: 3 }];
@@ -4,6 +4,7 @@ import {
   isErrorResponse,
   isPaginatedResponse,
   isEmptyResponse,
+  isProblemDetails,
 } from '../../../src/responses/guards';
 import {
   SuccessResponse,
@@ -319,6 +320,39 @@ describe('Response Guards', () => {
     });
   });
 
+  describe('isProblemDetails', () => {
+    it('should return true for Problem Details objects', () => {
+      const problem = {
+        type: 'urn:certus-adivalt:problem:gen-not-found',
+        title: 'Resource not found',
+        status: 404,
+        detail: 'User not found',
+      };
+
+      expect(isProblemDetails(problem)).toBe(true);
+    });
+
+    it('should return false for envelope responses', () => {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: {
+          code: 'GEN_NOT_FOUND',
+          message: 'Not found',
+          statusCode: 404,
+          timestamp: mockTimestamp,
+        },
+      };
+
+      expect(isProblemDetails(errorResponse)).toBe(false);
+    });
+
+    it('should return false for non-objects and incomplete objects', () => {
+      expect(isProblemDetails(null)).toBe(false);
+      expect(isProblemDetails('problem')).toBe(false);
+      expect(isProblemDetails({ type: 'about:blank', title: 'Oops' })).toBe(false);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle responses with additional properties', () => {
       const responseWithExtra = {
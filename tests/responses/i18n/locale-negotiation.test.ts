@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { negotiateLocale, parseAcceptLanguage } from '../../../src/responses/i18n';
+
+describe('locale negotiation', () => {
+  describe('parseAcceptLanguage', () => {
+    it('should order language ranges by quality, keeping header order between ties', () => {
+      expect(parseAcceptLanguage('fr;q=0.9, en;q=0.8, fr-CH, de;q=0.9, *;q=0.5')).toEqual([
+        { tag: 'fr-CH', quality: 1 },
+        { tag: 'fr', quality: 0.9 },
+        { tag: 'de', quality: 0.9 },
+        { tag: 'en', quality: 0.8 },
+        { tag: '*', quality: 0.5 },
+      ]);
+    });
+
+    it('should drop malformed and unacceptable ranges', () => {
+      expect(parseAcceptLanguage('en;q=0, de_DE, <script>, es;q=2')).toEqual([
+        { tag: 'es', quality: 1 },
+      ]);
+    });
+
+    it('should return an empty list for a missing header', () => {
+      expect(parseAcceptLanguage(undefined)).toEqual([]);
+      expect(parseAcceptLanguage('')).toEqual([]);
+    });
+  });
+
+  describe('negotiateLocale', () => {
+    const supported = ['en', 'pt', 'pt-BR', 'zh-Hant', 'en-GB'];
+
+    it('should prefer an exact match, case-insensitively', () => {
+      expect(negotiateLocale('PT-br', supported, 'en')).toBe('pt-BR');
+    });
+
+    it('should fall back to a parent of the requested locale', () => {
+      expect(negotiateLocale('pt-PT', supported, 'en')).toBe('pt');
+      expect(negotiateLocale('zh-Hant-TW', supported, 'en')).toBe('zh-Hant');
+    });
+
+    it('should match a regional variant of the requested language', () => {
+      expect(negotiateLocale('de, fr', ['en', 'fr-CA'], 'en')).toBe('fr-CA');
+    });
+
+    it('should follow the order of preference', () => {
+      expect(negotiateLocale('ja, pt;q=0.5, en;q=0.8', supported, 'en')).toBe('en');
+    });
+
+    it('should use the default locale for wildcards and unmatched headers', () => {
+      expect(negotiateLocale('*', supported, 'en')).toBe('en');
+      expect(negotiateLocale('ja, ko', supported, 'en')).toBe('en');
+      expect(negotiateLocale(undefined, supported, 'en')).toBe('en');
+    });
+  });
+});
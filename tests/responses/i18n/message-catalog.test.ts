@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { MessageCatalog } from '../../../src/responses/i18n';
+import { ErrorCodes, ErrorMessages, SuccessMessages } from '../../../src/constants';
+import { CertusAdiValtError } from '../../../src/certus';
+
+describe('MessageCatalog', () => {
+  const createCatalog = () =>
+    new MessageCatalog({
+      bundles: {
+        pt: {
+          errors: {
+            [ErrorCodes.GEN_NOT_FOUND]: 'Recurso não encontrado',
+            [ErrorCodes.VAL_STRING_TOO_LONG]: '{field} deve ter no máximo {max} caracteres',
+          },
+          success: { RESOURCE_CREATED: 'Recurso criado com sucesso' },
+        },
+        'pt-br': {
+          errors: { [ErrorCodes.AUTH_INVALID_CREDENTIALS]: 'E-mail ou senha inválidos' },
+        },
+        'pt-PT': {
+          errors: { [ErrorCodes.AUTH_TOKEN_EXPIRED]: 'O token de autenticação expirou' },
+        },
+      },
+      fallbacks: { 'pt-BR': ['pt-PT'] },
+    });
+
+  it('should register the built-in English messages for the default locale', () => {
+    const messages = new MessageCatalog();
+
+    expect(messages.defaultLocale).toBe('en');
+    expect(messages.getLocales()).toEqual(['en']);
+    expect(messages.translate('errors', ErrorCodes.GEN_NOT_FOUND)).toBe(
+      ErrorMessages[ErrorCodes.GEN_NOT_FOUND]
+    );
+    expect(messages.translate('success', 'PROFILE_UPDATED')).toBe(SuccessMessages.PROFILE_UPDATED);
+  });
+
+  it('should leave out the built-in messages when includeDefaults is false', () => {
+    const messages = new MessageCatalog({ includeDefaults: false });
+
+    expect(messages.getLocales()).toEqual([]);
+    expect(messages.translate('errors', ErrorCodes.GEN_NOT_FOUND)).toBeUndefined();
+  });
+
+  it('should canonicalize locale tags and merge bundles', () => {
+    const messages = createCatalog().addBundle('PT-BR', {
+      success: { PROFILE_UPDATED: 'Perfil atualizado' },
+    });
+
+    expect(messages.getLocales()).toEqual(['en', 'pt', 'pt-BR', 'pt-PT']);
+    expect(messages.translate('errors', ErrorCodes.AUTH_INVALID_CREDENTIALS, 'pt-BR')).toBe(
+      'E-mail ou senha inválidos'
+    );
+    expect(messages.translate('success', 'PROFILE_UPDATED', 'pt-br')).toBe('Perfil atualizado');
+  });
+
+  it('should build fallback chains from parents, configured fallbacks and the default locale', () => {
+    const messages = createCatalog();
+
+    expect(messages.getFallbackChain('pt-BR')).toEqual(['pt-BR', 'pt', 'pt-PT', 'en']);
+    expect(messages.getFallbackChain('de-AT')).toEqual(['de-AT', 'de', 'en']);
+    expect(messages.getFallbackChain('en')).toEqual(['en']);
+  });
+
+  it('should stop at cyclic fallbacks', () => {
+    const messages = new MessageCatalog({ fallbacks: { de: ['fr'], fr: ['de'] } });
+
+    expect(messages.getFallbackChain('de')).toEqual(['de', 'fr', 'en']);
+  });
+
+  it('should walk the fallback chain when translating', () => {
+    const messages = createCatalog();
+
+    expect(messages.translate('errors', ErrorCodes.GEN_NOT_FOUND, 'pt-BR')).toBe(
+      'Recurso não encontrado'
+    );
+    expect(messages.translate('errors', ErrorCodes.AUTH_TOKEN_EXPIRED, 'pt-BR')).toBe(
+      'O token de autenticação expirou'
+    );
+    expect(messages.translate('errors', ErrorCodes.AUTH_TOKEN_EXPIRED, 'pt')).toBe(
+      ErrorMessages[ErrorCodes.AUTH_TOKEN_EXPIRED]
+    );
+    expect(messages.translate('errors', 'UNKNOWN_CODE', 'pt')).toBeUndefined();
+  });
+
+  it('should resolve the locale from an Accept-Language header', () => {
+    const messages = createCatalog();
+
+    expect(messages.resolveLocale('pt-BR,pt;q=0.9,en;q=0.5')).toBe('pt-BR');
+    expect(messages.resolveLocale('pt-AO')).toBe('pt');
+    expect(messages.resolveLocale('ja')).toBe('en');
+    expect(messages.resolveLocale(undefined)).toBe('en');
+  });
+
+  it('should translate errors with placeholders from their public context', () => {
+    const messages = createCatalog();
+    const error = new CertusAdiValtError('Name is too long', ErrorCodes.VAL_STRING_TOO_LONG, 422, {
+      field: 'nome',
+      max: 50,
+    }).withPublicContext(['field', 'max']);
+
+    expect(messages.translateError(error, 'pt-BR')).toBe('nome deve ter no máximo 50 caracteres');
+  });
+
+  it('should not fill placeholders from the internal context', () => {
+    const messages = createCatalog();
+    const error = new CertusAdiValtError('Name is too long', ErrorCodes.VAL_STRING_TOO_LONG, 422, {
+      field: 'users.display_name',
+      max: 50,
+    });
+
+    expect(messages.translateError(error, 'pt')).toBe(
+      '{field} deve ter no máximo {max} caracteres'
+    );
+  });
+
+  it('should keep the error message in the default locale and for untranslated codes', () => {
+    const messages = createCatalog();
+    const error = { code: ErrorCodes.GEN_NOT_FOUND, message: 'User 42 not found' };
+
+    expect(messages.translateError(error, 'en')).toBe('User 42 not found');
+    expect(messages.translateError(error, 'en-GB')).toBe('User 42 not found');
+    expect(
+      messages.translateError(
+        { code: ErrorCodes.DB_TIMEOUT_ERROR, message: 'Query timed out' },
+        'pt'
+      )
+    ).toBe('Query timed out');
+  });
+
+  it('should translate violations with the field name and params', () => {
+    const messages = createCatalog();
+    const violations = [
+      {
+        path: '/profile/name',
+        code: ErrorCodes.VAL_STRING_TOO_LONG,
+        message: 'Too long',
+        params: { max: 50 },
+      },
+      { path: '/email', code: ErrorCodes.VAL_INVALID_EMAIL, message: 'Invalid email' },
+    ];
+
+    expect(messages.translateViolations(violations, 'pt')).toEqual([
+      { ...violations[0], message: 'name deve ter no máximo 50 caracteres' },
+      violations[1],
+    ]);
+    expect(messages.translateViolations(violations, 'en')).toEqual(violations);
+  });
+
+  it('should support a different default locale', () => {
+    const messages = new MessageCatalog({
+      defaultLocale: 'de',
+      includeDefaults: false,
+      bundles: { de: { errors: { [ErrorCodes.GEN_NOT_FOUND]: 'Nicht gefunden' } } },
+    });
+
+    expect(messages.resolveLocale('fr')).toBe('de');
+    expect(messages.getFallbackChain('fr')).toEqual(['fr', 'de']);
+    expect(messages.translate('errors', ErrorCodes.GEN_NOT_FOUND, 'fr')).toBe('Nicht gefunden');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { formatMessage } from '../../../src/responses/i18n';
+
+describe('formatMessage', () => {
+  it('should interpolate simple placeholders', () => {
+    expect(
+      formatMessage('{field} must be at most {max} characters', { field: 'name', max: 50 })
+    ).toBe('name must be at most 50 characters');
+  });
+
+  it('should format numbers for the locale', () => {
+    expect(formatMessage('Limit: {max}', { max: 10485760 }, 'en')).toBe('Limit: 10,485,760');
+    expect(formatMessage('Limite : {max, number}', { max: 1500 }, 'de')).toBe('Limite : 1.500');
+  });
+
+  it('should leave placeholders without a value untouched', () => {
+    expect(formatMessage('{field} is required', {})).toBe('{field} is required');
+  });
+
+  it('should stringify dates, arrays and objects', () => {
+    expect(
+      formatMessage('{at} {allowed} {range}', {
+        at: new Date('2024-01-15T10:30:00.000Z'),
+        allowed: ['png', 'jpg'],
+        range: { min: 1 },
+      })
+    ).toBe('2024-01-15T10:30:00.000Z png, jpg {"min":1}');
+  });
+
+  it('should choose plural branches by exact value, then plural category', () => {
+    const template = '{count, plural, =0 {No files} one {# file} other {# files}} uploaded';
+
+    expect(formatMessage(template, { count: 0 })).toBe('No files uploaded');
+    expect(formatMessage(template, { count: 1 })).toBe('1 file uploaded');
+    expect(formatMessage(template, { count: 1200 })).toBe('1,200 files uploaded');
+  });
+
+  it('should use the plural rules of the locale', () => {
+    const template = '{count, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}';
+
+    expect(formatMessage(template, { count: 3 }, 'pl')).toBe('3 pliki');
+    expect(formatMessage(template, { count: 5 }, 'pl')).toBe('5 plików');
+  });
+
+  it('should choose select branches by value', () => {
+    const template = '{role, select, admin {Administrators} other {Users}} cannot {action}';
+
+    expect(formatMessage(template, { role: 'admin', action: 'delete' })).toBe(
+      'Administrators cannot delete'
+    );
+    expect(formatMessage(template, { role: 'guest', action: 'delete' })).toBe(
+      'Users cannot delete'
+    );
+  });
+
+  it('should support quoted braces and apostrophes', () => {
+    expect(formatMessage("Use '{name}' for {field}, it''s required", { field: 'email' })).toBe(
+      "Use {name} for email, it's required"
+    );
+  });
+
+  it('should keep unbalanced braces as text', () => {
+    expect(formatMessage('Invalid {field', { field: 'email' })).toBe('Invalid {field');
+  });
+
+  it('should fall back to English rules for unsupported locales', () => {
+    expect(formatMessage('{count, plural, one {# item} other {# items}}', { count: 2 }, '!!')).toBe(
+      '2 items'
+    );
+  });
+});
@@ -292,6 +292,7 @@ describe('Response Module Integration', () => {
 
       const response = ResponseFormatter.formatError(nestedError, {
         requestId: mockRequestId,
+        includeDetails: true,
       });
 
       expect(isErrorResponse(response)).toBe(true);
@@ -8,6 +8,20 @@ import { LoggingMiddleware } from '../../src/valt/middleware/logging-middleware'
 import { ResponseMiddleware } from '../../src/valt/middleware/response-middleware';
 import { ErrorMiddleware } from '../../src/valt/middleware/error-middleware';
 import { DataRedactor } from '../../src/valt/security/data-redaction';
+import { W3CTraceContext } from '../../src/valt/tracing/trace-context';
+import { ValidationMiddleware } from '../../src/valt/middleware/validation-middleware';
+import { SchemaValidator } from '../../src/valt/validation/schema-validator';
+import { DeadlineMiddleware } from '../../src/valt/middleware/deadline-middleware';
+import { RateLimitMiddleware } from '../../src/valt/middleware/rate-limit-middleware';
+import { SecurityMiddleware } from '../../src/valt/middleware/security-middleware';
+import { SECURITY_HEADER_PRESETS } from '../../src/valt/security/security-presets';
+import {
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  MemoryRateLimitStore,
+  RetryPolicy,
+  withTimeout,
+} from '../../src/valt/resilience';
 
 describe('Valt Module Exports', () => {
   it('should export all main components', () => {
@@ -25,9 +39,30 @@ describe('Valt Module Exports', () => {
     expect(LoggingMiddleware).toBeDefined();
     expect(ResponseMiddleware).toBeDefined();
     expect(ErrorMiddleware).toBeDefined();
+    expect(ValidationMiddleware).toBeDefined();
+    expect(DeadlineMiddleware).toBeDefined();
+    expect(RateLimitMiddleware).toBeDefined();
+    expect(SecurityMiddleware).toBeDefined();
   });
 
   it('should export security components', () => {
     expect(DataRedactor).toBeDefined();
+    expect(SECURITY_HEADER_PRESETS).toBeDefined();
   });
-});
\ No newline at end of file
+
+  it('should export tracing components', () => {
+    expect(W3CTraceContext).toBeDefined();
+  });
+
+  it('should export validation components', () => {
+    expect(SchemaValidator).toBeDefined();
+  });
+
+  it('should export resilience components', () => {
+    expect(CircuitBreaker).toBeDefined();
+    expect(CircuitBreakerRegistry).toBeDefined();
+    expect(RetryPolicy).toBeDefined();
+    expect(withTimeout).toBeDefined();
+    expect(MemoryRateLimitStore).toBeDefined();
+  });
+});
@@ -16,6 +16,8 @@ describe('JsonFormat', () => {
       redactFields: [],
       prettyPrint: false,
       timestampFormat: 'ISO',
+      transports: [],
+      async: false,
     };
     jsonFormat = new JsonFormat(config);
   });
@@ -111,6 +113,24 @@ describe('JsonFormat', () => {
     });
   });
 
+  it('should emit trace and span IDs as trace_id and span_id', () => {
+    const entry: LogEntry = {
+      timestamp: new Date('2023-01-01T00:00:00.000Z'),
+      level: LogLevel.INFO,
+      message: 'Test message',
+      service: 'test-service',
+      environment: 'test',
+      version: '1.0.0',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+    };
+
+    const parsed = JSON.parse(jsonFormat.format(entry));
+
+    expect(parsed.trace_id).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(parsed.span_id).toBe('00f067aa0ba902b7');
+  });
+
   it('should format timestamp according to config', () => {
     const timestamp = new Date('2023-01-01T00:00:00.000Z');
 
@@ -134,4 +154,4 @@ describe('JsonFormat', () => {
       version: '1.0.0',
     };
   }
-});
\ No newline at end of file
+});
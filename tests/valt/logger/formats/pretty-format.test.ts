@@ -16,6 +16,8 @@ describe('PrettyFormat', () => {
       redactFields: [],
       prettyPrint: true,
       timestampFormat: 'ISO',
+      transports: [],
+      async: false,
     };
     prettyFormat = new PrettyFormat(config);
   });
@@ -108,6 +110,29 @@ describe('PrettyFormat', () => {
     expect(result).not.toContain('Stack: Error: Test error');
   });
 
+  it('should include causes and aggregate members', () => {
+    const entry: LogEntry = {
+      timestamp: new Date('2023-01-01T00:00:00.000Z'),
+      level: LogLevel.ERROR,
+      message: 'Test message',
+      service: 'test-service',
+      environment: 'development',
+      version: '1.0.0',
+      error: {
+        name: 'AggregateError',
+        message: 'Import failed',
+        errors: [{ name: 'Error', message: 'Row 1 rejected' }],
+        cause: { name: 'Error', message: 'connect ECONNREFUSED', circular: true },
+      },
+    };
+
+    const result = prettyFormat.format(entry);
+
+    expect(result).toContain('Error: AggregateError: Import failed');
+    expect(result).toContain('    [0]: Error: Row 1 rejected');
+    expect(result).toContain('  Caused by: Error: connect ECONNREFUSED [circular]');
+  });
+
   it('should include duration in formatted output', () => {
     const entry: LogEntry = {
       timestamp: new Date('2023-01-01T00:00:00.000Z'),
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { RingBuffer } from '../../../src/valt/logger/ring-buffer';
+
+describe('RingBuffer', () => {
+  it('should return items in insertion order', () => {
+    const buffer = new RingBuffer<number>(3);
+
+    buffer.push(1);
+    buffer.push(2);
+
+    expect(buffer.size).toBe(2);
+    expect(buffer.shift()).toBe(1);
+    expect(buffer.shift()).toBe(2);
+    expect(buffer.shift()).toBeUndefined();
+  });
+
+  it('should reject pushes once full', () => {
+    const buffer = new RingBuffer<number>(2);
+
+    expect(buffer.push(1)).toBe(true);
+    expect(buffer.push(2)).toBe(true);
+    expect(buffer.isFull()).toBe(true);
+    expect(buffer.push(3)).toBe(false);
+    expect(buffer.size).toBe(2);
+  });
+
+  it('should wrap around after items are removed', () => {
+    const buffer = new RingBuffer<number>(3);
+
+    [1, 2, 3].forEach((item) => buffer.push(item));
+    buffer.shift();
+    buffer.shift();
+    buffer.push(4);
+    buffer.push(5);
+
+    expect(buffer.take(10)).toEqual([3, 4, 5]);
+    expect(buffer.size).toBe(0);
+  });
+
+  it('should take at most the requested number of items', () => {
+    const buffer = new RingBuffer<string>(5);
+
+    ['a', 'b', 'c'].forEach((item) => buffer.push(item));
+
+    expect(buffer.take(2)).toEqual(['a', 'b']);
+    expect(buffer.take(2)).toEqual(['c']);
+  });
+});
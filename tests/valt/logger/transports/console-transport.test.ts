@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConsoleTransport } from '../../../../src/valt/logger/transports/console-transport';
+import { LogLevel } from '../../../../src/types';
+import type { LogEntry } from '../../../../src/types';
+
+describe('ConsoleTransport', () => {
+  const createEntry = (level: LogLevel): LogEntry => ({
+    timestamp: new Date('2023-01-01T00:00:00.000Z'),
+    level,
+    message: 'Test message',
+    service: 'test-service',
+    environment: 'test',
+    version: '1.0.0',
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should route entries to the console method matching their level', () => {
+    const transport = new ConsoleTransport();
+
+    transport.write(createEntry(LogLevel.ERROR), 'error line');
+    transport.write(createEntry(LogLevel.WARN), 'warn line');
+    transport.write(createEntry(LogLevel.INFO), 'info line');
+    transport.write(createEntry(LogLevel.TRACE), 'trace line');
+
+    expect(console.error).toHaveBeenCalledWith('error line');
+    expect(console.warn).toHaveBeenCalledWith('warn line');
+    expect(console.info).toHaveBeenCalledWith('info line');
+    expect(console.debug).toHaveBeenCalledWith('trace line');
+  });
+
+  it('should expose level and formatter options', () => {
+    const formatter = { format: () => 'formatted' };
+    const transport = new ConsoleTransport({ level: LogLevel.WARN, formatter });
+
+    expect(transport.name).toBe('console');
+    expect(transport.level).toBe(LogLevel.WARN);
+    expect(transport.formatter).toBe(formatter);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileTransport } from '../../../../src/valt/logger/transports/file-transport';
+import { LogLevel } from '../../../../src/types';
+import type { LogEntry } from '../../../../src/types';
+
+describe('FileTransport', () => {
+  let directory: string;
+  let filename: string;
+
+  const entry: LogEntry = {
+    timestamp: new Date('2023-01-01T00:00:00.000Z'),
+    level: LogLevel.INFO,
+    message: 'Test message',
+    service: 'test-service',
+    environment: 'test',
+    version: '1.0.0',
+  };
+
+  const rotatedFiles = () =>
+    fs.readdirSync(path.dirname(filename)).filter((file) => file.startsWith('app.log.'));
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'valt-file-transport-'));
+    filename = path.join(directory, 'logs', 'app.log');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should create the directory and append one line per entry', () => {
+    const transport = new FileTransport({ filename });
+
+    transport.write(entry, 'line 1');
+    transport.write(entry, 'line 2');
+    transport.close();
+
+    expect(fs.readFileSync(filename, 'utf8')).toBe('line 1\nline 2\n');
+  });
+
+  it('should reopen the file after close', () => {
+    const transport = new FileTransport({ filename });
+
+    transport.write(entry, 'line 1');
+    transport.close();
+    transport.write(entry, 'line 2');
+    transport.flush();
+    transport.close();
+
+    expect(fs.readFileSync(filename, 'utf8')).toBe('line 1\nline 2\n');
+  });
+
+  it('should rotate when the size limit would be exceeded', () => {
+    const transport = new FileTransport({ filename, maxSize: 10 });
+
+    transport.write(entry, 'line 1');
+    transport.write(entry, 'line 2');
+    transport.close();
+
+    expect(fs.readFileSync(filename, 'utf8')).toBe('line 2\n');
+    expect(rotatedFiles()).toHaveLength(1);
+  });
+
+  it('should write a batch in one go and rotate within the batch when needed', () => {
+    const transport = new FileTransport({ filename, maxSize: 16 });
+
+    transport.writeBatch([
+      { entry, formatted: 'line 1' },
+      { entry, formatted: 'line 2' },
+      { entry, formatted: 'line 3' },
+    ]);
+    transport.close();
+
+    expect(fs.readFileSync(filename, 'utf8')).toBe('line 3\n');
+    expect(rotatedFiles()).toHaveLength(1);
+    expect(fs.readFileSync(path.join(path.dirname(filename), rotatedFiles()[0]), 'utf8')).toBe(
+      'line 1\nline 2\n'
+    );
+  });
+
+  it('should rotate when crossing an interval boundary', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2023-01-01T23:59:00.000Z'));
+    const transport = new FileTransport({ filename, rotationInterval: 24 * 60 * 60 * 1000 });
+
+    transport.write(entry, 'day 1');
+    vi.setSystemTime(new Date('2023-01-02T00:01:00.000Z'));
+    transport.write(entry, 'day 2');
+    transport.close();
+
+    expect(fs.readFileSync(filename, 'utf8')).toBe('day 2\n');
+    expect(rotatedFiles()).toHaveLength(1);
+  });
+
+  it('should keep at most maxFiles rotated files', () => {
+    const transport = new FileTransport({ filename, maxSize: 10, maxFiles: 2 });
+
+    for (let i = 1; i <= 5; i++) {
+      transport.write(entry, `line ${i}`);
+    }
+    transport.close();
+
+    expect(rotatedFiles()).toHaveLength(2);
+    expect(fs.readFileSync(filename, 'utf8')).toBe('line 5\n');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryTransport } from '../../../../src/valt/logger/transports/memory-transport';
+import { LogLevel } from '../../../../src/types';
+import type { LogEntry } from '../../../../src/types';
+
+describe('MemoryTransport', () => {
+  const createEntry = (message: string): LogEntry => ({
+    timestamp: new Date('2023-01-01T00:00:00.000Z'),
+    level: LogLevel.INFO,
+    message,
+    service: 'test-service',
+    environment: 'test',
+    version: '1.0.0',
+  });
+
+  it('should retain entries and formatted lines', () => {
+    const transport = new MemoryTransport();
+
+    transport.write(createEntry('first'), 'line 1');
+    transport.write(createEntry('second'), 'line 2');
+
+    expect(transport.getEntries().map((entry) => entry.message)).toEqual(['first', 'second']);
+    expect(transport.getLines()).toEqual(['line 1', 'line 2']);
+  });
+
+  it('should evict the oldest entries beyond maxEntries', () => {
+    const transport = new MemoryTransport({ maxEntries: 2 });
+
+    transport.write(createEntry('first'), 'line 1');
+    transport.write(createEntry('second'), 'line 2');
+    transport.write(createEntry('third'), 'line 3');
+
+    expect(transport.getLines()).toEqual(['line 2', 'line 3']);
+  });
+
+  it('should clear entries on clear and close', () => {
+    const transport = new MemoryTransport();
+
+    transport.write(createEntry('first'), 'line 1');
+    transport.clear();
+    expect(transport.getEntries()).toEqual([]);
+
+    transport.write(createEntry('second'), 'line 2');
+    transport.close();
+    expect(transport.getLines()).toEqual([]);
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { ValtLogger } from '../../../src/valt/logger/valt-logger';
+import { MemoryTransport } from '../../../src/valt/logger/transports/memory-transport';
 import { LogLevel } from '../../../src/types';
+import { RequestContextStore } from '../../../src/adi';
+import { CertusAdiValtError } from '../../../src/certus';
 import type { LoggerConfig } from '../../../src/types';
 
 describe('ValtLogger', () => {
@@ -116,6 +119,23 @@ describe('ValtLogger', () => {
     }
   });
 
+  it('should include the cause chain of errors', () => {
+    const cause = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const error = new CertusAdiValtError('Sync failed', 'SYNC_FAILED', 502, {}, cause);
+
+    logger.error('Test message', {}, error);
+
+    const parsedLog = JSON.parse(consoleSpy.error.mock.calls[0][0]);
+    expect(parsedLog.error).toMatchObject({
+      name: 'CertusAdiValtError',
+      message: 'Sync failed',
+      code: 'SYNC_FAILED',
+      statusCode: 502,
+      cause: { name: 'Error', message: 'connect ECONNREFUSED', code: 'ECONNREFUSED' },
+    });
+    expect(parsedLog.error.context).toBeUndefined();
+  });
+
   it('should redact sensitive fields from context', () => {
     const redactingLogger = new ValtLogger({
       ...baseConfig,
@@ -227,4 +247,238 @@ describe('ValtLogger', () => {
     const logOutput = consoleSpy.info.mock.calls[0][0];
     expect(() => JSON.parse(logOutput)).toThrow();
   });
-});
\ No newline at end of file
+
+  describe('request context', () => {
+    it('should merge the current request context into every entry', () => {
+      const transport = new MemoryTransport();
+      const contextLogger = new ValtLogger({ ...baseConfig, transports: [transport] });
+
+      RequestContextStore.run({ requestId: 'req_1', userId: 'user_1' }, () => {
+        contextLogger.info('In request', { userId: 'user_2', step: 'load' });
+      });
+      contextLogger.info('Outside request');
+
+      const [inside, outside] = transport.getEntries();
+      expect(inside.context).toEqual({ requestId: 'req_1', userId: 'user_2', step: 'load' });
+      expect(inside.requestId).toBe('req_1');
+      expect(outside.context).toEqual({});
+    });
+  });
+
+  describe('transports', () => {
+    it('should write to every transport that accepts the entry level', () => {
+      const all = new MemoryTransport();
+      const errorsOnly = new MemoryTransport({ level: LogLevel.ERROR });
+      const multiLogger = new ValtLogger({ ...baseConfig, transports: [all, errorsOnly] });
+
+      multiLogger.info('Info message');
+      multiLogger.error('Error message');
+
+      expect(all.getEntries().map((entry) => entry.message)).toEqual([
+        'Info message',
+        'Error message',
+      ]);
+      expect(errorsOnly.getEntries().map((entry) => entry.message)).toEqual(['Error message']);
+      expect(consoleSpy.info).not.toHaveBeenCalled();
+    });
+
+    it('should use the transport formatter when provided', () => {
+      const transport = new MemoryTransport({
+        formatter: { format: (entry) => `custom:${entry.message}` },
+      });
+      const customLogger = new ValtLogger({ ...baseConfig, transports: [transport] });
+
+      customLogger.info('Hello');
+
+      expect(transport.getLines()).toEqual(['custom:Hello']);
+    });
+
+    it('should keep writing to other transports when one fails', () => {
+      const failing = {
+        name: 'failing',
+        write: () => {
+          throw new Error('disk full');
+        },
+        flush: () => {},
+        close: () => {},
+      };
+      const memory = new MemoryTransport();
+      const resilientLogger = new ValtLogger({ ...baseConfig, transports: [failing, memory] });
+
+      resilientLogger.info('Still logged');
+
+      expect(memory.getEntries()).toHaveLength(1);
+      expect(consoleSpy.error).toHaveBeenCalledWith(
+        '[ValtLogger] Transport "failing" failed: disk full'
+      );
+    });
+
+    it('should flush and close all transports', async () => {
+      const transport = new MemoryTransport();
+      const flushSpy = vi.spyOn(transport, 'flush');
+      const closeSpy = vi.spyOn(transport, 'close');
+      const closingLogger = new ValtLogger({ ...baseConfig, transports: [transport] });
+
+      await closingLogger.close();
+
+      expect(flushSpy).toHaveBeenCalled();
+      expect(closeSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('async logging', () => {
+    const createAsyncLogger = (
+      transport: MemoryTransport,
+      options: Exclude<LoggerConfig['async'], boolean | undefined> = {}
+    ) =>
+      new ValtLogger({
+        ...baseConfig,
+        transports: [transport],
+        async: { registerShutdownHooks: false, ...options },
+      });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should queue entries and write them after the flush interval', () => {
+      vi.useFakeTimers();
+      const transport = new MemoryTransport();
+      const asyncLogger = createAsyncLogger(transport, { flushInterval: 50 });
+
+      asyncLogger.info('Queued');
+
+      expect(transport.getEntries()).toHaveLength(0);
+      expect(asyncLogger.getStats()).toEqual({ written: 0, dropped: 0, pending: 1 });
+
+      vi.advanceTimersByTime(50);
+
+      expect(transport.getEntries().map((entry) => entry.message)).toEqual(['Queued']);
+      expect(asyncLogger.getStats()).toEqual({ written: 1, dropped: 0, pending: 0 });
+    });
+
+    it('should write full batches through writeBatch when the transport supports it', async () => {
+      const transport = new MemoryTransport();
+      const batches: number[] = [];
+      Object.assign(transport, {
+        writeBatch: (batch: { entry: any; formatted: string }[]) => {
+          batches.push(batch.length);
+          batch.forEach(({ entry, formatted }) => transport.write(entry, formatted));
+        },
+      });
+      const asyncLogger = createAsyncLogger(transport, { batchSize: 2, flushInterval: 60000 });
+
+      asyncLogger.info('One');
+      asyncLogger.info('Two');
+      asyncLogger.info('Three');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(batches).toEqual([2, 1]);
+      expect(transport.getEntries()).toHaveLength(3);
+    });
+
+    it('should drop the oldest entries when the buffer is full', async () => {
+      const transport = new MemoryTransport();
+      const asyncLogger = createAsyncLogger(transport, { bufferSize: 2, batchSize: 10 });
+
+      asyncLogger.info('One');
+      asyncLogger.info('Two');
+      asyncLogger.info('Three');
+      await asyncLogger.flush();
+
+      expect(transport.getEntries().map((entry) => entry.message)).toEqual(['Two', 'Three']);
+      expect(asyncLogger.getStats()).toEqual({ written: 2, dropped: 1, pending: 0 });
+    });
+
+    it('should drop the newest entries when configured', async () => {
+      const transport = new MemoryTransport();
+      const asyncLogger = createAsyncLogger(transport, {
+        bufferSize: 2,
+        batchSize: 10,
+        overflowPolicy: 'drop-newest',
+      });
+
+      asyncLogger.info('One');
+      asyncLogger.info('Two');
+      asyncLogger.info('Three');
+      await asyncLogger.flush();
+
+      expect(transport.getEntries().map((entry) => entry.message)).toEqual(['One', 'Two']);
+      expect(asyncLogger.getStats().dropped).toBe(1);
+    });
+
+    it('should drain synchronously instead of dropping when blocking', () => {
+      const transport = new MemoryTransport();
+      const asyncLogger = createAsyncLogger(transport, {
+        bufferSize: 2,
+        batchSize: 10,
+        overflowPolicy: 'block',
+      });
+
+      asyncLogger.info('One');
+      asyncLogger.info('Two');
+      asyncLogger.info('Three');
+
+      expect(transport.getEntries().map((entry) => entry.message)).toEqual(['One', 'Two']);
+      expect(asyncLogger.getStats()).toEqual({ written: 2, dropped: 0, pending: 1 });
+    });
+
+    it('should route child logger entries through the parent buffer', async () => {
+      const transport = new MemoryTransport();
+      const asyncLogger = createAsyncLogger(transport);
+      const child = asyncLogger.child({ requestId: 'req_1' });
+
+      child.info('From child');
+
+      expect(asyncLogger.getStats().pending).toBe(1);
+
+      await child.flush();
+
+      expect(transport.getEntries()[0].context).toEqual({ requestId: 'req_1' });
+    });
+
+    it('should only flush when a child logger is closed', async () => {
+      const transport = new MemoryTransport();
+      const close = vi.spyOn(transport, 'close');
+      const asyncLogger = createAsyncLogger(transport);
+      const child = asyncLogger.child({ requestId: 'req_1' });
+
+      child.info('From child');
+      await child.close();
+      asyncLogger.info('From parent');
+      await asyncLogger.flush();
+
+      expect(close).not.toHaveBeenCalled();
+      expect(transport.getEntries().map((entry) => entry.message)).toEqual([
+        'From child',
+        'From parent',
+      ]);
+    });
+
+    it('should drain pending entries on SIGTERM and remove the hooks on close', async () => {
+      const transport = new MemoryTransport();
+      const otherListener = vi.fn();
+      process.on('SIGTERM', otherListener);
+      const listenersBefore = process.listenerCount('SIGTERM');
+      const hookedLogger = new ValtLogger({
+        ...baseConfig,
+        transports: [transport],
+        async: true,
+      });
+
+      try {
+        expect(process.listenerCount('SIGTERM')).toBe(listenersBefore + 1);
+
+        hookedLogger.info('Before shutdown');
+        process.emit('SIGTERM', 'SIGTERM');
+
+        expect(transport.getEntries().map((entry) => entry.message)).toEqual(['Before shutdown']);
+      } finally {
+        await hookedLogger.close();
+        process.removeListener('SIGTERM', otherListener);
+      }
+
+      expect(process.listenerCount('SIGTERM')).toBe(listenersBefore - 1);
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CorrelationMiddleware } from '../../../src/valt/middleware/correlation-middleware';
+import { RequestContextStore } from '../../../src/adi';
+import { CertusAdiValtError } from '../../../src/certus';
 import type { Request, Response, NextFunction } from 'express';
 
 describe('CorrelationMiddleware', () => {
@@ -55,4 +57,206 @@ describe('CorrelationMiddleware', () => {
       /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
     );
   });
+
+  it('should run the next handlers inside a request context holding the ID', () => {
+    mockRequest.headers = { 'x-request-id': 'ctx-request-id' };
+    let contextRequestId: unknown;
+    nextFunction = vi.fn(() => {
+      contextRequestId = RequestContextStore.getValue('requestId');
+    });
+
+    const handler = middleware.generateRequestId();
+    handler(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(contextRequestId).toBe('ctx-request-id');
+    expect(RequestContextStore.isActive()).toBe(false);
+  });
+
+  describe('request ID validation', () => {
+    it.each([
+      ['too long', 'a'.repeat(129)],
+      ['newline injection', 'abc\n{"level":"ERROR"}'],
+      ['repeated header', 'abc, def'],
+    ])('should regenerate %s IDs by default', (_, value) => {
+      mockRequest.headers = { 'x-request-id': value };
+
+      middleware.generateRequestId()(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction
+      );
+
+      expect(mockRequest.headers!['x-request-id']).not.toBe(value);
+      expect(mockRequest.headers!['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(nextFunction).toHaveBeenCalledWith();
+    });
+
+    it('should reject invalid IDs when configured', () => {
+      middleware = new CorrelationMiddleware({ invalidIdPolicy: 'reject', maxLength: 8 });
+      mockRequest.headers = { 'x-request-id': 'far-too-long' };
+
+      middleware.generateRequestId()(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction
+      );
+
+      const error = (nextFunction as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(error).toBeInstanceOf(CertusAdiValtError);
+      expect(error.name).toBe('CertusClientError');
+      expect(error.statusCode).toBe(400);
+      expect(error.code).toBe('VAL_INVALID_FORMAT');
+      expect(error.context).toMatchObject({ header: 'x-request-id', reason: 'too_long' });
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'x-request-id',
+        expect.not.stringContaining('far-too-long')
+      );
+    });
+
+    it('should read the first configured header present and propagate on the first name', () => {
+      middleware = new CorrelationMiddleware({
+        headerNames: ['X-Request-Id', 'x-correlation-id'],
+      });
+      mockRequest.headers = { 'x-correlation-id': 'legacy-id' };
+
+      middleware.generateRequestId()(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction
+      );
+
+      expect(mockRequest.headers!['x-request-id']).toBe('legacy-id');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('x-request-id', 'legacy-id');
+    });
+
+    it('should honor a custom allowed pattern', () => {
+      middleware = new CorrelationMiddleware({ allowedPattern: /^[0-9]+$/ });
+
+      expect(middleware.validateRequestId('12345')).toBeUndefined();
+      expect(middleware.validateRequestId('abc')).toBe('invalid_characters');
+      expect(middleware.validateRequestId(['1', '2'])).toBe('multiple_values');
+    });
+  });
+
+  describe('request ID generators', () => {
+    const generate = (options: ConstructorParameters<typeof CorrelationMiddleware>[0]) => {
+      middleware = new CorrelationMiddleware(options);
+      middleware.generateRequestId()(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction
+      );
+      return mockRequest.headers!['x-request-id'] as string;
+    };
+
+    it('should generate UUIDv7 IDs', () => {
+      expect(generate({ generator: 'uuidv7' })).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+    });
+
+    it('should generate ULIDs', () => {
+      expect(generate({ generator: 'ulid' })).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    });
+
+    it('should generate prefixed IDs', () => {
+      expect(generate({ generator: 'prefixed' })).toMatch(/^req_[0-9a-z]+$/);
+      mockRequest.headers = {};
+      expect(generate({ generator: 'prefixed', idPrefix: 'api-' })).toMatch(/^api-[0-9a-z]+$/);
+    });
+
+    it('should use a custom generator function', () => {
+      expect(generate({ generator: () => 'custom-id' })).toBe('custom-id');
+    });
+
+    it('should throw for an unknown strategy', () => {
+      middleware = new CorrelationMiddleware({ generator: 'sequential' as any });
+
+      expect(() => middleware.generateRequestId()).toThrow('Unknown request ID generator');
+    });
+  });
+
+  describe('trace context', () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const parentId = '00f067aa0ba902b7';
+
+    const runWithContext = (headers: Record<string, string>) => {
+      mockRequest.headers = headers;
+      let context: ReturnType<typeof RequestContextStore.get>;
+      nextFunction = vi.fn(() => {
+        context = RequestContextStore.get();
+      });
+
+      middleware.generateRequestId()(
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction
+      );
+
+      return context!;
+    };
+
+    it('should continue a valid incoming trace with a new span', () => {
+      const context = runWithContext({
+        traceparent: `00-${traceId}-${parentId}-01`,
+        tracestate: 'rojo=00f067aa0ba902b7, congo=t61rcWkgMzE',
+      });
+
+      expect(context.traceId).toBe(traceId);
+      expect(context.parentSpanId).toBe(parentId);
+      expect(context.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(context.spanId).not.toBe(parentId);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'traceparent',
+        `00-${traceId}-${context.spanId}-01`
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'tracestate',
+        'rojo=00f067aa0ba902b7,congo=t61rcWkgMzE'
+      );
+      expect(mockRequest.headers!.traceparent).toBe(`00-${traceId}-${context.spanId}-01`);
+    });
+
+    it('should start a new unsampled trace when traceparent is missing', () => {
+      const context = runWithContext({});
+
+      expect(context.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(context.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(context.parentSpanId).toBeUndefined();
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'traceparent',
+        `00-${context.traceId}-${context.spanId}-00`
+      );
+    });
+
+    it('should start a new trace and drop tracestate when traceparent is invalid', () => {
+      const context = runWithContext({
+        traceparent: `00-${'0'.repeat(32)}-${parentId}-01`,
+        tracestate: 'rojo=00f067aa0ba902b7',
+      });
+
+      expect(context.traceId).not.toBe('0'.repeat(32));
+      expect(context.parentSpanId).toBeUndefined();
+      expect(mockRequest.headers!.tracestate).toBeUndefined();
+      expect(mockResponse.setHeader).not.toHaveBeenCalledWith('tracestate', expect.anything());
+    });
+
+    it('should leave trace headers alone when disabled', () => {
+      middleware = new CorrelationMiddleware({ traceContext: false });
+
+      const context = runWithContext({ traceparent: `00-${traceId}-${parentId}-01` });
+
+      expect(context.traceId).toBeUndefined();
+      expect(mockResponse.setHeader).toHaveBeenCalledTimes(1);
+    });
+  });
+  it('should skip the configured paths', () => {
+    mockRequest = { ...mockRequest, path: '/health' };
+
+    middleware.generateRequestId()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockRequest.headers!['x-request-id']).toBeUndefined();
+    expect(mockResponse.setHeader).not.toHaveBeenCalled();
+    expect(nextFunction).toHaveBeenCalledWith();
+  });
 });
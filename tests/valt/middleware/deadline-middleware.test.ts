@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { DeadlineMiddleware } from '../../../src/valt/middleware/deadline-middleware';
+import { RequestDeadline } from '../../../src/adi';
+import { CertusOperationTimeoutError } from '../../../src/certus';
+import type { Request, Response, NextFunction } from 'express';
+
+describe('DeadlineMiddleware', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Response;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockRequest = { headers: {} };
+    mockResponse = new EventEmitter() as unknown as Response;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Runs the middleware and captures the deadline seen by the next handler.
+   */
+  function runMiddleware(middleware: DeadlineMiddleware) {
+    let deadline: ReturnType<typeof RequestDeadline.get>;
+    let signal: AbortSignal | undefined;
+    const next: NextFunction = vi.fn(() => {
+      deadline = RequestDeadline.get();
+      signal = RequestDeadline.signal();
+    });
+
+    middleware.handle()(mockRequest as Request, mockResponse, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    return { deadline: deadline!, signal };
+  }
+
+  describe('parseTimeout', () => {
+    const middleware = new DeadlineMiddleware();
+
+    it('should parse milliseconds and seconds', () => {
+      expect(middleware.parseTimeout('1500')).toBe(1500);
+      expect(middleware.parseTimeout('1500ms')).toBe(1500);
+      expect(middleware.parseTimeout('2.5s')).toBe(2500);
+      expect(middleware.parseTimeout(' 3S ')).toBe(3000);
+    });
+
+    it('should reject missing, repeated and malformed values', () => {
+      expect(middleware.parseTimeout(undefined)).toBeUndefined();
+      expect(middleware.parseTimeout(['100', '200'])).toBeUndefined();
+      expect(middleware.parseTimeout('-100')).toBeUndefined();
+      expect(middleware.parseTimeout('soon')).toBeUndefined();
+    });
+  });
+
+  it('should set the deadline from the x-request-timeout header', () => {
+    mockRequest.headers = { 'x-request-timeout': '1500' };
+
+    const { deadline } = runMiddleware(new DeadlineMiddleware({ defaultTimeoutMs: 10000 }));
+
+    expect(deadline.budgetMs).toBe(1500);
+  });
+
+  it('should bound the requested budget by maxTimeoutMs', () => {
+    mockRequest.headers = { 'x-request-timeout': '600s' };
+
+    const { deadline } = runMiddleware(new DeadlineMiddleware({ maxTimeoutMs: 30000 }));
+
+    expect(deadline.budgetMs).toBe(30000);
+  });
+
+  it('should use the default budget without a valid header', () => {
+    mockRequest.headers = { 'x-request-timeout': 'forever' };
+
+    const { deadline } = runMiddleware(new DeadlineMiddleware({ defaultTimeoutMs: 5000 }));
+
+    expect(deadline.budgetMs).toBe(5000);
+  });
+
+  it('should read a custom header', () => {
+    mockRequest.headers = { 'x-deadline-ms': '750' };
+
+    const { deadline } = runMiddleware(new DeadlineMiddleware({ headerName: 'X-Deadline-Ms' }));
+
+    expect(deadline.budgetMs).toBe(750);
+  });
+
+  it('should not set a deadline without a header or default', () => {
+    const { deadline } = runMiddleware(new DeadlineMiddleware());
+
+    expect(deadline).toBeUndefined();
+  });
+
+  it('should abort the request signal when the deadline expires', () => {
+    mockRequest.headers = { 'x-request-timeout': '100' };
+
+    const { signal } = runMiddleware(new DeadlineMiddleware());
+    vi.advanceTimersByTime(100);
+
+    expect(signal!.reason).toBeInstanceOf(CertusOperationTimeoutError);
+  });
+
+  it('should end the deadline when the response closes', async () => {
+    mockRequest.headers = { 'x-request-timeout': '1000' };
+
+    const { signal } = runMiddleware(new DeadlineMiddleware());
+    mockResponse.emit('close');
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(signal!.aborted).toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+  it('should not set a deadline for skipped paths', () => {
+    mockRequest.headers = { 'x-request-timeout': '1000' };
+    mockRequest = { ...mockRequest, path: '/jobs/export' };
+
+    const { deadline } = runMiddleware(
+      new DeadlineMiddleware({ skipPaths: [{ path: '/jobs', match: 'prefix' }] })
+    );
+
+    expect(deadline).toBeUndefined();
+  });
+});
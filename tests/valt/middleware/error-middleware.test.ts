@@ -1,8 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ErrorMiddleware } from '../../../src/valt/middleware/error-middleware';
 import { ValtLogger } from '../../../src/valt/logger/valt-logger';
 import type { Request, Response, NextFunction } from 'express';
 import { LogLevel } from '../../../src/types';
+import { ConfigManager } from '../../../src/adi';
+import { ResponseFormatter } from '../../../src/responses';
+import { CertusAdiValtError } from '../../../src/certus';
 
 // Mock dependencies
 vi.mock('../../../src/responses', () => ({
@@ -17,8 +20,16 @@ vi.mock('../../../src/responses', () => ({
         requestId: options?.requestId,
       },
     })),
+    formatProblem: vi.fn((error, options) => ({
+      type: `urn:certus-adivalt:problem:${(error.code || 'internal-error').toLowerCase()}`,
+      title: 'Problem',
+      status: error.statusCode || 500,
+      detail: error.message,
+      instance: options?.instance,
+    })),
   },
   isErrorResponse: vi.fn((response) => !response.success),
+  PROBLEM_JSON_CONTENT_TYPE: 'application/problem+json',
 }));
 
 vi.mock('../../../src/certus', () => ({
@@ -71,6 +82,7 @@ describe('ErrorMiddleware', () => {
     mockResponse = {
       status: vi.fn().mockReturnThis(),
       json: vi.fn(),
+      setHeader: vi.fn(),
     };
 
     nextFunction = vi.fn();
@@ -133,4 +145,241 @@ describe('ErrorMiddleware', () => {
       error
     );
   });
+
+  describe('HTTP headers', () => {
+    it('should send Retry-After and Allow from the fields of the error', () => {
+      vi.spyOn(mockLogger, 'warn').mockImplementation(() => {});
+      const tooMany = Object.assign(new CertusAdiValtError('Slow down', 'SRV_RATE_LIMIT', 429), {
+        retryAfter: 29.2,
+      });
+      const notAllowed = Object.assign(
+        new CertusAdiValtError('Method not allowed', 'GEN_METHOD_NOT_ALLOWED', 405),
+        { allowedMethods: ['GET', 'HEAD'] }
+      );
+      const handler = middleware.handle();
+
+      handler(tooMany, mockRequest as Request, mockResponse as Response, nextFunction);
+      handler(notAllowed, mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Allow', 'GET, HEAD');
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(mockResponse.status).toHaveBeenCalledWith(405);
+    });
+
+    it('should not send them for errors without these fields', () => {
+      const error = Object.assign(new Error('Test error'), { retryAfter: 10 });
+
+      middleware.handle()(error, mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Problem Details', () => {
+    it('should send application/problem+json when configured', () => {
+      const problemMiddleware = new ErrorMiddleware(mockLogger, { errorFormat: 'problem' });
+      const error = new Error('Test error');
+      (error as any).statusCode = 422;
+
+      const handler = problemMiddleware.handle();
+      handler(error, mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Type',
+        'application/problem+json'
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(422);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 422, instance: '/test' })
+      );
+    });
+
+    it('should negotiate Problem Details from the Accept header', () => {
+      const negotiating = new ErrorMiddleware(mockLogger, { errorFormat: 'negotiate' });
+      mockRequest.accepts = vi.fn(() => 'application/problem+json') as any;
+
+      negotiating.notFound()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockRequest.accepts).toHaveBeenCalledWith([
+        'application/json',
+        'application/problem+json',
+      ]);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Type',
+        'application/problem+json'
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+
+    it('should keep the standard envelope when the client prefers application/json', () => {
+      const negotiating = new ErrorMiddleware(mockLogger, { errorFormat: 'negotiate' });
+      mockRequest.accepts = vi.fn(() => 'application/json') as any;
+
+      negotiating.handle()(
+        new Error('Test error'),
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction
+      );
+
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+    });
+  });
+
+  describe('Localization', () => {
+    const messages = {
+      defaultLocale: 'en',
+      resolveLocale: vi.fn(() => 'de'),
+      translate: vi.fn(),
+      translateError: vi.fn(),
+      translateViolations: vi.fn(),
+    };
+
+    it('should pass the negotiated locale to the formatter and announce it', async () => {
+      const { ResponseFormatter } = await import('../../../src/responses');
+      const localized = new ErrorMiddleware(mockLogger, { messages });
+      mockRequest.get = vi.fn((header: string) =>
+        header === 'Accept-Language' ? 'de-AT, en;q=0.5' : undefined
+      ) as any;
+      mockResponse.vary = vi.fn().mockReturnThis();
+
+      const error = new Error('Test error');
+      localized.handle()(error, mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(messages.resolveLocale).toHaveBeenCalledWith('de-AT, en;q=0.5');
+      expect(ResponseFormatter.formatError).toHaveBeenLastCalledWith(
+        error,
+        expect.objectContaining({ messages, locale: 'de' })
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Language', 'de');
+      expect(mockResponse.vary).toHaveBeenCalledWith('Accept-Language');
+    });
+
+    it('should not set language headers without a translator', () => {
+      mockResponse.vary = vi.fn();
+
+      middleware.notFound()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
+      expect(mockResponse.vary).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('errors configuration', () => {
+    function configureErrors(errors: object) {
+      const configManager = ConfigManager.getInstance();
+      configManager.initialize({ errors: { ...configManager.getErrorsConfig(), ...errors } });
+    }
+
+    beforeEach(() => {
+      vi.spyOn(mockLogger, 'warn').mockImplementation(() => {});
+      vi.spyOn(mockLogger, 'debug').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      ConfigManager.getInstance().reset();
+    });
+
+    it('should log client errors as warnings', () => {
+      const error = new CertusAdiValtError('User not found', 'DB_NOT_FOUND', 404);
+
+      middleware.handle()(error, mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Request processing error',
+        expect.objectContaining({ path: '/test' }),
+        error
+      );
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should prefer the level of a status code over its class', () => {
+      configureErrors({ logLevels: { '404': LogLevel.DEBUG } });
+
+      middleware.handle()(
+        new CertusAdiValtError('User not found', 'DB_NOT_FOUND', 404),
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction
+      );
+
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Request processing error',
+        expect.objectContaining({ code: 'DB_NOT_FOUND', error: 'User not found' })
+      );
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should not log silent codes', () => {
+      configureErrors({ silentCodes: ['AUTH_TOKEN_EXPIRED'] });
+
+      middleware.handle()(
+        new CertusAdiValtError('Token expired', 'AUTH_TOKEN_EXPIRED', 401),
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction
+      );
+
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+    });
+
+    it('should not log while logErrors is off', () => {
+      configureErrors({ logErrors: false });
+
+      middleware.handle()(
+        new Error('Test error'),
+        mockRequest as Request,
+        mockResponse as Response,
+        nextFunction
+      );
+
+      expect(mockLogger.error).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+    });
+
+    it('should pass exposeDetails and includeStack to the formatter', () => {
+      configureErrors({ exposeDetails: true, includeStack: true });
+      const error = new Error('Test error');
+
+      middleware.handle()(error, mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(ResponseFormatter.formatError).toHaveBeenLastCalledWith(
+        error,
+        expect.objectContaining({ includeDetails: true, includeStack: true })
+      );
+    });
+
+    it('should send the body of the formatError hook', () => {
+      const formatError = vi.fn((error: Error) => ({ failure: error.message }));
+      configureErrors({ formatError });
+
+      middleware.notFound()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(formatError).toHaveBeenCalledWith(expect.any(CertusAdiValtError));
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ failure: 'Route GET /test not found' });
+    });
+  });
+
+  it('should pass errors and unmatched routes on while enableErrorHandler is off', () => {
+    const configManager = ConfigManager.getInstance();
+    vi.spyOn(configManager, 'getMiddlewareConfig').mockReturnValue({
+      ...configManager.getMiddlewareConfig(),
+      enableErrorHandler: false,
+    });
+    const error = new Error('Test error');
+
+    middleware.handle()(error, mockRequest as Request, mockResponse as Response, nextFunction);
+    middleware.notFound()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(nextFunction).toHaveBeenNthCalledWith(1, error);
+    expect(nextFunction).toHaveBeenNthCalledWith(2);
+    expect(mockLogger.error).not.toHaveBeenCalled();
+    expect(mockResponse.status).not.toHaveBeenCalled();
+
+    vi.mocked(configManager.getMiddlewareConfig).mockRestore();
+  });
 });
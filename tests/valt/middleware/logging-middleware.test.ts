@@ -3,6 +3,7 @@ import { LoggingMiddleware } from '../../../src/valt/middleware/logging-middlewa
 import { ValtLogger } from '../../../src/valt/logger/valt-logger';
 import type { Request, Response, NextFunction } from 'express';
 import { LogLevel } from '../../../src/types';
+import { ConfigManager } from '../../../src/adi';
 
 describe('LoggingMiddleware', () => {
   let middleware: LoggingMiddleware;
@@ -52,6 +53,8 @@ describe('LoggingMiddleware', () => {
 
   afterEach(() => {
     vi.useRealTimers();
+    vi.restoreAllMocks();
+    ConfigManager.getInstance().reset();
   });
 
   it('should log incoming requests', () => {
@@ -150,4 +153,130 @@ describe('LoggingMiddleware', () => {
       })
     );
   });
+
+  it('should not log the configured skip paths', () => {
+    mockRequest = { ...mockRequest, path: '/health' };
+
+    middleware.requestLogger()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockLogger.info).not.toHaveBeenCalled();
+    expect(mockResponse.on).not.toHaveBeenCalled();
+    expect(nextFunction).toHaveBeenCalled();
+  });
+
+  it('should use the skip paths of the options instead of the configuration', () => {
+    const handler = new LoggingMiddleware(mockLogger, {
+      skipPaths: ['GET /test'],
+    }).requestLogger();
+
+    handler(mockRequest as Request, mockResponse as Response, nextFunction);
+    mockRequest = { ...mockRequest, path: '/health' };
+    handler(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockLogger.info).toHaveBeenCalledTimes(1);
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'Incoming request',
+      expect.objectContaining({ path: '/health' })
+    );
+  });
+
+  it('should not log while enableLogging is off', () => {
+    const configManager = ConfigManager.getInstance();
+    configManager.initialize({
+      middleware: { ...configManager.getMiddlewareConfig(), enableLogging: false },
+    });
+
+    middleware.requestLogger()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockLogger.info).not.toHaveBeenCalled();
+    expect(nextFunction).toHaveBeenCalled();
+  });
+
+  describe('sampling', () => {
+    it('should log the share of requests given by the first matching rule', () => {
+      const random = vi.spyOn(Math, 'random').mockReturnValue(0.3);
+      const handler = new LoggingMiddleware(mockLogger, {
+        sampling: [
+          { route: '/test', rate: 0.25 },
+          { route: '/**', rate: 0.5 },
+        ],
+      }).requestLogger();
+
+      handler(mockRequest as Request, mockResponse as Response, nextFunction);
+      expect(mockLogger.info).not.toHaveBeenCalled();
+
+      random.mockReturnValue(0.2);
+      handler(mockRequest as Request, mockResponse as Response, nextFunction);
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
+
+      mockRequest = { ...mockRequest, path: '/other' };
+      random.mockReturnValue(0.3);
+      handler(mockRequest as Request, mockResponse as Response, nextFunction);
+      expect(mockLogger.info).toHaveBeenCalledTimes(2);
+    });
+
+    it('should read the sampling rules from the configuration', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const configManager = ConfigManager.getInstance();
+      configManager.initialize({
+        middleware: {
+          ...configManager.getMiddlewareConfig(),
+          logSampling: [{ route: '/test', rate: 0.1 }],
+        },
+      });
+
+      middleware.requestLogger()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockLogger.info).not.toHaveBeenCalled();
+    });
+
+    it('should apply sampling rules updated after the middleware was created', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const configManager = ConfigManager.getInstance();
+      configManager.initialize({});
+      const handler = middleware.requestLogger();
+
+      handler(mockRequest as Request, mockResponse as Response, nextFunction);
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
+
+      configManager.updateConfig({
+        middleware: {
+          ...configManager.getMiddlewareConfig(),
+          logSampling: [{ route: '/test', rate: 0.1 }],
+        },
+      });
+      handler(mockRequest as Request, mockResponse as Response, nextFunction);
+      expect(mockLogger.info).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still log failed requests that are not sampled', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.9);
+      const handler = new LoggingMiddleware(mockLogger, { sampleRate: 0.5 }).requestLogger();
+
+      handler(mockRequest as Request, mockResponse as Response, nextFunction);
+      (mockResponse as any).finishCallback();
+      expect(mockLogger.info).not.toHaveBeenCalled();
+
+      mockResponse.statusCode = 500;
+      mockResponse.statusMessage = 'Internal Server Error';
+      (mockResponse as any).finishCallback();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Request completed: 500'),
+        expect.objectContaining({ statusCode: 500 })
+      );
+    });
+
+    it('should drop failed requests that are not sampled when alwaysLogErrors is off', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.9);
+      mockResponse.statusCode = 500;
+
+      new LoggingMiddleware(mockLogger, {
+        sampleRate: 0.5,
+        alwaysLogErrors: false,
+      }).requestLogger()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.on).not.toHaveBeenCalled();
+      expect(nextFunction).toHaveBeenCalled();
+    });
+  });
 });
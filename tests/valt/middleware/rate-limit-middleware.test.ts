@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimitMiddleware } from '../../../src/valt/middleware/rate-limit-middleware';
+import { MemoryRateLimitStore } from '../../../src/valt/resilience';
+import { RequestContextStore } from '../../../src/adi';
+import { CertusConfigurationError, CertusTooManyRequestsError } from '../../../src/certus';
+import { ErrorCodes, ErrorMessages, HttpStatus } from '../../../src/constants';
+import { RateLimitStore } from '../../../src/types';
+import type { Request, Response, NextFunction } from 'express';
+
+describe('RateLimitMiddleware', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: NextFunction;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    mockRequest = { ip: '203.0.113.7', headers: {} };
+    mockResponse = { setHeader: vi.fn(), locals: {} };
+    nextFunction = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function send(middleware: RateLimitMiddleware, times = 1) {
+    const handler = middleware.handle();
+    for (let i = 0; i < times; i++) {
+      await handler(mockRequest as Request, mockResponse as Response, nextFunction);
+    }
+  }
+
+  it('should let requests within the limit through with RateLimit headers', async () => {
+    await send(new RateLimitMiddleware({ limit: 10, windowMs: 60000 }));
+
+    expect(nextFunction).toHaveBeenCalledWith();
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('RateLimit-Limit', '10');
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('RateLimit-Remaining', '9');
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('RateLimit-Reset', '120');
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('RateLimit-Policy', '10;w=60');
+    expect(mockResponse.locals!.rateLimit).toMatchObject({ allowed: true, remaining: 9 });
+  });
+
+  it('should pass a 429 error with retryAfter to next when the limit is exceeded', async () => {
+    await send(new RateLimitMiddleware({ limit: 2, windowMs: 60000 }), 3);
+
+    const error = vi.mocked(nextFunction).mock.calls[2][0] as unknown as CertusTooManyRequestsError;
+    expect(error).toBeInstanceOf(CertusTooManyRequestsError);
+    expect(error.code).toBe(ErrorCodes.SRV_RATE_LIMIT);
+    expect(error.statusCode).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(error.message).toBe(ErrorMessages[ErrorCodes.SRV_RATE_LIMIT]);
+    expect(error.context).toMatchObject({ limit: 2, windowMs: 60000, retryAfterMs: 90000 });
+    expect(error.retryAfter).toBe(90);
+    // ErrorMiddleware sets Retry-After from the error
+    expect(mockResponse.setHeader).not.toHaveBeenCalledWith('Retry-After', expect.anything());
+  });
+
+  it('should use the configured error code', async () => {
+    await send(
+      new RateLimitMiddleware({
+        limit: 1,
+        algorithm: 'token-bucket',
+        code: ErrorCodes.AUTH_RATE_LIMIT_EXCEEDED,
+      }),
+      2
+    );
+
+    const error = vi.mocked(nextFunction).mock.calls[1][0];
+    expect(error).toBeInstanceOf(CertusTooManyRequestsError);
+    expect(error).toMatchObject({
+      code: ErrorCodes.AUTH_RATE_LIMIT_EXCEEDED,
+      statusCode: HttpStatus.TOO_MANY_REQUESTS,
+      message: ErrorMessages[ErrorCodes.AUTH_RATE_LIMIT_EXCEEDED],
+    });
+  });
+
+  it('should omit the RateLimit headers when disabled', async () => {
+    await send(new RateLimitMiddleware({ headers: false }));
+
+    expect(mockResponse.setHeader).not.toHaveBeenCalled();
+  });
+
+  it('should skip requests matching skip', async () => {
+    const store: RateLimitStore = { hit: vi.fn(), reset: vi.fn() };
+
+    await send(new RateLimitMiddleware({ store, skip: () => true }));
+
+    expect(store.hit).not.toHaveBeenCalled();
+    expect(nextFunction).toHaveBeenCalledWith();
+  });
+
+  it('should pass store failures to next', async () => {
+    const failure = new Error('Redis unavailable');
+    const store: RateLimitStore = { hit: vi.fn().mockRejectedValue(failure), reset: vi.fn() };
+
+    await send(new RateLimitMiddleware({ store }));
+
+    expect(nextFunction).toHaveBeenCalledWith(failure);
+  });
+
+  it('should count through the given store with the configured rule', async () => {
+    const store = new MemoryRateLimitStore();
+    const hit = vi.spyOn(store, 'hit');
+
+    await send(new RateLimitMiddleware({ store, keyPrefix: 'login', limit: 5, windowMs: 1000 }));
+
+    expect(hit).toHaveBeenCalledWith('login:ip:203.0.113.7', {
+      algorithm: 'sliding-window',
+      limit: 5,
+      windowMs: 1000,
+    });
+  });
+
+  describe('resolveKey', () => {
+    it('should identify clients by IP address by default', () => {
+      expect(new RateLimitMiddleware().resolveKey(mockRequest as Request)).toBe(
+        'rate-limit:ip:203.0.113.7'
+      );
+    });
+
+    it('should identify authenticated users, falling back to the IP address', () => {
+      const middleware = new RateLimitMiddleware({ key: 'user' });
+
+      expect(middleware.resolveKey(mockRequest as Request)).toBe('rate-limit:ip:203.0.113.7');
+      RequestContextStore.run({ userId: 'user_42' }, () => {
+        expect(middleware.resolveKey(mockRequest as Request)).toBe('rate-limit:user:user_42');
+      });
+      expect(middleware.resolveKey({ ...mockRequest, user: { id: 7 } } as unknown as Request)).toBe(
+        'rate-limit:user:7'
+      );
+    });
+
+    it('should identify API keys by their hash', () => {
+      const middleware = new RateLimitMiddleware({ key: 'api-key', apiKeyHeader: 'X-Client-Key' });
+      mockRequest.headers = { 'x-client-key': 'secret-key' };
+
+      const key = middleware.resolveKey(mockRequest as Request)!;
+
+      expect(key).toMatch(/^rate-limit:key:[0-9a-f]{32}$/);
+      expect(key).not.toContain('secret-key');
+    });
+
+    it('should use a custom key function, not limiting requests without a key', async () => {
+      const middleware = new RateLimitMiddleware({
+        limit: 1,
+        key: (req) => req.headers['x-tenant'] as string | undefined,
+      });
+
+      await send(middleware, 3);
+
+      expect(middleware.resolveKey(mockRequest as Request)).toBeUndefined();
+      expect(nextFunction).toHaveBeenCalledTimes(3);
+      expect(vi.mocked(nextFunction).mock.calls).toEqual([[], [], []]);
+    });
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new RateLimitMiddleware({ limit: 0 })).toThrow(CertusConfigurationError);
+    expect(() => new RateLimitMiddleware({ windowMs: -1 })).toThrow(CertusConfigurationError);
+  });
+  it('should not count the configured skip paths', async () => {
+    const store: RateLimitStore = { hit: vi.fn(), reset: vi.fn() };
+    mockRequest = { ...mockRequest, method: 'GET', path: '/metrics' };
+
+    await send(new RateLimitMiddleware({ store }));
+
+    expect(store.hit).not.toHaveBeenCalled();
+    expect(nextFunction).toHaveBeenCalledWith();
+  });
+});
@@ -127,4 +127,73 @@ describe('ResponseMiddleware', () => {
 
     expect(nextFunction).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  describe('localization', () => {
+    const messages = {
+      defaultLocale: 'en',
+      resolveLocale: vi.fn(() => 'fr'),
+      translate: vi.fn(() => 'Ressource créée avec succès'),
+      translateError: vi.fn(),
+      translateViolations: vi.fn(),
+    };
+
+    beforeEach(() => {
+      mockRequest.get = vi.fn((header: string) =>
+        header === 'Accept-Language' ? 'fr-CA' : undefined
+      ) as any;
+      mockResponse.locals = {};
+      mockResponse.setHeader = vi.fn();
+      mockResponse.vary = vi.fn();
+    });
+
+    it('should store the negotiated locale for route handlers', () => {
+      const handler = new ResponseMiddleware({ messages }).successHandler();
+      mockResponse.json = vi.fn();
+
+      handler(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(messages.resolveLocale).toHaveBeenCalledWith('fr-CA');
+      expect(mockResponse.locals).toEqual({ locale: 'fr' });
+    });
+
+    it('should translate the creation message', () => {
+      const handler = new ResponseMiddleware({ messages }).successHandler();
+      mockResponse.json = vi.fn();
+      mockResponse.statusCode = 201;
+
+      handler(mockRequest as Request, mockResponse as Response, nextFunction);
+      (mockResponse.json as any).call(mockResponse, { id: 3 });
+
+      expect(messages.translate).toHaveBeenCalledWith('success', 'RESOURCE_CREATED', 'fr');
+      expect(ResponseFormatter.formatSuccess).toHaveBeenCalledWith(
+        { id: 3 },
+        { requestId: 'test-request-id', message: 'Ressource créée avec succès' }
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Language', 'fr');
+      expect(mockResponse.vary).toHaveBeenCalledWith('Accept-Language');
+    });
+
+    it('should not announce a language for responses without a message', () => {
+      const handler = new ResponseMiddleware({ messages }).successHandler();
+      mockResponse.json = vi.fn();
+
+      handler(mockRequest as Request, mockResponse as Response, nextFunction);
+      (mockResponse.json as any).call(mockResponse, { id: 1 });
+
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
+    });
+  });
+  it('should leave the responses of skipped paths unformatted', () => {
+    const originalJson = mockResponse.json;
+    mockRequest = { ...mockRequest, path: '/status' };
+
+    new ResponseMiddleware({ skipPaths: ['/status'] }).successHandler()(
+      mockRequest as Request,
+      mockResponse as Response,
+      nextFunction
+    );
+
+    expect(mockResponse.json).toBe(originalJson);
+    expect(nextFunction).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Readable } from 'stream';
+import { SecurityMiddleware } from '../../../src/valt/middleware/security-middleware';
+import { ValtLogger } from '../../../src/valt/logger/valt-logger';
+import { ConfigManager } from '../../../src/adi';
+import { LogLevel } from '../../../src/types';
+import type { Request, Response, NextFunction } from 'express';
+
+describe('SecurityMiddleware', () => {
+  let mockLogger: ValtLogger;
+  let mockResponse: Response;
+  let headers: Record<string, string>;
+  let nextFunction: NextFunction;
+
+  beforeEach(() => {
+    mockLogger = new ValtLogger({
+      level: LogLevel.INFO,
+      service: 'test-service',
+      environment: 'test',
+    });
+    vi.spyOn(mockLogger, 'warn').mockImplementation(() => {});
+
+    headers = {};
+    mockResponse = {
+      locals: {},
+      setHeader: vi.fn((name: string, value: string) => {
+        headers[name] = value;
+      }),
+      status: vi.fn().mockReturnThis(),
+      end: vi.fn(),
+    } as unknown as Response;
+    nextFunction = vi.fn();
+  });
+
+  afterEach(() => {
+    ConfigManager.getInstance().reset();
+  });
+
+  function run(middleware: SecurityMiddleware) {
+    middleware.handle()({} as Request, mockResponse, nextFunction);
+    expect(nextFunction).toHaveBeenCalledWith();
+  }
+
+  it('should send the production preset', () => {
+    run(new SecurityMiddleware(mockLogger, { environment: 'production' }));
+
+    expect(headers['Strict-Transport-Security']).toBe('max-age=31536000; includeSubDomains');
+    expect(headers['X-Content-Type-Options']).toBe('nosniff');
+    expect(headers['Referrer-Policy']).toBe('no-referrer');
+    expect(headers['X-Frame-Options']).toBe('DENY');
+    expect(headers['Permissions-Policy']).toBe(
+      'camera=(), microphone=(), geolocation=(), payment=(), usb=()'
+    );
+    expect(headers['Content-Security-Policy']).toContain("default-src 'self'");
+    expect(headers['Content-Security-Policy']).toContain('upgrade-insecure-requests');
+  });
+
+  it('should use the environment from ConfigManager', () => {
+    run(new SecurityMiddleware(mockLogger));
+
+    // Tests run with NODE_ENV=test: enforced CSP, no HSTS
+    expect(headers['Content-Security-Policy']).toBeDefined();
+    expect(headers['Strict-Transport-Security']).toBeUndefined();
+  });
+
+  it('should report CSP violations without enforcing in development', () => {
+    run(new SecurityMiddleware(mockLogger, { environment: 'development' }));
+
+    expect(headers['Content-Security-Policy']).toBeUndefined();
+    expect(headers['Content-Security-Policy-Report-Only']).toContain("object-src 'none'");
+    expect(headers['X-Frame-Options']).toBe('SAMEORIGIN');
+  });
+
+  it('should send report-only policies to a report URI', () => {
+    run(new SecurityMiddleware(mockLogger, { environment: 'development' }));
+    expect(headers['Content-Security-Policy-Report-Only']).toMatch(/; report-uri \/csp-report$/);
+
+    run(
+      new SecurityMiddleware(mockLogger, {
+        environment: 'development',
+        contentSecurityPolicy: { reportUri: 'https://reports.example.com/csp' },
+      })
+    );
+    expect(headers['Content-Security-Policy-Report-Only']).toMatch(
+      /; report-uri https:\/\/reports\.example\.com\/csp$/
+    );
+  });
+
+  it('should add a fresh nonce to script-src and style-src', () => {
+    const middleware = new SecurityMiddleware(mockLogger, { environment: 'production' });
+
+    run(middleware);
+    const nonce = mockResponse.locals.cspNonce;
+    run(middleware);
+
+    expect(nonce).toMatch(/^[A-Za-z0-9+/]{22}==$/);
+    expect(mockResponse.locals.cspNonce).not.toBe(nonce);
+    expect(headers['Content-Security-Policy']).toContain(
+      `script-src 'self' 'nonce-${mockResponse.locals.cspNonce}'`
+    );
+    expect(headers['Content-Security-Policy']).toContain(
+      `style-src 'self' 'nonce-${mockResponse.locals.cspNonce}'`
+    );
+  });
+
+  it('should merge options over the preset', () => {
+    run(
+      new SecurityMiddleware(mockLogger, {
+        environment: 'production',
+        contentSecurityPolicy: {
+          directives: {
+            'script-src': ["'self'", 'https://cdn.example.com'],
+            'upgrade-insecure-requests': false,
+          },
+          reportUri: '/csp-report',
+          nonce: false,
+        },
+        strictTransportSecurity: { maxAge: 63072000, includeSubDomains: true, preload: true },
+        permissionsPolicy: { geolocation: ['self', 'https://maps.example.com'], fullscreen: ['*'] },
+        frameOptions: false,
+      })
+    );
+
+    expect(headers['Content-Security-Policy']).toBe(
+      "default-src 'self'; base-uri 'self'; object-src 'none'; frame-ancestors 'none'; " +
+        "form-action 'self'; script-src 'self' https://cdn.example.com; style-src 'self'; " +
+        "img-src 'self' data:; report-uri /csp-report"
+    );
+    expect(mockResponse.locals.cspNonce).toBeUndefined();
+    expect(headers['Strict-Transport-Security']).toBe(
+      'max-age=63072000; includeSubDomains; preload'
+    );
+    expect(headers['Permissions-Policy']).toBe(
+      'camera=(), microphone=(), geolocation=(self "https://maps.example.com"), payment=(), usb=(), fullscreen=*'
+    );
+    expect(headers['X-Frame-Options']).toBeUndefined();
+  });
+
+  it('should do nothing while enableSecurity is off', () => {
+    const configManager = ConfigManager.getInstance();
+    configManager.initialize({
+      middleware: { ...configManager.getMiddlewareConfig(), enableSecurity: false },
+    });
+
+    run(new SecurityMiddleware(mockLogger));
+
+    expect(mockResponse.setHeader).not.toHaveBeenCalled();
+  });
+
+  it('should skip the given paths', () => {
+    const middleware = new SecurityMiddleware(mockLogger, { skipPaths: [/^\/internal\//] });
+
+    middleware.handle()({ path: '/internal/status' } as Request, mockResponse, nextFunction);
+
+    expect(mockResponse.setHeader).not.toHaveBeenCalled();
+    expect(nextFunction).toHaveBeenCalledWith();
+  });
+
+  describe('reportHandler', () => {
+    function reportRequest(body: string, parsedBody?: unknown) {
+      return Object.assign(Readable.from([body]), {
+        body: parsedBody,
+        get: vi.fn(() => 'Test-Agent'),
+      }) as unknown as Request;
+    }
+
+    it('should log report-uri violation reports', async () => {
+      const report = {
+        'csp-report': {
+          'document-uri': 'https://app.example.com/',
+          'violated-directive': 'script-src',
+          'effective-directive': 'script-src-elem',
+          'blocked-uri': 'https://evil.example',
+          'line-number': 12,
+          disposition: 'report',
+        },
+      };
+
+      await new SecurityMiddleware(mockLogger).reportHandler()(
+        reportRequest(JSON.stringify(report), {}),
+        mockResponse
+      );
+
+      expect(mockLogger.warn).toHaveBeenCalledWith('Content Security Policy violation', {
+        documentUri: 'https://app.example.com/',
+        violatedDirective: 'script-src-elem',
+        blockedUri: 'https://evil.example',
+        sourceFile: undefined,
+        lineNumber: 12,
+        disposition: 'report',
+        userAgent: 'Test-Agent',
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+
+    it('should log Reporting API batches parsed by a body parser', async () => {
+      const batch = [
+        { type: 'deprecation', body: {} },
+        {
+          type: 'csp-violation',
+          body: {
+            documentURL: 'https://app.example.com/',
+            effectiveDirective: 'style-src-elem',
+            blockedURL: 'inline',
+            disposition: 'enforce',
+          },
+        },
+      ];
+
+      await new SecurityMiddleware(mockLogger).reportHandler()(
+        reportRequest('', batch),
+        mockResponse
+      );
+
+      expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Content Security Policy violation',
+        expect.objectContaining({ violatedDirective: 'style-src-elem', blockedUri: 'inline' })
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+
+    it('should reject bodies that are not reports', async () => {
+      await new SecurityMiddleware(mockLogger).reportHandler()(
+        reportRequest('not json'),
+        mockResponse
+      );
+
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+});
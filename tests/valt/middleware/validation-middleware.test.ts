@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ValidationMiddleware } from '../../../src/valt/middleware/validation-middleware';
+import { CertusAdiValtError, CertusInputValidationError } from '../../../src/certus';
+import { ErrorCodes } from '../../../src/constants';
+import type { Request, Response, NextFunction } from 'express';
+
+describe('ValidationMiddleware', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: NextFunction;
+
+  beforeEach(() => {
+    mockRequest = {
+      body: { email: 'jane@example.com', isAdmin: true },
+      query: { page: '2' },
+      params: { id: '42' },
+      headers: { 'x-api-version': '3' },
+    };
+    mockResponse = {};
+    nextFunction = vi.fn();
+  });
+
+  it('should replace locations with validated values', async () => {
+    const handler = new ValidationMiddleware().validate({
+      body: { email: { type: 'string', format: 'email', required: true } },
+      query: { page: { type: 'integer', min: 1 }, limit: { type: 'integer', default: 20 } },
+      params: { id: { type: 'integer', required: true } },
+      headers: { 'x-api-version': { type: 'integer' } },
+    });
+
+    await handler(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(nextFunction).toHaveBeenCalledWith();
+    expect(mockRequest.body).toEqual({ email: 'jane@example.com', isAdmin: true });
+    expect(mockRequest.query).toEqual({ page: 2, limit: 20 });
+    expect(mockRequest.params).toEqual({ id: 42 });
+    expect(mockRequest.headers).toEqual({ 'x-api-version': '3' });
+  });
+
+  it('should strip unknown fields except headers when enabled', async () => {
+    const handler = new ValidationMiddleware({ stripUnknown: true }).validate({
+      body: { email: { type: 'string' } },
+      headers: { 'x-api-version': { type: 'string' } },
+    });
+    mockRequest.headers!['user-agent'] = 'test';
+
+    await handler(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockRequest.body).toEqual({ email: 'jane@example.com' });
+    expect(mockRequest.headers!['user-agent']).toBe('test');
+  });
+
+  it('should aggregate violations from all locations into one error', async () => {
+    mockRequest.body = { email: 'nope' };
+    mockRequest.query = { page: '0' };
+    const handler = new ValidationMiddleware().validate({
+      body: {
+        email: { type: 'string', format: 'email' },
+        name: { type: 'string', required: true },
+      },
+      query: { page: { type: 'integer', min: 1 } },
+      params: { id: { type: 'integer' } },
+    });
+
+    await handler(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    const error = (nextFunction as any).mock.calls[0][0] as CertusInputValidationError;
+    expect(error).toBeInstanceOf(CertusAdiValtError);
+    expect(error.name).toBe('CertusInputValidationError');
+    expect(error.code).toBe(ErrorCodes.VAL_INVALID_INPUT);
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe('Request validation failed');
+    expect(error.context).toMatchObject({ locations: ['query', 'body'] });
+    expect(error.violations.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: '/query/page', code: ErrorCodes.VAL_NUMBER_TOO_SMALL },
+      { path: '/body/email', code: ErrorCodes.VAL_INVALID_EMAIL },
+      { path: '/body/name', code: ErrorCodes.VAL_REQUIRED_FIELD },
+    ]);
+    expect(mockRequest.query).toEqual({ page: '0' });
+  });
+
+  it('should respect coercion and message options', async () => {
+    const handler = new ValidationMiddleware({ coerce: false, message: 'Bad request' }).validate({
+      query: { page: { type: 'integer' } },
+    });
+
+    await handler(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    const error = (nextFunction as any).mock.calls[0][0] as CertusInputValidationError;
+    expect(error.message).toBe('Bad request');
+    expect(error.violations[0]).toMatchObject({
+      path: '/query/page',
+      code: ErrorCodes.VAL_INVALID_FORMAT,
+    });
+  });
+
+  it('should use third-party schemas', async () => {
+    const handler = new ValidationMiddleware().validate({
+      body: { safeParse: (value: any) => ({ success: true, data: { email: value.email } }) },
+    });
+
+    await handler(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(nextFunction).toHaveBeenCalledWith();
+    expect(mockRequest.body).toEqual({ email: 'jane@example.com' });
+  });
+
+  it('should pass schema errors that are not validation failures to next', async () => {
+    const failure = new Error('schema exploded');
+    const handler = new ValidationMiddleware().validate({
+      body: { __isYupSchema__: true, validate: () => Promise.reject(failure) },
+    });
+
+    await handler(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(nextFunction).toHaveBeenCalledWith(failure);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker, CircuitBreakerRegistry } from '../../../src/valt/resilience';
+
+describe('CircuitBreakerRegistry', () => {
+  it('should create one breaker per key and reuse it', () => {
+    const circuits = new CircuitBreakerRegistry();
+
+    const payments = circuits.get('payments');
+
+    expect(payments).toBeInstanceOf(CircuitBreaker);
+    expect(payments.name).toBe('payments');
+    expect(circuits.get('payments')).toBe(payments);
+    expect(circuits.get('search')).not.toBe(payments);
+    expect(circuits.keys()).toEqual(['payments', 'search']);
+  });
+
+  it('should trip breakers independently', async () => {
+    const circuits = new CircuitBreakerRegistry({ windowSize: 1 });
+
+    await circuits
+      .get('partner:a.example.com')
+      .execute(() => Promise.reject(new Error('ECONNRESET')))
+      .catch(() => undefined);
+
+    expect(circuits.get('partner:a.example.com').getState()).toBe('open');
+    expect(circuits.get('partner:b.example.com').getState()).toBe('closed');
+  });
+
+  it('should merge per-key options over the defaults', async () => {
+    const circuits = new CircuitBreakerRegistry({ windowSize: 1 });
+    const search = circuits.get('search', { windowSize: 2 });
+
+    await search.execute(() => Promise.reject(new Error('timeout'))).catch(() => undefined);
+
+    expect(search.getMetrics()).toMatchObject({ state: 'closed', calls: 1 });
+  });
+
+  it('should report metrics, reset and remove breakers', () => {
+    const circuits = new CircuitBreakerRegistry();
+    circuits.get('payments').trip();
+    circuits.get('search');
+
+    expect(circuits.getMetrics()).toEqual({
+      payments: expect.objectContaining({ state: 'open' }),
+      search: expect.objectContaining({ state: 'closed' }),
+    });
+
+    circuits.resetAll();
+    expect(circuits.get('payments').getState()).toBe('closed');
+
+    expect(circuits.remove('payments')).toBe(true);
+    expect(circuits.has('payments')).toBe(false);
+    expect(circuits.remove('payments')).toBe(false);
+  });
+});
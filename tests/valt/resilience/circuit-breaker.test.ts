@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker } from '../../../src/valt/resilience';
+import { ValtLogger } from '../../../src/valt/logger';
+import {
+  CertusCircuitOpenError,
+  CertusConfigurationError,
+  CertusNotFoundError,
+} from '../../../src/certus';
+import { ErrorCodes } from '../../../src/constants';
+import { LogLevel } from '../../../src/types';
+
+const fail = () => Promise.reject(new Error('ECONNREFUSED'));
+const succeed = () => Promise.resolve('ok');
+
+async function run(breaker: CircuitBreaker, calls: Array<() => Promise<unknown>>) {
+  for (const call of calls) {
+    await breaker.execute(call).catch(() => undefined);
+  }
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pass results and errors through while closed', async () => {
+    const breaker = new CircuitBreaker('inventory');
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    await expect(breaker.execute(fail)).rejects.toThrow('ECONNREFUSED');
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getMetrics()).toMatchObject({ calls: 2, failures: 1, failureRate: 50 });
+  });
+
+  it('should open when the failure rate reaches the threshold after the minimum calls', async () => {
+    const breaker = new CircuitBreaker('inventory', {
+      windowSize: 10,
+      minimumCalls: 4,
+      failureRateThreshold: 50,
+    });
+
+    await run(breaker, [fail, fail, fail]);
+    expect(breaker.getState()).toBe('closed');
+
+    await run(breaker, [succeed]);
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should only count the most recent calls', async () => {
+    const breaker = new CircuitBreaker('inventory', {
+      windowSize: 4,
+      minimumCalls: 4,
+      failureRateThreshold: 75,
+    });
+
+    await run(breaker, [fail, fail, succeed, succeed, succeed, fail]);
+
+    expect(breaker.getMetrics()).toMatchObject({ state: 'closed', calls: 4, failures: 1 });
+  });
+
+  it('should open when the slow-call rate reaches the threshold', async () => {
+    const breaker = new CircuitBreaker('search', {
+      windowSize: 2,
+      slowCallDurationMs: 500,
+      slowCallRateThreshold: 100,
+    });
+    const slow = async () => {
+      vi.advanceTimersByTime(800);
+      return 'late';
+    };
+
+    await expect(breaker.execute(slow)).resolves.toBe('late');
+    await expect(breaker.execute(slow)).resolves.toBe('late');
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should reject calls without calling the dependency while open', async () => {
+    const breaker = new CircuitBreaker('payments', { openDurationMs: 10000 });
+    const call = vi.fn(succeed);
+    breaker.trip();
+    vi.advanceTimersByTime(4000);
+
+    const rejection = await breaker.execute(call).catch((error) => error);
+
+    expect(call).not.toHaveBeenCalled();
+    expect(rejection).toBeInstanceOf(CertusCircuitOpenError);
+    expect(rejection.code).toBe(ErrorCodes.SRV_SERVICE_UNAVAILABLE);
+    expect(rejection.statusCode).toBe(503);
+    expect(rejection.context).toEqual({ circuit: 'payments', state: 'open', retryAfterMs: 6000 });
+    expect(breaker.getMetrics().rejectedCalls).toBe(1);
+  });
+
+  it('should half-open after the open duration and close when the trial calls succeed', async () => {
+    const breaker = new CircuitBreaker('payments', { openDurationMs: 10000, halfOpenMaxCalls: 2 });
+    breaker.trip();
+
+    vi.advanceTimersByTime(10000);
+    expect(breaker.getState()).toBe('half-open');
+
+    await run(breaker, [succeed]);
+    expect(breaker.getState()).toBe('half-open');
+
+    await run(breaker, [succeed]);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should reopen when the trial calls fail', async () => {
+    const breaker = new CircuitBreaker('payments', { openDurationMs: 10000, halfOpenMaxCalls: 2 });
+    breaker.trip();
+    vi.advanceTimersByTime(10000);
+
+    await run(breaker, [fail, succeed]);
+
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('should limit concurrent trial calls while half-open', async () => {
+    const breaker = new CircuitBreaker('payments', { openDurationMs: 1000, halfOpenMaxCalls: 1 });
+    breaker.trip();
+    vi.advanceTimersByTime(1000);
+
+    let release!: (value: string) => void;
+    const trial = breaker.execute(() => new Promise<string>((resolve) => (release = resolve)));
+    const rejection = await breaker.execute(succeed).catch((error) => error);
+
+    expect(rejection).toBeInstanceOf(CertusCircuitOpenError);
+    expect(rejection.context).toEqual({ circuit: 'payments', state: 'half-open' });
+
+    release('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should not count client errors as failures by default', async () => {
+    const breaker = new CircuitBreaker('users', { windowSize: 2 });
+
+    await run(breaker, [
+      () => Promise.reject(new CertusNotFoundError()),
+      () => Promise.reject(new CertusNotFoundError()),
+    ]);
+
+    expect(breaker.getMetrics()).toMatchObject({ state: 'closed', calls: 2, failures: 0 });
+  });
+
+  it('should use a custom failure predicate', async () => {
+    const breaker = new CircuitBreaker('users', {
+      windowSize: 2,
+      isFailure: (error) => (error as Error).message !== 'ECONNREFUSED',
+    });
+
+    await run(breaker, [fail, fail]);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should ignore calls that started before a state change', async () => {
+    const breaker = new CircuitBreaker('users', { windowSize: 1 });
+
+    let reject!: (error: Error) => void;
+    const pending = breaker.execute(() => new Promise((_, fail) => (reject = fail)));
+    breaker.trip();
+    breaker.reset();
+    reject(new Error('late failure'));
+
+    await expect(pending).rejects.toThrow('late failure');
+    expect(breaker.getMetrics()).toMatchObject({ state: 'closed', calls: 0 });
+  });
+
+  it('should notify listeners and log state changes', async () => {
+    const logger = new ValtLogger({ level: LogLevel.INFO, service: 'test', environment: 'test' });
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    const info = vi.spyOn(logger, 'info').mockImplementation(() => {});
+    const breaker = new CircuitBreaker(
+      'inventory',
+      { windowSize: 2, openDurationMs: 1000, halfOpenMaxCalls: 1 },
+      logger
+    );
+    const listener = vi.fn();
+    const unsubscribe = breaker.onStateChange(listener);
+
+    await run(breaker, [fail, fail]);
+
+    expect(listener).toHaveBeenCalledWith({
+      circuit: 'inventory',
+      from: 'closed',
+      to: 'open',
+      metrics: expect.objectContaining({ state: 'open', calls: 2, failures: 2, failureRate: 100 }),
+    });
+    expect(warn).toHaveBeenCalledWith('Circuit breaker opened', {
+      circuit: 'inventory',
+      from: 'closed',
+      to: 'open',
+      calls: 2,
+      failureRate: 100,
+      slowCallRate: 0,
+    });
+
+    vi.advanceTimersByTime(1000);
+    await run(breaker, [succeed]);
+
+    expect(info).toHaveBeenCalledWith(
+      'Circuit breaker half-open',
+      expect.objectContaining({ from: 'open', to: 'half-open' })
+    );
+    expect(info).toHaveBeenCalledWith(
+      'Circuit breaker closed',
+      expect.objectContaining({ from: 'half-open', to: 'closed' })
+    );
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    unsubscribe();
+    breaker.trip();
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should wrap functions', async () => {
+    const breaker = new CircuitBreaker('rates');
+    const getRate = breaker.wrap(async (currency: string) => `${currency}:1.08`);
+
+    await expect(getRate('EUR')).resolves.toBe('EUR:1.08');
+    expect(breaker.getMetrics().calls).toBe(1);
+  });
+
+  it('should default minimum and trial calls to a smaller window', () => {
+    expect(() => new CircuitBreaker('small', { windowSize: 2 })).not.toThrow();
+  });
+
+  it('should reject out-of-range options', () => {
+    expect(() => new CircuitBreaker('bad', { windowSize: 5, minimumCalls: 6 })).toThrow(
+      CertusConfigurationError
+    );
+    expect(() => new CircuitBreaker('bad', { failureRateThreshold: 0 })).toThrow(
+      CertusConfigurationError
+    );
+
+    const error = (() => {
+      try {
+        return new CircuitBreaker('bad', { windowSize: 0, openDurationMs: -1 });
+      } catch (caught) {
+        return caught as CertusConfigurationError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(CertusConfigurationError);
+    expect((error as CertusConfigurationError).context.invalidOptions).toEqual([
+      'windowSize',
+      'minimumCalls',
+      'halfOpenMaxCalls',
+      'openDurationMs',
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MemoryRateLimitStore } from '../../../src/valt/resilience';
+import { RateLimitRule } from '../../../src/types';
+
+async function hitTimes(
+  store: MemoryRateLimitStore,
+  key: string,
+  rule: RateLimitRule,
+  times: number
+) {
+  const results = [];
+  for (let i = 0; i < times; i++) {
+    results.push(await store.hit(key, rule));
+  }
+  return results;
+}
+
+describe('MemoryRateLimitStore', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('token-bucket', () => {
+    const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 10, windowMs: 1000 };
+
+    it('should allow a burst up to the limit, then reject', async () => {
+      const results = await hitTimes(store, 'client', rule, 11);
+
+      expect(results.slice(0, 10).every(({ allowed }) => allowed)).toBe(true);
+      expect(results[0]).toEqual({
+        allowed: true,
+        limit: 10,
+        remaining: 9,
+        resetMs: 100,
+        retryAfterMs: 0,
+      });
+      expect(results[10]).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 100 });
+    });
+
+    it('should refill tokens continuously', async () => {
+      await hitTimes(store, 'client', rule, 10);
+
+      vi.advanceTimersByTime(250);
+      const results = await hitTimes(store, 'client', rule, 3);
+
+      expect(results.map(({ allowed }) => allowed)).toEqual([true, true, false]);
+    });
+  });
+
+  describe('sliding-window', () => {
+    const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 4, windowMs: 1000 };
+
+    it('should allow the limit within a window, then reject until the next one', async () => {
+      vi.advanceTimersByTime(200);
+      const results = await hitTimes(store, 'client', rule, 5);
+
+      expect(results.map(({ remaining }) => remaining)).toEqual([3, 2, 1, 0, 0]);
+      expect(results[4]).toMatchObject({ allowed: false, retryAfterMs: 1050, resetMs: 1800 });
+    });
+
+    it('should weight the previous window by its overlap', async () => {
+      await hitTimes(store, 'client', rule, 4);
+
+      // 25% into the next window, 75% of the 4 previous requests still count
+      vi.advanceTimersByTime(1250);
+      const results = await hitTimes(store, 'client', rule, 2);
+
+      expect(results.map(({ allowed }) => allowed)).toEqual([true, false]);
+      expect(results[1].retryAfterMs).toBe(250);
+    });
+
+    it('should forget counts older than the previous window', async () => {
+      await hitTimes(store, 'client', rule, 4);
+
+      vi.advanceTimersByTime(2000);
+      const [result] = await hitTimes(store, 'client', rule, 1);
+
+      expect(result).toMatchObject({ allowed: true, remaining: 3 });
+    });
+  });
+
+  it('should count keys separately', async () => {
+    const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 1, windowMs: 1000 };
+
+    expect((await store.hit('a', rule)).allowed).toBe(true);
+    expect((await store.hit('b', rule)).allowed).toBe(true);
+    expect((await store.hit('a', rule)).allowed).toBe(false);
+  });
+
+  it('should reset the counters of a key', async () => {
+    const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 1, windowMs: 60000 };
+    await store.hit('client', rule);
+
+    await store.reset('client');
+
+    expect((await store.hit('client', rule)).allowed).toBe(true);
+  });
+});
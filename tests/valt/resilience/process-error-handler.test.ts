@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ProcessErrorHandler } from '../../../src/valt/resilience';
+import { ValtLogger } from '../../../src/valt/logger';
+import {
+  CertusConfigurationError,
+  CertusNotFoundError,
+  CertusServerError,
+} from '../../../src/certus';
+import { LogLevel } from '../../../src/types';
+
+describe('ProcessErrorHandler', () => {
+  let logger: ValtLogger;
+  let exit: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    logger = new ValtLogger({ level: LogLevel.INFO, service: 'test-service', environment: 'test' });
+    vi.spyOn(logger, 'error').mockImplementation(() => {});
+    vi.spyOn(logger, 'close').mockResolvedValue();
+    exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should log operational errors and keep running', async () => {
+    const error = new CertusNotFoundError('Order not found');
+
+    await new ProcessErrorHandler(logger).handle(error, 'unhandledRejection');
+
+    expect(logger.error).toHaveBeenCalledWith(
+      'Unhandled promise rejection',
+      { origin: 'unhandledRejection', operational: true, action: 'continue' },
+      error
+    );
+    expect(logger.close).not.toHaveBeenCalled();
+    expect(exit).not.toHaveBeenCalled();
+  });
+
+  it('should shut down after programmer errors, closing the logger before exiting', async () => {
+    const order: string[] = [];
+    vi.mocked(logger.close).mockImplementation(async () => {
+      order.push('close');
+    });
+    exit.mockImplementation(((code: number) => order.push(`exit ${code}`)) as never);
+    const onShutdown = vi.fn(async () => {
+      order.push('onShutdown');
+    });
+    const error = new TypeError("Cannot read properties of undefined (reading 'id')");
+
+    await new ProcessErrorHandler(logger, { onShutdown }).handle(error, 'uncaughtException');
+
+    expect(logger.error).toHaveBeenCalledWith(
+      'Uncaught exception',
+      { origin: 'uncaughtException', operational: false, action: 'shutdown' },
+      error
+    );
+    expect(onShutdown).toHaveBeenCalledWith(error, 'uncaughtException');
+    expect(order).toEqual(['onShutdown', 'close', 'exit 1']);
+  });
+
+  it('should classify Certus errors by their isOperational flag', async () => {
+    const handler = new ProcessErrorHandler(logger, { exitCode: 70 });
+
+    await handler.handle(new CertusConfigurationError('JWT secret missing'), 'uncaughtException');
+
+    expect(exit).toHaveBeenCalledWith(70);
+
+    await handler.handle(
+      new CertusServerError('Invariant broken').withOperational(false),
+      'unhandledRejection'
+    );
+    expect(exit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log rejection reasons that are not errors', async () => {
+    await new ProcessErrorHandler(logger).handle('boom', 'unhandledRejection');
+
+    expect(logger.error).toHaveBeenCalledWith(
+      'Unhandled promise rejection',
+      { origin: 'unhandledRejection', operational: false, action: 'shutdown', reason: 'boom' },
+      undefined
+    );
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should use the shouldShutdown decision', async () => {
+    const handler = new ProcessErrorHandler(logger, {
+      shouldShutdown: (_error, origin) => origin === 'uncaughtException',
+    });
+
+    await handler.handle(new TypeError('x is undefined'), 'unhandledRejection');
+    expect(exit).not.toHaveBeenCalled();
+
+    await handler.handle(new CertusNotFoundError(), 'uncaughtException');
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should exit even when the shutdown hook fails', async () => {
+    const hookError = new Error('server already closed');
+
+    await new ProcessErrorHandler(logger, {
+      onShutdown: () => Promise.reject(hookError),
+    }).handle(new TypeError('x is undefined'), 'uncaughtException');
+
+    expect(logger.error).toHaveBeenCalledWith(
+      'Graceful shutdown failed',
+      { origin: 'uncaughtException' },
+      hookError
+    );
+    expect(logger.close).toHaveBeenCalled();
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should exit when the shutdown exceeds the timeout', async () => {
+    vi.useFakeTimers();
+    const handler = new ProcessErrorHandler(logger, {
+      onShutdown: () => new Promise<void>(() => {}),
+      shutdownTimeoutMs: 5000,
+    });
+
+    void handler.handle(new TypeError('x is undefined'), 'uncaughtException');
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(exit).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(logger.error).toHaveBeenCalledWith('Graceful shutdown timed out', { timeoutMs: 5000 });
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should not start a second shutdown while one is in progress', async () => {
+    let finishShutdown: () => void = () => {};
+    const onShutdown = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finishShutdown = resolve;
+        })
+    );
+    const handler = new ProcessErrorHandler(logger, { onShutdown });
+
+    const first = handler.handle(new TypeError('first'), 'uncaughtException');
+    await handler.handle(new TypeError('second'), 'uncaughtException');
+
+    expect(logger.error).toHaveBeenLastCalledWith(
+      'Uncaught exception',
+      { origin: 'uncaughtException', operational: false, action: 'shutdown-in-progress' },
+      expect.objectContaining({ message: 'second' })
+    );
+    finishShutdown();
+    await first;
+
+    expect(onShutdown).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should exit instead of rejecting when the crash policy fails', async () => {
+    const handler = new ProcessErrorHandler(logger, {
+      exitCode: 70,
+      shouldShutdown: () => {
+        throw new Error('policy failed');
+      },
+    });
+
+    await expect(handler.handle(new CertusNotFoundError(), 'unhandledRejection')).resolves.toBe(
+      undefined
+    );
+    expect(exit).toHaveBeenCalledWith(70);
+
+    vi.mocked(logger.error).mockImplementation(() => {
+      throw new Error('transport closed');
+    });
+    await expect(
+      new ProcessErrorHandler(logger).handle(new CertusNotFoundError(), 'unhandledRejection')
+    ).resolves.toBe(undefined);
+    expect(exit).toHaveBeenLastCalledWith(1);
+  });
+
+  it('should add and remove the process listeners', () => {
+    const uncaught = process.listenerCount('uncaughtException');
+    const unhandled = process.listenerCount('unhandledRejection');
+    const handler = new ProcessErrorHandler(logger).install().install();
+
+    expect(process.listenerCount('uncaughtException')).toBe(uncaught + 1);
+    expect(process.listenerCount('unhandledRejection')).toBe(unhandled + 1);
+
+    handler.uninstall();
+
+    expect(process.listenerCount('uncaughtException')).toBe(uncaught);
+    expect(process.listenerCount('unhandledRejection')).toBe(unhandled);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new ProcessErrorHandler(logger, { shutdownTimeoutMs: -1 })).toThrow(
+      CertusConfigurationError
+    );
+    expect(() => new ProcessErrorHandler(logger, { exitCode: 1.5 })).toThrow(
+      expect.objectContaining({ context: { invalidOptions: ['exitCode'] } })
+    );
+  });
+});
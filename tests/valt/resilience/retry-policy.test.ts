@@ -0,0 +1,306 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RetryPolicy } from '../../../src/valt/resilience';
+import {
+  CertusCircuitOpenError,
+  CertusConfigurationError,
+  CertusConnectionError,
+  CertusNotFoundError,
+  CertusServerError,
+  CertusServiceUnavailableError,
+} from '../../../src/certus';
+import { ErrorCodes, HttpStatus } from '../../../src/constants';
+import { RetryEvent, RetryPolicyOptions } from '../../../src/types';
+
+/**
+ * Runs an execution to completion, advancing fake timers through its delays.
+ */
+async function settle<T>(promise: Promise<T>): Promise<{ value?: T; error?: unknown }> {
+  const outcome = promise.then(
+    (value) => ({ value }),
+    (error: unknown) => ({ error })
+  );
+  await vi.runAllTimersAsync();
+  return outcome;
+}
+
+describe('RetryPolicy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should retry transient failures until an attempt succeeds', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new CertusConnectionError())
+      .mockRejectedValueOnce(new CertusConnectionError())
+      .mockResolvedValue('ok');
+    const policy = new RetryPolicy({ maxAttempts: 3, delayMs: 100 });
+
+    const { value } = await settle(policy.execute(fn));
+
+    expect(value).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(fn.mock.calls.map(([context]) => context.attempt)).toEqual([1, 2, 3]);
+  });
+
+  it('should throw the last error as is when attempts are exhausted', async () => {
+    const lastError = new CertusConnectionError('Still down');
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new CertusConnectionError())
+      .mockRejectedValue(lastError);
+    const policy = new RetryPolicy({ maxAttempts: 2, delayMs: 10 });
+
+    const { error } = await settle(policy.execute(fn));
+
+    expect(error).toBe(lastError);
+  });
+
+  it('should not retry client errors or open circuits by default', async () => {
+    const policy = new RetryPolicy({ delayMs: 10 });
+    const notFound = vi.fn().mockRejectedValue(new CertusNotFoundError());
+    const rejected = vi.fn().mockRejectedValue(new CertusCircuitOpenError());
+
+    expect((await settle(policy.execute(notFound))).error).toBeInstanceOf(CertusNotFoundError);
+    expect((await settle(policy.execute(rejected))).error).toBeInstanceOf(CertusCircuitOpenError);
+    expect(notFound).toHaveBeenCalledTimes(1);
+    expect(rejected).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a custom shouldRetry with the attempt number', async () => {
+    const shouldRetry = vi.fn((_error: unknown, attempt: number) => attempt < 2);
+    const fn = vi.fn().mockRejectedValue(new CertusNotFoundError());
+    const policy = new RetryPolicy({ maxAttempts: 5, delayMs: 10, shouldRetry });
+
+    await settle(policy.execute(fn));
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(shouldRetry).toHaveBeenLastCalledWith(expect.any(CertusNotFoundError), 2);
+  });
+
+  describe('delays', () => {
+    async function collectDelays(options: RetryPolicyOptions, failures: number) {
+      const delays: number[] = [];
+      const fn = vi.fn();
+      for (let i = 0; i < failures; i++) {
+        fn.mockRejectedValueOnce(new CertusConnectionError());
+      }
+      fn.mockResolvedValue('ok');
+
+      const policy = new RetryPolicy({
+        ...options,
+        onRetry: ({ delayMs }) => delays.push(delayMs),
+      });
+      await settle(policy.execute(fn));
+      return delays;
+    }
+
+    it('should grow exponentially up to the maximum delay without jitter', async () => {
+      const options: RetryPolicyOptions = {
+        maxAttempts: 6,
+        delayMs: 100,
+        backoffMultiplier: 3,
+        maxDelayMs: 2000,
+        jitter: 'none',
+      };
+
+      expect(await collectDelays(options, 5)).toEqual([100, 300, 900, 2000, 2000]);
+    });
+
+    it('should randomize delays with full and equal jitter', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(await collectDelays({ delayMs: 100, jitter: 'full' }, 2)).toEqual([50, 100]);
+      expect(await collectDelays({ delayMs: 100, jitter: 'equal' }, 2)).toEqual([75, 150]);
+    });
+
+    it('should base decorrelated jitter on the previous delay', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+      const options: RetryPolicyOptions = {
+        maxAttempts: 5,
+        delayMs: 100,
+        maxDelayMs: 1000,
+        jitter: 'decorrelated',
+      };
+
+      expect(await collectDelays(options, 4)).toEqual([300, 900, 1000, 1000]);
+    });
+
+    it('should wait at least as long as the Retry-After of the error', async () => {
+      const events: RetryEvent[] = [];
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new CertusServerError('Overloaded', ErrorCodes.SRV_RATE_LIMIT, 503, { retryAfter: 2 })
+        )
+        .mockRejectedValueOnce(
+          new CertusServerError('Overloaded', ErrorCodes.SRV_RATE_LIMIT, 503, {
+            retryAfterMs: 1500,
+          })
+        )
+        .mockResolvedValue('ok');
+      const policy = new RetryPolicy({
+        delayMs: 100,
+        jitter: 'none',
+        onRetry: (event) => events.push(event),
+      });
+
+      const { value } = await settle(policy.execute(fn));
+
+      expect(value).toBe('ok');
+      expect(events.map(({ delayMs }) => delayMs)).toEqual([2000, 1500]);
+    });
+
+    it('should read the retryAfter field of the error', async () => {
+      const onRetry = vi.fn();
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new CertusServiceUnavailableError('Rebuilding', {}, 3))
+        .mockResolvedValue('ok');
+      const policy = new RetryPolicy({ delayMs: 100, jitter: 'none', onRetry });
+
+      await settle(policy.execute(fn));
+
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 3000 }));
+    });
+
+    it('should give up when the Retry-After exceeds the maximum delay', async () => {
+      const error = new CertusServerError(
+        'Maintenance',
+        ErrorCodes.SRV_MAINTENANCE_MODE,
+        HttpStatus.SERVICE_UNAVAILABLE,
+        { retryAfter: new Date(Date.now() + 3600000).toUTCString() }
+      );
+      const fn = vi.fn().mockRejectedValue(error);
+      const policy = new RetryPolicy({ maxDelayMs: 30000 });
+
+      expect((await settle(policy.execute(fn))).error).toBe(error);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore the Retry-After when disabled', async () => {
+      const onRetry = vi.fn();
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new CertusServerError('Busy', ErrorCodes.SRV_RATE_LIMIT, 503, { retryAfterMs: 5000 })
+        )
+        .mockResolvedValue('ok');
+      const policy = new RetryPolicy({
+        delayMs: 100,
+        jitter: 'none',
+        respectRetryAfter: false,
+        onRetry,
+      });
+
+      await settle(policy.execute(fn));
+
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 100 }));
+    });
+  });
+
+  it('should report each retry to onRetry', async () => {
+    const error = new CertusConnectionError();
+    const onRetry = vi.fn();
+    const fn = vi
+      .fn()
+      .mockImplementationOnce(async () => {
+        vi.advanceTimersByTime(40);
+        throw error;
+      })
+      .mockResolvedValue('ok');
+    const policy = new RetryPolicy({ delayMs: 100, jitter: 'none', onRetry });
+
+    await settle(policy.execute(fn));
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry).toHaveBeenCalledWith({ attempt: 1, error, delayMs: 100, elapsedMs: 40 });
+  });
+
+  it('should not schedule a retry past the deadline', async () => {
+    const error = new CertusConnectionError();
+    const fn = vi.fn().mockRejectedValue(error);
+    const policy = new RetryPolicy({
+      maxAttempts: 10,
+      delayMs: 400,
+      backoffMultiplier: 1,
+      jitter: 'none',
+      deadlineMs: 1000,
+    });
+
+    const { error: thrown } = await settle(policy.execute(fn));
+
+    expect(thrown).toBe(error);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  describe('cancellation', () => {
+    it('should not call the function when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      const reason = new Error('Client went away');
+      controller.abort(reason);
+      const fn = vi.fn();
+
+      const { error } = await settle(new RetryPolicy().execute(fn, { signal: controller.signal }));
+
+      expect(error).toBe(reason);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should end a pending delay when the signal aborts', async () => {
+      const controller = new AbortController();
+      const fn = vi.fn().mockRejectedValue(new CertusConnectionError());
+      const policy = new RetryPolicy({ delayMs: 10000, jitter: 'none' });
+
+      const outcome = policy.execute(fn, { signal: controller.signal }).catch((error) => error);
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+
+      expect(await outcome).toMatchObject({ name: 'AbortError' });
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass the signal to each attempt', async () => {
+      const controller = new AbortController();
+      const fn = vi.fn().mockResolvedValue('ok');
+
+      await new RetryPolicy().execute(fn, { signal: controller.signal });
+
+      expect(fn).toHaveBeenCalledWith({ attempt: 1, signal: controller.signal });
+    });
+  });
+
+  it('should wrap a function so that its calls are retried', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new CertusConnectionError())
+      .mockImplementation(async (id: string) => `order ${id}`);
+    const getOrder = new RetryPolicy({ delayMs: 10 }).wrap(fn);
+
+    const { value } = await settle(getOrder('42'));
+
+    expect(value).toBe('order 42');
+    expect(fn).toHaveBeenCalledWith('42');
+  });
+
+  it('should reject invalid options', () => {
+    const error = (() => {
+      try {
+        new RetryPolicy({ maxAttempts: 0, maxDelayMs: 10, delayMs: 100 });
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(CertusConfigurationError);
+    expect((error as CertusConfigurationError).context.invalidOptions).toEqual([
+      'maxAttempts',
+      'maxDelayMs',
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { withTimeout } from '../../../src/valt/resilience';
+import { RequestDeadline } from '../../../src/adi';
+import { CertusOperationTimeoutError } from '../../../src/certus';
+import { ErrorCodes, HttpStatus } from '../../../src/constants';
+
+/** A promise resolving after a delay */
+const after = <T>(ms: number, value: T) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+describe('withTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve with the result of an operation within its budget', async () => {
+    const result = withTimeout(after(100, 'done'), 1000);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(result).resolves.toBe('done');
+  });
+
+  it('should reject with a coded timeout error when the budget runs out', async () => {
+    const result = withTimeout(after(5000, 'late'), 1000, { operation: 'geocode' }).catch(
+      (error) => error
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const error = await result;
+    expect(error).toBeInstanceOf(CertusOperationTimeoutError);
+    expect(error).toMatchObject({
+      code: ErrorCodes.GEN_TIMEOUT,
+      statusCode: HttpStatus.GATEWAY_TIMEOUT,
+      message: "Operation 'geocode' timed out after 1000 ms",
+      context: { operation: 'geocode', budgetMs: 1000, elapsedMs: 1000 },
+    });
+  });
+
+  it('should abort the signal given to the operation on timeout', async () => {
+    let received: AbortSignal | undefined;
+    const operation = (signal: AbortSignal) => {
+      received = signal;
+      return after(5000, 'late');
+    };
+
+    const result = withTimeout(operation, 200).catch((error) => error);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(await result).toBeInstanceOf(CertusOperationTimeoutError);
+    expect(received!.aborted).toBe(true);
+    expect(received!.reason).toBe(await result);
+  });
+
+  it('should pass the rejection of the operation through', async () => {
+    const failure = new Error('Connection refused');
+
+    await expect(withTimeout(Promise.reject(failure), 1000)).rejects.toBe(failure);
+  });
+
+  it('should inherit the remaining budget of the enclosing deadline', async () => {
+    const result = RequestDeadline.run(300, () =>
+      withTimeout(after(1000, 'late'), 5000).catch((error) => error)
+    );
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(await result).toMatchObject({ context: { budgetMs: 300 } });
+  });
+
+  it('should bound deadlines inside the operation', async () => {
+    const budget = await withTimeout(async () => RequestDeadline.get()!.budgetMs, 800);
+
+    expect(budget).toBe(800);
+  });
+
+  it('should not start the operation once the enclosing deadline has expired', async () => {
+    const operation = vi.fn();
+
+    const result = RequestDeadline.run(0, () => withTimeout(operation, 1000));
+
+    await expect(result).rejects.toBeInstanceOf(CertusOperationTimeoutError);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should reject with the reason of the caller signal', async () => {
+    const controller = new AbortController();
+    const reason = new Error('Client disconnected');
+
+    const result = withTimeout(after(5000, 'late'), 1000, { signal: controller.signal }).catch(
+      (error) => error
+    );
+    controller.abort(reason);
+
+    expect(await result).toBe(reason);
+  });
+});
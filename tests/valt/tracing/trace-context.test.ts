@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { W3CTraceContext } from '../../../src/valt/tracing/trace-context';
+
+describe('W3CTraceContext', () => {
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  const parentId = '00f067aa0ba902b7';
+
+  describe('parseTraceparent', () => {
+    it('should parse a valid header', () => {
+      expect(W3CTraceContext.parseTraceparent(`00-${traceId}-${parentId}-01`)).toEqual({
+        version: '00',
+        traceId,
+        parentId,
+        traceFlags: '01',
+      });
+    });
+
+    it('should accept extra fields on future versions', () => {
+      expect(W3CTraceContext.parseTraceparent(`01-${traceId}-${parentId}-01-extra`)).toEqual({
+        version: '01',
+        traceId,
+        parentId,
+        traceFlags: '01',
+      });
+    });
+
+    it.each([
+      ['missing header', undefined],
+      ['array header', [`00-${traceId}-${parentId}-01`]],
+      ['uppercase hex', `00-${traceId.toUpperCase()}-${parentId}-01`],
+      ['short trace id', `00-${traceId.slice(1)}-${parentId}-01`],
+      ['version ff', `ff-${traceId}-${parentId}-01`],
+      ['extra fields on version 00', `00-${traceId}-${parentId}-01-extra`],
+      ['all-zero trace id', `00-${'0'.repeat(32)}-${parentId}-01`],
+      ['all-zero parent id', `00-${traceId}-${'0'.repeat(16)}-01`],
+      ['injected newline', `00-${traceId}-${parentId}-01\nforged`],
+    ])('should reject %s', (_, header) => {
+      expect(W3CTraceContext.parseTraceparent(header)).toBeNull();
+    });
+  });
+
+  describe('parseTracestate', () => {
+    it('should normalize a valid header', () => {
+      expect(W3CTraceContext.parseTracestate('rojo=00f067aa0ba902b7 , ,congo=t61rcWkgMzE')).toBe(
+        'rojo=00f067aa0ba902b7,congo=t61rcWkgMzE'
+      );
+    });
+
+    it('should combine multiple header values', () => {
+      expect(W3CTraceContext.parseTracestate(['rojo=1', 'tenant@vendor=2'])).toBe(
+        'rojo=1,tenant@vendor=2'
+      );
+    });
+
+    it.each([
+      ['missing header', undefined],
+      ['member without value separator', 'rojo'],
+      ['uppercase key', 'Rojo=1'],
+      ['value with equals sign', 'rojo=a=b'],
+      ['duplicate key', 'rojo=1,rojo=2'],
+      ['too many members', Array.from({ length: 33 }, (_, i) => `k${i}=v`).join(',')],
+    ])('should discard %s', (_, header) => {
+      expect(W3CTraceContext.parseTracestate(header)).toBeUndefined();
+    });
+  });
+
+  it('should format a traceparent header', () => {
+    expect(
+      W3CTraceContext.formatTraceparent({ version: '00', traceId, parentId, traceFlags: '01' })
+    ).toBe(`00-${traceId}-${parentId}-01`);
+  });
+
+  it('should generate trace and span IDs', () => {
+    expect(W3CTraceContext.generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+    expect(W3CTraceContext.generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+    expect(W3CTraceContext.generateSpanId()).not.toBe(W3CTraceContext.generateSpanId());
+  });
+});
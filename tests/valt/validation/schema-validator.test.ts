@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import { SchemaValidator } from '../../../src/valt/validation/schema-validator';
+import { ErrorCodes } from '../../../src/constants';
+import type { ObjectSchema } from '../../../src/types';
+
+describe('SchemaValidator', () => {
+  describe('built-in DSL', () => {
+    const userSchema: ObjectSchema = {
+      email: { type: 'string', format: 'email', required: true },
+      name: { type: 'string', min: 2, max: 20 },
+      age: { type: 'integer', min: 18 },
+      role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+      tags: { type: 'array', max: 2, items: { type: 'string' } },
+      address: {
+        type: 'object',
+        properties: { zip: { type: 'string', pattern: /^\d{5}$/, required: true } },
+      },
+    };
+
+    it('should return the value with defaults when valid', async () => {
+      const result = await SchemaValidator.validate(userSchema, {
+        email: 'jane@example.com',
+        name: 'Jane',
+        extra: true,
+      });
+
+      expect(result.violations).toEqual([]);
+      expect(result.value).toEqual({
+        email: 'jane@example.com',
+        name: 'Jane',
+        role: 'user',
+        extra: true,
+      });
+    });
+
+    it('should report every violation with its path', async () => {
+      const result = await SchemaValidator.validate(userSchema, {
+        name: 'J',
+        age: 17.5,
+        role: 'root',
+        tags: ['a', 'b', 3],
+        address: { zip: 'abc' },
+      });
+
+      expect(result.violations.map(({ path, code }) => ({ path, code }))).toEqual([
+        { path: '/email', code: ErrorCodes.VAL_REQUIRED_FIELD },
+        { path: '/name', code: ErrorCodes.VAL_STRING_TOO_SHORT },
+        { path: '/age', code: ErrorCodes.VAL_INVALID_FORMAT },
+        { path: '/role', code: ErrorCodes.VAL_INVALID_CHOICE },
+        { path: '/tags', code: ErrorCodes.VAL_ARRAY_TOO_LONG },
+        { path: '/tags/2', code: ErrorCodes.VAL_INVALID_FORMAT },
+        { path: '/address/zip', code: ErrorCodes.VAL_INVALID_FORMAT },
+      ]);
+      expect(result.violations[1]).toEqual({
+        path: '/name',
+        code: ErrorCodes.VAL_STRING_TOO_SHORT,
+        message: 'Text is too short',
+        params: { min: 2 },
+        rejectedValue: 'J',
+      });
+    });
+
+    it('should check string formats', async () => {
+      const result = await SchemaValidator.validate(
+        {
+          email: { type: 'string', format: 'email' },
+          website: { type: 'string', format: 'url' },
+          id: { type: 'string', format: 'uuid' },
+          birthday: { type: 'string', format: 'date' },
+        },
+        { email: 'nope', website: 'ftp://example.com', id: '123', birthday: 'yesterday' }
+      );
+
+      expect(result.violations.map(({ code }) => code)).toEqual([
+        ErrorCodes.VAL_INVALID_EMAIL,
+        ErrorCodes.VAL_INVALID_URL,
+        ErrorCodes.VAL_INVALID_UUID,
+        ErrorCodes.VAL_INVALID_DATE,
+      ]);
+    });
+
+    it('should coerce strings when enabled', async () => {
+      const schema: ObjectSchema = {
+        page: { type: 'integer', min: 1 },
+        active: { type: 'boolean' },
+        ids: { type: 'array', items: { type: 'number' } },
+      };
+      const query = { page: '2', active: 'true', ids: '7' };
+
+      const coerced = await SchemaValidator.validate(schema, query, { coerce: true });
+      expect(coerced).toEqual({
+        value: { page: 2, active: true, ids: [7] },
+        violations: [],
+      });
+
+      const strict = await SchemaValidator.validate(schema, query);
+      expect(strict.violations).toHaveLength(3);
+
+      const invalid = await SchemaValidator.validate(schema, { page: 'two' }, { coerce: true });
+      expect(invalid.violations[0]).toMatchObject({
+        path: '/page',
+        code: ErrorCodes.VAL_INVALID_FORMAT,
+        rejectedValue: 'two',
+      });
+    });
+
+    it('should strip unknown fields when enabled', async () => {
+      const result = await SchemaValidator.validate(
+        { name: { type: 'string' } },
+        { name: 'Jane', isAdmin: true },
+        { stripUnknown: true }
+      );
+
+      expect(result.value).toEqual({ name: 'Jane' });
+    });
+
+    it('should reject non-object input', async () => {
+      const result = await SchemaValidator.validate({ name: { type: 'string' } }, 'Jane');
+
+      expect(result.violations).toEqual([
+        expect.objectContaining({
+          path: '',
+          code: ErrorCodes.VAL_INVALID_FORMAT,
+          params: { expected: 'object' },
+        }),
+      ]);
+    });
+  });
+
+  describe('third-party schemas', () => {
+    it('should use Zod safeParse results', async () => {
+      const schema = {
+        safeParse: (value: any) =>
+          value.email
+            ? { success: true, data: { email: value.email } }
+            : {
+                success: false,
+                error: {
+                  issues: [
+                    {
+                      code: 'invalid_type',
+                      expected: 'string',
+                      received: 'undefined',
+                      path: ['email'],
+                      message: 'Required',
+                    },
+                  ],
+                },
+              },
+      };
+
+      expect(await SchemaValidator.validate(schema, { email: 'a@b.co', x: 1 })).toEqual({
+        value: { email: 'a@b.co' },
+        violations: [],
+      });
+      expect((await SchemaValidator.validate(schema, {})).violations).toEqual([
+        { path: '/email', code: ErrorCodes.VAL_REQUIRED_FIELD, message: 'Required' },
+      ]);
+    });
+
+    it('should pass options to Joi and convert its error', async () => {
+      const calls: unknown[] = [];
+      const schema = {
+        validate: (value: unknown, options?: Record<string, unknown>) => {
+          calls.push(options);
+          return {
+            value,
+            error: {
+              details: [{ message: '"name" is required', path: ['name'], type: 'any.required' }],
+            },
+          };
+        },
+      };
+
+      const result = await SchemaValidator.validate(schema, {}, { stripUnknown: true });
+
+      expect(calls).toEqual([{ abortEarly: false, stripUnknown: true }]);
+      expect(result.violations[0]).toMatchObject({
+        path: '/name',
+        code: ErrorCodes.VAL_REQUIRED_FIELD,
+      });
+    });
+
+    it('should rethrow Zod and Joi errors that are not validation failures', async () => {
+      const zod = { safeParse: () => ({ success: false, error: new Error('zod exploded') }) };
+      const joi = { validate: (value: unknown) => ({ value, error: new Error('joi exploded') }) };
+
+      await expect(SchemaValidator.validate(zod, {})).rejects.toThrow('zod exploded');
+      await expect(SchemaValidator.validate(joi, {})).rejects.toThrow('joi exploded');
+    });
+
+    it('should convert Yup validation errors and rethrow other errors', async () => {
+      const yupError = Object.assign(new Error('age must be a number'), {
+        name: 'ValidationError',
+        errors: ['age must be a number'],
+        inner: [],
+        path: 'age',
+        type: 'typeError',
+        value: 'x',
+      });
+      const failing = { __isYupSchema__: true, validate: () => Promise.reject(yupError) };
+      const broken = {
+        __isYupSchema__: true,
+        validate: () => Promise.reject(new Error('boom')),
+      };
+
+      const result = await SchemaValidator.validate(failing, { age: 'x' });
+
+      expect(result.violations[0]).toMatchObject({
+        path: '/age',
+        code: ErrorCodes.VAL_INVALID_FORMAT,
+        rejectedValue: 'x',
+      });
+      await expect(SchemaValidator.validate(broken, {})).rejects.toThrow('boom');
+    });
+  });
+});